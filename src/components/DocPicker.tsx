@@ -1,31 +1,33 @@
-import { useEffect, useRef, useState } from "react";
-import { useQuery } from "@tanstack/react-query";
-import { listDocuments, type DocumentMeta } from "../lib/supabaseDb.ts";
-import { documentsQueryKey } from "../lib/queryKeys.ts";
-import { useAuthUser } from "../lib/useAuthUser.ts";
-import { useSelectedDoc } from "../lib/useSelectedDoc.ts";
+import { useEffect, useMemo, useRef, useState } from "react";
+import type { DocumentMeta } from "../lib/supabaseDb.ts";
+import {
+  createDefaultLibraryFilter,
+  filterLibraryDocuments,
+  groupLibraryDocuments,
+  type LibraryFilter,
+} from "../lib/libraryModels.ts";
+import { LibraryFilterBar } from "./library/LibraryFilterBar.tsx";
+import { useLibraryCollections } from "./library/useLibraryCollections.ts";
 import "./DocPicker.css";
 
 interface DocPickerProps {
-  onSelect?: () => void;
+  docId: string | null;
+  /** Called only when a different document is picked. */
+  onSelect: (docId: string) => void;
 }
 
-export function DocPicker({ onSelect }: DocPickerProps) {
-  const { docId, setDocId } = useSelectedDoc();
-  const user = useAuthUser();
-  const userId = user?.id ?? null;
+export function DocPicker({ docId, onSelect }: DocPickerProps) {
   const [isOpen, setIsOpen] = useState(false);
+  const [filter, setFilter] = useState<LibraryFilter>(createDefaultLibraryFilter);
   const containerRef = useRef<HTMLDivElement | null>(null);
+  const { documents, folders, tags } = useLibraryCollections();
 
-  const documentsQuery = useQuery({
-    queryKey: documentsQueryKey(userId),
-    queryFn: listDocuments,
-    staleTime: 30_000,
-    enabled: !!userId,
-  });
-
-  const documents = documentsQuery.data ?? [];
   const selectedName = documents.find((d) => d.id === docId)?.name ?? null;
+  const groups = useMemo(
+    () => groupLibraryDocuments(filterLibraryDocuments(documents, filter), folders),
+    [documents, filter, folders],
+  );
+  const hasFolders = folders.length > 0;
 
   useEffect(() => {
     if (!isOpen) return;
@@ -41,11 +43,9 @@ export function DocPicker({ onSelect }: DocPickerProps) {
   }, [isOpen]);
 
   function handleSelect(doc: DocumentMeta) {
-    const changed = doc.id !== docId;
-    setDocId(doc.id);
     setIsOpen(false);
-    if (changed && onSelect) {
-      onSelect();
+    if (doc.id !== docId) {
+      onSelect(doc.id);
     }
   }
 
@@ -65,19 +65,40 @@ export function DocPicker({ onSelect }: DocPickerProps) {
           {documents.length === 0 ? (
             <p className="doc-picker-empty">No documents uploaded yet.</p>
           ) : (
-            <ul className="doc-picker-list">
-              {documents.map((doc) => (
-                <li key={doc.id}>
-                  <button
-                    type="button"
-                    className={`doc-picker-item${doc.id === docId ? " is-active" : ""}`}
-                    onClick={() => handleSelect(doc)}
-                  >
-                    {doc.name}
-                  </button>
-                </li>
+            <>
+              {hasFolders || tags.length > 0 ? (
+                <div className="doc-picker-filters">
+                  <LibraryFilterBar
+                    folders={folders}
+                    tags={tags}
+                    documents={documents}
+                    filter={filter}
+                    onChange={setFilter}
+                  />
+                </div>
+              ) : null}
+              {groups.length === 0 ? (
+                <p className="doc-picker-empty">No documents match these filters.</p>
+              ) : null}
+              {groups.map((group) => (
+                <div className="doc-picker-group" key={group.key}>
+                  {hasFolders ? <p className="doc-picker-group-title">{group.label}</p> : null}
+                  <ul className="doc-picker-list">
+                    {group.documents.map((doc) => (
+                      <li key={doc.id}>
+                        <button
+                          type="button"
+                          className={`doc-picker-item${doc.id === docId ? " is-active" : ""}`}
+                          onClick={() => handleSelect(doc)}
+                        >
+                          {doc.name}
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
               ))}
-            </ul>
+            </>
           )}
         </div>
       ) : null}
@@ -4,6 +4,7 @@ import { Link, useLocation, useNavigate } from "@tanstack/react-router";
 import { useQueryClient } from "@tanstack/react-query";
 import { supabase } from "../lib/supabase.ts";
 import { useSelectedDoc } from "../lib/useSelectedDoc.ts";
+import { SyncStatusIndicator } from "./sync/SyncStatusIndicator.tsx";
 import "./Navbar.css";
 
 interface NavbarProps {
@@ -132,6 +133,7 @@ export function Navbar({ user }: NavbarProps) {
       </header>
       {user ? (
         <div className="user-corner">
+          <SyncStatusIndicator userId={user.id} />
           <span className="nav-user">{username ?? "User"}</span>
           <button
             className="nav-button"
@@ -0,0 +1,146 @@
+import { useState } from "react";
+import type { FormEvent } from "react";
+import {
+  DEFAULT_CHUNK_OPTIONS,
+  MAX_CHUNK_TARGET_TOKENS,
+  MIN_CHUNK_TARGET_TOKENS,
+  normalizeChunkOptions,
+  toChunkJsonl,
+  type ChunkOptions,
+} from "../../lib/chunkModels.ts";
+import { downloadTextFile } from "../../lib/download.ts";
+import type { TokenEncodingDefinition } from "../../lib/tokenModels.ts";
+import { AsciiLoader } from "../AsciiLoader.tsx";
+import { useChunkSession } from "./useChunkSession.ts";
+import "./ChunkView.css";
+
+interface ChunkViewProps {
+  docId: string;
+  docToken: string;
+  documentName: string;
+  markdown: string;
+  encoding: TokenEncodingDefinition;
+  onOpenLine: (line: number) => void;
+}
+
+export function ChunkView({
+  docId,
+  docToken,
+  documentName,
+  markdown,
+  encoding,
+  onOpenLine,
+}: ChunkViewProps) {
+  const [options, setOptions] = useState<ChunkOptions>(DEFAULT_CHUNK_OPTIONS);
+  const [targetInput, setTargetInput] = useState(String(DEFAULT_CHUNK_OPTIONS.targetTokens));
+  const [overlapInput, setOverlapInput] = useState(String(DEFAULT_CHUNK_OPTIONS.overlapTokens));
+  const session = useChunkSession({ docToken, markdown, encoding, options });
+  const { chunks, totalTokens } = session.chunkedDocument;
+  const oversizedCount = chunks.filter((chunk) => chunk.tokenCount > options.targetTokens).length;
+
+  function handleApply(event: FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    const nextOptions = normalizeChunkOptions({
+      targetTokens: Number(targetInput),
+      overlapTokens: Number(overlapInput),
+    });
+
+    setOptions(nextOptions);
+    setTargetInput(String(nextOptions.targetTokens));
+    setOverlapInput(String(nextOptions.overlapTokens));
+  }
+
+  function handleExport() {
+    const baseName = documentName.replace(/\.(md|markdown)$/i, "") || "document";
+    downloadTextFile(
+      `${baseName}.chunks.jsonl`,
+      toChunkJsonl(docId, chunks),
+      "application/jsonl;charset=utf-8",
+    );
+  }
+
+  return (
+    <div className="chunk-view">
+      <form className="chunk-view-toolbar" onSubmit={handleApply}>
+        <label className="chunk-view-field">
+          <span>Target</span>
+          <input
+            className="chunk-view-input"
+            type="number"
+            min={MIN_CHUNK_TARGET_TOKENS}
+            max={MAX_CHUNK_TARGET_TOKENS}
+            value={targetInput}
+            onChange={(event) => setTargetInput(event.target.value)}
+          />
+        </label>
+        <label className="chunk-view-field">
+          <span>Overlap</span>
+          <input
+            className="chunk-view-input"
+            type="number"
+            min={0}
+            value={overlapInput}
+            onChange={(event) => setOverlapInput(event.target.value)}
+          />
+        </label>
+        <button type="submit" className="chunk-view-button">
+          Apply
+        </button>
+        <button
+          type="button"
+          className="chunk-view-button"
+          onClick={handleExport}
+          disabled={session.status !== "ready" || chunks.length === 0}
+        >
+          Export JSONL
+        </button>
+        <p className="chunk-view-summary">
+          {chunks.length.toLocaleString()} chunks · {totalTokens.toLocaleString()} {encoding.label} tokens
+          {oversizedCount > 0 ? ` · ${oversizedCount} over target` : ""}
+        </p>
+      </form>
+
+      {session.status === "error" ? (
+        <p className="status error" role="status">
+          {session.errorMessage ?? "Chunking failed."}
+        </p>
+      ) : session.status === "chunking" && chunks.length === 0 ? (
+        <div className="chunk-view-loading">
+          <AsciiLoader label={`Chunking markdown with ${encoding.label} rules...`} />
+        </div>
+      ) : chunks.length === 0 ? (
+        <p className="chunk-view-empty">This document has no content to chunk.</p>
+      ) : (
+        <ol className={`chunk-view-list${session.status === "chunking" ? " is-stale" : ""}`}>
+          {chunks.map((chunk) => (
+            <li
+              key={chunk.chunkIndex}
+              className={`chunk-view-card${
+                chunk.tokenCount > options.targetTokens ? " is-oversized" : ""
+              }`}
+            >
+              <div className="chunk-view-card-header">
+                <span className="chunk-view-card-index">#{chunk.chunkIndex}</span>
+                <button
+                  type="button"
+                  className="chunk-view-card-lines"
+                  onClick={() => onOpenLine(chunk.startLine)}
+                  title="Open in the rendered view"
+                >
+                  Lines {chunk.startLine}–{chunk.endLine}
+                </button>
+                <span className="chunk-view-card-tokens">
+                  {chunk.tokenCount.toLocaleString()} tok
+                </span>
+              </div>
+              {chunk.headingPath.length > 0 ? (
+                <p className="chunk-view-card-path">{chunk.headingPath.join(" › ")}</p>
+              ) : null}
+              <pre className="chunk-view-card-text">{chunk.text}</pre>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
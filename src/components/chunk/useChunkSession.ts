@@ -0,0 +1,127 @@
+import { useEffect, useReducer, useRef } from "react";
+import {
+  EMPTY_CHUNKED_DOCUMENT,
+  type ChunkOptions,
+  type ChunkedDocument,
+} from "../../lib/chunkModels.ts";
+import type { TokenEncodingSpec } from "../../lib/tokenModels.ts";
+import type { TokenWorkerRequest, TokenWorkerResponse } from "../../lib/tokenWorkerMessages.ts";
+
+interface UseChunkSessionArgs {
+  docToken: string;
+  markdown: string;
+  encoding: TokenEncodingSpec;
+  options: ChunkOptions;
+}
+
+type ChunkSessionStatus = "chunking" | "ready" | "error";
+
+interface ChunkSessionState {
+  status: ChunkSessionStatus;
+  chunkedDocument: ChunkedDocument;
+  errorMessage: string | null;
+}
+
+type ChunkSessionAction =
+  | { type: "chunking" }
+  | { type: "ready"; result: ChunkedDocument }
+  | { type: "error"; message: string };
+
+const DEFAULT_CHUNK_SESSION_STATE: ChunkSessionState = {
+  status: "chunking",
+  chunkedDocument: EMPTY_CHUNKED_DOCUMENT,
+  errorMessage: null,
+};
+
+const WORKER_INIT_ERROR_MESSAGE = "Unable to initialize tokenizer worker.";
+
+function chunkSessionReducer(
+  state: ChunkSessionState,
+  action: ChunkSessionAction,
+): ChunkSessionState {
+  if (action.type === "chunking") {
+    // Keep the previous chunks visible while options change.
+    if (state.status === "chunking" && !state.errorMessage) return state;
+    return { ...state, status: "chunking", errorMessage: null };
+  }
+
+  if (action.type === "ready") {
+    return { status: "ready", chunkedDocument: action.result, errorMessage: null };
+  }
+
+  return {
+    status: "error",
+    chunkedDocument: EMPTY_CHUNKED_DOCUMENT,
+    errorMessage: action.message,
+  };
+}
+
+/** Runs chunking on a dedicated token worker so it never queues behind the token view. */
+export function useChunkSession({ docToken, markdown, encoding, options }: UseChunkSessionArgs) {
+  const { id: encodingId, rankUrl } = encoding;
+  const { targetTokens, overlapTokens } = options;
+  const [state, dispatch] = useReducer(chunkSessionReducer, DEFAULT_CHUNK_SESSION_STATE);
+  const workerRef = useRef<Worker | null>(null);
+  const requestIdRef = useRef(0);
+
+  useEffect(() => {
+    let worker: Worker;
+
+    try {
+      worker = new Worker(new URL("../../lib/tokenWorker.ts", import.meta.url), {
+        type: "module",
+      });
+    } catch (error) {
+      console.error("Failed to create chunk worker:", error);
+      dispatch({ type: "error", message: WORKER_INIT_ERROR_MESSAGE });
+      return;
+    }
+
+    worker.onmessage = (event: MessageEvent<TokenWorkerResponse>) => {
+      const message = event.data;
+      if (message.id !== requestIdRef.current) return;
+
+      if (message.type === "chunk-error") {
+        dispatch({ type: "error", message: message.message });
+        return;
+      }
+
+      if (message.type !== "chunk-result") return;
+      dispatch({ type: "ready", result: message.result });
+    };
+
+    worker.onerror = (error) => {
+      console.error("Chunk worker error:", error);
+    };
+
+    workerRef.current = worker;
+
+    return () => {
+      worker.terminate();
+      workerRef.current = null;
+    };
+  }, []);
+
+  useEffect(() => {
+    const worker = workerRef.current;
+    if (!worker) return;
+
+    const id = ++requestIdRef.current;
+    const messages: TokenWorkerRequest[] = [
+      { type: "set-document", docKey: docToken, markdown },
+      {
+        type: "chunk",
+        id,
+        encoding: { id: encodingId, rankUrl },
+        options: { targetTokens, overlapTokens },
+      },
+    ];
+
+    dispatch({ type: "chunking" });
+    for (const message of messages) {
+      worker.postMessage(message);
+    }
+  }, [docToken, markdown, encodingId, rankUrl, targetTokens, overlapTokens]);
+
+  return state;
+}
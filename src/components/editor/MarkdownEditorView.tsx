@@ -0,0 +1,107 @@
+import { useDeferredValue, useMemo } from "react";
+import ReactMarkdown from "react-markdown";
+import { formatBytes } from "../../lib/format.ts";
+import { maskFrontMatter, parseFrontMatter } from "../../lib/frontMatter.ts";
+import {
+  markdownComponentsConfig,
+  rehypePluginsConfig,
+  remarkPluginsConfig,
+} from "../markdown/markdownPlugins.ts";
+import "./MarkdownEditorView.css";
+
+interface MarkdownEditorViewProps {
+  markdown: string;
+  isDirty: boolean;
+  /** The stored body changed elsewhere since editing started. */
+  hasConflict: boolean;
+  isSaving: boolean;
+  saveError: string | null;
+  onChange: (markdown: string) => void;
+  onSave: () => void;
+  onDiscard: () => void;
+  onKeepDraft: () => void;
+}
+
+export function MarkdownEditorView({
+  markdown,
+  isDirty,
+  hasConflict,
+  isSaving,
+  saveError,
+  onChange,
+  onSave,
+  onDiscard,
+  onKeepDraft,
+}: MarkdownEditorViewProps) {
+  const previewMarkdown = useDeferredValue(markdown);
+  const renderedPreviewMarkdown = useMemo(
+    () => maskFrontMatter(previewMarkdown, parseFrontMatter(previewMarkdown)),
+    [previewMarkdown],
+  );
+  const lineCount = markdown ? markdown.split(/\r?\n/).length : 0;
+
+  return (
+    <div className="editor-view">
+      <div className="editor-toolbar">
+        <button
+          type="button"
+          className="editor-button"
+          onClick={onSave}
+          disabled={!isDirty || hasConflict || isSaving}
+        >
+          {isSaving ? "Saving..." : "Save"}
+        </button>
+        <button
+          type="button"
+          className="editor-button"
+          onClick={onDiscard}
+          disabled={!isDirty || isSaving}
+        >
+          Discard
+        </button>
+        <p className="editor-status">
+          {isDirty ? "Unsaved changes" : "All changes saved"} · {lineCount} lines ·{" "}
+          {formatBytes(new Blob([markdown]).size)} · Mod+S to save
+        </p>
+      </div>
+
+      {hasConflict ? (
+        <div className="editor-conflict" role="alert">
+          <p className="editor-conflict-message">
+            This document was saved elsewhere while you were editing. Keep your edits to overwrite
+            that version, or discard them to load it.
+          </p>
+          <button type="button" className="editor-button" onClick={onKeepDraft}>
+            Keep my edits
+          </button>
+          <button type="button" className="editor-button" onClick={onDiscard}>
+            Discard my edits
+          </button>
+        </div>
+      ) : saveError ? (
+        <p className="status error" role="status">
+          {saveError}
+        </p>
+      ) : null}
+
+      <div className="editor-panes">
+        <textarea
+          className="editor-source"
+          value={markdown}
+          onChange={(event) => onChange(event.target.value)}
+          spellCheck={false}
+          aria-label="Markdown source"
+        />
+        <div className="editor-preview markdown-output" aria-label="Rendered preview">
+          <ReactMarkdown
+            components={markdownComponentsConfig}
+            remarkPlugins={remarkPluginsConfig}
+            rehypePlugins={rehypePluginsConfig}
+          >
+            {renderedPreviewMarkdown}
+          </ReactMarkdown>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,157 @@
+import { useCallback, useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useBlocker } from "@tanstack/react-router";
+import {
+  documentQueryKey,
+  documentRevisionsQueryKey,
+  documentsQueryKey,
+  storageUsageQueryKey,
+} from "../../lib/queryKeys.ts";
+import {
+  MAX_MARKDOWN_BYTES,
+  putDocument,
+  type StoredDocument,
+} from "../../lib/supabaseDb.ts";
+import { getSearchDocId } from "../../lib/routeSearch.ts";
+import { useAuthUser } from "../../lib/useAuthUser.ts";
+
+interface UseEditorSessionArgs {
+  document: StoredDocument | null;
+}
+
+interface EditorDraft {
+  markdown: string;
+  /** The stored version the edits started from, to tell refetches from real conflicts. */
+  baseUpdatedAt: string;
+  baseMarkdown: string;
+}
+
+export const UNSAVED_CHANGES_MESSAGE =
+  "You have unsaved markdown changes. Leave without saving?";
+
+export function useEditorSession({ document }: UseEditorSessionArgs) {
+  const queryClient = useQueryClient();
+  const user = useAuthUser();
+  const userId = user?.id ?? null;
+  const [draft, setDraft] = useState<EditorDraft | null>(null);
+  const [saveError, setSaveError] = useState<string | null>(null);
+
+  // Leaving a document (confirmed by the blocker below) drops its draft, so
+  // coming back via history starts from the stored body.
+  const documentId = document?.id ?? null;
+  const [draftDocumentId, setDraftDocumentId] = useState(documentId);
+  if (documentId !== null && documentId !== draftDocumentId) {
+    setDraftDocumentId(documentId);
+    setDraft(null);
+    setSaveError(null);
+  }
+
+  const savedMarkdown = document?.markdown ?? "";
+  const draftMarkdown = draft?.markdown ?? savedMarkdown;
+  const isDirty = Boolean(document) && draftMarkdown !== savedMarkdown;
+  // A refetch that only bumps `updatedAt` (sync replay, metadata change) keeps
+  // the draft as is; a different body saved elsewhere needs a decision.
+  const hasConflict =
+    isDirty &&
+    draft !== null &&
+    document !== null &&
+    document.updatedAt !== draft.baseUpdatedAt &&
+    savedMarkdown !== draft.baseMarkdown;
+
+  useBlocker({
+    // Mode and slide changes stay on the same document, so only leaving the
+    // page or switching documents can lose the draft.
+    shouldBlockFn: ({ current, next }) =>
+      isDirty &&
+      (next.pathname !== current.pathname ||
+        getSearchDocId(next.search) !== getSearchDocId(current.search)) &&
+      !window.confirm(UNSAVED_CHANGES_MESSAGE),
+    enableBeforeUnload: () => isDirty,
+  });
+
+  const saveMutation = useMutation<StoredDocument, Error, StoredDocument>({
+    mutationFn: putDocument,
+    onSuccess: async (savedDocument) => {
+      setSaveError(null);
+      // Edits typed while the save was in flight stay, on top of the saved version.
+      setDraft((current) =>
+        current && current.markdown !== savedDocument.markdown
+          ? {
+            ...current,
+            baseUpdatedAt: savedDocument.updatedAt,
+            baseMarkdown: savedDocument.markdown,
+          }
+          : null
+      );
+      queryClient.setQueryData(documentQueryKey(userId, savedDocument.id), savedDocument);
+      await queryClient.invalidateQueries({ queryKey: documentsQueryKey(userId) });
+      await queryClient.invalidateQueries({
+        queryKey: documentRevisionsQueryKey(userId, savedDocument.id),
+      });
+      await queryClient.invalidateQueries({ queryKey: storageUsageQueryKey(userId) });
+    },
+    onError: (error) => setSaveError(error.message),
+  });
+
+  const baseUpdatedAt = document?.updatedAt ?? "";
+
+  const updateDraft = useCallback((markdown: string) => {
+    setDraft((current) => ({
+      markdown,
+      baseUpdatedAt: current?.baseUpdatedAt ?? baseUpdatedAt,
+      baseMarkdown: current?.baseMarkdown ?? savedMarkdown,
+    }));
+  }, [baseUpdatedAt, savedMarkdown]);
+
+  const discardDraft = useCallback(() => {
+    setSaveError(null);
+    setDraft(null);
+  }, []);
+
+  /** Resolves a conflict in favour of the draft; the next save overwrites the newer version. */
+  const keepDraft = useCallback(() => {
+    setDraft((current) => current
+      ? { ...current, baseUpdatedAt, baseMarkdown: savedMarkdown }
+      : null);
+  }, [baseUpdatedAt, savedMarkdown]);
+
+  function save() {
+    if (!document || !isDirty || hasConflict || saveMutation.isPending) return;
+
+    const validationError = validateDraft(draftMarkdown);
+    if (validationError) {
+      setSaveError(validationError);
+      return;
+    }
+
+    saveMutation.mutate({
+      ...document,
+      markdown: draftMarkdown,
+      sizeBytes: new Blob([draftMarkdown]).size,
+    });
+  }
+
+  return {
+    draftMarkdown,
+    isDirty,
+    hasConflict,
+    isSaving: saveMutation.isPending,
+    saveError,
+    updateDraft,
+    discardDraft,
+    keepDraft,
+    save,
+  };
+}
+
+function validateDraft(markdown: string): string | null {
+  if (!markdown.trim()) {
+    return "Document is empty. Add some markdown before saving.";
+  }
+
+  if (new Blob([markdown]).size > MAX_MARKDOWN_BYTES) {
+    return "Document exceeds the 5MB limit.";
+  }
+
+  return null;
+}
@@ -0,0 +1,104 @@
+import { useState } from "react";
+import type { SlideExportOptions } from "../../lib/documentExport.ts";
+import "./DocumentExportMenu.css";
+
+interface DocumentExportMenuProps {
+  documentName: string;
+  markdown: string;
+  slideOptions: SlideExportOptions;
+}
+
+type ExportFormat = "html" | "deck" | "print-document" | "print-slides";
+
+const EXPORT_FORMATS: Array<{ format: ExportFormat; label: string }> = [
+  { format: "html", label: "HTML document" },
+  { format: "deck", label: "HTML slide deck" },
+  { format: "print-document", label: "Print / PDF document" },
+  { format: "print-slides", label: "Print / PDF slides" },
+];
+
+export function DocumentExportMenu({
+  documentName,
+  markdown,
+  slideOptions,
+}: DocumentExportMenuProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+
+  async function handleExport(format: ExportFormat) {
+    setIsExporting(true);
+    setErrorMessage(null);
+
+    try {
+      // The renderer pulls in react-dom/server, so load it only when exporting.
+      const {
+        buildDocumentHtml,
+        buildPrintHtml,
+        buildSlideDeckHtml,
+        downloadHtmlFile,
+        openPrintWindow,
+        toExportFileName,
+      } = await import("../../lib/documentExport.ts");
+
+      if (format === "html") {
+        downloadHtmlFile(toExportFileName(documentName), await buildDocumentHtml(documentName, markdown));
+      } else if (format === "deck") {
+        downloadHtmlFile(
+          toExportFileName(documentName, "-slides"),
+          await buildSlideDeckHtml(documentName, markdown, slideOptions),
+        );
+      } else {
+        openPrintWindow(await buildPrintHtml(
+          documentName,
+          markdown,
+          format === "print-slides" ? slideOptions : null,
+        ));
+      }
+
+      setIsOpen(false);
+    } catch (error) {
+      setErrorMessage(error instanceof Error ? error.message : "Export failed.");
+    } finally {
+      setIsExporting(false);
+    }
+  }
+
+  return (
+    <div className="export-menu">
+      <button
+        type="button"
+        className={`viewer-traverse-button${isOpen ? " is-active" : ""}`}
+        onClick={() => setIsOpen((previous) => !previous)}
+        aria-expanded={isOpen}
+      >
+        Export
+      </button>
+      {isOpen ? (
+        <div className="export-menu-panel" role="menu">
+          {EXPORT_FORMATS.map(({ format, label }) => (
+            <button
+              key={format}
+              type="button"
+              role="menuitem"
+              className="export-menu-item"
+              onClick={() => void handleExport(format)}
+              disabled={isExporting}
+            >
+              {label}
+            </button>
+          ))}
+          <p className="export-menu-note">
+            Slides use {Math.round(slideOptions.fontScale * 100)}% text and the{" "}
+            {slideOptions.layoutMode} layout.
+          </p>
+          {errorMessage ? (
+            <p className="status error" role="status">
+              {errorMessage}
+            </p>
+          ) : null}
+        </div>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,101 @@
+import { useState } from "react";
+import type { FormEvent } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { setDocumentFolder, setDocumentTags } from "../../lib/libraryDb.ts";
+import { normalizeTag, type DocumentFolder } from "../../lib/libraryModels.ts";
+import { documentsQueryKey } from "../../lib/queryKeys.ts";
+import type { DocumentMeta } from "../../lib/supabaseDb.ts";
+import { useAuthUser } from "../../lib/useAuthUser.ts";
+import "./DocumentOrganizer.css";
+
+interface DocumentOrganizerProps {
+  document: DocumentMeta;
+  folders: DocumentFolder[];
+}
+
+/** Inline folder picker and tag editor for one library document. */
+export function DocumentOrganizer({ document, folders }: DocumentOrganizerProps) {
+  const queryClient = useQueryClient();
+  const user = useAuthUser();
+  const userId = user?.id ?? null;
+  const [tagInput, setTagInput] = useState("");
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+
+  const folderMutation = useMutation<void, Error, string | null>({
+    mutationFn: (folderId) => setDocumentFolder(document.id, folderId),
+    onSuccess: async () => {
+      setErrorMessage(null);
+      await queryClient.invalidateQueries({ queryKey: documentsQueryKey(userId) });
+    },
+    onError: (error) => setErrorMessage(error.message),
+  });
+
+  const tagsMutation = useMutation<string[], Error, string[]>({
+    mutationFn: (tags) => setDocumentTags(document.id, tags),
+    onSuccess: async () => {
+      setErrorMessage(null);
+      setTagInput("");
+      await queryClient.invalidateQueries({ queryKey: documentsQueryKey(userId) });
+    },
+    onError: (error) => setErrorMessage(error.message),
+  });
+
+  const isSaving = folderMutation.isPending || tagsMutation.isPending;
+
+  function handleAddTag(event: FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    const tag = normalizeTag(tagInput);
+    if (!tag || document.tags.includes(tag)) {
+      setTagInput("");
+      return;
+    }
+    tagsMutation.mutate([...document.tags, tag]);
+  }
+
+  return (
+    <div className="document-organizer">
+      <select
+        className="document-organizer-folder"
+        value={document.folderId ?? ""}
+        onChange={(event) => folderMutation.mutate(event.target.value || null)}
+        disabled={isSaving}
+        aria-label={`Folder for ${document.name}`}
+      >
+        <option value="">Unfiled</option>
+        {folders.map((folder) => (
+          <option key={folder.id} value={folder.id}>
+            {folder.name}
+          </option>
+        ))}
+      </select>
+      <ul className="document-organizer-tags">
+        {document.tags.map((tag) => (
+          <li key={tag} className="document-organizer-tag">
+            #{tag}
+            <button
+              type="button"
+              className="document-organizer-tag-remove"
+              onClick={() => tagsMutation.mutate(document.tags.filter((value) => value !== tag))}
+              disabled={isSaving}
+              aria-label={`Remove tag ${tag}`}
+            >
+              ×
+            </button>
+          </li>
+        ))}
+      </ul>
+      <form className="document-organizer-form" onSubmit={handleAddTag}>
+        <input
+          className="document-organizer-input"
+          type="text"
+          value={tagInput}
+          onChange={(event) => setTagInput(event.target.value)}
+          placeholder="+ tag"
+          disabled={isSaving}
+          aria-label={`Add tag to ${document.name}`}
+        />
+      </form>
+      {errorMessage ? <span className="document-organizer-error">{errorMessage}</span> : null}
+    </div>
+  );
+}
@@ -0,0 +1,95 @@
+import { useState } from "react";
+import type { FormEvent } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { createFolder, deleteFolder } from "../../lib/libraryDb.ts";
+import type { DocumentFolder } from "../../lib/libraryModels.ts";
+import { documentFoldersQueryKey, documentsQueryKey } from "../../lib/queryKeys.ts";
+import { useAuthUser } from "../../lib/useAuthUser.ts";
+import "./FolderManager.css";
+
+interface FolderManagerProps {
+  folders: DocumentFolder[];
+  onFolderDeleted?: (folderId: string) => void;
+}
+
+export function FolderManager({ folders, onFolderDeleted }: FolderManagerProps) {
+  const queryClient = useQueryClient();
+  const user = useAuthUser();
+  const userId = user?.id ?? null;
+  const [name, setName] = useState("");
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+
+  const createMutation = useMutation<DocumentFolder, Error, string>({
+    mutationFn: createFolder,
+    onSuccess: async () => {
+      setErrorMessage(null);
+      setName("");
+      await queryClient.invalidateQueries({ queryKey: documentFoldersQueryKey(userId) });
+    },
+    onError: (error) => setErrorMessage(error.message),
+  });
+
+  const deleteMutation = useMutation<void, Error, string>({
+    mutationFn: deleteFolder,
+    onSuccess: async (_result, folderId) => {
+      setErrorMessage(null);
+      onFolderDeleted?.(folderId);
+      await queryClient.invalidateQueries({ queryKey: documentFoldersQueryKey(userId) });
+      await queryClient.invalidateQueries({ queryKey: documentsQueryKey(userId) });
+    },
+    onError: (error) => setErrorMessage(error.message),
+  });
+
+  function handleSubmit(event: FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    if (!name.trim()) return;
+    createMutation.mutate(name);
+  }
+
+  return (
+    <div className="folder-manager">
+      <form className="folder-manager-form" onSubmit={handleSubmit}>
+        <input
+          className="folder-manager-input"
+          type="text"
+          value={name}
+          onChange={(event) => setName(event.target.value)}
+          placeholder="New folder"
+          maxLength={80}
+          disabled={createMutation.isPending}
+          aria-label="New folder name"
+        />
+        <button
+          type="submit"
+          className="folder-manager-button"
+          disabled={createMutation.isPending || !name.trim()}
+        >
+          Add folder
+        </button>
+      </form>
+      {folders.length > 0 ? (
+        <ul className="folder-manager-list">
+          {folders.map((folder) => (
+            <li key={folder.id} className="folder-manager-item">
+              {folder.name}
+              <button
+                type="button"
+                className="folder-manager-remove"
+                onClick={() => deleteMutation.mutate(folder.id)}
+                disabled={deleteMutation.isPending}
+                aria-label={`Delete folder ${folder.name}`}
+              >
+                ×
+              </button>
+            </li>
+          ))}
+        </ul>
+      ) : null}
+      {errorMessage ? (
+        <p className="status error" role="status">
+          {errorMessage}
+        </p>
+      ) : null}
+    </div>
+  );
+}
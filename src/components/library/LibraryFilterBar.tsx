@@ -0,0 +1,145 @@
+import { useMemo } from "react";
+import {
+  SORT_BY_NAME,
+  SORT_BY_UPDATED,
+  UNFILED_FOLDER_FILTER,
+  collectMetadataFields,
+  collectMetadataValues,
+  metadataSortKey,
+  type DocumentFolder,
+  type LibraryFilter,
+  type LibrarySort,
+} from "../../lib/libraryModels.ts";
+import type { DocumentMeta } from "../../lib/supabaseDb.ts";
+import "./LibraryFilterBar.css";
+
+interface LibraryFilterBarProps {
+  folders: DocumentFolder[];
+  tags: string[];
+  /** Source of the front-matter fields and values offered as filters. */
+  documents: DocumentMeta[];
+  filter: LibraryFilter;
+  onChange: (filter: LibraryFilter) => void;
+  isGrouped?: boolean;
+  onToggleGrouped?: () => void;
+  sort?: LibrarySort;
+  onSortChange?: (sort: LibrarySort) => void;
+}
+
+export function LibraryFilterBar({
+  folders,
+  tags,
+  documents,
+  filter,
+  onChange,
+  isGrouped,
+  onToggleGrouped,
+  sort,
+  onSortChange,
+}: LibraryFilterBarProps) {
+  const metadataFields = useMemo(() => collectMetadataFields(documents), [documents]);
+  const metadataValues = useMemo(
+    () => (filter.metadataField ? collectMetadataValues(documents, filter.metadataField) : []),
+    [documents, filter.metadataField],
+  );
+
+  return (
+    <div className="library-filter-bar" role="group" aria-label="Library filters">
+      <select
+        className="library-filter-select"
+        value={filter.folderId ?? ""}
+        onChange={(event) => onChange({ ...filter, folderId: event.target.value || null })}
+        aria-label="Filter by folder"
+      >
+        <option value="">All folders</option>
+        <option value={UNFILED_FOLDER_FILTER}>Unfiled</option>
+        {folders.map((folder) => (
+          <option key={folder.id} value={folder.id}>
+            {folder.name}
+          </option>
+        ))}
+      </select>
+      <select
+        className="library-filter-select"
+        value={filter.tag ?? ""}
+        onChange={(event) => onChange({ ...filter, tag: event.target.value || null })}
+        aria-label="Filter by tag"
+        disabled={tags.length === 0}
+      >
+        <option value="">All tags</option>
+        {tags.map((tag) => (
+          <option key={tag} value={tag}>
+            #{tag}
+          </option>
+        ))}
+      </select>
+      {metadataFields.length > 0 ? (
+        <select
+          className="library-filter-select"
+          value={filter.metadataField ?? ""}
+          onChange={(event) =>
+            onChange({ ...filter, metadataField: event.target.value || null, metadataValue: null })}
+          aria-label="Filter by front-matter field"
+        >
+          <option value="">Any metadata</option>
+          {metadataFields.map((field) => (
+            <option key={field} value={field}>
+              has {field}
+            </option>
+          ))}
+        </select>
+      ) : null}
+      {filter.metadataField ? (
+        <select
+          className="library-filter-select"
+          value={filter.metadataValue ?? ""}
+          onChange={(event) => onChange({ ...filter, metadataValue: event.target.value || null })}
+          aria-label={`Filter by ${filter.metadataField}`}
+        >
+          <option value="">Any {filter.metadataField}</option>
+          {metadataValues.map((value) => (
+            <option key={value} value={value}>
+              {value}
+            </option>
+          ))}
+        </select>
+      ) : null}
+      {sort && onSortChange ? (
+        <>
+          <select
+            className="library-filter-select"
+            value={sort.key}
+            onChange={(event) => onSortChange({ ...sort, key: event.target.value })}
+            aria-label="Sort documents"
+          >
+            <option value={SORT_BY_UPDATED}>Sort: last updated</option>
+            <option value={SORT_BY_NAME}>Sort: name</option>
+            {metadataFields.map((field) => (
+              <option key={field} value={metadataSortKey(field)}>
+                Sort: {field}
+              </option>
+            ))}
+          </select>
+          <button
+            type="button"
+            className="library-filter-toggle"
+            onClick={() =>
+              onSortChange({ ...sort, direction: sort.direction === "asc" ? "desc" : "asc" })}
+            aria-label={sort.direction === "asc" ? "Sort descending" : "Sort ascending"}
+          >
+            {sort.direction === "asc" ? "↑ Asc" : "↓ Desc"}
+          </button>
+        </>
+      ) : null}
+      {onToggleGrouped ? (
+        <button
+          type="button"
+          className={`library-filter-toggle${isGrouped ? " is-active" : ""}`}
+          onClick={onToggleGrouped}
+        >
+          Group by folder
+        </button>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,37 @@
+import { useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { listFolders } from "../../lib/libraryDb.ts";
+import { collectLibraryTags } from "../../lib/libraryModels.ts";
+import { documentFoldersQueryKey, documentsQueryKey } from "../../lib/queryKeys.ts";
+import { listDocuments } from "../../lib/supabaseDb.ts";
+import { useAuthUser } from "../../lib/useAuthUser.ts";
+
+export function useLibraryCollections() {
+  const user = useAuthUser();
+  const userId = user?.id ?? null;
+
+  const documentsQuery = useQuery({
+    queryKey: documentsQueryKey(userId),
+    queryFn: listDocuments,
+    staleTime: 30_000,
+    enabled: !!userId,
+  });
+  const foldersQuery = useQuery({
+    queryKey: documentFoldersQueryKey(userId),
+    queryFn: listFolders,
+    staleTime: 30_000,
+    enabled: !!userId,
+  });
+
+  const documents = useMemo(() => documentsQuery.data ?? [], [documentsQuery.data]);
+  const folders = useMemo(() => foldersQuery.data ?? [], [foldersQuery.data]);
+  const tags = useMemo(() => collectLibraryTags(documents), [documents]);
+
+  return {
+    documentsQuery,
+    foldersQuery,
+    documents,
+    folders,
+    tags,
+  };
+}
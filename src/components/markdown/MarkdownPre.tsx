@@ -0,0 +1,14 @@
+import type { ComponentProps } from "react";
+import type { ExtraProps } from "react-markdown";
+import { MermaidDiagram } from "./MermaidDiagram.tsx";
+import { getMermaidSource } from "./markdownNodes.ts";
+
+type MarkdownPreProps = ComponentProps<"pre"> & ExtraProps;
+
+/** Code blocks render as-is, except ` ```mermaid ` blocks, which become diagrams. */
+export function MarkdownPre({ node, ...props }: MarkdownPreProps) {
+  const mermaidSource = getMermaidSource(node);
+  if (mermaidSource !== null) return <MermaidDiagram source={mermaidSource} className={props.className} />;
+
+  return <pre {...props} />;
+}
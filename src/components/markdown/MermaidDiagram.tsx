@@ -0,0 +1,71 @@
+import { useEffect, useId, useState } from "react";
+import type { ComponentProps } from "react";
+import { loadMermaid } from "./mermaidLoader.ts";
+import "./MermaidDiagram.css";
+
+type MermaidDiagramProps = Omit<ComponentProps<"div">, "children"> & {
+  source: string;
+};
+
+interface RenderedDiagram {
+  source: string;
+  svg: string | null;
+  error: string | null;
+}
+
+export function MermaidDiagram({ source, className, ...props }: MermaidDiagramProps) {
+  // useId() contains colons, which Mermaid cannot use in the selectors it generates.
+  const diagramId = `mermaid-${useId().replace(/[^a-zA-Z0-9_-]/g, "")}`;
+  const [rendered, setRendered] = useState<RenderedDiagram | null>(null);
+
+  useEffect(() => {
+    let isCancelled = false;
+
+    loadMermaid()
+      .then((mermaid) => mermaid.render(diagramId, source))
+      .then(
+        ({ svg }) => {
+          if (!isCancelled) setRendered({ source, svg, error: null });
+        },
+        (error: unknown) => {
+          if (isCancelled) return;
+          setRendered({
+            source,
+            svg: null,
+            error: error instanceof Error ? error.message : "Failed to render diagram.",
+          });
+        },
+      );
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [diagramId, source]);
+
+  // A previous source's result is stale once the block is edited.
+  const current = rendered?.source === source ? rendered : null;
+  const classNames = ["mermaid-diagram", current?.error ? "is-error" : undefined, className]
+    .filter(Boolean)
+    .join(" ");
+
+  if (current?.svg) {
+    return (
+      <div
+        {...props}
+        className={classNames}
+        role="img"
+        aria-label="Mermaid diagram"
+        dangerouslySetInnerHTML={{ __html: current.svg }}
+      />
+    );
+  }
+
+  return (
+    <div {...props} className={classNames}>
+      {current?.error ? <p className="mermaid-diagram-error">Diagram error: {current.error}</p> : null}
+      <pre className="mermaid-diagram-source">
+        <code>{source}</code>
+      </pre>
+    </div>
+  );
+}
@@ -0,0 +1,172 @@
+import { memo, useCallback, useMemo } from "react";
+import type { RefObject } from "react";
+import ReactMarkdown, { type Components } from "react-markdown";
+import type { PluggableList } from "unified";
+import type { MarkdownBlock } from "../../lib/traverseModels.ts";
+import { useVirtualWindow } from "../virtual/useVirtualWindow.ts";
+import "./VirtualizedMarkdown.css";
+
+interface VirtualizedMarkdownProps {
+  markdown: string;
+  blocks: MarkdownBlock[];
+  definitionLines: number[];
+  components: Components;
+  remarkPlugins: PluggableList;
+  rehypePlugins: PluggableList;
+  scrollElementRef: RefObject<HTMLElement | null>;
+  resetKey: string;
+  /** Source line whose block stays mounted, so traverse and `?line=` targets can be found. */
+  focusLine: number | null;
+}
+
+interface MarkdownBlockViewProps {
+  index: number;
+  source: string;
+  lineOffset: number;
+  components: Components;
+  remarkPlugins: PluggableList;
+  rehypePlugins: PluggableList;
+  measureElement: (element: HTMLElement | null) => (() => void) | undefined;
+}
+
+interface PositionedNode {
+  type: string;
+  children?: PositionedNode[];
+  position?: {
+    start?: {
+      line?: number;
+    };
+    end?: {
+      line?: number;
+    };
+  };
+}
+
+const ESTIMATED_LINE_HEIGHT_PX = 26;
+const ESTIMATED_BLOCK_GAP_PX = 18;
+
+/**
+ * Renders each top-level block as its own markdown tree and mounts only the
+ * blocks near the viewport. Line numbers are shifted back to document lines,
+ * so `data-traverse-line` matches what the full render would produce.
+ */
+export function VirtualizedMarkdown({
+  markdown,
+  blocks,
+  definitionLines,
+  components,
+  remarkPlugins,
+  rehypePlugins,
+  scrollElementRef,
+  resetKey,
+  focusLine,
+}: VirtualizedMarkdownProps) {
+  const lines = useMemo(() => markdown.split(/\r?\n/), [markdown]);
+  const definitionSource = useMemo(
+    () => definitionLines.map((line) => lines[line - 1] ?? "").join("\n"),
+    [definitionLines, lines],
+  );
+  const estimateSize = useCallback((index: number) => {
+    const block = blocks[index];
+    if (!block) return ESTIMATED_LINE_HEIGHT_PX;
+    return (block.endLine - block.startLine + 1) * ESTIMATED_LINE_HEIGHT_PX + ESTIMATED_BLOCK_GAP_PX;
+  }, [blocks]);
+  const pinnedIndex = focusLine === null ? null : findBlockIndexAtLine(blocks, focusLine);
+  const { listRef, segments, measureElement } = useVirtualWindow({
+    count: blocks.length,
+    estimateSize,
+    scrollElementRef,
+    resetKey,
+    pinnedIndex,
+  });
+
+  return (
+    <div className="virtual-markdown" ref={listRef}>
+      {segments.map((segment) => {
+        if (segment.type === "spacer") {
+          return (
+            <div
+              key={segment.key}
+              className="virtual-markdown-spacer"
+              style={{ height: segment.height }}
+              aria-hidden="true"
+            />
+          );
+        }
+
+        const block = blocks[segment.index]!;
+        const blockSource = lines.slice(block.startLine - 1, block.endLine).join("\n");
+
+        return (
+          <MarkdownBlockView
+            key={block.key}
+            index={segment.index}
+            source={definitionSource ? `${blockSource}\n\n${definitionSource}` : blockSource}
+            lineOffset={block.startLine - 1}
+            components={components}
+            remarkPlugins={remarkPlugins}
+            rehypePlugins={rehypePlugins}
+            measureElement={measureElement}
+          />
+        );
+      })}
+    </div>
+  );
+}
+
+const MarkdownBlockView = memo(function MarkdownBlockView({
+  index,
+  source,
+  lineOffset,
+  components,
+  remarkPlugins,
+  rehypePlugins,
+  measureElement,
+}: MarkdownBlockViewProps) {
+  const plugins = useMemo<PluggableList>(
+    () => [...remarkPlugins, [remarkShiftLines, lineOffset]],
+    [lineOffset, remarkPlugins],
+  );
+
+  return (
+    <div className="virtual-markdown-block" data-virtual-index={index} ref={measureElement}>
+      <ReactMarkdown components={components} remarkPlugins={plugins} rehypePlugins={rehypePlugins}>
+        {source}
+      </ReactMarkdown>
+    </div>
+  );
+});
+
+function remarkShiftLines(lineOffset: number) {
+  return (tree: PositionedNode) => {
+    if (lineOffset > 0) shiftNodeLines(tree, lineOffset);
+  };
+}
+
+function shiftNodeLines(node: PositionedNode, lineOffset: number) {
+  if (typeof node.position?.start?.line === "number") node.position.start.line += lineOffset;
+  if (typeof node.position?.end?.line === "number") node.position.end.line += lineOffset;
+
+  for (const child of node.children ?? []) {
+    shiftNodeLines(child, lineOffset);
+  }
+}
+
+/** Last block starting at or before `line`. */
+function findBlockIndexAtLine(blocks: MarkdownBlock[], line: number): number | null {
+  let low = 0;
+  let high = blocks.length - 1;
+  let match: number | null = null;
+
+  while (low <= high) {
+    const middle = (low + high) >> 1;
+    if (blocks[middle]!.startLine <= line) {
+      match = middle;
+      low = middle + 1;
+    } else {
+      high = middle - 1;
+    }
+  }
+
+  return match;
+}
@@ -0,0 +1,68 @@
+import type { ExtraProps } from "react-markdown";
+
+/* ── Hast helpers for math blocks and Mermaid sources ── */
+
+interface HastNode {
+  type: string;
+  tagName?: string;
+  value?: string;
+  properties?: Record<string, unknown>;
+  children?: HastNode[];
+  position?: unknown;
+}
+
+/** Wrapper around a `$$` block, which keeps the source position KaTeX's output drops. */
+export const MATH_BLOCK_CLASS_NAME = "math-block";
+
+/** Source of a ` ```mermaid ` block, or null for any other `<pre>`. */
+export function getMermaidSource(node: ExtraProps["node"] | undefined): string | null {
+  const code = node?.children.find(
+    (child) => child.type === "element" && child.tagName === "code",
+  ) as HastNode | undefined;
+  if (!code || !hasClassName(code, "language-mermaid")) return null;
+
+  return extractText(code).replace(/\n$/, "");
+}
+
+export function isMathBlockClassName(className: string | undefined): boolean {
+  return className?.split(/\s+/).includes(MATH_BLOCK_CLASS_NAME) ?? false;
+}
+
+/** Runs before KaTeX so `$$` blocks can still be addressed by line. */
+export function rehypeWrapMathBlocks() {
+  return (tree: HastNode) => {
+    wrapMathBlocks(tree);
+  };
+}
+
+function wrapMathBlocks(node: HastNode) {
+  const children = node.children ?? [];
+
+  for (let index = 0; index < children.length; index += 1) {
+    const child = children[index]!;
+    const code = child.tagName === "pre" ? child.children?.[0] : undefined;
+
+    if (code && hasClassName(code, "math-display")) {
+      children[index] = {
+        type: "element",
+        tagName: "div",
+        properties: { className: [MATH_BLOCK_CLASS_NAME] },
+        children: [child],
+        position: child.position,
+      };
+      continue;
+    }
+
+    wrapMathBlocks(child);
+  }
+}
+
+function hasClassName(node: HastNode, className: string): boolean {
+  const value = node.properties?.className;
+  return Array.isArray(value) && value.includes(className);
+}
+
+function extractText(node: HastNode): string {
+  if (node.type === "text") return node.value ?? "";
+  return (node.children ?? []).map(extractText).join("");
+}
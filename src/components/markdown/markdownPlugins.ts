@@ -0,0 +1,25 @@
+import type { Components } from "react-markdown";
+import rehypeHighlight from "rehype-highlight";
+import rehypeKatex from "rehype-katex";
+import remarkGfm from "remark-gfm";
+import remarkMath from "remark-math";
+import type { PluggableList } from "unified";
+import { MarkdownPre } from "./MarkdownPre.tsx";
+import { rehypeWrapMathBlocks } from "./markdownNodes.ts";
+import "katex/dist/katex.min.css";
+import "./markdownHighlight.css";
+
+/* ── Shared plugins for views that render math, highlighted code and diagrams ── */
+
+export const remarkPluginsConfig: PluggableList = [remarkGfm, remarkMath];
+
+// Mermaid sources stay plain text so the diagram component can read them back.
+export const rehypePluginsConfig: PluggableList = [
+  rehypeWrapMathBlocks,
+  [rehypeKatex, { errorColor: "#f2a3a3" }],
+  [rehypeHighlight, { plainText: ["mermaid"] }],
+];
+
+export const markdownComponentsConfig: Components = {
+  pre: MarkdownPre,
+};
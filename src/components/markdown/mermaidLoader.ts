@@ -0,0 +1,18 @@
+import type { Mermaid } from "mermaid";
+
+let mermaidPromise: Promise<Mermaid> | null = null;
+
+/** Mermaid is large, so it is only fetched once a document contains a diagram. */
+export function loadMermaid(): Promise<Mermaid> {
+  mermaidPromise ??= import("mermaid").then(({ default: mermaid }) => {
+    mermaid.initialize({
+      startOnLoad: false,
+      theme: "dark",
+      // Strips scripts and click handlers from diagram labels; documents can be shared.
+      securityLevel: "strict",
+    });
+    return mermaid;
+  });
+
+  return mermaidPromise;
+}
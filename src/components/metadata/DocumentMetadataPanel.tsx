@@ -0,0 +1,58 @@
+import { useState } from "react";
+import type { FrontMatter } from "../../lib/frontMatter.ts";
+import "./DocumentMetadataPanel.css";
+
+interface DocumentMetadataPanelProps {
+  frontMatter: FrontMatter | null;
+}
+
+/** Front-matter is hidden from every rendered view, so this is where it can be read. */
+export function DocumentMetadataPanel({ frontMatter }: DocumentMetadataPanelProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const entries = frontMatter ? Object.entries(frontMatter.data) : [];
+
+  return (
+    <div className="metadata-panel">
+      <button
+        type="button"
+        className={`viewer-traverse-button${isOpen ? " is-active" : ""}`}
+        onClick={() => setIsOpen((previous) => !previous)}
+        aria-expanded={isOpen}
+      >
+        Metadata{entries.length > 0 ? ` (${entries.length})` : ""}
+      </button>
+      {isOpen ? (
+        <div className="metadata-panel-body" role="region" aria-label="Document metadata">
+          {entries.length === 0 ? (
+            <p className="metadata-panel-empty">
+              This document has no front-matter. Add a <code>---</code> block at the top with{" "}
+              <code>key: value</code> lines.
+            </p>
+          ) : (
+            <dl className="metadata-panel-list">
+              {entries.map(([key, value]) => (
+                <div key={key} className="metadata-panel-entry">
+                  <dt>{key}</dt>
+                  <dd>
+                    {Array.isArray(value) ? (
+                      <ul className="metadata-panel-values">
+                        {value.map((item, index) => (
+                          <li key={`${item}-${index}`}>{item}</li>
+                        ))}
+                      </ul>
+                    ) : (
+                      value || <span className="metadata-panel-blank">(empty)</span>
+                    )}
+                  </dd>
+                </div>
+              ))}
+            </dl>
+          )}
+          {frontMatter ? (
+            <p className="metadata-panel-note">Lines 1–{frontMatter.endLine} of the source.</p>
+          ) : null}
+        </div>
+      ) : null}
+    </div>
+  );
+}
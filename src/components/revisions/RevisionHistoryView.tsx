@@ -0,0 +1,264 @@
+import { useMemo, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { EMPTY_LINE_DIFF } from "../../lib/diffModels.ts";
+import { formatBytes, formatDate } from "../../lib/format.ts";
+import { diffLines } from "../../lib/lineDiff.ts";
+import {
+  documentQueryKey,
+  documentRevisionQueryKey,
+  documentRevisionsQueryKey,
+  documentsQueryKey,
+  storageUsageQueryKey,
+} from "../../lib/queryKeys.ts";
+import {
+  getDocumentRevision,
+  listDocumentRevisions,
+  pruneDocumentRevisions,
+  restoreDocumentRevision,
+  type StoredDocument,
+} from "../../lib/supabaseDb.ts";
+import { useAuthUser } from "../../lib/useAuthUser.ts";
+import { AsciiLoader } from "../AsciiLoader.tsx";
+import "./RevisionHistoryView.css";
+
+// Pruning keeps this many of the newest revisions, the current one included.
+const PRUNE_KEEP_COUNT = 10;
+
+interface RevisionHistoryViewProps {
+  documentId: string;
+}
+
+export function RevisionHistoryView({ documentId }: RevisionHistoryViewProps) {
+  const queryClient = useQueryClient();
+  const user = useAuthUser();
+  const userId = user?.id ?? null;
+  const [baseRevisionId, setBaseRevisionId] = useState<string | null>(null);
+  const [compareRevisionId, setCompareRevisionId] = useState<string | null>(null);
+  const [restoreError, setRestoreError] = useState<string | null>(null);
+  const [pruneError, setPruneError] = useState<string | null>(null);
+
+  const revisionsQuery = useQuery({
+    queryKey: documentRevisionsQueryKey(userId, documentId),
+    queryFn: () => listDocumentRevisions(documentId),
+    staleTime: 30_000,
+    enabled: !!userId,
+  });
+
+  const revisions = useMemo(() => revisionsQuery.data ?? [], [revisionsQuery.data]);
+  const latestRevisionId = revisions[0]?.id ?? null;
+  const resolvedCompareId = resolveRevisionId(revisions, compareRevisionId, 0);
+  const resolvedBaseId = resolveRevisionId(revisions, baseRevisionId, 1) ?? resolvedCompareId;
+
+  const baseQuery = useQuery({
+    queryKey: documentRevisionQueryKey(userId, resolvedBaseId),
+    queryFn: () => getDocumentRevision(resolvedBaseId!),
+    staleTime: Infinity,
+    enabled: !!userId && !!resolvedBaseId,
+  });
+  const compareQuery = useQuery({
+    queryKey: documentRevisionQueryKey(userId, resolvedCompareId),
+    queryFn: () => getDocumentRevision(resolvedCompareId!),
+    staleTime: Infinity,
+    enabled: !!userId && !!resolvedCompareId,
+  });
+
+  const baseRevision = baseQuery.data ?? null;
+  const compareRevision = compareQuery.data ?? null;
+
+  const lineDiff = useMemo(
+    () => baseRevision && compareRevision
+      ? diffLines(baseRevision.markdown, compareRevision.markdown)
+      : EMPTY_LINE_DIFF,
+    [baseRevision, compareRevision],
+  );
+
+  const restoreMutation = useMutation<StoredDocument, Error, string>({
+    mutationFn: restoreDocumentRevision,
+    onSuccess: async (savedDocument) => {
+      setRestoreError(null);
+      setBaseRevisionId(null);
+      setCompareRevisionId(null);
+      await queryClient.invalidateQueries({
+        queryKey: documentRevisionsQueryKey(userId, savedDocument.id),
+      });
+      await queryClient.invalidateQueries({
+        queryKey: documentQueryKey(userId, savedDocument.id),
+      });
+      await queryClient.invalidateQueries({ queryKey: documentsQueryKey(userId) });
+      await queryClient.invalidateQueries({ queryKey: storageUsageQueryKey(userId) });
+    },
+    onError: (error) => setRestoreError(error.message),
+  });
+
+  const pruneMutation = useMutation<number, Error, void>({
+    mutationFn: () => pruneDocumentRevisions(documentId, PRUNE_KEEP_COUNT),
+    onSuccess: async () => {
+      setPruneError(null);
+      setBaseRevisionId(null);
+      setCompareRevisionId(null);
+      await queryClient.invalidateQueries({
+        queryKey: documentRevisionsQueryKey(userId, documentId),
+      });
+      await queryClient.invalidateQueries({ queryKey: storageUsageQueryKey(userId) });
+    },
+    onError: (error) => setPruneError(error.message),
+  });
+
+  function handlePrune() {
+    const prunedCount = revisions.length - PRUNE_KEEP_COUNT;
+    if (!window.confirm(
+      `Delete the ${prunedCount} oldest revision${prunedCount === 1 ? "" : "s"}? This frees their storage and cannot be undone.`,
+    )) {
+      return;
+    }
+
+    pruneMutation.mutate();
+  }
+
+  if (revisionsQuery.isPending) {
+    return (
+      <div className="revision-history revision-history-state">
+        <AsciiLoader label="Loading revisions..." />
+      </div>
+    );
+  }
+
+  if (revisionsQuery.error) {
+    return (
+      <div className="revision-history revision-history-state">
+        <p className="revision-history-message">{revisionsQuery.error.message}</p>
+      </div>
+    );
+  }
+
+  if (revisions.length === 0) {
+    return (
+      <div className="revision-history revision-history-state">
+        <p className="revision-history-message">No revisions recorded for this document yet.</p>
+      </div>
+    );
+  }
+
+  const isDiffLoading = baseQuery.isPending || compareQuery.isPending;
+
+  return (
+    <div className="revision-history">
+      <aside className="revision-list-panel" aria-label="Document revisions">
+        <div className="revision-list-heading">
+          <p className="revision-list-title">History</p>
+          {revisions.length > PRUNE_KEEP_COUNT ? (
+            <button
+              type="button"
+              className="revision-prune-button"
+              onClick={handlePrune}
+              disabled={pruneMutation.isPending}
+            >
+              {pruneMutation.isPending ? "Pruning..." : `Keep latest ${PRUNE_KEEP_COUNT}`}
+            </button>
+          ) : null}
+        </div>
+        <p className="revision-list-meta">
+          {revisions.length} revision{revisions.length === 1 ? "" : "s"} · A = base · B = compare
+        </p>
+        <ul className="revision-list">
+          {revisions.map((revision) => {
+            const isLatest = revision.id === latestRevisionId;
+
+            return (
+              <li key={revision.id} className="revision-list-item">
+                <div className="revision-list-info">
+                  <span className="revision-list-number">r{revision.revisionNumber}</span>
+                  <span className="revision-list-date">{formatDate(revision.createdAt)}</span>
+                  <span className="revision-list-size">
+                    {formatBytes(revision.sizeBytes)}
+                    {isLatest ? " · current" : ""}
+                  </span>
+                </div>
+                <div className="revision-list-actions">
+                  <button
+                    type="button"
+                    className={`revision-pick-button${
+                      revision.id === resolvedBaseId ? " is-active" : ""
+                    }`}
+                    onClick={() => setBaseRevisionId(revision.id)}
+                    aria-label={`Use revision ${revision.revisionNumber} as diff base`}
+                  >
+                    A
+                  </button>
+                  <button
+                    type="button"
+                    className={`revision-pick-button${
+                      revision.id === resolvedCompareId ? " is-active" : ""
+                    }`}
+                    onClick={() => setCompareRevisionId(revision.id)}
+                    aria-label={`Compare against revision ${revision.revisionNumber}`}
+                  >
+                    B
+                  </button>
+                  <button
+                    type="button"
+                    className="revision-restore-button"
+                    onClick={() => restoreMutation.mutate(revision.id)}
+                    disabled={isLatest || restoreMutation.isPending}
+                  >
+                    Restore
+                  </button>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+        {restoreError || pruneError ? (
+          <p className="status error" role="status">
+            {restoreError ?? pruneError}
+          </p>
+        ) : null}
+      </aside>
+
+      <div className="revision-diff-panel">
+        <header className="revision-diff-header">
+          <span>
+            r{baseRevision?.revisionNumber ?? "?"} → r{compareRevision?.revisionNumber ?? "?"}
+          </span>
+          <span className="revision-diff-added">+{lineDiff.addedCount}</span>
+          <span className="revision-diff-removed">-{lineDiff.removedCount}</span>
+          {lineDiff.isApproximate ? (
+            <span className="revision-diff-note">too many changes for a line-level match</span>
+          ) : null}
+        </header>
+        {isDiffLoading ? (
+          <div className="revision-history-state">
+            <AsciiLoader label="Loading diff..." />
+          </div>
+        ) : lineDiff.addedCount === 0 && lineDiff.removedCount === 0 ? (
+          <p className="revision-history-message">These revisions are identical.</p>
+        ) : (
+          <div className="revision-diff" role="table" aria-label="Line diff">
+            {lineDiff.lines.map((line, index) => (
+              <div className={`revision-diff-line is-${line.type}`} key={index} role="row">
+                <span className="revision-diff-number">{line.oldLine ?? ""}</span>
+                <span className="revision-diff-number">{line.newLine ?? ""}</span>
+                <span className="revision-diff-sign">
+                  {line.type === "added" ? "+" : line.type === "removed" ? "-" : " "}
+                </span>
+                <span className="revision-diff-text">{line.text}</span>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function resolveRevisionId(
+  revisions: Array<{ id: string }>,
+  preferredId: string | null,
+  fallbackIndex: number,
+): string | null {
+  if (preferredId && revisions.some((revision) => revision.id === preferredId)) {
+    return preferredId;
+  }
+
+  return revisions[fallbackIndex]?.id ?? null;
+}
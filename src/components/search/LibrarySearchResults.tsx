@@ -0,0 +1,132 @@
+import { useState } from "react";
+import { highlightPreview } from "./highlightPreview.tsx";
+import type { LibrarySearchResult, SearchOptions } from "./types.ts";
+import "./LibrarySearchResults.css";
+
+const COLLAPSED_MATCH_COUNT = 8;
+
+interface LibrarySearchResultsProps {
+  hasActiveSearch: boolean;
+  trimmedQuery: string;
+  options: SearchOptions;
+  result: LibrarySearchResult;
+  documentNames: Map<string, string>;
+  onOpenMatch: (docId: string, lineNumber: number) => void;
+  /** Requests the next page of a document's matches from the worker. */
+  onLoadMore: (docId: string) => void;
+}
+
+export function LibrarySearchResults({
+  hasActiveSearch,
+  trimmedQuery,
+  options,
+  result,
+  documentNames,
+  onOpenMatch,
+  onLoadMore,
+}: LibrarySearchResultsProps) {
+  const [expandedDocIds, setExpandedDocIds] = useState<Set<string>>(() => new Set());
+
+  function toggleExpanded(docId: string) {
+    setExpandedDocIds((current) => {
+      const next = new Set(current);
+      if (next.has(docId)) {
+        next.delete(docId);
+      } else {
+        next.add(docId);
+      }
+      return next;
+    });
+  }
+
+  return (
+    <div className="search-results">
+      {!hasActiveSearch ? (
+        <p className="empty">Select a tag filter or type a search query.</p>
+      ) : result.errorMessage ? (
+        <p className="empty">Fix the search pattern to view matches.</p>
+      ) : result.documents.length === 0 ? (
+        <p className="empty">No matching lines found in the library.</p>
+      ) : (
+        <div className="library-search-groups">
+          {result.documents.map((documentResult) => {
+            const isExpanded = expandedDocIds.has(documentResult.docId);
+            const visibleMatches = isExpanded
+              ? documentResult.matches
+              : documentResult.matches.slice(0, COLLAPSED_MATCH_COUNT);
+            const hiddenCount = documentResult.totalMatchedLines - visibleMatches.length;
+            const unloadedCount = documentResult.totalMatchedLines - documentResult.matches.length;
+
+            return (
+              <section className="library-search-group" key={documentResult.docId}>
+                <header className="library-search-group-header">
+                  <h3 className="library-search-group-title">
+                    {documentNames.get(documentResult.docId) ?? "Untitled document"}
+                  </h3>
+                  <span className="library-search-group-count">
+                    {trimmedQuery
+                      ? `${documentResult.totalOccurrences.toLocaleString()} match${
+                        documentResult.totalOccurrences === 1 ? "" : "es"
+                      }`
+                      : `${documentResult.totalMatchedLines.toLocaleString()} line${
+                        documentResult.totalMatchedLines === 1 ? "" : "s"
+                      }`}
+                  </span>
+                </header>
+                <ul className="search-result-list">
+                  {visibleMatches.map((match) => (
+                    <li key={`${match.lineNumber}-${match.preview}`}>
+                      <button
+                        type="button"
+                        className="search-result-item library-search-hit"
+                        onClick={() => onOpenMatch(documentResult.docId, match.lineNumber)}
+                      >
+                        <p className="search-result-meta">
+                          Line {match.lineNumber}
+                          {match.headingPath.length > 0 ? ` · ${match.headingPath.join(" › ")}` : ""}
+                          {trimmedQuery ? (
+                            <>
+                              {" "}
+                              · {match.occurrences} match
+                              {match.occurrences === 1 ? "" : "es"}
+                              {match.score !== null ? ` · relevance ${match.score.toFixed(2)}` : ""}
+                            </>
+                          ) : null}
+                        </p>
+                        <pre className="search-result-preview">
+                          {trimmedQuery
+                            ? highlightPreview(match.preview, trimmedQuery, options, match.highlights)
+                            : match.preview}
+                        </pre>
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+                {documentResult.totalMatchedLines > COLLAPSED_MATCH_COUNT ? (
+                  <div className="library-search-more-row">
+                    <button
+                      type="button"
+                      className="library-search-more"
+                      onClick={() => toggleExpanded(documentResult.docId)}
+                    >
+                      {isExpanded ? "Show fewer" : `Show ${hiddenCount.toLocaleString()} more`}
+                    </button>
+                    {isExpanded && unloadedCount > 0 ? (
+                      <button
+                        type="button"
+                        className="library-search-more"
+                        onClick={() => onLoadMore(documentResult.docId)}
+                      >
+                        Load more ({unloadedCount.toLocaleString()} left)
+                      </button>
+                    ) : null}
+                  </div>
+                ) : null}
+              </section>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,56 @@
+import type { LibraryIndexStatus } from "./useSearchSession.ts";
+import type { LibrarySearchResult } from "./types.ts";
+import "./SearchSummary.css";
+
+interface LibrarySearchSummaryProps {
+  hasActiveSearch: boolean;
+  hasActiveTags: boolean;
+  trimmedQuery: string;
+  result: LibrarySearchResult;
+  indexStatus: LibraryIndexStatus;
+}
+
+export function LibrarySearchSummary({
+  hasActiveSearch,
+  hasActiveTags,
+  trimmedQuery,
+  result,
+  indexStatus,
+}: LibrarySearchSummaryProps) {
+  const isIndexing = indexStatus.indexedCount < indexStatus.totalCount;
+  const documentCount = result.documents.length;
+
+  return (
+    <div className="search-summary" role="status" aria-live="polite">
+      {hasActiveSearch ? (
+        <span>
+          {hasActiveTags && !trimmedQuery ? (
+            <>
+              {result.totalMatchedLines.toLocaleString()} tagged line
+              {result.totalMatchedLines === 1 ? "" : "s"}
+            </>
+          ) : (
+            <>
+              {result.totalOccurrences.toLocaleString()} match
+              {result.totalOccurrences === 1 ? "" : "es"} across{" "}
+              {result.totalMatchedLines.toLocaleString()} line
+              {result.totalMatchedLines === 1 ? "" : "s"}
+            </>
+          )}{" "}
+          in {documentCount.toLocaleString()} of {result.searchedDocuments.toLocaleString()}{" "}
+          document{result.searchedDocuments === 1 ? "" : "s"}
+        </span>
+      ) : (
+        <span className="hint">Search every document in your library.</span>
+      )}
+      {indexStatus.errorMessage ? (
+        <span className="hint">Indexing failed: {indexStatus.errorMessage}</span>
+      ) : isIndexing ? (
+        <span className="hint">
+          Indexing {indexStatus.indexedCount.toLocaleString()} /{" "}
+          {indexStatus.totalCount.toLocaleString()} documents...
+        </span>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,124 @@
+import { MAX_REPLACE_PREVIEW_MATCHES, type ReplacePreview } from "./types.ts";
+import "./ReplacePreviewList.css";
+
+interface ReplacePreviewListProps {
+  trimmedQuery: string;
+  preview: ReplacePreview;
+  excludedIds: Set<string>;
+  selectedCount: number;
+  isApplying: boolean;
+  errorMessage: string | null;
+  statusMessage: string | null;
+  onToggleMatch: (matchId: string) => void;
+  onSetAllSelected: (isSelected: boolean) => void;
+  onApplySelected: () => void;
+  onApplyAll: () => void;
+}
+
+export function ReplacePreviewList({
+  trimmedQuery,
+  preview,
+  excludedIds,
+  selectedCount,
+  isApplying,
+  errorMessage,
+  statusMessage,
+  onToggleMatch,
+  onSetAllSelected,
+  onApplySelected,
+  onApplyAll,
+}: ReplacePreviewListProps) {
+  return (
+    <div className="replace-preview">
+      <div className="replace-preview-toolbar">
+        <button
+          type="button"
+          className="replace-preview-button"
+          onClick={() => onSetAllSelected(true)}
+          disabled={isApplying || preview.matches.length === 0}
+        >
+          Select all
+        </button>
+        <button
+          type="button"
+          className="replace-preview-button"
+          onClick={() => onSetAllSelected(false)}
+          disabled={isApplying || selectedCount === 0}
+        >
+          Select none
+        </button>
+        <span className="replace-preview-divider" />
+        <button
+          type="button"
+          className="replace-preview-button is-primary"
+          onClick={onApplySelected}
+          disabled={isApplying || selectedCount === 0}
+        >
+          Replace selected ({selectedCount.toLocaleString()})
+        </button>
+        <button
+          type="button"
+          className="replace-preview-button is-primary"
+          onClick={onApplyAll}
+          disabled={isApplying || preview.totalMatches === 0}
+        >
+          Replace all ({preview.totalMatches.toLocaleString()})
+        </button>
+        {isApplying ? <span className="replace-preview-status">Saving...</span> : null}
+        {statusMessage && !isApplying ? (
+          <span className="replace-preview-status">{statusMessage}</span>
+        ) : null}
+      </div>
+
+      {errorMessage ? (
+        <p className="status error" role="status">
+          {errorMessage}
+        </p>
+      ) : null}
+
+      {preview.isTruncated ? (
+        <p className="replace-preview-note">
+          Previewing the first {MAX_REPLACE_PREVIEW_MATCHES.toLocaleString()} matches. Replace all
+          also rewrites the rest.
+        </p>
+      ) : null}
+
+      {!trimmedQuery ? (
+        <p className="empty">Type a search string to preview replacements.</p>
+      ) : preview.errorMessage ? (
+        <p className="empty">Fix the search pattern to preview replacements.</p>
+      ) : preview.matches.length === 0 ? (
+        <p className="empty">No matches to replace.</p>
+      ) : (
+        <ul className="replace-preview-list">
+          {preview.matches.map((match) => {
+            const isSelected = !excludedIds.has(match.id);
+
+            return (
+              <li
+                key={match.id}
+                className={`replace-preview-item${isSelected ? "" : " is-excluded"}`}
+              >
+                <label className="replace-preview-meta">
+                  <input
+                    type="checkbox"
+                    checked={isSelected}
+                    onChange={() => onToggleMatch(match.id)}
+                    disabled={isApplying}
+                  />
+                  Line {match.lineNumber}, column {match.column + 1}
+                </label>
+                <pre className="replace-preview-diff">
+                  {match.contextBefore}
+                  <del className="replace-preview-removed">{match.matchText}</del>
+                  <ins className="replace-preview-added">{match.replacement}</ins>
+                  {match.contextAfter}
+                </pre>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
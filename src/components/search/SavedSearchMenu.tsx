@@ -0,0 +1,190 @@
+import { useState } from "react";
+import type { FormEvent } from "react";
+import {
+  MAX_SAVED_SEARCH_NAME_LENGTH,
+  describeSearchOptions,
+  type SavedSearch,
+} from "../../lib/savedSearchModels.ts";
+import "./SavedSearchMenu.css";
+
+export interface SavedSearchMenuProps {
+  savedSearches: SavedSearch[];
+  recentSearches: SavedSearch[];
+  canSave: boolean;
+  isSaving: boolean;
+  isUpdating: boolean;
+  errorMessage: string | null;
+  onSave: (name: string, callbacks: { onSuccess: () => void }) => void;
+  onApply: (search: SavedSearch) => void;
+  onTogglePinned: (search: SavedSearch) => void;
+  onDelete: (searchId: string) => void;
+}
+
+export function SavedSearchMenu({
+  savedSearches,
+  recentSearches,
+  canSave,
+  isSaving,
+  isUpdating,
+  errorMessage,
+  onSave,
+  onApply,
+  onTogglePinned,
+  onDelete,
+}: SavedSearchMenuProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [name, setName] = useState("");
+  const pinnedSearches = savedSearches.filter((search) => search.isPinned);
+
+  function handleSubmit(event: FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    if (!name.trim() || !canSave) return;
+    onSave(name, { onSuccess: () => setName("") });
+  }
+
+  return (
+    <div className="saved-search-menu">
+      <div className="saved-search-bar">
+        <button
+          type="button"
+          className={`search-toggle${isOpen ? " is-active" : ""}`}
+          onClick={() => setIsOpen((current) => !current)}
+          aria-expanded={isOpen}
+        >
+          Saved searches ({savedSearches.length})
+        </button>
+        {pinnedSearches.map((search) => (
+          <button
+            key={search.id}
+            type="button"
+            className="saved-search-pinned"
+            onClick={() => onApply(search)}
+            title={search.query}
+          >
+            {search.name}
+          </button>
+        ))}
+      </div>
+
+      {isOpen ? (
+        <div className="saved-search-panel">
+          <form className="saved-search-form" onSubmit={handleSubmit}>
+            <input
+              className="saved-search-input"
+              type="text"
+              value={name}
+              onChange={(event) => setName(event.target.value)}
+              placeholder={canSave ? "Name this search" : "Type a search to save it"}
+              maxLength={MAX_SAVED_SEARCH_NAME_LENGTH}
+              disabled={!canSave || isSaving}
+              aria-label="Saved search name"
+            />
+            <button
+              type="submit"
+              className="saved-search-button"
+              disabled={!canSave || isSaving || !name.trim()}
+            >
+              Save search
+            </button>
+          </form>
+
+          <SavedSearchList
+            title="Saved"
+            emptyLabel="No saved searches yet."
+            searches={savedSearches}
+            isUpdating={isUpdating}
+            onApply={onApply}
+            onTogglePinned={onTogglePinned}
+            onDelete={onDelete}
+          />
+          <SavedSearchList
+            title="Recent"
+            emptyLabel="Searches you run show up here."
+            searches={recentSearches}
+            isUpdating={isUpdating}
+            onApply={onApply}
+            onDelete={onDelete}
+          />
+
+          {errorMessage ? (
+            <p className="status error" role="status">
+              {errorMessage}
+            </p>
+          ) : null}
+        </div>
+      ) : null}
+    </div>
+  );
+}
+
+interface SavedSearchListProps {
+  title: string;
+  emptyLabel: string;
+  searches: SavedSearch[];
+  isUpdating: boolean;
+  onApply: (search: SavedSearch) => void;
+  onTogglePinned?: (search: SavedSearch) => void;
+  onDelete: (searchId: string) => void;
+}
+
+function SavedSearchList({
+  title,
+  emptyLabel,
+  searches,
+  isUpdating,
+  onApply,
+  onTogglePinned,
+  onDelete,
+}: SavedSearchListProps) {
+  return (
+    <section className="saved-search-section" aria-label={`${title} searches`}>
+      <h3 className="saved-search-title">{title}</h3>
+      {searches.length === 0 ? (
+        <p className="saved-search-empty">{emptyLabel}</p>
+      ) : (
+        <ul className="saved-search-list">
+          {searches.map((search) => {
+            const optionLabel = describeSearchOptions(search.options);
+
+            return (
+              <li key={search.id} className="saved-search-item">
+                <button
+                  type="button"
+                  className="saved-search-run"
+                  onClick={() => onApply(search)}
+                  title="Run this search"
+                >
+                  {search.name ? <span className="saved-search-name">{search.name}</span> : null}
+                  <code className="saved-search-query">{search.query}</code>
+                  <span className="saved-search-meta">
+                    {search.scope}
+                    {optionLabel ? ` · ${optionLabel}` : ""}
+                  </span>
+                </button>
+                {onTogglePinned ? (
+                  <button
+                    type="button"
+                    className="saved-search-button"
+                    onClick={() => onTogglePinned(search)}
+                    disabled={isUpdating}
+                  >
+                    {search.isPinned ? "Unpin" : "Pin"}
+                  </button>
+                ) : null}
+                <button
+                  type="button"
+                  className="saved-search-remove"
+                  onClick={() => onDelete(search.id)}
+                  disabled={isUpdating}
+                  aria-label={`Delete ${search.name ?? "recent search"} ${search.query}`}
+                >
+                  ×
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </section>
+  );
+}
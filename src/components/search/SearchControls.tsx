@@ -1,4 +1,5 @@
 import type { RefObject } from "react";
+import { SavedSearchMenu, type SavedSearchMenuProps } from "./SavedSearchMenu.tsx";
 import { SEARCH_TAG_OPTIONS, type SearchOptions, type SearchTag } from "./types.ts";
 import "./SearchControls.css";
 
@@ -10,7 +11,15 @@ interface SearchControlsProps {
   onToggleCaseSensitive: () => void;
   onToggleWholeWord: () => void;
   onToggleRegex: () => void;
+  onToggleFuzzy: () => void;
   onToggleTag: (tag: SearchTag) => void;
+  /** Replace mode is offered only when these are provided (single-document scope). */
+  isReplaceMode?: boolean;
+  replacement?: string;
+  onToggleReplaceMode?: () => void;
+  onReplacementChange?: (value: string) => void;
+  /** Saved searches and history for the signed-in user. */
+  savedSearchMenu?: SavedSearchMenuProps;
 }
 
 export function SearchControls({
@@ -21,7 +30,13 @@ export function SearchControls({
   onToggleCaseSensitive,
   onToggleWholeWord,
   onToggleRegex,
+  onToggleFuzzy,
   onToggleTag,
+  isReplaceMode = false,
+  replacement = "",
+  onToggleReplaceMode,
+  onReplacementChange,
+  savedSearchMenu,
 }: SearchControlsProps) {
   return (
     <div className="search-controls">
@@ -35,8 +50,23 @@ export function SearchControls({
         type="text"
         value={query}
         onChange={(event) => onQueryChange(event.target.value)}
-        placeholder="Search text or regex"
+        placeholder={options.fuzzy ? "Search terms, typos allowed" : "Search text or regex"}
       />
+      {isReplaceMode && onReplacementChange ? (
+        <>
+          <label className="search-input-label" htmlFor="doc-search-replacement">
+            Replace With
+          </label>
+          <input
+            id="doc-search-replacement"
+            className="search-input"
+            type="text"
+            value={replacement}
+            onChange={(event) => onReplacementChange(event.target.value)}
+            placeholder={options.regex ? "Replacement, use $1 or $<name> for groups" : "Replacement text"}
+          />
+        </>
+      ) : null}
       <div className="search-options">
         <button
           type="button"
@@ -59,6 +89,23 @@ export function SearchControls({
         >
           Regex
         </button>
+        <button
+          type="button"
+          className={`search-toggle${options.fuzzy ? " is-active" : ""}`}
+          onClick={onToggleFuzzy}
+          title="Typo-tolerant search ranked by relevance"
+        >
+          Fuzzy
+        </button>
+        {onToggleReplaceMode ? (
+          <button
+            type="button"
+            className={`search-toggle${isReplaceMode ? " is-active" : ""}`}
+            onClick={onToggleReplaceMode}
+          >
+            Replace
+          </button>
+        ) : null}
         <span className="search-options-divider" />
         {SEARCH_TAG_OPTIONS.map((tagOption) => (
           <button
@@ -71,6 +118,7 @@ export function SearchControls({
           </button>
         ))}
       </div>
+      {savedSearchMenu ? <SavedSearchMenu {...savedSearchMenu} /> : null}
     </div>
   );
 }
@@ -1,4 +1,4 @@
-import type { ReactNode } from "react";
+import { highlightPreview } from "./highlightPreview.tsx";
 import { MATCHES_PER_PAGE, type SearchOptions, type SearchResult } from "./types.ts";
 import "./SearchResults.css";
 
@@ -21,13 +21,11 @@ export function SearchResults({
   currentPage,
   onPageChange,
 }: SearchResultsProps) {
-  const totalPages = Math.ceil(result.matches.length / MATCHES_PER_PAGE);
+  // `result.matches` is already the current page; the worker holds the rest.
+  const totalPages = Math.ceil(result.totalMatchedLines / MATCHES_PER_PAGE);
   const safeCurrentPage = totalPages > 0 ? Math.min(Math.max(currentPage, 1), totalPages) : 1;
   const { startPage, endPage } = getVisiblePageRange(safeCurrentPage, totalPages);
-  const pagedMatches = result.matches.slice(
-    (safeCurrentPage - 1) * MATCHES_PER_PAGE,
-    safeCurrentPage * MATCHES_PER_PAGE,
-  );
+  const pagedMatches = result.matches;
 
   return (
     <div className="search-results">
@@ -44,17 +42,19 @@ export function SearchResults({
               <li className="search-result-item" key={`${match.lineNumber}-${match.preview}`}>
                 <p className="search-result-meta">
                   Line {match.lineNumber}
+                  {match.headingPath.length > 0 ? ` · ${match.headingPath.join(" › ")}` : ""}
                   {trimmedQuery ? (
                     <>
                       {" "}
                       · {match.occurrences} match
                       {match.occurrences === 1 ? "" : "es"}
+                      {match.score !== null ? ` · relevance ${match.score.toFixed(2)}` : ""}
                     </>
                   ) : null}
                 </p>
                 <pre className="search-result-preview">
                   {trimmedQuery
-                    ? highlightPreview(match.preview, trimmedQuery, options)
+                    ? highlightPreview(match.preview, trimmedQuery, options, match.highlights)
                     : match.preview}
                 </pre>
               </li>
@@ -114,41 +114,3 @@ function getVisiblePageRange(currentPage: number, totalPages: number): {
 
   return { startPage: groupStart, endPage: groupEnd };
 }
-
-function highlightPreview(
-  preview: string,
-  query: string,
-  options: SearchOptions,
-): ReactNode {
-  if (!query) return preview;
-
-  const flags = options.caseSensitive ? "g" : "gi";
-  let pattern: string;
-
-  if (options.regex) {
-    pattern = options.wholeWord ? `\\b(?:${query})\\b` : query;
-  } else {
-    const escaped = query.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
-    pattern = options.wholeWord ? `\\b(?:${escaped})\\b` : escaped;
-  }
-
-  let regex: RegExp;
-  try {
-    regex = new RegExp(`(${pattern})`, flags);
-  } catch {
-    return preview;
-  }
-
-  const parts = preview.split(regex);
-  if (parts.length <= 1) return preview;
-
-  return parts.map((part, index) =>
-    index % 2 === 1 ? (
-      <mark key={index} className="search-highlight">
-        {part}
-      </mark>
-    ) : (
-      part
-    ),
-  );
-}
@@ -1,4 +1,4 @@
-import { MAX_MATCH_LINES, type SearchResult } from "./types.ts";
+import type { SearchResult } from "./types.ts";
 import "./SearchSummary.css";
 
 interface SearchSummaryProps {
@@ -18,12 +18,7 @@ export function SearchSummary({
     <div className="search-summary" role="status" aria-live="polite">
       {hasActiveSearch ? (
         <span>
-          {result.isTruncated ? (
-            <>
-              {MAX_MATCH_LINES.toLocaleString()}+ matches (showing first{" "}
-              {MAX_MATCH_LINES.toLocaleString()} lines)
-            </>
-          ) : hasActiveTags && !trimmedQuery ? (
+          {hasActiveTags && !trimmedQuery ? (
             <>
               {result.totalMatchedLines.toLocaleString()} tagged line
               {result.totalMatchedLines === 1 ? "" : "s"} found
@@ -40,6 +35,33 @@ export function SearchSummary({
       ) : (
         <span className="hint">Select a tag filter or enter a search string.</span>
       )}
+      {hasActiveSearch && result.sections.length > 0 ? (
+        <table className="search-relevance">
+          <caption>Top sections</caption>
+          <thead>
+            <tr>
+              <th scope="col">Section</th>
+              <th scope="col">Line</th>
+              <th scope="col">Lines matched</th>
+              <th scope="col">Relevance</th>
+            </tr>
+          </thead>
+          <tbody>
+            {result.sections.map((section) => (
+              <tr key={section.lineNumber}>
+                <td>
+                  {section.headingPath.length > 0
+                    ? section.headingPath.join(" › ")
+                    : "(before first heading)"}
+                </td>
+                <td>{section.lineNumber.toLocaleString()}</td>
+                <td>{section.matchedLines.toLocaleString()}</td>
+                <td className="search-relevance-score">{section.score.toFixed(2)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      ) : null}
     </div>
   );
 }
@@ -0,0 +1,64 @@
+import type { ReactNode } from "react";
+import type { MatchSpan, SearchOptions } from "./types.ts";
+
+/** Fuzzy hits can't be re-found from the query, so they use the worker's spans. */
+export function highlightPreview(
+  preview: string,
+  query: string,
+  options: SearchOptions,
+  highlights: MatchSpan[] = [],
+): ReactNode {
+  if (!query) return preview;
+  if (options.fuzzy) return highlightSpans(preview, highlights);
+
+  const flags = options.caseSensitive ? "g" : "gi";
+  let pattern: string;
+
+  if (options.regex) {
+    pattern = options.wholeWord ? `\\b(?:${query})\\b` : query;
+  } else {
+    const escaped = query.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+    pattern = options.wholeWord ? `\\b(?:${escaped})\\b` : escaped;
+  }
+
+  let regex: RegExp;
+  try {
+    regex = new RegExp(`(${pattern})`, flags);
+  } catch {
+    return preview;
+  }
+
+  const parts = preview.split(regex);
+  if (parts.length <= 1) return preview;
+
+  return parts.map((part, index) =>
+    index % 2 === 1 ? (
+      <mark key={index} className="search-highlight">
+        {part}
+      </mark>
+    ) : (
+      part
+    ),
+  );
+}
+
+function highlightSpans(preview: string, highlights: MatchSpan[]): ReactNode {
+  if (highlights.length === 0) return preview;
+
+  const parts: ReactNode[] = [];
+  let cursor = 0;
+
+  for (const span of highlights) {
+    if (span.start < cursor) continue;
+    parts.push(preview.slice(cursor, span.start));
+    parts.push(
+      <mark key={span.start} className="search-highlight">
+        {preview.slice(span.start, span.end)}
+      </mark>,
+    );
+    cursor = span.end;
+  }
+
+  parts.push(preview.slice(cursor));
+  return parts;
+}
@@ -1,15 +1,26 @@
 import type { SearchTag } from "../../lib/searchModels.ts";
 
 export {
+  EMPTY_LIBRARY_RESULT,
+  EMPTY_REPLACE_PREVIEW,
   EMPTY_RESULT,
-  MAX_MATCH_LINES,
+  MAX_RANKED_SECTIONS,
+  MAX_REPLACE_PREVIEW_MATCHES,
   createDefaultSearchOptions,
   hasActiveSearchTags,
 } from "../../lib/searchModels.ts";
 export type {
+  LibraryDocumentResult,
+  LibrarySearchResult,
   LineMatch,
+  MatchSpan,
+  RankedSection,
+  ReplaceMatch,
+  ReplacePreview,
+  ReplaceResult,
   SearchOptions,
   SearchResult,
+  SearchScope,
   SearchTag,
 } from "../../lib/searchModels.ts";
 
@@ -22,6 +33,10 @@ export const SEARCH_TAG_OPTIONS: Array<{ value: SearchTag; label: string }> = [
   { value: "h6", label: "H6" },
   { value: "code", label: "CODE" },
   { value: "p", label: "<p>" },
+  { value: "li", label: "LI" },
+  { value: "blockquote", label: "QUOTE" },
+  { value: "table", label: "TABLE" },
+  { value: "link", label: "LINK" },
 ];
 
 export const MATCHES_PER_PAGE = 50;
@@ -0,0 +1,127 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import {
+  documentQueryKey,
+  documentRevisionsQueryKey,
+  documentsQueryKey,
+  storageUsageQueryKey,
+} from "../../lib/queryKeys.ts";
+import {
+  MAX_MARKDOWN_BYTES,
+  putDocument,
+  type StoredDocument,
+} from "../../lib/supabaseDb.ts";
+import { useAuthUser } from "../../lib/useAuthUser.ts";
+import type { ReplacePreview, ReplaceResult } from "./types.ts";
+
+interface UseReplaceSessionArgs {
+  document: StoredDocument | null;
+  preview: ReplacePreview;
+  runReplace: (matchIds: string[] | null) => Promise<ReplaceResult>;
+}
+
+interface ReplaceSelection {
+  preview: ReplacePreview;
+  /** Unchecked match ids; every match starts selected. */
+  excludedIds: Set<string>;
+}
+
+interface SavedReplace {
+  document: StoredDocument;
+  replacedCount: number;
+}
+
+export function useReplaceSession({ document, preview, runReplace }: UseReplaceSessionArgs) {
+  const queryClient = useQueryClient();
+  const user = useAuthUser();
+  const userId = user?.id ?? null;
+  const [selection, setSelection] = useState<ReplaceSelection>({
+    preview,
+    excludedIds: new Set(),
+  });
+  const [statusMessage, setStatusMessage] = useState<string | null>(null);
+
+  // A new preview (query, replacement or document changed) selects everything again.
+  if (selection.preview !== preview) {
+    setSelection({ preview, excludedIds: new Set() });
+  }
+
+  const excludedIds = selection.preview === preview ? selection.excludedIds : new Set<string>();
+  const selectedCount = preview.matches.filter((match) => !excludedIds.has(match.id)).length;
+
+  const applyMutation = useMutation<SavedReplace, Error, string[] | null>({
+    mutationFn: async (matchIds) => {
+      if (!document) throw new Error("Select a document first.");
+
+      const result = await runReplace(matchIds);
+      if (result.errorMessage) throw new Error(result.errorMessage);
+      if (result.replacedCount === 0) throw new Error("Nothing to replace.");
+      if (new Blob([result.markdown]).size > MAX_MARKDOWN_BYTES) {
+        throw new Error("Document would exceed the 5MB limit.");
+      }
+
+      const savedDocument = await putDocument({
+        ...document,
+        markdown: result.markdown,
+        sizeBytes: new Blob([result.markdown]).size,
+      });
+
+      return { document: savedDocument, replacedCount: result.replacedCount };
+    },
+    onMutate: () => setStatusMessage(null),
+    onSuccess: async ({ document: savedDocument, replacedCount }) => {
+      setStatusMessage(
+        `Replaced ${replacedCount.toLocaleString()} match${replacedCount === 1 ? "" : "es"} and saved a new version.`,
+      );
+      queryClient.setQueryData(documentQueryKey(userId, savedDocument.id), savedDocument);
+      await queryClient.invalidateQueries({ queryKey: documentsQueryKey(userId) });
+      await queryClient.invalidateQueries({
+        queryKey: documentRevisionsQueryKey(userId, savedDocument.id),
+      });
+      await queryClient.invalidateQueries({ queryKey: storageUsageQueryKey(userId) });
+    },
+  });
+
+  function toggleMatch(matchId: string) {
+    setSelection((current) => {
+      const nextExcludedIds = new Set(current.excludedIds);
+      if (nextExcludedIds.has(matchId)) {
+        nextExcludedIds.delete(matchId);
+      } else {
+        nextExcludedIds.add(matchId);
+      }
+      return { ...current, excludedIds: nextExcludedIds };
+    });
+  }
+
+  function setAllSelected(isSelected: boolean) {
+    setSelection({
+      preview,
+      excludedIds: isSelected ? new Set() : new Set(preview.matches.map((match) => match.id)),
+    });
+  }
+
+  function applySelected() {
+    if (applyMutation.isPending || selectedCount === 0) return;
+    applyMutation.mutate(
+      preview.matches.filter((match) => !excludedIds.has(match.id)).map((match) => match.id),
+    );
+  }
+
+  function applyAll() {
+    if (applyMutation.isPending || preview.totalMatches === 0) return;
+    applyMutation.mutate(null);
+  }
+
+  return {
+    excludedIds,
+    selectedCount,
+    isApplying: applyMutation.isPending,
+    errorMessage: applyMutation.error?.message ?? null,
+    statusMessage,
+    toggleMatch,
+    setAllSelected,
+    applySelected,
+    applyAll,
+  };
+}
@@ -0,0 +1,111 @@
+import { useEffect, useMemo, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { savedSearchesQueryKey } from "../../lib/queryKeys.ts";
+import {
+  splitSavedSearches,
+  type SavedSearch,
+  type SavedSearchInput,
+} from "../../lib/savedSearchModels.ts";
+import {
+  deleteSavedSearch,
+  listSavedSearches,
+  markSavedSearchUsed,
+  recordSearchHistory,
+  saveSearch,
+  setSavedSearchPinned,
+} from "../../lib/savedSearchesDb.ts";
+import type { SearchOptions, SearchScope } from "./types.ts";
+
+interface UseSavedSearchesArgs {
+  userId: string | null;
+  trimmedQuery: string;
+  options: SearchOptions;
+  scope: SearchScope;
+}
+
+// A query joins the history once it has been left alone this long.
+const HISTORY_RECORD_DELAY_MS = 1500;
+
+export function useSavedSearches({ userId, trimmedQuery, options, scope }: UseSavedSearchesArgs) {
+  const queryClient = useQueryClient();
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const queryKey = savedSearchesQueryKey(userId);
+
+  const savedSearchesQuery = useQuery({
+    queryKey,
+    queryFn: listSavedSearches,
+    staleTime: 30_000,
+    enabled: !!userId,
+  });
+
+  async function invalidateSavedSearches() {
+    await queryClient.invalidateQueries({ queryKey });
+  }
+
+  const { mutate: recordHistory } = useMutation<void, Error, SavedSearchInput>({
+    mutationFn: recordSearchHistory,
+    onSuccess: invalidateSavedSearches,
+    // History is best effort; a failed write shouldn't interrupt searching.
+    onError: (error) => console.error("Failed to record search history:", error),
+  });
+
+  const saveMutation = useMutation<SavedSearch, Error, string>({
+    mutationFn: (name) => saveSearch(name, { query: trimmedQuery, scope, options }),
+    onSuccess: async () => {
+      setErrorMessage(null);
+      await invalidateSavedSearches();
+    },
+    onError: (error) => setErrorMessage(error.message),
+  });
+
+  const pinMutation = useMutation<void, Error, SavedSearch>({
+    mutationFn: (search) => setSavedSearchPinned(search.id, !search.isPinned),
+    onSuccess: async () => {
+      setErrorMessage(null);
+      await invalidateSavedSearches();
+    },
+    onError: (error) => setErrorMessage(error.message),
+  });
+
+  const deleteMutation = useMutation<void, Error, string>({
+    mutationFn: deleteSavedSearch,
+    onSuccess: async () => {
+      setErrorMessage(null);
+      await invalidateSavedSearches();
+    },
+    onError: (error) => setErrorMessage(error.message),
+  });
+
+  const { mutate: markUsed } = useMutation<void, Error, string>({
+    mutationFn: markSavedSearchUsed,
+    onSuccess: invalidateSavedSearches,
+    onError: (error) => console.error("Failed to update saved search:", error),
+  });
+
+  useEffect(() => {
+    if (!userId || !trimmedQuery) return;
+
+    const timeoutId = window.setTimeout(() => {
+      recordHistory({ query: trimmedQuery, scope, options });
+    }, HISTORY_RECORD_DELAY_MS);
+
+    return () => window.clearTimeout(timeoutId);
+  }, [userId, trimmedQuery, scope, options, recordHistory]);
+
+  const { saved, recent } = useMemo(
+    () => splitSavedSearches(savedSearchesQuery.data ?? []),
+    [savedSearchesQuery.data],
+  );
+
+  return {
+    savedSearches: saved,
+    recentSearches: recent,
+    errorMessage: errorMessage ?? savedSearchesQuery.error?.message ?? null,
+    isSaving: saveMutation.isPending,
+    isUpdating: pinMutation.isPending || deleteMutation.isPending,
+    saveCurrent: saveMutation.mutate,
+    togglePinned: pinMutation.mutate,
+    remove: deleteMutation.mutate,
+    markUsed,
+  };
+}
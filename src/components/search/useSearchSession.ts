@@ -1,40 +1,95 @@
 import { useCallback, useEffect, useRef, useState } from "react";
 import type { SearchWorkerRequest, SearchWorkerResponse } from "../../lib/searchWorkerMessages.ts";
+import { getDocuments, type DocumentMeta } from "../../lib/supabaseDb.ts";
 import {
+  EMPTY_LIBRARY_RESULT,
+  MATCHES_PER_PAGE,
+  EMPTY_REPLACE_PREVIEW,
   EMPTY_RESULT,
   createDefaultSearchOptions,
   hasActiveSearchTags,
+  type LibrarySearchResult,
+  type LineMatch,
+  type ReplacePreview,
+  type ReplaceResult,
   type SearchOptions,
   type SearchResult,
+  type SearchScope,
   type SearchTag,
 } from "./types.ts";
 
 interface UseSearchSessionArgs {
   docId: string | null;
   markdown: string | null;
+  scope?: SearchScope;
+  /** Every document to keep in the library index (library scope only). */
+  libraryDocuments?: DocumentMeta[];
+  /** Subset of `libraryDocuments` to search, in display order; null searches all. */
+  libraryDocIds?: string[] | null;
 }
 
-export function useSearchSession({ docId, markdown }: UseSearchSessionArgs) {
+export interface LibraryIndexStatus {
+  indexedCount: number;
+  totalCount: number;
+  errorMessage: string | null;
+}
+
+const LIBRARY_INDEX_BATCH_SIZE = 10;
+const NO_LIBRARY_DOCUMENTS: DocumentMeta[] = [];
+
+export function useSearchSession({
+  docId,
+  markdown,
+  scope = "document",
+  libraryDocuments = NO_LIBRARY_DOCUMENTS,
+  libraryDocIds = null,
+}: UseSearchSessionArgs) {
   const inputRef = useRef<HTMLInputElement | null>(null);
   const [query, setQuery] = useState("");
   const [currentPage, setCurrentPage] = useState(1);
   const [options, setOptions] = useState<SearchOptions>(createDefaultSearchOptions);
   const [searchResult, setSearchResult] = useState<SearchResult>(EMPTY_RESULT);
   const [resultDocId, setResultDocId] = useState<string | null>(docId);
+  const [libraryResult, setLibraryResult] = useState<LibrarySearchResult>(EMPTY_LIBRARY_RESULT);
+  const [indexedLibraryVersions, setIndexedLibraryVersions] = useState<Record<string, string>>({});
+  const [libraryIndexError, setLibraryIndexError] = useState<string | null>(null);
+  const [isReplaceMode, setIsReplaceMode] = useState(false);
+  const [replacement, setReplacement] = useState("");
+  const [replacePreview, setReplacePreview] = useState<ReplacePreview>(EMPTY_REPLACE_PREVIEW);
+  const [previewDocId, setPreviewDocId] = useState<string | null>(docId);
 
   const workerRef = useRef<Worker | null>(null);
   const requestIdRef = useRef(0);
   const debounceRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   const activeDocIdRef = useRef<string | null>(docId);
   const hasDocumentLoadedRef = useRef(Boolean(docId && markdown));
+  // Mirrors what the worker has indexed: document id -> updatedAt.
+  const libraryVersionsRef = useRef(new Map<string, string>());
+  const scopeRef = useRef(scope);
+  const libraryDocIdsRef = useRef(libraryDocIds);
+
+  // Previews and replaces get their own ids so a search never drops them.
+  const previewRequestIdRef = useRef(0);
+  // Worker document version the shown preview was computed against.
+  const previewDocumentVersionRef = useRef<number | null>(null);
+  const replaceRequestIdRef = useRef(0);
+  const pendingReplacesRef = useRef(new Map<number, (result: ReplaceResult) => void>());
 
   const queryRef = useRef(query);
+  const currentPageRef = useRef(currentPage);
   const optionsRef = useRef(options);
+  const replacementRef = useRef(replacement);
+  const isReplaceModeRef = useRef(isReplaceMode);
 
   useEffect(() => {
     queryRef.current = query;
+    currentPageRef.current = currentPage;
     optionsRef.current = options;
-  }, [query, options]);
+    scopeRef.current = scope;
+    libraryDocIdsRef.current = libraryDocIds;
+    replacementRef.current = replacement;
+    isReplaceModeRef.current = isReplaceMode;
+  }, [query, currentPage, options, scope, libraryDocIds, replacement, isReplaceMode]);
 
   const postWorkerMessage = useCallback((message: SearchWorkerRequest) => {
     workerRef.current?.postMessage(message);
@@ -49,9 +104,24 @@ export function useSearchSession({ docId, markdown }: UseSearchSessionArgs) {
       const trimmedQuery = queryRef.current.trim();
       const nextOptions = optionsRef.current;
       const hasActiveTags = hasActiveSearchTags(nextOptions.tags);
+      const hasReplacePattern = isReplaceModeRef.current && !!queryRef.current;
 
-      if (!trimmedQuery && !hasActiveTags) {
+      if (!trimmedQuery && !hasActiveTags && !hasReplacePattern) {
         setSearchResult(EMPTY_RESULT);
+        setLibraryResult(EMPTY_LIBRARY_RESULT);
+        setReplacePreview(EMPTY_REPLACE_PREVIEW);
+        return;
+      }
+
+      if (scopeRef.current === "library") {
+        postWorkerMessage({
+          type: "run-library-search",
+          id: ++requestIdRef.current,
+          query: queryRef.current,
+          options: nextOptions,
+          docKeys: libraryDocIdsRef.current,
+          pageSize: MATCHES_PER_PAGE,
+        });
         return;
       }
 
@@ -66,6 +136,18 @@ export function useSearchSession({ docId, markdown }: UseSearchSessionArgs) {
         id,
         query: queryRef.current,
         options: nextOptions,
+        page: currentPageRef.current,
+        pageSize: MATCHES_PER_PAGE,
+      });
+
+      if (!isReplaceModeRef.current) return;
+
+      postWorkerMessage({
+        type: "preview-replace",
+        id: ++previewRequestIdRef.current,
+        query: queryRef.current,
+        replacement: replacementRef.current,
+        options: nextOptions,
       });
     }, 200);
   }, [postWorkerMessage]);
@@ -84,15 +166,40 @@ export function useSearchSession({ docId, markdown }: UseSearchSessionArgs) {
 
     worker.onmessage = (event: MessageEvent<SearchWorkerResponse>) => {
       const message = event.data;
-      if (message.type === "search-result" && message.id === requestIdRef.current) {
+
+      if (message.type === "replace-result") {
+        pendingReplacesRef.current.get(message.id)?.(message.result);
+        pendingReplacesRef.current.delete(message.id);
+        return;
+      }
+
+      if (message.type === "replace-preview") {
+        if (message.id !== previewRequestIdRef.current) return;
+        setReplacePreview(message.result);
+        setPreviewDocId(activeDocIdRef.current);
+        previewDocumentVersionRef.current = message.documentVersion;
+        return;
+      }
+
+      if (message.id !== requestIdRef.current) return;
+
+      if (message.type === "search-result") {
         setSearchResult(message.result);
         setResultDocId(activeDocIdRef.current);
+      } else if (message.type === "search-page") {
+        setSearchResult((current) => ({ ...current, page: message.page, matches: message.matches }));
+      } else if (message.type === "library-search-result") {
+        setLibraryResult(message.result);
+      } else if (message.type === "library-page") {
+        setLibraryResult((current) => appendLibraryPage(current, message.docKey, message.page, message.matches));
       }
     };
 
     worker.onerror = (error) => console.error("Search worker error:", error);
 
     workerRef.current = worker;
+    // A fresh worker starts with an empty library index.
+    libraryVersionsRef.current = new Map();
 
     return () => {
       worker.terminate();
@@ -109,6 +216,8 @@ export function useSearchSession({ docId, markdown }: UseSearchSessionArgs) {
     }
 
     requestIdRef.current += 1;
+    previewRequestIdRef.current += 1;
+    previewDocumentVersionRef.current = null;
 
     if (!docId || !markdown) {
       postWorkerMessage({ type: "clear-document" });
@@ -124,9 +233,66 @@ export function useSearchSession({ docId, markdown }: UseSearchSessionArgs) {
     scheduleSearch();
   }, [docId, markdown, postWorkerMessage, scheduleSearch]);
 
+  useEffect(() => {
+    if (scope !== "library") return;
+
+    const indexedVersions = libraryVersionsRef.current;
+    const currentIds = new Set(libraryDocuments.map((document) => document.id));
+    const removedIds = Array.from(indexedVersions.keys()).filter((id) => !currentIds.has(id));
+    const staleIds = libraryDocuments
+      .filter((document) => indexedVersions.get(document.id) !== document.updatedAt)
+      .map((document) => document.id);
+    let isCancelled = false;
+
+    async function syncLibraryIndex() {
+      if (removedIds.length > 0) {
+        postWorkerMessage({ type: "remove-library-documents", docKeys: removedIds });
+        for (const id of removedIds) {
+          indexedVersions.delete(id);
+        }
+      }
+
+      setLibraryIndexError(null);
+      setIndexedLibraryVersions(Object.fromEntries(indexedVersions));
+
+      // Only new or changed documents are fetched; the rest stay indexed.
+      for (let start = 0; start < staleIds.length; start += LIBRARY_INDEX_BATCH_SIZE) {
+        const batch = await getDocuments(staleIds.slice(start, start + LIBRARY_INDEX_BATCH_SIZE));
+        if (isCancelled) return;
+
+        for (const document of batch) {
+          postWorkerMessage({
+            type: "index-library-document",
+            docKey: document.id,
+            markdown: document.markdown,
+          });
+          indexedVersions.set(document.id, document.updatedAt);
+        }
+
+        setIndexedLibraryVersions(Object.fromEntries(indexedVersions));
+        scheduleSearch();
+      }
+    }
+
+    syncLibraryIndex()
+      .then(() => {
+        if (!isCancelled) scheduleSearch();
+      })
+      .catch((error: unknown) => {
+        if (isCancelled) return;
+        setLibraryIndexError(
+          error instanceof Error ? error.message : "Could not index the library.",
+        );
+      });
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [libraryDocuments, postWorkerMessage, scheduleSearch, scope]);
+
   useEffect(() => {
     scheduleSearch();
-  }, [options, scheduleSearch]);
+  }, [options, libraryDocIds, scope, isReplaceMode, scheduleSearch]);
 
   useEffect(() => {
     return () => {
@@ -148,6 +314,17 @@ export function useSearchSession({ docId, markdown }: UseSearchSessionArgs) {
   const hasActiveTags = hasActiveSearchTags(options.tags);
   const hasActiveSearch = !!trimmedQuery || hasActiveTags;
   const visibleSearchResult = resultDocId === docId ? searchResult : EMPTY_RESULT;
+  // Replace patterns keep their spaces, so a whitespace-only query still previews.
+  const visibleReplacePreview = isReplaceMode && query && previewDocId === docId
+    ? replacePreview
+    : EMPTY_REPLACE_PREVIEW;
+  const libraryIndexStatus: LibraryIndexStatus = {
+    indexedCount: libraryDocuments.filter(
+      (document) => indexedLibraryVersions[document.id] === document.updatedAt,
+    ).length,
+    totalCount: libraryDocuments.length,
+    errorMessage: libraryIndexError,
+  };
 
   function handleQueryChange(value: string) {
     setQuery(value);
@@ -155,6 +332,67 @@ export function useSearchSession({ docId, markdown }: UseSearchSessionArgs) {
     scheduleSearch();
   }
 
+  /** Pages come from the worker's cached hits for the current search. */
+  function changePage(page: number) {
+    setCurrentPage(page);
+    postWorkerMessage({
+      type: "get-search-page",
+      id: requestIdRef.current,
+      page,
+      pageSize: MATCHES_PER_PAGE,
+    });
+  }
+
+  function loadMoreLibraryMatches(docId: string) {
+    const documentResult = libraryResult.documents.find((document) => document.docId === docId);
+    if (!documentResult || documentResult.matches.length >= documentResult.totalMatchedLines) return;
+
+    postWorkerMessage({
+      type: "get-library-page",
+      id: requestIdRef.current,
+      docKey: docId,
+      page: Math.floor(documentResult.matches.length / MATCHES_PER_PAGE) + 1,
+      pageSize: MATCHES_PER_PAGE,
+    });
+  }
+
+  function handleReplacementChange(value: string) {
+    setReplacement(value);
+    scheduleSearch();
+  }
+
+  function toggleReplaceMode() {
+    // Replacement needs exact matches, so entering replace mode leaves fuzzy search.
+    if (!isReplaceMode) {
+      setOptions((current) => (current.fuzzy ? { ...current, fuzzy: false } : current));
+    }
+    setIsReplaceMode((current) => !current);
+  }
+
+  /** Rewrites the indexed document in the worker; `matchIds` null replaces every match. */
+  const runReplace = useCallback((matchIds: string[] | null) => {
+    const activeDocId = activeDocIdRef.current;
+    if (!activeDocId || !workerRef.current) {
+      return Promise.reject(new Error("Search worker is not ready."));
+    }
+
+    const id = ++replaceRequestIdRef.current;
+
+    return new Promise<ReplaceResult>((resolve) => {
+      pendingReplacesRef.current.set(id, resolve);
+      postWorkerMessage({
+        type: "run-replace",
+        id,
+        docKey: activeDocId,
+        documentVersion: previewDocumentVersionRef.current,
+        query: queryRef.current,
+        replacement: replacementRef.current,
+        options: optionsRef.current,
+        matchIds,
+      });
+    });
+  }, [postWorkerMessage]);
+
   function toggleSearchTag(tag: SearchTag) {
     setCurrentPage(1);
     setOptions((current) => ({
@@ -187,15 +425,40 @@ export function useSearchSession({ docId, markdown }: UseSearchSessionArgs) {
     setOptions((current) => ({
       ...current,
       regex: !current.regex,
+      fuzzy: false,
+    }));
+  }
+
+  function toggleFuzzy() {
+    setCurrentPage(1);
+    setIsReplaceMode(false);
+    setOptions((current) => ({
+      ...current,
+      fuzzy: !current.fuzzy,
+      regex: false,
     }));
   }
 
+  /** Loads a saved or recent search into the controls; the options effect reruns it. */
+  function applySearch(nextQuery: string, nextOptions: SearchOptions) {
+    setCurrentPage(1);
+    setQuery(nextQuery);
+    setOptions(nextOptions);
+    if (nextOptions.fuzzy) {
+      setIsReplaceMode(false);
+    }
+  }
+
   const resetSearch = useCallback(() => {
     requestIdRef.current += 1;
+    previewRequestIdRef.current += 1;
     setQuery("");
     setCurrentPage(1);
     setOptions(createDefaultSearchOptions());
     setSearchResult(EMPTY_RESULT);
+    setLibraryResult(EMPTY_LIBRARY_RESULT);
+    setReplacement("");
+    setReplacePreview(EMPTY_REPLACE_PREVIEW);
 
     if (debounceRef.current) {
       clearTimeout(debounceRef.current);
@@ -205,18 +468,45 @@ export function useSearchSession({ docId, markdown }: UseSearchSessionArgs) {
   return {
     inputRef,
     query,
-    currentPage,
+    currentPage: visibleSearchResult.page,
     options,
     searchResult: visibleSearchResult,
+    libraryResult,
+    libraryIndexStatus,
     trimmedQuery,
     hasActiveTags,
     hasActiveSearch,
-    setCurrentPage,
+    setCurrentPage: changePage,
+    loadMoreLibraryMatches,
     handleQueryChange,
     toggleSearchTag,
     toggleCaseSensitive,
     toggleWholeWord,
     toggleRegex,
+    toggleFuzzy,
+    applySearch,
     resetSearch,
+    isReplaceMode,
+    replacement,
+    replacePreview: visibleReplacePreview,
+    handleReplacementChange,
+    toggleReplaceMode,
+    runReplace,
+  };
+}
+
+/** Appends the next page of one document's matches; out-of-order pages are dropped. */
+function appendLibraryPage(
+  result: LibrarySearchResult,
+  docId: string,
+  page: number,
+  matches: LineMatch[],
+): LibrarySearchResult {
+  return {
+    ...result,
+    documents: result.documents.map((document) =>
+      document.docId === docId && page === Math.floor(document.matches.length / MATCHES_PER_PAGE) + 1
+        ? { ...document, matches: [...document.matches, ...matches] }
+        : document),
   };
 }
@@ -0,0 +1,238 @@
+import { useMemo, useState } from "react";
+import type { FormEvent } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { formatDate } from "../../lib/format.ts";
+import { documentSharesQueryKey } from "../../lib/queryKeys.ts";
+import {
+  SHARE_VIEW_MODES,
+  buildShareUrl,
+  getDocumentShareStatus,
+  type CreateDocumentShareResponse,
+  type DocumentShare,
+  type ShareViewMode,
+} from "../../lib/shareModels.ts";
+import {
+  createDocumentShare,
+  listDocumentShares,
+  revokeDocumentShare,
+} from "../../lib/sharesDb.ts";
+import { useAuthUser } from "../../lib/useAuthUser.ts";
+import { AsciiLoader } from "../AsciiLoader.tsx";
+import "./ShareManagerView.css";
+
+interface ShareManagerViewProps {
+  documentId: string;
+}
+
+interface CreatedShareLink {
+  shareId: string;
+  token: string;
+}
+
+const EXPIRY_OPTIONS: Array<{ value: string; label: string; hours: number | null }> = [
+  { value: "never", label: "Never", hours: null },
+  { value: "1h", label: "1 hour", hours: 1 },
+  { value: "1d", label: "1 day", hours: 24 },
+  { value: "7d", label: "7 days", hours: 24 * 7 },
+  { value: "30d", label: "30 days", hours: 24 * 30 },
+];
+
+const VIEW_MODE_LABELS: Record<ShareViewMode, string> = {
+  rendered: "Rendered",
+  slides: "Slides",
+};
+
+export function ShareManagerView({ documentId }: ShareManagerViewProps) {
+  const queryClient = useQueryClient();
+  const user = useAuthUser();
+  const userId = user?.id ?? null;
+  const [expiry, setExpiry] = useState("7d");
+  const [password, setPassword] = useState("");
+  const [viewMode, setViewMode] = useState<ShareViewMode>("rendered");
+  const [createdLink, setCreatedLink] = useState<CreatedShareLink | null>(null);
+  const [copyStatus, setCopyStatus] = useState<string | null>(null);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+
+  const sharesQuery = useQuery({
+    queryKey: documentSharesQueryKey(userId, documentId),
+    queryFn: () => listDocumentShares(documentId),
+    staleTime: 30_000,
+    enabled: !!userId,
+  });
+
+  const shares = useMemo(() => sharesQuery.data ?? [], [sharesQuery.data]);
+
+  const createMutation = useMutation<CreateDocumentShareResponse, Error, void>({
+    mutationFn: () => {
+      const hours = EXPIRY_OPTIONS.find((option) => option.value === expiry)?.hours ?? null;
+
+      return createDocumentShare({
+        documentId,
+        expiresAt: hours === null
+          ? null
+          : new Date(Date.now() + hours * 60 * 60 * 1000).toISOString(),
+        password: password || null,
+      });
+    },
+    onSuccess: async ({ share, token }) => {
+      setErrorMessage(null);
+      setCopyStatus(null);
+      setPassword("");
+      setCreatedLink({ shareId: share.id, token });
+      await queryClient.invalidateQueries({
+        queryKey: documentSharesQueryKey(userId, documentId),
+      });
+    },
+    onError: (error) => setErrorMessage(error.message),
+  });
+
+  const revokeMutation = useMutation<DocumentShare, Error, string>({
+    mutationFn: revokeDocumentShare,
+    onSuccess: async (share) => {
+      setErrorMessage(null);
+      if (createdLink?.shareId === share.id) setCreatedLink(null);
+      await queryClient.invalidateQueries({
+        queryKey: documentSharesQueryKey(userId, documentId),
+      });
+    },
+    onError: (error) => setErrorMessage(error.message),
+  });
+
+  const createdUrl = createdLink ? buildShareUrl(createdLink.token, viewMode) : null;
+
+  function handleSubmit(event: FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    createMutation.mutate();
+  }
+
+  async function handleCopy() {
+    if (!createdUrl) return;
+
+    try {
+      await navigator.clipboard.writeText(createdUrl);
+      setCopyStatus("Copied.");
+    } catch {
+      setCopyStatus("Copy failed. Select the link and copy it manually.");
+    }
+  }
+
+  return (
+    <div className="share-manager">
+      <form className="share-form" onSubmit={handleSubmit}>
+        <p className="share-title">New share link</p>
+        <label className="share-field">
+          <span>Expires</span>
+          <select
+            className="share-input"
+            value={expiry}
+            onChange={(event) => setExpiry(event.target.value)}
+          >
+            {EXPIRY_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="share-field">
+          <span>Password (optional)</span>
+          <input
+            className="share-input"
+            type="password"
+            value={password}
+            onChange={(event) => setPassword(event.target.value)}
+            autoComplete="new-password"
+            maxLength={128}
+          />
+        </label>
+        <div className="share-field" role="group" aria-label="Opens in">
+          <span>Opens in</span>
+          <div className="share-mode-buttons">
+            {SHARE_VIEW_MODES.map((mode) => (
+              <button
+                key={mode}
+                type="button"
+                className={`share-button${viewMode === mode ? " is-active" : ""}`}
+                onClick={() => setViewMode(mode)}
+              >
+                {VIEW_MODE_LABELS[mode]}
+              </button>
+            ))}
+          </div>
+        </div>
+        <button
+          type="submit"
+          className="share-button share-create-button"
+          disabled={createMutation.isPending}
+        >
+          {createMutation.isPending ? "Creating..." : "Create link"}
+        </button>
+
+        {createdUrl ? (
+          <div className="share-created">
+            <input
+              className="share-input share-created-url"
+              type="text"
+              value={createdUrl}
+              readOnly
+              onFocus={(event) => event.target.select()}
+              aria-label="Share link"
+            />
+            <button type="button" className="share-button" onClick={() => void handleCopy()}>
+              Copy
+            </button>
+            <p className="share-note">
+              {copyStatus ?? "Copy this link now; it cannot be shown again."}
+            </p>
+          </div>
+        ) : null}
+
+        {errorMessage ? (
+          <p className="status error" role="status">
+            {errorMessage}
+          </p>
+        ) : null}
+      </form>
+
+      <section className="share-list-panel" aria-label="Share links">
+        <p className="share-title">Links</p>
+        {sharesQuery.isPending ? (
+          <AsciiLoader label="Loading share links..." />
+        ) : sharesQuery.error ? (
+          <p className="share-note">{sharesQuery.error.message}</p>
+        ) : shares.length === 0 ? (
+          <p className="share-note">This document has not been shared yet.</p>
+        ) : (
+          <ul className="share-list">
+            {shares.map((share) => {
+              const status = getDocumentShareStatus(share);
+
+              return (
+                <li key={share.id} className="share-list-item">
+                  <div className="share-list-info">
+                    <span className="share-list-token">{share.tokenPrefix}…</span>
+                    <span className={`share-status is-${status}`}>{status}</span>
+                    {share.hasPassword ? <span className="share-list-meta">password</span> : null}
+                  </div>
+                  <div className="share-list-meta">
+                    Created {formatDate(share.createdAt)} ·{" "}
+                    {share.expiresAt ? `expires ${formatDate(share.expiresAt)}` : "no expiry"} ·{" "}
+                    {share.accessCount} view{share.accessCount === 1 ? "" : "s"}
+                  </div>
+                  <button
+                    type="button"
+                    className="share-button share-revoke-button"
+                    onClick={() => revokeMutation.mutate(share.id)}
+                    disabled={status === "revoked" || revokeMutation.isPending}
+                  >
+                    Revoke
+                  </button>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </section>
+    </div>
+  );
+}
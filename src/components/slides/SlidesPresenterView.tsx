@@ -0,0 +1,222 @@
+import { useEffect, useMemo, useState } from "react";
+import ReactMarkdown from "react-markdown";
+import {
+  extractSlideOutlines,
+  materializeSlideMarkdownFromLines,
+  splitMarkdownLines,
+} from "../../lib/slideParser.ts";
+import { SLIDE_TAG_LABELS, type SlideSegmentation } from "../../lib/slideModels.ts";
+import {
+  markdownComponentsConfig,
+  rehypePluginsConfig,
+  remarkPluginsConfig,
+} from "../markdown/markdownPlugins.ts";
+import { useSlideSession } from "./useSlideSession.ts";
+import "./SlidesPresenterView.css";
+
+interface SlidesPresenterViewProps {
+  markdown: string;
+  fontScale: number;
+  segmentation: SlideSegmentation;
+  slideIndex: number;
+  onSlideIndexChange: (index: number) => void;
+  onOpenAudienceWindow: () => void;
+}
+
+interface PresenterTimerState {
+  /** Set while the timer runs. */
+  startedAt: number | null;
+  accumulatedMs: number;
+}
+
+export function SlidesPresenterView({
+  markdown,
+  fontScale,
+  segmentation,
+  slideIndex,
+  onSlideIndexChange,
+  onOpenAudienceWindow,
+}: SlidesPresenterViewProps) {
+  const outlines = useMemo(
+    () => extractSlideOutlines(markdown, { segmentation, fontScale }),
+    [fontScale, markdown, segmentation],
+  );
+  const markdownLines = useMemo(() => splitMarkdownLines(markdown), [markdown]);
+  const [timer, setTimer] = useState<PresenterTimerState>(() => ({
+    startedAt: Date.now(),
+    accumulatedMs: 0,
+  }));
+  const [now, setNow] = useState(() => Date.now());
+
+  const { currentIndex, positionLabel, goToSlide } = useSlideSession({
+    slideCount: outlines.length,
+    layoutMode: "horizontal",
+    slideIndex,
+    onSlideIndexChange,
+  });
+
+  const isTimerRunning = timer.startedAt !== null;
+
+  useEffect(() => {
+    if (!isTimerRunning) return;
+
+    const intervalId = window.setInterval(() => setNow(Date.now()), 1000);
+    return () => window.clearInterval(intervalId);
+  }, [isTimerRunning]);
+
+  const activeOutline = outlines[currentIndex] ?? null;
+  const nextOutline = outlines[currentIndex + 1] ?? null;
+  const activeMarkdown = activeOutline
+    ? materializeSlideMarkdownFromLines(markdownLines, activeOutline)
+    : "";
+  const nextMarkdown = nextOutline
+    ? materializeSlideMarkdownFromLines(markdownLines, nextOutline)
+    : "";
+  const elapsedMs = timer.accumulatedMs +
+    (timer.startedAt !== null ? Math.max(0, now - timer.startedAt) : 0);
+
+  function toggleTimer() {
+    const currentTime = Date.now();
+    setNow(currentTime);
+    setTimer((previous) => previous.startedAt !== null
+      ? {
+        startedAt: null,
+        accumulatedMs: previous.accumulatedMs + (currentTime - previous.startedAt),
+      }
+      : { startedAt: currentTime, accumulatedMs: previous.accumulatedMs });
+  }
+
+  function resetTimer() {
+    const currentTime = Date.now();
+    setNow(currentTime);
+    setTimer((previous) => ({
+      startedAt: previous.startedAt !== null ? currentTime : null,
+      accumulatedMs: 0,
+    }));
+  }
+
+  if (outlines.length === 0) {
+    return (
+      <div className="slides-presenter slides-presenter-empty">
+        <p>No markdown elements available for slides.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="slides-presenter">
+      <div className="slides-presenter-toolbar">
+        <button
+          type="button"
+          className="slides-nav-button"
+          onClick={() => goToSlide(currentIndex - 1)}
+          disabled={currentIndex <= 0}
+        >
+          Prev
+        </button>
+        <p className="slides-position">Slide {positionLabel}</p>
+        <button
+          type="button"
+          className="slides-nav-button"
+          onClick={() => goToSlide(currentIndex + 1)}
+          disabled={currentIndex >= outlines.length - 1}
+        >
+          Next
+        </button>
+        <span className="slides-presenter-timer" aria-label="Elapsed time">
+          {formatElapsed(elapsedMs)}
+        </span>
+        <button type="button" className="slides-nav-button" onClick={toggleTimer}>
+          {isTimerRunning ? "Pause" : "Resume"}
+        </button>
+        <button type="button" className="slides-nav-button" onClick={resetTimer}>
+          Reset
+        </button>
+        <button type="button" className="slides-nav-button" onClick={onOpenAudienceWindow}>
+          Audience window
+        </button>
+      </div>
+
+      <section className="slides-presenter-current" aria-label="Current slide">
+        <header className="slides-card-header">
+          <span className="slides-card-tag">
+            {activeOutline ? SLIDE_TAG_LABELS[activeOutline.tag] : ""}
+          </span>
+          <span className="slides-card-line">Current</span>
+        </header>
+        <div className="slides-card-content">
+          <div className="slides-markdown" style={{ fontSize: `${Math.round(fontScale * 100)}%` }}>
+            <ReactMarkdown
+              components={markdownComponentsConfig}
+              remarkPlugins={remarkPluginsConfig}
+              rehypePlugins={rehypePluginsConfig}
+            >
+              {activeMarkdown}
+            </ReactMarkdown>
+          </div>
+        </div>
+      </section>
+
+      <section className="slides-presenter-next" aria-label="Next slide">
+        <header className="slides-card-header">
+          <span className="slides-card-tag">
+            {nextOutline ? SLIDE_TAG_LABELS[nextOutline.tag] : "End"}
+          </span>
+          <span className="slides-card-line">Next</span>
+        </header>
+        <div className="slides-card-content">
+          {nextOutline ? (
+            <div className="slides-markdown">
+              <ReactMarkdown
+                components={markdownComponentsConfig}
+                remarkPlugins={remarkPluginsConfig}
+                rehypePlugins={rehypePluginsConfig}
+              >
+                {nextMarkdown}
+              </ReactMarkdown>
+            </div>
+          ) : (
+            <p className="slides-presenter-placeholder">Last slide.</p>
+          )}
+        </div>
+      </section>
+
+      <section className="slides-presenter-notes" aria-label="Speaker notes">
+        <header className="slides-card-header">
+          <span className="slides-card-line">Notes</span>
+        </header>
+        <div className="slides-card-content">
+          {activeOutline?.notes ? (
+            <div className="slides-markdown">
+              <ReactMarkdown
+                components={markdownComponentsConfig}
+                remarkPlugins={remarkPluginsConfig}
+                rehypePlugins={rehypePluginsConfig}
+              >
+                {activeOutline.notes}
+              </ReactMarkdown>
+            </div>
+          ) : (
+            <p className="slides-presenter-placeholder">
+              No notes for this slide. Add <code>{"<!-- notes: ... -->"}</code> or a{" "}
+              <code>Note:</code> paragraph after it.
+            </p>
+          )}
+        </div>
+      </section>
+    </div>
+  );
+}
+
+function formatElapsed(elapsedMs: number): string {
+  const totalSeconds = Math.floor(elapsedMs / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  const paddedMinutes = String(minutes).padStart(2, "0");
+  const paddedSeconds = String(seconds).padStart(2, "0");
+
+  return hours > 0
+    ? `${hours}:${paddedMinutes}:${paddedSeconds}`
+    : `${paddedMinutes}:${paddedSeconds}`;
+}
@@ -1,14 +1,18 @@
 import { useEffect, useMemo, useRef } from "react";
 import { AnimatePresence, motion } from "framer-motion";
 import ReactMarkdown from "react-markdown";
-import remarkGfm from "remark-gfm";
+import {
+  markdownComponentsConfig,
+  rehypePluginsConfig,
+  remarkPluginsConfig,
+} from "../markdown/markdownPlugins.ts";
 import { AsciiLoader } from "../AsciiLoader.tsx";
 import {
   extractSlideOutlines,
   materializeSlideMarkdownFromLines,
   splitMarkdownLines,
 } from "../../lib/slideParser.ts";
-import { SLIDE_TAG_LABELS } from "../../lib/slideModels.ts";
+import { SLIDE_TAG_LABELS, type SlideSegmentation } from "../../lib/slideModels.ts";
 import { useSlideSession } from "./useSlideSession.ts";
 import "./SlidesView.css";
 
@@ -16,12 +20,23 @@ interface SlidesViewProps {
   markdown: string;
   fontScale: number;
   layoutMode: "horizontal" | "vertical";
+  segmentation: SlideSegmentation;
+  slideIndex: number;
+  onSlideIndexChange: (index: number) => void;
 }
 
-const remarkPluginsConfig = [remarkGfm];
-
-export function SlidesView({ markdown, fontScale, layoutMode }: SlidesViewProps) {
-  const outlines = useMemo(() => extractSlideOutlines(markdown), [markdown]);
+export function SlidesView({
+  markdown,
+  fontScale,
+  layoutMode,
+  segmentation,
+  slideIndex,
+  onSlideIndexChange,
+}: SlidesViewProps) {
+  const outlines = useMemo(
+    () => extractSlideOutlines(markdown, { segmentation, fontScale }),
+    [fontScale, markdown, segmentation],
+  );
   const markdownLines = useMemo(() => splitMarkdownLines(markdown), [markdown]);
   const thumbnailRailRef = useRef<HTMLDivElement | null>(null);
 
@@ -34,6 +49,8 @@ export function SlidesView({ markdown, fontScale, layoutMode }: SlidesViewProps)
   } = useSlideSession({
     slideCount: outlines.length,
     layoutMode,
+    slideIndex,
+    onSlideIndexChange,
   });
 
   useEffect(() => {
@@ -133,7 +150,11 @@ export function SlidesView({ markdown, fontScale, layoutMode }: SlidesViewProps)
                 <div className="slides-card-content">
                   {isLoaded ? (
                     <div className="slides-markdown" style={{ fontSize: `${fontScalePercent}%` }}>
-                      <ReactMarkdown remarkPlugins={remarkPluginsConfig}>
+                      <ReactMarkdown
+                        components={markdownComponentsConfig}
+                        remarkPlugins={remarkPluginsConfig}
+                        rehypePlugins={rehypePluginsConfig}
+                      >
                         {activeMarkdown}
                       </ReactMarkdown>
                     </div>
@@ -0,0 +1,36 @@
+import { useCallback, useSyncExternalStore } from "react";
+import type { RefObject } from "react";
+
+interface UseFullscreenResult {
+  isFullscreen: boolean;
+  isSupported: boolean;
+  toggleFullscreen: () => void;
+}
+
+function subscribeToFullscreenChange(onChange: () => void) {
+  document.addEventListener("fullscreenchange", onChange);
+  return () => document.removeEventListener("fullscreenchange", onChange);
+}
+
+export function useFullscreen(targetRef: RefObject<HTMLElement | null>): UseFullscreenResult {
+  const isFullscreen = useSyncExternalStore(
+    subscribeToFullscreenChange,
+    () => document.fullscreenElement !== null,
+    () => false,
+  );
+
+  const toggleFullscreen = useCallback(() => {
+    if (document.fullscreenElement) {
+      void document.exitFullscreen();
+      return;
+    }
+
+    void targetRef.current?.requestFullscreen();
+  }, [targetRef]);
+
+  return {
+    isFullscreen,
+    isSupported: document.fullscreenEnabled,
+    toggleFullscreen,
+  };
+}
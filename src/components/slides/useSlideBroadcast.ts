@@ -0,0 +1,108 @@
+import { useEffect, useRef } from "react";
+import {
+  getSlideBroadcastChannelName,
+  type SlideBroadcastMessage,
+  type SlideBroadcastState,
+} from "../../lib/slideBroadcastMessages.ts";
+
+interface UseSlideBroadcastArgs {
+  docId: string | null;
+  /** The presenter answers `audience-ready`; audience windows announce themselves. */
+  role: "presenter" | "audience";
+  state: SlideBroadcastState;
+  onSlideIndexChange: (index: number) => void;
+  /** Audience windows adopt the presenter's font scale and segmentation. */
+  onDisplayChange?: (state: SlideBroadcastState) => void;
+}
+
+/**
+ * Keeps every window showing the same document on the same slide. Both sides
+ * publish their own changes, so navigating in the audience window also moves
+ * the presenter.
+ */
+export function useSlideBroadcast({
+  docId,
+  role,
+  state,
+  onSlideIndexChange,
+  onDisplayChange,
+}: UseSlideBroadcastArgs) {
+  const { slideIndex, fontScale, segmentation } = state;
+  const channelRef = useRef<BroadcastChannel | null>(null);
+  const stateRef = useRef(state);
+  const handlersRef = useRef({ onSlideIndexChange, onDisplayChange });
+  // State applied from another window; echoing it back could undo a newer
+  // local change that is still in flight.
+  const receivedStateRef = useRef<SlideBroadcastState | null>(null);
+  // An audience window stays quiet until the presenter has answered, so a
+  // reloaded window with a stale `?slide` cannot pull the presenter back.
+  const hasSyncedRef = useRef(role === "presenter");
+
+  useEffect(() => {
+    stateRef.current = { slideIndex, fontScale, segmentation };
+    handlersRef.current = { onSlideIndexChange, onDisplayChange };
+  });
+
+  useEffect(() => {
+    if (!docId || typeof BroadcastChannel === "undefined") return;
+
+    const channel = new BroadcastChannel(getSlideBroadcastChannelName(docId));
+    channelRef.current = channel;
+
+    channel.onmessage = (event: MessageEvent<SlideBroadcastMessage>) => {
+      const message = event.data;
+
+      if (message.type === "audience-ready") {
+        if (role === "presenter") {
+          channel.postMessage({
+            type: "slide-state",
+            ...stateRef.current,
+          } satisfies SlideBroadcastMessage);
+        }
+        return;
+      }
+
+      const receivedState: SlideBroadcastState = {
+        slideIndex: message.slideIndex,
+        fontScale: message.fontScale,
+        segmentation: message.segmentation,
+      };
+      hasSyncedRef.current = true;
+      receivedStateRef.current = receivedState;
+
+      handlersRef.current.onDisplayChange?.(receivedState);
+      if (receivedState.slideIndex !== stateRef.current.slideIndex) {
+        handlersRef.current.onSlideIndexChange(receivedState.slideIndex);
+      }
+    };
+
+    if (role === "audience") {
+      channel.postMessage({ type: "audience-ready" } satisfies SlideBroadcastMessage);
+    }
+
+    return () => {
+      channel.close();
+      channelRef.current = null;
+    };
+  }, [docId, role]);
+
+  useEffect(() => {
+    const receivedState = receivedStateRef.current;
+    receivedStateRef.current = null;
+    if (!hasSyncedRef.current) return;
+    if (
+      receivedState?.slideIndex === slideIndex &&
+      receivedState.fontScale === fontScale &&
+      receivedState.segmentation === segmentation
+    ) {
+      return;
+    }
+
+    channelRef.current?.postMessage({
+      type: "slide-state",
+      slideIndex,
+      fontScale,
+      segmentation,
+    } satisfies SlideBroadcastMessage);
+  }, [fontScale, segmentation, slideIndex]);
+}
@@ -5,6 +5,9 @@ export type SlideDirection = -1 | 1;
 interface UseSlideSessionArgs {
   slideCount: number;
   layoutMode: "horizontal" | "vertical";
+  /** Requested slide (0-based); clamped to the deck. Owned by the caller. */
+  slideIndex: number;
+  onSlideIndexChange: (index: number) => void;
 }
 
 interface UseSlideSessionResult {
@@ -20,13 +23,21 @@ const HYDRATION_RADIUS = 1;
 export function useSlideSession({
   slideCount,
   layoutMode,
+  slideIndex,
+  onSlideIndexChange,
 }: UseSlideSessionArgs): UseSlideSessionResult {
-  const [currentIndexState, setCurrentIndexState] = useState(0);
-  const [direction, setDirection] = useState<SlideDirection>(1);
-
   const currentIndex = slideCount > 0
-    ? clampNumber(currentIndexState, 0, slideCount - 1)
+    ? clampNumber(slideIndex, 0, slideCount - 1)
     : 0;
+  const [previousIndex, setPreviousIndex] = useState(currentIndex);
+  const [direction, setDirection] = useState<SlideDirection>(1);
+
+  // The index can also move through browser history, so derive the animation
+  // direction from the last rendered slide rather than from goToSlide.
+  if (currentIndex !== previousIndex) {
+    setPreviousIndex(currentIndex);
+    setDirection(currentIndex > previousIndex ? 1 : -1);
+  }
 
   const hydratedRange = useMemo(() => {
     if (slideCount <= 0) {
@@ -50,9 +61,8 @@ export function useSlideSession({
     const clamped = clampNumber(nextIndex, 0, slideCount - 1);
     if (clamped === currentIndex) return;
 
-    setDirection(clamped > currentIndex ? 1 : -1);
-    setCurrentIndexState(clamped);
-  }, [currentIndex, slideCount]);
+    onSlideIndexChange(clamped);
+  }, [currentIndex, onSlideIndexChange, slideCount]);
 
   useEffect(() => {
     function handleKeyDown(event: KeyboardEvent) {
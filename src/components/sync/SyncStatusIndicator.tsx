@@ -0,0 +1,114 @@
+import { useState } from "react";
+import { formatDate } from "../../lib/format.ts";
+import type { ConflictResolution } from "../../lib/supabaseDb.ts";
+import { useDocumentSync } from "./useDocumentSync.ts";
+import "./SyncStatusIndicator.css";
+
+interface SyncStatusIndicatorProps {
+  userId: string;
+}
+
+export function SyncStatusIndicator({ userId }: SyncStatusIndicatorProps) {
+  const { status, resolveConflict } = useDocumentSync(userId);
+  const [isOpen, setIsOpen] = useState(false);
+  const [resolvingId, setResolvingId] = useState<string | null>(null);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const blockedCount = status.blockedWrites.length;
+
+  async function handleResolve(documentId: string, resolution: ConflictResolution) {
+    setResolvingId(documentId);
+    setErrorMessage(null);
+
+    try {
+      await resolveConflict(documentId, resolution);
+    } catch (error) {
+      setErrorMessage(error instanceof Error ? error.message : "Could not resolve the change.");
+    } finally {
+      setResolvingId(null);
+    }
+  }
+
+  let label: string;
+  let tone: "offline" | "syncing" | "pending" | "synced";
+
+  if (!status.isOnline) {
+    label = status.pendingCount > 0 ? `Offline · ${status.pendingCount} queued` : "Offline";
+    tone = "offline";
+  } else if (status.isSyncing) {
+    label = "Syncing…";
+    tone = "syncing";
+  } else if (status.pendingCount > 0) {
+    label = `${status.pendingCount} queued`;
+    tone = "pending";
+  } else {
+    label = "Synced";
+    tone = "synced";
+  }
+
+  return (
+    <div className="sync-status">
+      <span className={`sync-status-label is-${tone}`} role="status">
+        {label}
+      </span>
+      {blockedCount > 0 ? (
+        <button
+          type="button"
+          className={`nav-button sync-status-conflicts${isOpen ? " is-active" : ""}`}
+          onClick={() => setIsOpen((previous) => !previous)}
+          aria-expanded={isOpen}
+        >
+          {blockedCount} {blockedCount === 1 ? "conflict" : "conflicts"}
+        </button>
+      ) : null}
+      {isOpen && blockedCount > 0 ? (
+        <div className="sync-status-panel">
+          <p className="sync-status-note">
+            These offline changes could not be saved. Keep your version or use the server's.
+          </p>
+          <ul className="sync-status-list">
+            {status.blockedWrites.map((write) => {
+              const isConflict = write.status === "conflict";
+              const isResolving = resolvingId === write.documentId;
+
+              return (
+                <li key={write.key} className="sync-status-item">
+                  <p className="sync-status-item-name">
+                    {write.document?.name ?? "Deleted document"}
+                  </p>
+                  <p className="sync-status-item-meta">
+                    {isConflict && write.serverUpdatedAt
+                      ? `Changed on the server ${formatDate(write.serverUpdatedAt)}`
+                      : write.errorMessage ?? "Sync failed."}
+                  </p>
+                  <div className="sync-status-actions">
+                    <button
+                      type="button"
+                      className="sync-status-action"
+                      onClick={() => void handleResolve(write.documentId, "keep-local")}
+                      disabled={isResolving}
+                    >
+                      {isConflict ? "Keep mine" : "Retry"}
+                    </button>
+                    <button
+                      type="button"
+                      className="sync-status-action"
+                      onClick={() => void handleResolve(write.documentId, "keep-server")}
+                      disabled={isResolving}
+                    >
+                      {isConflict ? "Use server" : "Discard"}
+                    </button>
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+          {errorMessage ? (
+            <p className="status error" role="status">
+              {errorMessage}
+            </p>
+          ) : null}
+        </div>
+      ) : null}
+    </div>
+  );
+}
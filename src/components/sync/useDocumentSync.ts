@@ -0,0 +1,61 @@
+import { useEffect, useSyncExternalStore } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import {
+  getDocumentSyncStatus,
+  subscribeDocumentSyncStatus,
+  updateDocumentSyncStatus,
+} from "../../lib/documentSyncStatus.ts";
+import {
+  loadDocumentSyncStatus,
+  resolveDocumentConflict,
+  syncPendingDocumentWrites,
+  type ConflictResolution,
+} from "../../lib/supabaseDb.ts";
+
+/** Tracks connectivity and replays queued document writes whenever the browser comes back online. */
+export function useDocumentSync(userId: string | null) {
+  const queryClient = useQueryClient();
+  const status = useSyncExternalStore(subscribeDocumentSyncStatus, getDocumentSyncStatus);
+
+  useEffect(() => {
+    if (!userId) return;
+
+    async function syncAndRefresh() {
+      try {
+        const { syncedCount } = await syncPendingDocumentWrites();
+        // Synced writes replace local copies with server versions everywhere.
+        if (syncedCount > 0) await queryClient.invalidateQueries();
+      } catch (error) {
+        console.error("Failed to sync offline changes:", error);
+      }
+    }
+
+    function handleOnline() {
+      updateDocumentSyncStatus({ isOnline: true });
+      void syncAndRefresh();
+    }
+
+    function handleOffline() {
+      updateDocumentSyncStatus({ isOnline: false });
+    }
+
+    window.addEventListener("online", handleOnline);
+    window.addEventListener("offline", handleOffline);
+
+    void loadDocumentSyncStatus()
+      .then(syncAndRefresh)
+      .catch((error: unknown) => console.error("Failed to load offline changes:", error));
+
+    return () => {
+      window.removeEventListener("online", handleOnline);
+      window.removeEventListener("offline", handleOffline);
+    };
+  }, [userId, queryClient]);
+
+  async function resolveConflict(documentId: string, resolution: ConflictResolution) {
+    await resolveDocumentConflict(documentId, resolution);
+    await queryClient.invalidateQueries();
+  }
+
+  return { status, resolveConflict };
+}
@@ -0,0 +1,143 @@
+import { useMemo, useState } from "react";
+import type { FormEvent } from "react";
+import {
+  DEFAULT_CONTEXT_WINDOW_SIZES,
+  buildContextWindowReport,
+  formatWindowSize,
+  type TokenBudget,
+} from "../../lib/tokenBudget.ts";
+import { TRAVERSE_TAG_LABELS } from "../../lib/traverseModels.ts";
+import "./TokenBudgetPanel.css";
+
+interface TokenBudgetPanelProps {
+  budget: TokenBudget;
+  encodingLabel: string;
+  onOpenLine: (line: number) => void;
+}
+
+export function TokenBudgetPanel({ budget, encodingLabel, onOpenLine }: TokenBudgetPanelProps) {
+  const [windowSizes, setWindowSizes] = useState<number[]>(DEFAULT_CONTEXT_WINDOW_SIZES);
+  const [windowSizeInput, setWindowSizeInput] = useState("");
+  const report = useMemo(
+    () => buildContextWindowReport(budget.totalTokens, windowSizes),
+    [budget.totalTokens, windowSizes],
+  );
+  const heaviestItemIndexes = useMemo(
+    () => new Set(budget.heaviestItemIndexes),
+    [budget.heaviestItemIndexes],
+  );
+  const maxSectionTokens = Math.max(1, ...budget.sections.map((section) => section.tokenCount));
+
+  function handleAddWindowSize(event: FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    const parsed = parseWindowSize(windowSizeInput);
+    if (!parsed) return;
+
+    setWindowSizes((previous) => (previous.includes(parsed) ? previous : [...previous, parsed]));
+    setWindowSizeInput("");
+  }
+
+  return (
+    <div className="token-budget">
+      <section className="token-budget-fit" aria-label="Context window fit">
+        <p className="token-budget-title">
+          Context fit · {budget.totalTokens.toLocaleString()} {encodingLabel} tokens
+        </p>
+        <ul className="token-budget-fit-list">
+          {report.map((fit) => (
+            <li
+              key={fit.windowSize}
+              className={`token-budget-fit-item${fit.fits ? " is-fit" : " is-overflow"}`}
+            >
+              <span className="token-budget-fit-size">{formatWindowSize(fit.windowSize)}</span>
+              <span className="token-budget-fit-bar">
+                <span style={{ width: `${Math.min(100, fit.usage * 100)}%` }} />
+              </span>
+              <span className="token-budget-fit-label">
+                {fit.fits
+                  ? `fits · ${fit.remainingTokens.toLocaleString()} left`
+                  : `over by ${(-fit.remainingTokens).toLocaleString()}`}
+              </span>
+              <button
+                type="button"
+                className="token-budget-remove"
+                onClick={() => setWindowSizes((previous) => (
+                  previous.filter((size) => size !== fit.windowSize)
+                ))}
+                aria-label={`Remove ${formatWindowSize(fit.windowSize)} window`}
+              >
+                ×
+              </button>
+            </li>
+          ))}
+        </ul>
+        <form className="token-budget-add" onSubmit={handleAddWindowSize}>
+          <input
+            className="token-budget-input"
+            value={windowSizeInput}
+            onChange={(event) => setWindowSizeInput(event.target.value)}
+            placeholder="Window size, e.g. 64k"
+            aria-label="Context window size"
+          />
+          <button
+            type="submit"
+            className="token-budget-button"
+            disabled={!parseWindowSize(windowSizeInput)}
+          >
+            Add
+          </button>
+        </form>
+      </section>
+
+      <section className="token-budget-sections" aria-label="Tokens per section">
+        <p className="token-budget-title">Sections</p>
+        {budget.sections.length === 0 ? (
+          <p className="token-budget-empty">No headings, code blocks or tables found.</p>
+        ) : (
+          <ul className="token-budget-section-list">
+            {budget.sections.map((section) => {
+              const isHeavy = section.itemIndex !== null && heaviestItemIndexes.has(section.itemIndex);
+
+              return (
+                <li key={section.key}>
+                  <button
+                    type="button"
+                    className={`token-budget-section${isHeavy ? " is-heavy" : ""}`}
+                    onClick={() => onOpenLine(section.startLine)}
+                  >
+                    <span className="token-budget-section-tag">
+                      {section.tag ? TRAVERSE_TAG_LABELS[section.tag] : "TOP"}
+                    </span>
+                    <span className="token-budget-section-label">{section.label}</span>
+                    <span className="token-budget-section-count">
+                      {section.tokenCount.toLocaleString()}
+                      {section.ownTokenCount !== section.tokenCount
+                        ? ` (${section.ownTokenCount.toLocaleString()} own)`
+                        : ""}
+                    </span>
+                    <span className="token-budget-section-bar">
+                      <span style={{ width: `${(section.tokenCount / maxSectionTokens) * 100}%` }} />
+                    </span>
+                  </button>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </section>
+    </div>
+  );
+}
+
+/** Accepts "64000", "64k" or "1m". */
+function parseWindowSize(value: string): number | null {
+  const match = /^\s*(\d+(?:\.\d+)?)\s*([km])?\s*$/i.exec(value);
+  if (!match) return null;
+
+  const multiplier = match[2]?.toLowerCase() === "m"
+    ? 1_000_000
+    : match[2]?.toLowerCase() === "k" ? 1_000 : 1;
+  const size = Math.round(Number(match[1]) * multiplier);
+
+  return size > 0 ? size : null;
+}
@@ -1,6 +1,10 @@
-import { useMemo } from "react";
-import type { TokenLine } from "../../lib/tokenModels.ts";
+import { useCallback, useMemo, useRef, useState } from "react";
+import type { TokenBudget } from "../../lib/tokenBudget.ts";
+import { getTokenEncoding, getTokenEncodings, type TokenLine } from "../../lib/tokenModels.ts";
 import { AsciiLoader } from "../AsciiLoader.tsx";
+import { useVirtualWindow } from "../virtual/useVirtualWindow.ts";
+import { TokenBudgetPanel } from "./TokenBudgetPanel.tsx";
+import type { TokenSessionProgress } from "./useTokenSession.ts";
 import {
   buildTokenDisplayRows,
   formatDisplayRowLineLabel,
@@ -8,27 +12,103 @@ import {
 import "./TokenView.css";
 
 interface TokenViewProps {
+  /** Changes with the document so row measurements are not carried over. */
+  documentKey: string;
   status: "idle" | "tokenizing" | "ready" | "error";
   lines: TokenLine[];
   totalLines: number;
+  /** Set while rows are still streaming in from the worker. */
+  progress: TokenSessionProgress | null;
   errorMessage: string | null;
   markdownFallback: string;
+  encodingId: string;
+  onEncodingChange: (encodingId: string) => void;
+  budget: TokenBudget | null;
+  onOpenLine: (line: number) => void;
 }
 
+type TokenViewPanel = "lines" | "sections";
+
 const LINE_HEIGHT_PX = 28;
+// Rough wrap estimate for rows that have not been measured yet.
+const WRAPPED_LINE_HEIGHT_PX = 21;
+const ESTIMATED_CHARS_PER_LINE = 110;
 
 export function TokenView({
+  documentKey,
   status,
   lines,
   totalLines,
+  progress,
   errorMessage,
   markdownFallback,
+  encodingId,
+  onEncodingChange,
+  budget,
+  onOpenLine,
 }: TokenViewProps) {
+  const [panel, setPanel] = useState<TokenViewPanel>("lines");
   const visibleRows = useMemo(() => buildTokenDisplayRows(lines), [lines]);
+  const encoding = getTokenEncoding(encodingId);
+  const scrollRef = useRef<HTMLDivElement | null>(null);
+  const estimateRowSize = useCallback((index: number) => {
+    const row = visibleRows[index];
+    if (!row || row.type === "collapsed-empty") return LINE_HEIGHT_PX;
+
+    const characterCount = row.line.tokens.reduce((total, token) => total + token.text.length, 0);
+    return LINE_HEIGHT_PX +
+      Math.floor(characterCount / ESTIMATED_CHARS_PER_LINE) * WRAPPED_LINE_HEIGHT_PX;
+  }, [visibleRows]);
+  const { listRef, segments, measureElement } = useVirtualWindow({
+    count: visibleRows.length,
+    estimateSize: estimateRowSize,
+    scrollElementRef: scrollRef,
+    resetKey: `${documentKey}\n${encoding.id}`,
+  });
+  const renderedRows = segments.flatMap((segment) =>
+    segment.type === "item" ? [visibleRows[segment.index]!] : []
+  );
+  const firstRenderedLine = renderedRows[0]?.startLine ?? 1;
+  const lastRenderedLine = renderedRows[renderedRows.length - 1]?.endLine ?? Math.max(totalLines, 1);
+  const encodingPicker = (
+    <div className="token-view-toolbar">
+      <div className="token-view-panels" role="group" aria-label="Token view panel">
+        <button
+          type="button"
+          className={`token-view-panel-button${panel === "lines" ? " is-active" : ""}`}
+          onClick={() => setPanel("lines")}
+        >
+          Lines
+        </button>
+        <button
+          type="button"
+          className={`token-view-panel-button${panel === "sections" ? " is-active" : ""}`}
+          onClick={() => setPanel("sections")}
+        >
+          Sections
+        </button>
+      </div>
+      <label className="token-view-encoding">
+        <span>Encoding</span>
+        <select
+          className="token-view-encoding-select"
+          value={encoding.id}
+          onChange={(event) => onEncodingChange(event.target.value)}
+        >
+          {getTokenEncodings().map((option) => (
+            <option key={option.id} value={option.id}>
+              {option.label} · {option.models}
+            </option>
+          ))}
+        </select>
+      </label>
+    </div>
+  );
 
   if (status === "error") {
     return (
-      <div className="token-view token-view-state">
+      <div className="token-view token-view-state is-error">
+        {encodingPicker}
         <p className="token-view-message">Tokenization failed: {errorMessage ?? "Unknown error."}</p>
         <pre className="token-view-fallback">
           <code>{markdownFallback}</code>
@@ -37,52 +117,83 @@ export function TokenView({
     );
   }
 
-  if (status === "tokenizing") {
+  // Large documents stream in batches; rows render as soon as the first batch lands.
+  if (status === "tokenizing" && lines.length === 0) {
     return (
       <div className="token-view token-view-state">
-        <AsciiLoader label="Tokenizing markdown with o200k rules..." />
+        {encodingPicker}
+        <AsciiLoader label={`Tokenizing markdown with ${encoding.label} rules...`} />
       </div>
     );
   }
 
-  if (status !== "ready") {
+  if (status !== "ready" && status !== "tokenizing") {
     return (
       <div className="token-view token-view-state">
+        {encodingPicker}
         <p className="token-view-message">Open Token View to inspect model-style tokens.</p>
       </div>
     );
   }
 
+  if (panel === "sections" && budget) {
+    return (
+      <div className="token-view token-view-state">
+        {encodingPicker}
+        <TokenBudgetPanel budget={budget} encodingLabel={encoding.label} onOpenLine={onOpenLine} />
+      </div>
+    );
+  }
+
   return (
     <div className="token-view">
-      <div className="token-view-scroll">
-        {visibleRows.map((row) => (
-          <div className="token-view-line" key={row.key} style={{ minHeight: LINE_HEIGHT_PX }}>
-            <span className="token-view-line-number">
-              {formatDisplayRowLineLabel(row)}
-            </span>
-            {row.type === "collapsed-empty" ? (
-              <span className="token-view-line-content token-view-collapsed">
-                blank
-              </span>
-            ) : (
-              <span className="token-view-line-content">
-                {row.line.tokens.length === 0 ? (
-                  <span className="token-view-empty-line"> </span>
+      {encodingPicker}
+      <div className="token-view-scroll" ref={scrollRef}>
+        <div ref={listRef}>
+          {segments.map((segment) => {
+            if (segment.type === "spacer") {
+              return <div key={segment.key} style={{ height: segment.height }} aria-hidden="true" />;
+            }
+
+            const row = visibleRows[segment.index]!;
+
+            return (
+              <div
+                className="token-view-line"
+                key={row.key}
+                style={{ minHeight: LINE_HEIGHT_PX }}
+                data-virtual-index={segment.index}
+                ref={measureElement}
+              >
+                <span className="token-view-line-number">
+                  {formatDisplayRowLineLabel(row)}
+                </span>
+                {row.type === "collapsed-empty" ? (
+                  <span className="token-view-line-content token-view-collapsed">
+                    blank
+                  </span>
                 ) : (
-                  row.line.tokens.map((segment) => (
-                    <span className="token-view-token" key={segment.sequence}>
-                      {renderVisibleWhitespace(segment.text)}
-                    </span>
-                  ))
+                  <span className="token-view-line-content">
+                    {row.line.tokens.length === 0 ? (
+                      <span className="token-view-empty-line"> </span>
+                    ) : (
+                      row.line.tokens.map((token) => (
+                        <span className="token-view-token" key={token.sequence}>
+                          {renderVisibleWhitespace(token.text)}
+                        </span>
+                      ))
+                    )}
+                  </span>
                 )}
-              </span>
-            )}
-          </div>
-        ))}
+              </div>
+            );
+          })}
+        </div>
       </div>
       <p className="token-view-range">
-        showing lines 1-{Math.max(totalLines, 1)} of {Math.max(totalLines, 1)}
+        {status === "tokenizing"
+          ? `tokenizing · ${lines.length} of ${progress?.totalLines ?? "?"} lines ready`
+          : `showing lines ${firstRenderedLine}-${lastRenderedLine} of ${Math.max(totalLines, 1)}`}
       </p>
     </div>
   );
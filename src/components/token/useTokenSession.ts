@@ -1,28 +1,43 @@
 import { useCallback, useEffect, useReducer, useRef } from "react";
-import { EMPTY_TOKENIZED_DOCUMENT, type TokenizedDocument } from "../../lib/tokenModels.ts";
+import {
+  EMPTY_TOKENIZED_DOCUMENT,
+  type TokenEncodingSpec,
+  type TokenLine,
+  type TokenizedDocument,
+} from "../../lib/tokenModels.ts";
 import type { TokenWorkerRequest, TokenWorkerResponse } from "../../lib/tokenWorkerMessages.ts";
 
 interface UseTokenSessionArgs {
   docId: string | null;
   docToken: string;
   markdown: string | null;
+  encoding: TokenEncodingSpec;
   enabled: boolean;
 }
 
 type TokenSessionStatus = "idle" | "tokenizing" | "ready" | "error";
 
+export interface TokenSessionProgress {
+  processedLines: number;
+  totalLines: number;
+}
+
 interface TokenSessionState {
   status: TokenSessionStatus;
+  /** While tokenizing, holds the rows streamed so far. */
   tokenizedDocument: TokenizedDocument;
+  progress: TokenSessionProgress | null;
   errorMessage: string | null;
-  resultDocToken: string | null;
+  /** `${docToken}\n${encodingId}` of the result shown. */
+  resultKey: string | null;
 }
 
 const DEFAULT_TOKEN_SESSION_STATE: TokenSessionState = {
   status: "idle",
   tokenizedDocument: EMPTY_TOKENIZED_DOCUMENT,
+  progress: null,
   errorMessage: null,
-  resultDocToken: null,
+  resultKey: null,
 };
 
 const WORKER_INIT_ERROR_MESSAGE = "Unable to initialize tokenizer worker.";
@@ -31,10 +46,11 @@ type TokenSessionAction =
   | { type: "worker-init-failed"; message: string }
   | { type: "reset" }
   | { type: "idle" }
-  | { type: "ready-cached"; docToken: string }
+  | { type: "ready-cached"; resultKey: string }
   | { type: "tokenizing" }
-  | { type: "ready"; docToken: string; result: TokenizedDocument }
-  | { type: "error"; docToken: string | null; message: string };
+  | { type: "partial"; lines: TokenLine[]; progress: TokenSessionProgress }
+  | { type: "ready"; resultKey: string; lines: TokenLine[]; totalTokens: number; totalLines: number }
+  | { type: "error"; resultKey: string | null; message: string };
 
 function tokenSessionReducer(
   state: TokenSessionState,
@@ -44,8 +60,9 @@ function tokenSessionReducer(
     return {
       status: "error",
       tokenizedDocument: EMPTY_TOKENIZED_DOCUMENT,
+      progress: null,
       errorMessage: action.message,
-      resultDocToken: null,
+      resultKey: null,
     };
   }
 
@@ -58,12 +75,13 @@ function tokenSessionReducer(
     return {
       ...state,
       status: "idle",
+      progress: null,
       errorMessage: null,
     };
   }
 
   if (action.type === "ready-cached") {
-    if (state.resultDocToken !== action.docToken) return state;
+    if (state.resultKey !== action.resultKey) return state;
     if (state.status === "ready" && !state.errorMessage) return state;
     return {
       ...state,
@@ -76,25 +94,46 @@ function tokenSessionReducer(
     return {
       status: "tokenizing",
       tokenizedDocument: EMPTY_TOKENIZED_DOCUMENT,
+      progress: null,
       errorMessage: null,
-      resultDocToken: null,
+      resultKey: null,
+    };
+  }
+
+  if (action.type === "partial") {
+    if (state.status !== "tokenizing") return state;
+    return {
+      ...state,
+      tokenizedDocument: {
+        ...state.tokenizedDocument,
+        lines: state.tokenizedDocument.lines.concat(action.lines),
+      },
+      progress: action.progress,
     };
   }
 
   if (action.type === "ready") {
+    // Streamed rows were already appended; the result carries only the rest.
+    const streamedLines = state.status === "tokenizing" ? state.tokenizedDocument.lines : [];
     return {
       status: "ready",
-      tokenizedDocument: action.result,
+      tokenizedDocument: {
+        lines: streamedLines.length > 0 ? streamedLines.concat(action.lines) : action.lines,
+        totalTokens: action.totalTokens,
+        totalLines: action.totalLines,
+      },
+      progress: null,
       errorMessage: null,
-      resultDocToken: action.docToken,
+      resultKey: action.resultKey,
     };
   }
 
   return {
     status: "error",
     tokenizedDocument: EMPTY_TOKENIZED_DOCUMENT,
+    progress: null,
     errorMessage: action.message,
-    resultDocToken: action.docToken,
+    resultKey: action.resultKey,
   };
 }
 
@@ -102,17 +141,20 @@ export function useTokenSession({
   docId,
   docToken,
   markdown,
+  encoding,
   enabled,
 }: UseTokenSessionArgs) {
+  const { id: encodingId, rankUrl } = encoding;
+  const resultKey = `${docToken}\n${encodingId}`;
   const [state, dispatch] = useReducer(tokenSessionReducer, DEFAULT_TOKEN_SESSION_STATE);
   const workerRef = useRef<Worker | null>(null);
   const requestIdRef = useRef(0);
-  const resultDocTokenRef = useRef<string | null>(null);
-  const activeDocTokenRef = useRef(docToken);
+  const resultKeyRef = useRef<string | null>(null);
+  const activeResultKeyRef = useRef(resultKey);
 
   useEffect(() => {
-    activeDocTokenRef.current = docToken;
-  }, [docToken]);
+    activeResultKeyRef.current = resultKey;
+  }, [resultKey]);
 
   const postWorkerMessage = useCallback((message: TokenWorkerRequest) => {
     workerRef.current?.postMessage(message);
@@ -141,18 +183,34 @@ export function useTokenSession({
       if (message.type === "tokenize-error") {
         dispatch({
           type: "error",
-          docToken: activeDocTokenRef.current,
+          resultKey: activeResultKeyRef.current,
           message: message.message,
         });
         return;
       }
 
-      const activeDocToken = activeDocTokenRef.current;
-      resultDocTokenRef.current = activeDocToken;
+      if (message.type === "tokenize-partial") {
+        dispatch({
+          type: "partial",
+          lines: message.lines,
+          progress: {
+            processedLines: message.processedLines,
+            totalLines: message.totalLines,
+          },
+        });
+        return;
+      }
+
+      if (message.type !== "tokenize-result") return;
+
+      const activeResultKey = activeResultKeyRef.current;
+      resultKeyRef.current = activeResultKey;
       dispatch({
         type: "ready",
-        docToken: activeDocToken,
-        result: message.result,
+        resultKey: activeResultKey,
+        lines: message.lines,
+        totalTokens: message.totalTokens,
+        totalLines: message.totalLines,
       });
     };
 
@@ -172,7 +230,7 @@ export function useTokenSession({
     requestIdRef.current += 1;
 
     if (!docId || markdown === null) {
-      resultDocTokenRef.current = null;
+      resultKeyRef.current = null;
       dispatch({ type: "reset" });
       postWorkerMessage({ type: "clear-document" });
       return;
@@ -181,7 +239,7 @@ export function useTokenSession({
     if (!workerRef.current) {
       dispatch({
         type: "error",
-        docToken,
+        resultKey,
         message: WORKER_INIT_ERROR_MESSAGE,
       });
       return;
@@ -198,8 +256,8 @@ export function useTokenSession({
       return;
     }
 
-    if (resultDocTokenRef.current === docToken) {
-      dispatch({ type: "ready-cached", docToken });
+    if (resultKeyRef.current === resultKey) {
+      dispatch({ type: "ready-cached", resultKey });
       return;
     }
 
@@ -209,8 +267,9 @@ export function useTokenSession({
     postWorkerMessage({
       type: "tokenize",
       id,
+      encoding: { id: encodingId, rankUrl },
     });
-  }, [docId, docToken, markdown, enabled, postWorkerMessage]);
+  }, [docId, docToken, markdown, encodingId, rankUrl, resultKey, enabled, postWorkerMessage]);
 
   return state;
 }
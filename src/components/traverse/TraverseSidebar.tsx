@@ -1,4 +1,5 @@
 import type { RefObject } from "react";
+import type { TokenBudget } from "../../lib/tokenBudget.ts";
 import {
   TRAVERSE_TAG_LABELS,
   type TraverseItem,
@@ -11,6 +12,8 @@ interface TraverseSidebarProps {
   isOpen: boolean;
   selectedIndex: number;
   navigationMode: TraverseNavigationMode;
+  /** Per-section token counts; null until the document has been tokenized. */
+  tokenBudget: TokenBudget | null;
   listRef: RefObject<HTMLUListElement | null>;
   onSelect: (index: number) => void;
   onClose: () => void;
@@ -21,6 +24,7 @@ export function TraverseSidebar({
   isOpen,
   selectedIndex,
   navigationMode,
+  tokenBudget,
   listRef,
   onSelect,
   onClose,
@@ -40,27 +44,46 @@ export function TraverseSidebar({
         {items.length} elements · {navigationMode === "document" ? "Document mode" : "List mode"}
       </p>
       <p className="traverse-sidebar-hint">↑/↓ move · → open · ← back</p>
+      {tokenBudget && tokenBudget.heaviestItemIndexes.length > 0 ? (
+        <p className="traverse-sidebar-meta">
+          {tokenBudget.totalTokens.toLocaleString()} tokens · heaviest sections marked
+        </p>
+      ) : null}
 
       {items.length === 0 ? (
         <p className="traverse-sidebar-empty">No markdown elements found.</p>
       ) : (
         <ul className="traverse-list" ref={listRef}>
-          {items.map((item, index) => (
-            <li key={item.id} className="traverse-list-item">
-              <button
-                type="button"
-                className={`traverse-list-button${selectedIndex === index ? " is-active" : ""}`}
-                data-traverse-index={index}
-                onClick={() => onSelect(index)}
-              >
-                <span className="traverse-list-tag">{TRAVERSE_TAG_LABELS[item.type]}</span>
-                <span className="traverse-list-text">{item.text}</span>
-                {item.line ? (
-                  <span className="traverse-list-line">L{item.line}</span>
-                ) : null}
-              </button>
-            </li>
-          ))}
+          {items.map((item, index) => {
+            const section = tokenBudget?.sectionsByItemIndex.get(index) ?? null;
+            const heavyRank = tokenBudget?.heaviestItemIndexes.indexOf(index) ?? -1;
+
+            return (
+              <li key={item.id} className="traverse-list-item">
+                <button
+                  type="button"
+                  className={
+                    `traverse-list-button${selectedIndex === index ? " is-active" : ""}` +
+                    `${heavyRank >= 0 ? " is-token-heavy" : ""}`
+                  }
+                  title={heavyRank >= 0 ? `#${heavyRank + 1} heaviest section` : undefined}
+                  data-traverse-index={index}
+                  onClick={() => onSelect(index)}
+                >
+                  <span className="traverse-list-tag">{TRAVERSE_TAG_LABELS[item.type]}</span>
+                  <span className="traverse-list-text">{item.text}</span>
+                  {section ? (
+                    <span className="traverse-list-tokens">
+                      {section.tokenCount.toLocaleString()} tok
+                    </span>
+                  ) : null}
+                  {item.line ? (
+                    <span className="traverse-list-line">L{item.line}</span>
+                  ) : null}
+                </button>
+              </li>
+            );
+          })}
         </ul>
       )}
     </aside>
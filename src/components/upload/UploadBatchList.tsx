@@ -0,0 +1,71 @@
+import { formatBytes } from "../../lib/format.ts";
+import "./UploadBatchList.css";
+
+export type UploadItemStatus = "queued" | "uploading" | "saved" | "error";
+
+export interface UploadBatchItem {
+  key: string;
+  path: string;
+  sizeBytes: number;
+  status: UploadItemStatus;
+  errorMessage: string | null;
+}
+
+interface UploadBatchListProps {
+  items: UploadBatchItem[];
+  isBusy: boolean;
+  onClear: () => void;
+}
+
+const STATUS_LABELS: Record<UploadItemStatus, string> = {
+  queued: "Queued",
+  uploading: "Uploading",
+  saved: "Saved",
+  error: "Failed",
+};
+
+export function UploadBatchList({ items, isBusy, onClear }: UploadBatchListProps) {
+  const settledCount = items.filter(
+    (item) => item.status === "saved" || item.status === "error",
+  ).length;
+  const savedCount = items.filter((item) => item.status === "saved").length;
+  const failedCount = items.filter((item) => item.status === "error").length;
+  const progressRatio = items.length > 0 ? settledCount / items.length : 0;
+
+  return (
+    <section className="upload-batch" aria-label="Upload progress">
+      <div className="upload-batch-header">
+        <p className="upload-batch-summary">
+          {settledCount} / {items.length} processed · {savedCount} saved
+          {failedCount > 0 ? ` · ${failedCount} failed` : ""}
+        </p>
+        <button
+          type="button"
+          className="upload-batch-clear"
+          onClick={onClear}
+          disabled={isBusy}
+        >
+          Clear
+        </button>
+      </div>
+      <div className="upload-batch-track">
+        <div
+          className={`upload-batch-fill${failedCount > 0 ? " is-warning" : ""}`}
+          style={{ width: `${Math.min(100, progressRatio * 100)}%` }}
+        />
+      </div>
+      <ul className="upload-batch-list">
+        {items.map((item) => (
+          <li className={`upload-batch-item is-${item.status}`} key={item.key}>
+            <span className="upload-batch-status">{STATUS_LABELS[item.status]}</span>
+            <span className="upload-batch-path">{item.path}</span>
+            <span className="upload-batch-size">{formatBytes(item.sizeBytes)}</span>
+            {item.errorMessage ? (
+              <span className="upload-batch-error">{item.errorMessage}</span>
+            ) : null}
+          </li>
+        ))}
+      </ul>
+    </section>
+  );
+}
@@ -0,0 +1,219 @@
+import { useCallback, useEffect, useMemo, useRef, useState, useSyncExternalStore } from "react";
+import type { RefObject } from "react";
+
+/* ── Windowed rendering: only items near the viewport are mounted ── */
+
+interface UseVirtualWindowArgs {
+  count: number;
+  /** Must be stable (memoized); called for every item that has not been measured yet. */
+  estimateSize: (index: number) => number;
+  scrollElementRef: RefObject<HTMLElement | null>;
+  /** Measurements are dropped when this changes, e.g. on a new document. */
+  resetKey: string;
+  /** Kept mounted even when off screen, so it can be found and scrolled to. */
+  pinnedIndex?: number | null;
+  overscanPx?: number;
+}
+
+export type VirtualSegment =
+  | { type: "spacer"; key: string; height: number }
+  | { type: "item"; index: number };
+
+interface MeasuredSizes {
+  resetKey: string;
+  sizes: Float64Array;
+}
+
+const DEFAULT_OVERSCAN_PX = 800;
+// Used before the scroll element mounts so the first paint is not empty.
+const FALLBACK_VIEWPORT_PX = 1200;
+
+export function useVirtualWindow({
+  count,
+  estimateSize,
+  scrollElementRef,
+  resetKey,
+  pinnedIndex = null,
+  overscanPx = DEFAULT_OVERSCAN_PX,
+}: UseVirtualWindowArgs) {
+  // State rather than a ref so the scroll subscription restarts when the list mounts.
+  const [listElement, setListElement] = useState<HTMLElement | null>(null);
+  const [measured, setMeasured] = useState<MeasuredSizes | null>(null);
+  const sizesRef = useRef<Float64Array>(new Float64Array(0));
+  const resetKeyRef = useRef(resetKey);
+  const pendingSizesRef = useRef(new Map<number, number>());
+  const frameRef = useRef<number | null>(null);
+  const resizeObserverRef = useRef<ResizeObserver | null>(null);
+
+  // Measured sizes survive a growing list (streamed rows) but not a reset.
+  const sizes = useMemo(() => {
+    const next = new Float64Array(count);
+    const previous = measured && measured.resetKey === resetKey ? measured.sizes : null;
+
+    for (let index = 0; index < count; index += 1) {
+      next[index] = previous && index < previous.length ? previous[index]! : estimateSize(index);
+    }
+
+    return next;
+  }, [count, estimateSize, measured, resetKey]);
+
+  const offsets = useMemo(() => {
+    const next = new Float64Array(count + 1);
+    for (let index = 0; index < count; index += 1) {
+      next[index + 1] = next[index]! + sizes[index]!;
+    }
+    return next;
+  }, [count, sizes]);
+
+  useEffect(() => {
+    sizesRef.current = sizes;
+    resetKeyRef.current = resetKey;
+  }, [resetKey, sizes]);
+
+  const subscribe = useCallback((onChange: () => void) => {
+    const scrollElement = scrollElementRef.current;
+    if (!scrollElement || !listElement) return () => {};
+
+    const resizeObserver = new ResizeObserver(onChange);
+    resizeObserver.observe(scrollElement);
+    scrollElement.addEventListener("scroll", onChange, { passive: true });
+
+    return () => {
+      resizeObserver.disconnect();
+      scrollElement.removeEventListener("scroll", onChange);
+    };
+  }, [listElement, scrollElementRef]);
+
+  const viewport = useSyncExternalStore(
+    subscribe,
+    () => readViewport(scrollElementRef.current, listElement),
+    () => `0:${FALLBACK_VIEWPORT_PX}`,
+  );
+
+  const flushMeasurements = useCallback(() => {
+    frameRef.current = null;
+    const pending = pendingSizesRef.current;
+    if (pending.size === 0) return;
+
+    const next = sizesRef.current.slice();
+    let hasChanged = false;
+
+    for (const [index, size] of pending) {
+      if (index < next.length && Math.abs(next[index]! - size) > 0.5) {
+        next[index] = size;
+        hasChanged = true;
+      }
+    }
+
+    pending.clear();
+    if (hasChanged) setMeasured({ resetKey: resetKeyRef.current, sizes: next });
+  }, []);
+
+  /** Ref callback for each rendered item; the element must carry `data-virtual-index`. */
+  const measureElement = useCallback((element: HTMLElement | null) => {
+    if (!element) return;
+
+    if (!resizeObserverRef.current) {
+      resizeObserverRef.current = new ResizeObserver((entries) => {
+        for (const entry of entries) {
+          const target = entry.target as HTMLElement;
+          const index = Number(target.dataset.virtualIndex);
+          if (!Number.isInteger(index)) continue;
+          pendingSizesRef.current.set(index, target.getBoundingClientRect().height);
+        }
+
+        frameRef.current ??= window.requestAnimationFrame(flushMeasurements);
+      });
+    }
+
+    const resizeObserver = resizeObserverRef.current;
+    resizeObserver.observe(element);
+    return () => resizeObserver.unobserve(element);
+  }, [flushMeasurements]);
+
+  useEffect(() => () => {
+    resizeObserverRef.current?.disconnect();
+    if (frameRef.current !== null) window.cancelAnimationFrame(frameRef.current);
+  }, []);
+
+  const segments = useMemo(() => {
+    const [scrollTop, viewportHeight] = viewport.split(":").map(Number) as [number, number];
+    const firstIndex = findIndexAtOffset(offsets, scrollTop - overscanPx);
+    const lastIndex = findIndexAtOffset(offsets, scrollTop + viewportHeight + overscanPx);
+    const indexes: number[] = [];
+
+    for (let index = firstIndex; index <= lastIndex && index < count; index += 1) {
+      indexes.push(index);
+    }
+
+    if (pinnedIndex !== null && pinnedIndex >= 0 && pinnedIndex < count) {
+      if (pinnedIndex < firstIndex) indexes.unshift(pinnedIndex);
+      if (pinnedIndex > lastIndex) indexes.push(pinnedIndex);
+    }
+
+    return buildSegments(indexes, offsets, count);
+  }, [count, offsets, overscanPx, pinnedIndex, viewport]);
+
+  return {
+    listRef: setListElement,
+    segments,
+    measureElement,
+  };
+}
+
+function readViewport(scrollElement: HTMLElement | null, listElement: HTMLElement | null): string {
+  if (!scrollElement) return `0:${FALLBACK_VIEWPORT_PX}`;
+
+  const listTop = listElement
+    ? listElement.getBoundingClientRect().top -
+      scrollElement.getBoundingClientRect().top +
+      scrollElement.scrollTop
+    : 0;
+
+  return `${Math.round(scrollElement.scrollTop - listTop)}:${scrollElement.clientHeight}`;
+}
+
+/** Binary search for the item whose extent contains `offset`. */
+function findIndexAtOffset(offsets: Float64Array, offset: number): number {
+  let low = 0;
+  let high = Math.max(0, offsets.length - 2);
+
+  while (low < high) {
+    const middle = (low + high + 1) >> 1;
+    if (offsets[middle]! <= offset) {
+      low = middle;
+    } else {
+      high = middle - 1;
+    }
+  }
+
+  return low;
+}
+
+function buildSegments(indexes: number[], offsets: Float64Array, count: number): VirtualSegment[] {
+  const segments: VirtualSegment[] = [];
+  let cursor = 0;
+
+  for (const index of indexes) {
+    if (index > cursor) {
+      segments.push({
+        type: "spacer",
+        key: `spacer-${cursor}`,
+        height: offsets[index]! - offsets[cursor]!,
+      });
+    }
+
+    segments.push({ type: "item", index });
+    cursor = index + 1;
+  }
+
+  if (cursor < count) {
+    segments.push({
+      type: "spacer",
+      key: `spacer-${cursor}`,
+      height: offsets[count]! - offsets[cursor]!,
+    });
+  }
+
+  return segments;
+}
@@ -0,0 +1,70 @@
+/* ── Token-aware chunks for retrieval pipelines ── */
+
+export interface ChunkOptions {
+  /** Chunks are packed up to this many tokens; a single oversized line may exceed it. */
+  targetTokens: number;
+  /** Tokens of trailing context repeated from the previous chunk. */
+  overlapTokens: number;
+}
+
+export interface DocumentChunk {
+  chunkIndex: number;
+  /** Headings enclosing the chunk's first block, outermost first. */
+  headingPath: string[];
+  startLine: number;
+  endLine: number;
+  tokenCount: number;
+  text: string;
+}
+
+export interface ChunkedDocument {
+  chunks: DocumentChunk[];
+  totalTokens: number;
+}
+
+export const DEFAULT_CHUNK_OPTIONS: ChunkOptions = {
+  targetTokens: 512,
+  overlapTokens: 64,
+};
+
+export const MIN_CHUNK_TARGET_TOKENS = 32;
+export const MAX_CHUNK_TARGET_TOKENS = 32_768;
+
+export const EMPTY_CHUNKED_DOCUMENT: ChunkedDocument = {
+  chunks: [],
+  totalTokens: 0,
+};
+
+/** Overlap is capped at half the target so every chunk still adds new text. */
+export function normalizeChunkOptions(options: ChunkOptions): ChunkOptions {
+  const targetTokens = clampInteger(
+    options.targetTokens,
+    MIN_CHUNK_TARGET_TOKENS,
+    MAX_CHUNK_TARGET_TOKENS,
+  );
+
+  return {
+    targetTokens,
+    overlapTokens: clampInteger(options.overlapTokens, 0, Math.floor(targetTokens / 2)),
+  };
+}
+
+/** One JSON object per line: `{docId, chunkIndex, headingPath, startLine, endLine, tokenCount, text}`. */
+export function toChunkJsonl(docId: string, chunks: DocumentChunk[]): string {
+  return chunks
+    .map((chunk) => JSON.stringify({
+      docId,
+      chunkIndex: chunk.chunkIndex,
+      headingPath: chunk.headingPath,
+      startLine: chunk.startLine,
+      endLine: chunk.endLine,
+      tokenCount: chunk.tokenCount,
+      text: chunk.text,
+    }))
+    .join("\n") + (chunks.length > 0 ? "\n" : "");
+}
+
+function clampInteger(value: number, min: number, max: number): number {
+  if (!Number.isFinite(value)) return min;
+  return Math.min(max, Math.max(min, Math.round(value)));
+}
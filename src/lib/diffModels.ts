@@ -0,0 +1,22 @@
+export type DiffLineType = "equal" | "added" | "removed";
+
+export interface DiffLine {
+  type: DiffLineType;
+  text: string;
+  oldLine: number | null;
+  newLine: number | null;
+}
+
+export interface LineDiff {
+  lines: DiffLine[];
+  addedCount: number;
+  removedCount: number;
+  isApproximate: boolean;
+}
+
+export const EMPTY_LINE_DIFF: LineDiff = {
+  lines: [],
+  addedCount: 0,
+  removedCount: 0,
+  isApproximate: false,
+};
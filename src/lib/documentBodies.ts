@@ -0,0 +1,154 @@
+import { FunctionsHttpError } from "@supabase/supabase-js";
+import { supabase } from "./supabase.ts";
+
+/* ── Markdown bodies in Supabase Storage, addressed by their SHA-256 ── */
+
+const DOCUMENT_BODIES_BUCKET = "document-bodies";
+// Long enough to start the download; the URLs are never stored.
+const SIGNED_URL_TTL_SECONDS = 60;
+const REMOVE_BATCH_SIZE = 100;
+
+export async function hashDocumentBody(markdown: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(markdown));
+
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, "0")).join("");
+}
+
+/** Bodies are scoped per user so Storage policies can match on the first path segment. */
+function documentBodyPath(userId: string, contentHash: string): string {
+  return `${userId}/${contentHash}.md`;
+}
+
+export interface UploadedDocumentBody {
+  contentHash: string;
+  /** True when this call stored the object, so a failed save should remove it again. */
+  isNew: boolean;
+}
+
+/** A failed upload, with the PostgREST-style code and details the function responds with. */
+export class DocumentBodyUploadError extends Error {
+  readonly code: string | undefined;
+  readonly details: string | undefined;
+
+  constructor(message: string, code?: string, details?: string) {
+    super(message);
+    this.code = code;
+    this.details = details;
+  }
+}
+
+interface UploadErrorBody {
+  error?: string;
+  code?: string;
+  details?: string;
+}
+
+/**
+ * Uploads a body through the `document-body-upload` function, which checks it
+ * against the storage quota, and returns its hash. A body that is already
+ * stored (an identical upload, an unchanged save, a restored revision) is not
+ * stored again.
+ */
+export async function uploadDocumentBody(markdown: string): Promise<UploadedDocumentBody> {
+  const { data, error } = await supabase.functions.invoke<UploadedDocumentBody>("document-body-upload", {
+    body: { markdown },
+  });
+
+  if (error) {
+    const body = error instanceof FunctionsHttpError
+      ? await (error.context as Response).json().catch(() => null) as UploadErrorBody | null
+      : null;
+    throw new DocumentBodyUploadError(body?.error ?? error.message, body?.code, body?.details);
+  }
+  if (!data) throw new DocumentBodyUploadError("Uploading the document failed.");
+
+  return data;
+}
+
+/** Downloads each distinct body once through short-lived signed URLs. */
+export async function downloadDocumentBodies(
+  userId: string,
+  contentHashes: string[],
+): Promise<Map<string, string>> {
+  const uniqueHashes = Array.from(new Set(contentHashes));
+  const bodies = new Map<string, string>();
+
+  if (uniqueHashes.length === 0) return bodies;
+
+  const { data, error } = await supabase.storage
+    .from(DOCUMENT_BODIES_BUCKET)
+    .createSignedUrls(
+      uniqueHashes.map((contentHash) => documentBodyPath(userId, contentHash)),
+      SIGNED_URL_TTL_SECONDS,
+    );
+
+  if (error) throw new Error(error.message);
+
+  await Promise.all(data.map(async (entry, index) => {
+    if (!entry.signedUrl) {
+      throw new Error(entry.error ?? "Document body is missing from storage.");
+    }
+
+    const response = await fetch(entry.signedUrl);
+    if (!response.ok) throw new Error(`Failed to download document body (${response.status}).`);
+
+    bodies.set(uniqueHashes[index], await response.text());
+  }));
+
+  return bodies;
+}
+
+/** Deletes the given bodies unless a document or revision still points at them. */
+export async function removeUnreferencedDocumentBodies(
+  userId: string,
+  contentHashes: string[],
+): Promise<void> {
+  const candidates = Array.from(new Set(contentHashes));
+  if (candidates.length === 0) return;
+
+  const [documentsResult, revisionsResult] = await Promise.all([
+    supabase.from("documents").select("content_hash").eq("user_id", userId).in("content_hash", candidates),
+    supabase.from("document_revisions").select("content_hash").eq("user_id", userId).in("content_hash", candidates),
+  ]);
+
+  if (documentsResult.error) throw new Error(documentsResult.error.message);
+  if (revisionsResult.error) throw new Error(revisionsResult.error.message);
+
+  const referenced = new Set(
+    [...(documentsResult.data ?? []), ...(revisionsResult.data ?? [])].map((row) => row.content_hash as string),
+  );
+  const orphaned = candidates.filter((contentHash) => !referenced.has(contentHash));
+
+  await removeDocumentBodyPaths(orphaned.map((contentHash) => documentBodyPath(userId, contentHash)));
+}
+
+export async function removeAllDocumentBodies(userId: string): Promise<void> {
+  const bucket = supabase.storage.from(DOCUMENT_BODIES_BUCKET);
+
+  // Removing shifts the listing, so always read the first page until it is empty.
+  while (true) {
+    const { data, error } = await bucket.list(userId, { limit: REMOVE_BATCH_SIZE });
+
+    if (error) throw new Error(error.message);
+    if (!data || data.length === 0) return;
+
+    const removedCount = await removeDocumentBodyPaths(data.map((object) => `${userId}/${object.name}`));
+    // Storage skips objects the policies hide instead of failing; stop rather than loop on them.
+    if (removedCount === 0) return;
+  }
+}
+
+async function removeDocumentBodyPaths(paths: string[]): Promise<number> {
+  let removedCount = 0;
+
+  for (let index = 0; index < paths.length; index += REMOVE_BATCH_SIZE) {
+    const { data, error } = await supabase.storage
+      .from(DOCUMENT_BODIES_BUCKET)
+      .remove(paths.slice(index, index + REMOVE_BATCH_SIZE));
+
+    if (error) throw new Error(error.message);
+    removedCount += data.length;
+  }
+
+  return removedCount;
+}
@@ -0,0 +1,371 @@
+import { createElement } from "react";
+import { renderToStaticMarkup } from "react-dom/server";
+import ReactMarkdown, { type Components } from "react-markdown";
+import { version as katexVersion } from "katex";
+import { MarkdownPre } from "../components/markdown/MarkdownPre.tsx";
+import { getMermaidSource } from "../components/markdown/markdownNodes.ts";
+import {
+  markdownComponentsConfig,
+  rehypePluginsConfig,
+  remarkPluginsConfig,
+} from "../components/markdown/markdownPlugins.ts";
+import { loadMermaid } from "../components/markdown/mermaidLoader.ts";
+import highlightStyles from "../components/markdown/markdownHighlight.css?raw";
+import mermaidStyles from "../components/markdown/MermaidDiagram.css?raw";
+import { downloadTextFile } from "./download.ts";
+import { maskFrontMatter, parseFrontMatter } from "./frontMatter.ts";
+import type { SlideSegmentation } from "./slideModels.ts";
+import {
+  extractSlideOutlines,
+  materializeSlideMarkdownFromLines,
+  splitMarkdownLines,
+} from "./slideParser.ts";
+
+/* ── Self-contained HTML exports: rendered document, slide deck and print layouts ── */
+
+export type ExportSlideLayout = "horizontal" | "vertical";
+
+export interface SlideExportOptions {
+  fontScale: number;
+  layoutMode: ExportSlideLayout;
+  segmentation: SlideSegmentation;
+}
+
+const MARKDOWN_STYLES = highlightStyles + mermaidStyles;
+// KaTeX's stylesheet loads its fonts by relative URL, which an exported file
+// cannot resolve, so it comes from the CDN in the version that rendered the math.
+const KATEX_STYLESHEET_URL = `https://cdn.jsdelivr.net/npm/katex@${katexVersion}/dist/katex.min.css`;
+const DIAGRAM_PLACEHOLDER_PATTERN = /<div class="mermaid-diagram" data-diagram="(\d+)"><\/div>/g;
+
+let nextDiagramId = 0;
+
+const BASE_STYLES = `
+*, *::before, *::after { box-sizing: border-box; }
+body {
+  margin: 0;
+  background: #242424;
+  color: #d7ddef;
+  font-family: Inter, system-ui, Avenir, Helvetica, Arial, sans-serif;
+  line-height: 1.6;
+}
+.markdown h1, .markdown h2, .markdown h3, .markdown h4, .markdown h5, .markdown h6 {
+  color: #ecf1ff;
+  line-height: 1.35;
+  margin: 1.4em 0 0.5em;
+}
+.markdown > *:first-child { margin-top: 0; }
+.markdown > *:last-child { margin-bottom: 0; }
+.markdown p, .markdown li { line-height: 1.65; }
+.markdown a { color: #8ec8ff; }
+.markdown pre {
+  overflow-x: auto;
+  border-radius: 10px;
+  padding: 0.7rem 0.8rem;
+  background: rgba(8, 11, 17, 0.95);
+}
+.markdown code {
+  font-family: 'Iosevka', 'SFMono-Regular', ui-monospace, 'Cascadia Code', monospace;
+  font-size: 0.92em;
+}
+.markdown table { border-collapse: collapse; width: 100%; }
+.markdown th, .markdown td {
+  border: 1px solid rgba(176, 196, 231, 0.22);
+  padding: 0.4rem 0.55rem;
+}
+.markdown blockquote {
+  margin: 1rem 0;
+  padding-left: 0.9rem;
+  border-left: 4px solid rgba(141, 197, 255, 0.48);
+  color: #b8c6e3;
+}
+.markdown img { max-width: 100%; }
+`;
+
+const DOCUMENT_STYLES = `
+.document {
+  max-width: 860px;
+  margin: 0 auto;
+  padding: clamp(1.25rem, 4vw, 3rem);
+}
+.markdown h1 { font-size: 1.65rem; }
+.markdown h2 { font-size: 1.35rem; }
+.markdown h3 { font-size: 1.15rem; }
+`;
+
+const DECK_STYLES = `
+.deck .slide {
+  display: grid;
+  align-content: center;
+  padding: clamp(1.5rem, 6vw, 5rem);
+}
+.deck .slide > .markdown { width: min(100%, 1100px); margin: 0 auto; }
+.markdown h1 { font-size: 2.02em; }
+.markdown h2 { font-size: 1.68em; }
+.markdown h3 { font-size: 1.4em; }
+.slide .notes { display: none; }
+.deck.is-horizontal { height: 100vh; overflow: hidden; position: relative; }
+.deck.is-horizontal .slide {
+  position: absolute;
+  inset: 0;
+  opacity: 0;
+  visibility: hidden;
+  transform: translateX(2rem);
+  transition: opacity 220ms ease, transform 220ms ease, visibility 220ms;
+  overflow: auto;
+}
+.deck.is-horizontal .slide.is-active { opacity: 1; visibility: visible; transform: none; }
+.deck.is-horizontal .slide.is-past { transform: translateX(-2rem); }
+.deck.is-vertical { height: 100vh; overflow-y: auto; scroll-snap-type: y mandatory; }
+.deck.is-vertical .slide {
+  min-height: 100vh;
+  scroll-snap-align: start;
+  border-bottom: 1px solid rgba(170, 189, 223, 0.15);
+}
+.deck-counter {
+  position: fixed;
+  right: 1rem;
+  bottom: 0.8rem;
+  color: #9fb0ce;
+  font-size: 0.82rem;
+  letter-spacing: 0.04em;
+  font-variant-numeric: tabular-nums;
+}
+`;
+
+const PRINT_STYLES = `
+body { background: #fff; color: #111; }
+.markdown h1, .markdown h2, .markdown h3, .markdown h4, .markdown h5, .markdown h6 { color: #000; }
+.markdown a { color: #0b4f9c; }
+.markdown pre { background: #f3f4f6; border: 1px solid #d7dbe2; white-space: pre-wrap; }
+.markdown th, .markdown td { border-color: #c5cad3; }
+.markdown blockquote { color: #333; border-left-color: #9bb7d8; }
+.markdown pre, .markdown table, .markdown blockquote, .markdown img { break-inside: avoid; }
+.markdown h1, .markdown h2, .markdown h3 { break-after: avoid; }
+.print-slide {
+  break-after: page;
+  min-height: 100vh;
+  display: grid;
+  align-content: center;
+  padding: 1.5cm;
+}
+.print-slide:last-child { break-after: auto; }
+.print-slide .notes { display: none; }
+`;
+
+const HORIZONTAL_DECK_SCRIPT = `
+(function () {
+  var slides = Array.prototype.slice.call(document.querySelectorAll(".slide"));
+  var counter = document.querySelector(".deck-counter");
+  var index = 0;
+  function show(next) {
+    index = Math.max(0, Math.min(slides.length - 1, next));
+    slides.forEach(function (slide, position) {
+      slide.classList.toggle("is-active", position === index);
+      slide.classList.toggle("is-past", position < index);
+    });
+    if (counter) counter.textContent = (index + 1) + " / " + slides.length;
+    history.replaceState(null, "", "#" + (index + 1));
+  }
+  document.addEventListener("keydown", function (event) {
+    if (event.key === "ArrowRight" || event.key === "PageDown" || event.key === " ") {
+      event.preventDefault();
+      show(index + 1);
+    } else if (event.key === "ArrowLeft" || event.key === "PageUp") {
+      event.preventDefault();
+      show(index - 1);
+    } else if (event.key === "Home") {
+      show(0);
+    } else if (event.key === "End") {
+      show(slides.length - 1);
+    } else if (event.key === "f") {
+      if (document.fullscreenElement) document.exitFullscreen();
+      else document.documentElement.requestFullscreen();
+    }
+  });
+  show((parseInt(location.hash.slice(1), 10) || 1) - 1);
+})();
+`;
+
+export async function buildDocumentHtml(title: string, markdown: string): Promise<string> {
+  return wrapHtml(
+    title,
+    BASE_STYLES + DOCUMENT_STYLES,
+    `<main class="document markdown">${
+      await renderMarkdownToHtml(maskFrontMatter(markdown, parseFrontMatter(markdown)))
+    }</main>`,
+  );
+}
+
+/** Builds a keyboard-driven deck; vertical layout becomes a scroll-snapped stack. */
+export async function buildSlideDeckHtml(
+  title: string,
+  markdown: string,
+  { fontScale, layoutMode, segmentation }: SlideExportOptions,
+): Promise<string> {
+  const slides = (await renderSlides(markdown, segmentation, fontScale))
+    .map(({ html, notes }) => (
+      `<section class="slide"><div class="markdown" style="font-size: ${toPercent(fontScale)}">` +
+      `${html}</div>${notes ? `<aside class="notes">${notes}</aside>` : ""}</section>`
+    ))
+    .join("\n");
+  const isHorizontal = layoutMode === "horizontal";
+
+  return wrapHtml(
+    title,
+    BASE_STYLES + DECK_STYLES,
+    `<main class="deck ${isHorizontal ? "is-horizontal" : "is-vertical"}">\n${slides}\n</main>` +
+      (isHorizontal
+        ? `<p class="deck-counter"></p><script>${HORIZONTAL_DECK_SCRIPT}</script>`
+        : ""),
+  );
+}
+
+/** Light, paginated layout that opens the print dialog for "Save as PDF". */
+export async function buildPrintHtml(
+  title: string,
+  markdown: string,
+  slideOptions: SlideExportOptions | null,
+): Promise<string> {
+  const pageRule = slideOptions
+    ? "@page { size: landscape; margin: 0; }"
+    : "@page { margin: 1.8cm; }";
+  const body = slideOptions
+    ? (await renderSlides(markdown, slideOptions.segmentation, slideOptions.fontScale))
+      .map(({ html }) => (
+        `<section class="print-slide"><div class="markdown" ` +
+        `style="font-size: ${toPercent(slideOptions.fontScale)}">${html}</div></section>`
+      ))
+      .join("\n")
+    : `<main class="markdown">${
+      await renderMarkdownToHtml(maskFrontMatter(markdown, parseFrontMatter(markdown)))
+    }</main>`;
+
+  return wrapHtml(
+    title,
+    BASE_STYLES + (slideOptions ? DECK_STYLES : DOCUMENT_STYLES) + PRINT_STYLES + pageRule,
+    `${body}<script>window.addEventListener("load", function () { window.print(); });</script>`,
+  );
+}
+
+export function downloadHtmlFile(fileName: string, html: string) {
+  downloadTextFile(fileName, html, "text/html;charset=utf-8");
+}
+
+export function openPrintWindow(html: string) {
+  const url = URL.createObjectURL(new Blob([html], { type: "text/html;charset=utf-8" }));
+  const printWindow = window.open(url, "_blank");
+
+  if (!printWindow) {
+    URL.revokeObjectURL(url);
+    throw new Error("Allow pop-ups for this site to print or save as PDF.");
+  }
+
+  // The new window loads asynchronously; keep the blob alive until it has.
+  window.setTimeout(() => URL.revokeObjectURL(url), 60_000);
+}
+
+/** "Notes.md" -> "Notes-slides.html". */
+export function toExportFileName(documentName: string, suffix = ""): string {
+  const baseName = documentName.replace(/\.(md|markdown)$/i, "") || "document";
+  return `${baseName}${suffix}.html`;
+}
+
+async function renderSlides(markdown: string, segmentation: SlideSegmentation, fontScale: number) {
+  const lines = splitMarkdownLines(markdown);
+  const slides: Array<{ html: string; notes: string }> = [];
+
+  // One at a time: Mermaid renders into a shared scratch element.
+  for (const outline of extractSlideOutlines(markdown, { segmentation, fontScale })) {
+    slides.push({
+      html: await renderMarkdownToHtml(materializeSlideMarkdownFromLines(lines, outline)),
+      notes: outline.notes ? await renderMarkdownToHtml(outline.notes) : "",
+    });
+  }
+
+  return slides;
+}
+
+/**
+ * Static markup never runs MermaidDiagram's effect, so diagrams are left as
+ * placeholders and drawn here before the HTML is returned.
+ */
+async function renderMarkdownToHtml(markdown: string): Promise<string> {
+  const diagramSources: string[] = [];
+  const html = renderToStaticMarkup(
+    createElement(
+      ReactMarkdown,
+      {
+        components: createExportComponents(diagramSources),
+        remarkPlugins: remarkPluginsConfig,
+        rehypePlugins: rehypePluginsConfig,
+      },
+      markdown,
+    ),
+  );
+
+  if (diagramSources.length === 0) return html;
+
+  const diagrams: string[] = [];
+  for (const source of diagramSources) {
+    diagrams.push(await renderDiagramHtml(source));
+  }
+
+  return html.replace(DIAGRAM_PLACEHOLDER_PATTERN, (_, index: string) => diagrams[Number(index)] ?? "");
+}
+
+function createExportComponents(diagramSources: string[]): Components {
+  return {
+    ...markdownComponentsConfig,
+    pre: (props) => {
+      const source = getMermaidSource(props.node);
+      if (source === null) return createElement(MarkdownPre, props);
+
+      const index = diagramSources.push(source) - 1;
+      return createElement("div", { className: "mermaid-diagram", "data-diagram": index });
+    },
+  };
+}
+
+/** Same markup as MermaidDiagram, including its source fallback when a diagram fails. */
+async function renderDiagramHtml(source: string): Promise<string> {
+  try {
+    const mermaid = await loadMermaid();
+    const { svg } = await mermaid.render(`export-diagram-${nextDiagramId++}`, source);
+
+    return `<div class="mermaid-diagram" role="img" aria-label="Mermaid diagram">${svg}</div>`;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Failed to render diagram.";
+
+    return `<div class="mermaid-diagram is-error">` +
+      `<p class="mermaid-diagram-error">Diagram error: ${escapeHtml(message)}</p>` +
+      `<pre class="mermaid-diagram-source"><code>${escapeHtml(source)}</code></pre></div>`;
+  }
+}
+
+function wrapHtml(title: string, styles: string, body: string): string {
+  return [
+    "<!doctype html>",
+    "<html lang=\"en\">",
+    "<head>",
+    "<meta charset=\"utf-8\">",
+    "<meta name=\"viewport\" content=\"width=device-width, initial-scale=1\">",
+    `<title>${escapeHtml(title)}</title>`,
+    `<link rel="stylesheet" href="${KATEX_STYLESHEET_URL}">`,
+    `<style>${MARKDOWN_STYLES}${styles}</style>`,
+    "</head>",
+    `<body>${body}</body>`,
+    "</html>",
+  ].join("\n");
+}
+
+function toPercent(scale: number): string {
+  return `${Math.round(scale * 100)}%`;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
@@ -0,0 +1,50 @@
+import type { PendingDocumentWrite } from "./localDocumentStore.ts";
+
+/* ── Observable offline/sync state for the Navbar indicator ── */
+
+export interface DocumentSyncStatus {
+  isOnline: boolean;
+  isSyncing: boolean;
+  /** Writes still waiting to be replayed. */
+  pendingCount: number;
+  /** Writes that need a decision: the server moved on, or the server rejected them. */
+  blockedWrites: PendingDocumentWrite[];
+}
+
+type Listener = () => void;
+
+const listeners = new Set<Listener>();
+
+let status: DocumentSyncStatus = {
+  isOnline: typeof navigator === "undefined" ? true : navigator.onLine,
+  isSyncing: false,
+  pendingCount: 0,
+  blockedWrites: [],
+};
+
+export function getDocumentSyncStatus(): DocumentSyncStatus {
+  return status;
+}
+
+export function subscribeDocumentSyncStatus(listener: Listener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function updateDocumentSyncStatus(patch: Partial<DocumentSyncStatus>) {
+  status = { ...status, ...patch };
+
+  for (const listener of listeners) {
+    listener();
+  }
+}
+
+/** Recomputes the counts from the queue after it changed. */
+export function setPendingWrites(writes: PendingDocumentWrite[]) {
+  updateDocumentSyncStatus({
+    pendingCount: writes.filter((write) => write.status === "pending").length,
+    blockedWrites: writes.filter((write) => write.status !== "pending"),
+  });
+}
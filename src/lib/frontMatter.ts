@@ -0,0 +1,136 @@
+/*
+ * ── Minimal YAML-style front-matter between `---` fences ──
+ * Supports `key: value`, inline `[a, b]` lists, indented `- item` lists and
+ * one level of nested keys (flattened to `parent.child`). Anything else is
+ * ignored rather than rejected.
+ */
+
+export type FrontMatterValue = string | string[];
+
+/** Keys are lowercased; nested keys are joined with a dot. */
+export type FrontMatterData = Record<string, FrontMatterValue>;
+
+export interface FrontMatter {
+  data: FrontMatterData;
+  /** 1-based line of the closing fence; the block always starts on line 1. */
+  endLine: number;
+}
+
+const FENCE_PATTERN = /^---\s*$/;
+const CLOSING_FENCE_PATTERN = /^(---|\.\.\.)\s*$/;
+const ENTRY_PATTERN = /^([A-Za-z0-9_-]+)\s*:\s*(.*)$/;
+const NESTED_ENTRY_PATTERN = /^\s+([A-Za-z0-9_-]+)\s*:\s*(.*)$/;
+const LIST_ITEM_PATTERN = /^\s*-\s+(.*)$/;
+const INLINE_LIST_PATTERN = /^\[(.*)\]$/;
+const COMMENT_PATTERN = /^\s*(#.*)?$/;
+
+export function parseFrontMatter(markdown: string): FrontMatter | null {
+  const lines = markdown.split(/\r?\n/);
+  if (!FENCE_PATTERN.test(lines[0] ?? "")) return null;
+
+  const data: FrontMatterData = {};
+  // Key of the last `key:` line with no value; indented lines below belong to it.
+  let openKey: string | null = null;
+
+  for (let index = 1; index < lines.length; index += 1) {
+    const line = lines[index] ?? "";
+
+    if (CLOSING_FENCE_PATTERN.test(line)) {
+      return { data, endLine: index + 1 };
+    }
+    if (COMMENT_PATTERN.test(line)) continue;
+
+    const listItem = openKey ? LIST_ITEM_PATTERN.exec(line) : null;
+    if (listItem && openKey) {
+      const items = data[openKey];
+      data[openKey] = [...(Array.isArray(items) ? items : []), unquote(listItem[1]!.trim())];
+      continue;
+    }
+
+    const nestedEntry = openKey ? NESTED_ENTRY_PATTERN.exec(line) : null;
+    if (nestedEntry && openKey) {
+      if (Array.isArray(data[openKey])) continue;
+      delete data[openKey];
+      data[`${openKey}.${nestedEntry[1]!.toLowerCase()}`] = parseValue(nestedEntry[2]!.trim());
+      continue;
+    }
+
+    const match = ENTRY_PATTERN.exec(line);
+    openKey = null;
+    if (!match) continue;
+
+    const key = match[1]!.toLowerCase();
+    const rawValue = match[2]!.trim();
+
+    if (rawValue) {
+      data[key] = parseValue(rawValue);
+    } else {
+      // Stays an empty value unless list items or nested keys follow.
+      data[key] = "";
+      openKey = key;
+    }
+  }
+
+  // An unterminated fence is just a thematic break followed by content.
+  return null;
+}
+
+/** The front-matter fields of a document, or none when it has no block. */
+export function readFrontMatterData(markdown: string): FrontMatterData {
+  return parseFrontMatter(markdown)?.data ?? {};
+}
+
+/** A single display string; lists are joined with commas. */
+export function formatFrontMatterValue(value: FrontMatterValue | undefined): string {
+  if (value === undefined) return "";
+  return Array.isArray(value) ? value.join(", ") : value;
+}
+
+/** Lowercased values for matching; a scalar behaves like a one-item list. */
+export function listFrontMatterValues(value: FrontMatterValue | undefined): string[] {
+  if (value === undefined) return [];
+  return (Array.isArray(value) ? value : [value])
+    .map((item) => item.trim())
+    .filter((item) => item.length > 0);
+}
+
+/**
+ * Blanks the front-matter lines so markdown parsers skip them while node
+ * positions still match the original source lines.
+ */
+export function maskFrontMatter(markdown: string, frontMatter: FrontMatter | null): string {
+  if (!frontMatter) return markdown;
+
+  const lines = markdown.split(/\r?\n/);
+  for (let index = 0; index < frontMatter.endLine; index += 1) {
+    lines[index] = "";
+  }
+  return lines.join("\n");
+}
+
+function parseValue(rawValue: string): FrontMatterValue {
+  const inlineList = INLINE_LIST_PATTERN.exec(rawValue);
+  if (!inlineList) return unquote(stripTrailingComment(rawValue));
+
+  return inlineList[1]!
+    .split(",")
+    .map((item) => unquote(item.trim()))
+    .filter((item) => item.length > 0);
+}
+
+/** `value # note` drops the note; a `#` inside quotes or without a space before it stays. */
+function stripTrailingComment(value: string): string {
+  if (value.startsWith("\"") || value.startsWith("'")) return value;
+  return value.replace(/\s+#.*$/, "");
+}
+
+function unquote(value: string): string {
+  if (value.length >= 2) {
+    const first = value[0];
+    const last = value[value.length - 1];
+    if ((first === "\"" || first === "'") && first === last) {
+      return value.slice(1, -1);
+    }
+  }
+  return value;
+}
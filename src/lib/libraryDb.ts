@@ -0,0 +1,120 @@
+import { supabase } from "./supabase.ts";
+import { normalizeTag, type DocumentFolder } from "./libraryModels.ts";
+import { requireAuthenticatedUserId } from "./supabaseDb.ts";
+
+export async function listFolders(): Promise<DocumentFolder[]> {
+  const userId = await requireAuthenticatedUserId("You must be logged in to view folders.");
+
+  const { data, error } = await supabase
+    .from("document_folders")
+    .select("id, name, created_at")
+    .eq("user_id", userId)
+    .order("name", { ascending: true });
+
+  if (error) throw new Error(error.message);
+
+  return (data ?? []).map((row) => ({
+    id: row.id as string,
+    name: row.name as string,
+    createdAt: row.created_at as string,
+  }));
+}
+
+export async function createFolder(name: string): Promise<DocumentFolder> {
+  const userId = await requireAuthenticatedUserId("You must be logged in to create folders.");
+  const trimmedName = name.trim();
+
+  if (!trimmedName) throw new Error("Folder name is required.");
+
+  const { data, error } = await supabase
+    .from("document_folders")
+    .insert({ user_id: userId, name: trimmedName })
+    .select("id, name, created_at")
+    .single();
+
+  if (error) {
+    if (error.code === "23505") throw new Error(`A folder named "${trimmedName}" already exists.`);
+    throw new Error(error.message);
+  }
+
+  return {
+    id: data.id as string,
+    name: data.name as string,
+    createdAt: data.created_at as string,
+  };
+}
+
+/** Deleting a folder leaves its documents unfiled (`on delete set null`). */
+export async function deleteFolder(id: string): Promise<void> {
+  const userId = await requireAuthenticatedUserId("You must be logged in.");
+
+  const { error } = await supabase
+    .from("document_folders")
+    .delete()
+    .eq("id", id)
+    .eq("user_id", userId);
+
+  if (error) throw new Error(error.message);
+}
+
+export async function setDocumentFolder(
+  documentId: string,
+  folderId: string | null,
+): Promise<void> {
+  const userId = await requireAuthenticatedUserId("You must be logged in.");
+
+  const { error } = await supabase
+    .from("documents")
+    .update({ folder_id: folderId })
+    .eq("id", documentId)
+    .eq("user_id", userId);
+
+  if (error) throw new Error(error.message);
+}
+
+/**
+ * Adds the missing tags before removing the dropped ones, so a failed request
+ * leaves the old tags in place rather than none.
+ */
+export async function setDocumentTags(documentId: string, tags: string[]): Promise<string[]> {
+  const userId = await requireAuthenticatedUserId("You must be logged in.");
+  const normalizedTags = Array.from(
+    new Set(tags.map(normalizeTag).filter((tag) => tag.length > 0)),
+  ).sort();
+
+  const { data, error: selectError } = await supabase
+    .from("document_tags")
+    .select("tag")
+    .eq("document_id", documentId)
+    .eq("user_id", userId);
+
+  if (selectError) throw new Error(selectError.message);
+
+  const currentTags = (data ?? []).map((row) => row.tag as string);
+  const addedTags = normalizedTags.filter((tag) => !currentTags.includes(tag));
+  const removedTags = currentTags.filter((tag) => !normalizedTags.includes(tag));
+
+  if (addedTags.length > 0) {
+    const { error: insertError } = await supabase
+      .from("document_tags")
+      .upsert(
+        addedTags.map((tag) => ({ document_id: documentId, user_id: userId, tag })),
+        { onConflict: "document_id,tag", ignoreDuplicates: true },
+      );
+
+    if (insertError) throw new Error(insertError.message);
+  }
+
+  if (removedTags.length > 0) {
+    const { error: deleteError } = await supabase
+      .from("document_tags")
+      .delete()
+      .eq("document_id", documentId)
+      .eq("user_id", userId)
+      .in("tag", removedTags);
+
+    if (deleteError) throw new Error(deleteError.message);
+  }
+
+  return normalizedTags;
+}
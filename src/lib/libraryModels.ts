@@ -0,0 +1,202 @@
+import { listFrontMatterValues } from "./frontMatter.ts";
+import type { DocumentMeta } from "./supabaseDb.ts";
+
+export interface DocumentFolder {
+  id: string;
+  name: string;
+  createdAt: string;
+}
+
+/**
+ * `folderId` is a folder id, `UNFILED_FOLDER_FILTER`, or null for every folder.
+ * `metadataField`/`metadataValue` match a front-matter key; a null value keeps
+ * every document that has the key.
+ */
+export interface LibraryFilter {
+  folderId: string | null;
+  tag: string | null;
+  metadataField: string | null;
+  metadataValue: string | null;
+}
+
+/** `updated` (newest first), `name`, or `metadata:<front-matter key>`. */
+export type LibrarySortKey = string;
+
+export interface LibrarySort {
+  key: LibrarySortKey;
+  direction: "asc" | "desc";
+}
+
+export interface LibraryGroup {
+  key: string;
+  label: string;
+  documents: DocumentMeta[];
+}
+
+export const UNFILED_FOLDER_FILTER = "__unfiled__";
+export const MAX_TAG_LENGTH = 40;
+export const SORT_BY_UPDATED = "updated";
+export const SORT_BY_NAME = "name";
+const METADATA_SORT_PREFIX = "metadata:";
+
+export function createDefaultLibraryFilter(): LibraryFilter {
+  return {
+    folderId: null,
+    tag: null,
+    metadataField: null,
+    metadataValue: null,
+  };
+}
+
+export function createDefaultLibrarySort(): LibrarySort {
+  return { key: SORT_BY_UPDATED, direction: "desc" };
+}
+
+export function hasActiveLibraryFilter(filter: LibraryFilter): boolean {
+  return filter.folderId !== null || filter.tag !== null || filter.metadataField !== null;
+}
+
+export function metadataSortKey(field: string): LibrarySortKey {
+  return `${METADATA_SORT_PREFIX}${field}`;
+}
+
+/** The front-matter key a sort orders by, or null for `updated`/`name`. */
+export function getMetadataSortField(key: LibrarySortKey): string | null {
+  return key.startsWith(METADATA_SORT_PREFIX) ? key.slice(METADATA_SORT_PREFIX.length) : null;
+}
+
+export function normalizeTag(value: string): string {
+  return value
+    .trim()
+    .toLowerCase()
+    .replace(/^#+/, "")
+    .replace(/\s+/g, "-")
+    .slice(0, MAX_TAG_LENGTH);
+}
+
+export function collectLibraryTags(documents: DocumentMeta[]): string[] {
+  const tags = new Set<string>();
+
+  for (const document of documents) {
+    for (const tag of document.tags) {
+      tags.add(tag);
+    }
+  }
+
+  return Array.from(tags).sort((left, right) => left.localeCompare(right));
+}
+
+/** Front-matter keys used anywhere in the library. */
+export function collectMetadataFields(documents: DocumentMeta[]): string[] {
+  const fields = new Set<string>();
+
+  for (const document of documents) {
+    for (const [field, value] of Object.entries(document.frontMatter)) {
+      if (listFrontMatterValues(value).length > 0) fields.add(field);
+    }
+  }
+
+  return Array.from(fields).sort((left, right) => left.localeCompare(right));
+}
+
+/** Distinct values of one key; list values contribute each item. */
+export function collectMetadataValues(documents: DocumentMeta[], field: string): string[] {
+  const values = new Map<string, string>();
+
+  for (const document of documents) {
+    for (const value of listFrontMatterValues(document.frontMatter[field])) {
+      const normalizedValue = value.toLowerCase();
+      if (!values.has(normalizedValue)) values.set(normalizedValue, value);
+    }
+  }
+
+  return Array.from(values.values()).sort(compareText);
+}
+
+export function filterLibraryDocuments(
+  documents: DocumentMeta[],
+  filter: LibraryFilter,
+): DocumentMeta[] {
+  return documents.filter((document) => {
+    if (filter.folderId === UNFILED_FOLDER_FILTER && document.folderId !== null) return false;
+    if (
+      filter.folderId !== null &&
+      filter.folderId !== UNFILED_FOLDER_FILTER &&
+      document.folderId !== filter.folderId
+    ) {
+      return false;
+    }
+    if (filter.tag !== null && !document.tags.includes(filter.tag)) return false;
+    if (filter.metadataField !== null && !matchesMetadataFilter(document, filter)) return false;
+    return true;
+  });
+}
+
+/**
+ * Sorts a copy of the list. Names and front-matter values compare
+ * numerically where they hold numbers, so `2` sorts before `10`; documents
+ * without the key always go last.
+ */
+export function sortLibraryDocuments(documents: DocumentMeta[], sort: LibrarySort): DocumentMeta[] {
+  const direction = sort.direction === "asc" ? 1 : -1;
+  const field = getMetadataSortField(sort.key);
+
+  return [...documents].sort((left, right) => {
+    if (field !== null) {
+      const leftValue = listFrontMatterValues(left.frontMatter[field])[0];
+      const rightValue = listFrontMatterValues(right.frontMatter[field])[0];
+
+      if (leftValue === undefined || rightValue === undefined) {
+        if (leftValue !== rightValue) return leftValue === undefined ? 1 : -1;
+      } else {
+        const comparison = compareText(leftValue, rightValue);
+        if (comparison !== 0) return comparison * direction;
+      }
+    } else if (sort.key === SORT_BY_NAME) {
+      const comparison = compareText(left.name, right.name);
+      if (comparison !== 0) return comparison * direction;
+    } else {
+      return left.updatedAt.localeCompare(right.updatedAt) * direction;
+    }
+
+    // Ties keep the newest first.
+    return right.updatedAt.localeCompare(left.updatedAt);
+  });
+}
+
+/** Groups documents by folder (alphabetical), with unfiled documents last. */
+export function groupLibraryDocuments(
+  documents: DocumentMeta[],
+  folders: DocumentFolder[],
+): LibraryGroup[] {
+  const sortedFolders = [...folders].sort((left, right) => left.name.localeCompare(right.name));
+  const groups: LibraryGroup[] = sortedFolders.map((folder) => ({
+    key: folder.id,
+    label: folder.name,
+    documents: documents.filter((document) => document.folderId === folder.id),
+  }));
+  const knownFolderIds = new Set(folders.map((folder) => folder.id));
+
+  groups.push({
+    key: UNFILED_FOLDER_FILTER,
+    label: "Unfiled",
+    documents: documents.filter(
+      (document) => document.folderId === null || !knownFolderIds.has(document.folderId),
+    ),
+  });
+
+  return groups.filter((group) => group.documents.length > 0);
+}
+
+function compareText(left: string, right: string): number {
+  return left.localeCompare(right, undefined, { numeric: true });
+}
+
+function matchesMetadataFilter(document: DocumentMeta, filter: LibraryFilter): boolean {
+  const values = listFrontMatterValues(document.frontMatter[filter.metadataField ?? ""]);
+  if (values.length === 0) return false;
+  if (filter.metadataValue === null) return true;
+
+  const expectedValue = filter.metadataValue.toLowerCase();
+  return values.some((value) => value.toLowerCase() === expectedValue);
+}
@@ -0,0 +1,168 @@
+import type { DiffLine, DiffLineType, LineDiff } from "./diffModels.ts";
+
+/* ── Line-level diff (Myers) between two markdown bodies ── */
+
+// Past this many edits the trace grows too large; fall back to replace-all.
+const MAX_EDIT_DISTANCE = 2000;
+
+export function diffLines(oldText: string, newText: string): LineDiff {
+  const oldLines = splitDiffLines(oldText);
+  const newLines = splitDiffLines(newText);
+
+  let prefixLength = 0;
+  while (
+    prefixLength < oldLines.length &&
+    prefixLength < newLines.length &&
+    oldLines[prefixLength] === newLines[prefixLength]
+  ) {
+    prefixLength += 1;
+  }
+
+  let suffixLength = 0;
+  while (
+    suffixLength < oldLines.length - prefixLength &&
+    suffixLength < newLines.length - prefixLength &&
+    oldLines[oldLines.length - 1 - suffixLength] === newLines[newLines.length - 1 - suffixLength]
+  ) {
+    suffixLength += 1;
+  }
+
+  const oldMiddle = oldLines.slice(prefixLength, oldLines.length - suffixLength);
+  const newMiddle = newLines.slice(prefixLength, newLines.length - suffixLength);
+  const middleOps = computeDiffLineTypes(oldMiddle, newMiddle);
+  const isApproximate = middleOps === null;
+
+  const ops: DiffLineType[] = [
+    ...new Array<DiffLineType>(prefixLength).fill("equal"),
+    ...(middleOps ?? [
+      ...new Array<DiffLineType>(oldMiddle.length).fill("removed"),
+      ...new Array<DiffLineType>(newMiddle.length).fill("added"),
+    ]),
+    ...new Array<DiffLineType>(suffixLength).fill("equal"),
+  ];
+
+  const lines: DiffLine[] = [];
+  let oldIndex = 0;
+  let newIndex = 0;
+  let addedCount = 0;
+  let removedCount = 0;
+
+  for (const op of ops) {
+    if (op === "equal") {
+      lines.push({
+        type: "equal",
+        text: newLines[newIndex] ?? "",
+        oldLine: oldIndex + 1,
+        newLine: newIndex + 1,
+      });
+      oldIndex += 1;
+      newIndex += 1;
+      continue;
+    }
+
+    if (op === "removed") {
+      lines.push({
+        type: "removed",
+        text: oldLines[oldIndex] ?? "",
+        oldLine: oldIndex + 1,
+        newLine: null,
+      });
+      oldIndex += 1;
+      removedCount += 1;
+      continue;
+    }
+
+    lines.push({
+      type: "added",
+      text: newLines[newIndex] ?? "",
+      oldLine: null,
+      newLine: newIndex + 1,
+    });
+    newIndex += 1;
+    addedCount += 1;
+  }
+
+  return { lines, addedCount, removedCount, isApproximate };
+}
+
+function splitDiffLines(value: string): string[] {
+  if (!value) return [];
+  return value.split(/\r?\n/);
+}
+
+function computeDiffLineTypes(oldLines: string[], newLines: string[]): DiffLineType[] | null {
+  const oldLength = oldLines.length;
+  const newLength = newLines.length;
+  if (oldLength + newLength === 0) return [];
+
+  const limit = Math.min(oldLength + newLength, MAX_EDIT_DISTANCE);
+  const offset = limit + 1;
+  const frontier = new Int32Array(2 * limit + 3);
+  const trace: Int32Array[] = [];
+
+  for (let distance = 0; distance <= limit; distance++) {
+    trace.push(frontier.slice());
+
+    for (let diagonal = -distance; diagonal <= distance; diagonal += 2) {
+      const moveDown =
+        diagonal === -distance ||
+        (diagonal !== distance &&
+          frontier[offset + diagonal - 1] < frontier[offset + diagonal + 1]);
+      let x = moveDown
+        ? frontier[offset + diagonal + 1]
+        : frontier[offset + diagonal - 1] + 1;
+      let y = x - diagonal;
+
+      while (x < oldLength && y < newLength && oldLines[x] === newLines[y]) {
+        x += 1;
+        y += 1;
+      }
+
+      frontier[offset + diagonal] = x;
+
+      if (x >= oldLength && y >= newLength) {
+        return backtrackDiffLineTypes(trace, offset, oldLength, newLength);
+      }
+    }
+  }
+
+  return null;
+}
+
+function backtrackDiffLineTypes(
+  trace: Int32Array[],
+  offset: number,
+  oldLength: number,
+  newLength: number,
+): DiffLineType[] {
+  const ops: DiffLineType[] = [];
+  let x = oldLength;
+  let y = newLength;
+
+  for (let distance = trace.length - 1; distance >= 0; distance--) {
+    const frontier = trace[distance];
+    const diagonal = x - y;
+    const moveDown =
+      diagonal === -distance ||
+      (diagonal !== distance &&
+        frontier[offset + diagonal - 1] < frontier[offset + diagonal + 1]);
+    const previousDiagonal = moveDown ? diagonal + 1 : diagonal - 1;
+    const previousX = frontier[offset + previousDiagonal];
+    const previousY = previousX - previousDiagonal;
+
+    while (x > previousX && y > previousY) {
+      ops.push("equal");
+      x -= 1;
+      y -= 1;
+    }
+
+    if (distance > 0) {
+      ops.push(x === previousX ? "added" : "removed");
+    }
+
+    x = previousX;
+    y = previousY;
+  }
+
+  return ops.reverse();
+}
@@ -0,0 +1,249 @@
+import type { DocumentMeta, StoredDocument } from "./supabaseDb.ts";
+
+/* ── IndexedDB cache of documents and writes waiting to reach Supabase ── */
+
+export type PendingWriteStatus = "pending" | "conflict" | "error";
+
+/** At most one queued write per document; later edits fold into it. */
+export interface PendingDocumentWrite {
+  key: string;
+  userId: string;
+  documentId: string;
+  kind: "put" | "delete";
+  /** The local version to upload; null for deletes. */
+  document: StoredDocument | null;
+  /** Server `updated_at` the change was made against; null for documents created offline. */
+  baseUpdatedAt: string | null;
+  queuedAt: string;
+  status: PendingWriteStatus;
+  /** Server `updated_at` found when a conflict was detected. */
+  serverUpdatedAt: string | null;
+  errorMessage: string | null;
+}
+
+interface CachedDocumentRecord {
+  key: string;
+  userId: string;
+  document: StoredDocument;
+}
+
+interface CachedDocumentListRecord {
+  userId: string;
+  documents: DocumentMeta[];
+}
+
+const DATABASE_NAME = "sloppysource-offline";
+const DATABASE_VERSION = 1;
+const DOCUMENTS_STORE = "documents";
+const DOCUMENT_LISTS_STORE = "document-lists";
+const PENDING_WRITES_STORE = "pending-writes";
+
+let databasePromise: Promise<IDBDatabase | null> | null = null;
+
+/** Resolves null where IndexedDB is unavailable (e.g. some private modes); callers fall back to the network. */
+function openDatabase(): Promise<IDBDatabase | null> {
+  if (typeof indexedDB === "undefined") return Promise.resolve(null);
+
+  databasePromise ??= new Promise((resolve) => {
+    const request = indexedDB.open(DATABASE_NAME, DATABASE_VERSION);
+
+    request.onupgradeneeded = () => {
+      const database = request.result;
+
+      if (!database.objectStoreNames.contains(DOCUMENTS_STORE)) {
+        database.createObjectStore(DOCUMENTS_STORE, { keyPath: "key" });
+      }
+      if (!database.objectStoreNames.contains(DOCUMENT_LISTS_STORE)) {
+        database.createObjectStore(DOCUMENT_LISTS_STORE, { keyPath: "userId" });
+      }
+      if (!database.objectStoreNames.contains(PENDING_WRITES_STORE)) {
+        database
+          .createObjectStore(PENDING_WRITES_STORE, { keyPath: "key" })
+          .createIndex("userId", "userId");
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      console.error("Failed to open the offline document cache:", request.error);
+      resolve(null);
+    };
+  });
+
+  return databasePromise;
+}
+
+async function runTransaction<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T> | void,
+): Promise<T | null> {
+  const database = await openDatabase();
+  if (!database) return null;
+
+  return new Promise((resolve, reject) => {
+    const transaction = database.transaction(storeName, mode);
+    const request = operation(transaction.objectStore(storeName));
+
+    transaction.oncomplete = () => resolve(request ? request.result : null);
+    transaction.onerror = () => reject(new Error(transaction.error?.message ?? "Offline cache request failed."));
+    transaction.onabort = () => reject(new Error(transaction.error?.message ?? "Offline cache request was aborted."));
+  });
+}
+
+function documentKey(userId: string, documentId: string): string {
+  return `${userId}:${documentId}`;
+}
+
+/** Every `documentKey` of one user; ids never contain U+FFFF. */
+function userDocumentKeyRange(userId: string): IDBKeyRange {
+  return IDBKeyRange.bound(`${userId}:`, `${userId}:\uffff`);
+}
+
+/** Reads never throw: a broken cache behaves like an empty one. */
+async function readRecord<T>(
+  storeName: string,
+  operation: (store: IDBObjectStore) => IDBRequest<T>,
+): Promise<T | null> {
+  try {
+    return await runTransaction(storeName, "readonly", operation);
+  } catch (error) {
+    console.error("Failed to read the offline document cache:", error);
+    return null;
+  }
+}
+
+export async function readCachedDocument(
+  userId: string,
+  documentId: string,
+): Promise<StoredDocument | null> {
+  const record = await readRecord<CachedDocumentRecord | undefined>(
+    DOCUMENTS_STORE,
+    (store) => store.get(documentKey(userId, documentId)),
+  );
+
+  return record?.document ?? null;
+}
+
+export async function writeCachedDocuments(userId: string, documents: StoredDocument[]): Promise<void> {
+  if (documents.length === 0) return;
+
+  await runTransaction(DOCUMENTS_STORE, "readwrite", (store) => {
+    for (const document of documents) {
+      const record: CachedDocumentRecord = {
+        key: documentKey(userId, document.id),
+        userId,
+        document,
+      };
+      store.put(record);
+    }
+  });
+}
+
+export async function removeCachedDocument(userId: string, documentId: string): Promise<void> {
+  await runTransaction(DOCUMENTS_STORE, "readwrite", (store) => {
+    store.delete(documentKey(userId, documentId));
+  });
+}
+
+/** Drops a user's cached documents, cached list and queued writes. */
+export async function clearLocalDocuments(userId: string): Promise<void> {
+  await runTransaction(DOCUMENTS_STORE, "readwrite", (store) => {
+    store.delete(userDocumentKeyRange(userId));
+  });
+  await runTransaction(DOCUMENT_LISTS_STORE, "readwrite", (store) => {
+    store.delete(userId);
+  });
+  await runTransaction(PENDING_WRITES_STORE, "readwrite", (store) => {
+    store.delete(userDocumentKeyRange(userId));
+  });
+}
+
+export async function readCachedDocumentList(userId: string): Promise<DocumentMeta[] | null> {
+  const record = await readRecord<CachedDocumentListRecord | undefined>(
+    DOCUMENT_LISTS_STORE,
+    (store) => store.get(userId),
+  );
+
+  return record?.documents ?? null;
+}
+
+export async function writeCachedDocumentList(userId: string, documents: DocumentMeta[]): Promise<void> {
+  const record: CachedDocumentListRecord = { userId, documents };
+
+  await runTransaction(DOCUMENT_LISTS_STORE, "readwrite", (store) => {
+    store.put(record);
+  });
+}
+
+/** Oldest first, which is the order they are replayed in. */
+export async function listPendingWrites(userId: string): Promise<PendingDocumentWrite[]> {
+  const writes = await readRecord<PendingDocumentWrite[]>(
+    PENDING_WRITES_STORE,
+    (store) => store.index("userId").getAll(userId),
+  );
+
+  return (writes ?? []).sort((left, right) => left.queuedAt.localeCompare(right.queuedAt));
+}
+
+export async function getPendingWrite(
+  userId: string,
+  documentId: string,
+): Promise<PendingDocumentWrite | null> {
+  const write = await readRecord<PendingDocumentWrite | undefined>(
+    PENDING_WRITES_STORE,
+    (store) => store.get(documentKey(userId, documentId)),
+  );
+
+  return write ?? null;
+}
+
+/**
+ * Queues a change, folding it into any write already waiting for the same
+ * document so the original `baseUpdatedAt` is kept for conflict detection.
+ * Returns false when there is no local store to queue into.
+ */
+export async function queuePendingWrite(
+  userId: string,
+  documentId: string,
+  kind: PendingDocumentWrite["kind"],
+  document: StoredDocument | null,
+  baseUpdatedAt: string | null,
+): Promise<boolean> {
+  if (!(await openDatabase())) return false;
+
+  const existing = await getPendingWrite(userId, documentId);
+
+  // Deleting something that never reached the server just drops it.
+  if (existing && kind === "delete" && existing.baseUpdatedAt === null) {
+    await removePendingWrite(userId, documentId);
+    return true;
+  }
+
+  const write: PendingDocumentWrite = {
+    key: documentKey(userId, documentId),
+    userId,
+    documentId,
+    kind,
+    document,
+    baseUpdatedAt: existing ? existing.baseUpdatedAt : baseUpdatedAt,
+    queuedAt: existing?.queuedAt ?? new Date().toISOString(),
+    status: "pending",
+    serverUpdatedAt: null,
+    errorMessage: null,
+  };
+
+  await savePendingWrite(write);
+  return true;
+}
+
+export async function savePendingWrite(write: PendingDocumentWrite): Promise<void> {
+  await runTransaction(PENDING_WRITES_STORE, "readwrite", (store) => {
+    store.put(write);
+  });
+}
+
+export async function removePendingWrite(userId: string, documentId: string): Promise<void> {
+  await runTransaction(PENDING_WRITES_STORE, "readwrite", (store) => {
+    store.delete(documentKey(userId, documentId));
+  });
+}
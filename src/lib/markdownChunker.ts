@@ -0,0 +1,205 @@
+import { unified } from "unified";
+import remarkParse from "remark-parse";
+import remarkGfm from "remark-gfm";
+import type { ChunkOptions, ChunkedDocument, DocumentChunk } from "./chunkModels.ts";
+import { maskFrontMatter, parseFrontMatter } from "./frontMatter.ts";
+
+/* ── Splits markdown at top-level block boundaries into token-sized chunks ── */
+
+interface MarkdownNode {
+  type: string;
+  depth?: number;
+  value?: string;
+  children?: MarkdownNode[];
+  position?: {
+    start?: {
+      line?: number;
+    };
+    end?: {
+      line?: number;
+    };
+  };
+}
+
+interface ChunkBlock {
+  startLine: number;
+  endLine: number;
+  tokenCount: number;
+  headingPath: string[];
+  isHeading: boolean;
+}
+
+const parser = unified().use(remarkParse).use(remarkGfm);
+
+export function chunkMarkdown(
+  markdown: string,
+  options: ChunkOptions,
+  countTokens: (text: string) => number,
+): ChunkedDocument {
+  if (!markdown.trim()) return { chunks: [], totalTokens: countTokens(markdown) };
+
+  const lines = markdown.split(/\r?\n/);
+  const sliceLines = (startLine: number, endLine: number) =>
+    lines.slice(startLine - 1, endLine).join("\n");
+  const blocks = splitOversizedBlocks(
+    collectBlocks(markdown, lines, countTokens),
+    options.targetTokens,
+    lines,
+    countTokens,
+  );
+
+  const groups: ChunkBlock[][] = [];
+  let current: ChunkBlock[] = [];
+  let currentTokens = 0;
+
+  for (const block of blocks) {
+    // Headings always open a chunk so its heading path stays accurate.
+    const shouldFlush = current.length > 0 && (
+      block.isHeading || currentTokens + block.tokenCount > options.targetTokens
+    );
+
+    if (shouldFlush) {
+      groups.push(current);
+      current = [];
+      currentTokens = 0;
+    }
+
+    current.push(block);
+    currentTokens += block.tokenCount;
+  }
+
+  if (current.length > 0) groups.push(current);
+
+  const chunks: DocumentChunk[] = groups.map((group, index) => {
+    const firstBlock = group[0]!;
+    const lastBlock = group[group.length - 1]!;
+    // Overlap only carries context within a section, never across a heading.
+    const overlapStartLine = index > 0 && !firstBlock.isHeading
+      ? findOverlapStartLine(groups[index - 1]!, options.overlapTokens, lines, countTokens)
+      : null;
+    const startLine = overlapStartLine ?? firstBlock.startLine;
+    const text = sliceLines(startLine, lastBlock.endLine);
+
+    return {
+      chunkIndex: index,
+      headingPath: firstBlock.headingPath,
+      startLine,
+      endLine: lastBlock.endLine,
+      tokenCount: countTokens(text),
+      text,
+    };
+  });
+
+  return {
+    chunks,
+    totalTokens: countTokens(markdown),
+  };
+}
+
+function collectBlocks(
+  markdown: string,
+  lines: string[],
+  countTokens: (text: string) => number,
+): ChunkBlock[] {
+  const root = parser.parse(maskFrontMatter(markdown, parseFrontMatter(markdown))) as MarkdownNode;
+  const headingStack: Array<{ depth: number; text: string }> = [];
+  const blocks: ChunkBlock[] = [];
+
+  for (const node of root.children ?? []) {
+    const startLine = node.position?.start?.line;
+    const endLine = node.position?.end?.line;
+    if (typeof startLine !== "number" || typeof endLine !== "number") continue;
+
+    const isHeading = node.type === "heading";
+    if (isHeading) {
+      const depth = node.depth ?? 1;
+      while (headingStack.length > 0 && headingStack[headingStack.length - 1]!.depth >= depth) {
+        headingStack.pop();
+      }
+      headingStack.push({ depth, text: extractText(node).trim() });
+    }
+
+    blocks.push({
+      startLine,
+      endLine,
+      tokenCount: countTokens(lines.slice(startLine - 1, endLine).join("\n")),
+      headingPath: headingStack.map((heading) => heading.text),
+      isHeading,
+    });
+  }
+
+  return blocks;
+}
+
+/** Breaks blocks larger than the target into runs of whole lines. */
+function splitOversizedBlocks(
+  blocks: ChunkBlock[],
+  targetTokens: number,
+  lines: string[],
+  countTokens: (text: string) => number,
+): ChunkBlock[] {
+  const result: ChunkBlock[] = [];
+
+  for (const block of blocks) {
+    if (block.tokenCount <= targetTokens || block.startLine === block.endLine) {
+      result.push(block);
+      continue;
+    }
+
+    let pieceStart = block.startLine;
+    let pieceTokens = 0;
+
+    for (let line = block.startLine; line <= block.endLine; line += 1) {
+      // +1 approximates the newline joining this line to the previous one.
+      const lineTokens = countTokens(lines[line - 1] ?? "") + 1;
+
+      if (line > pieceStart && pieceTokens + lineTokens > targetTokens) {
+        result.push({ ...block, startLine: pieceStart, endLine: line - 1, tokenCount: pieceTokens });
+        pieceStart = line;
+        pieceTokens = 0;
+      }
+
+      pieceTokens += lineTokens;
+    }
+
+    result.push({
+      ...block,
+      startLine: pieceStart,
+      endLine: block.endLine,
+      tokenCount: pieceTokens,
+      isHeading: block.isHeading && pieceStart === block.startLine,
+    });
+  }
+
+  return result;
+}
+
+/** Walks back whole lines from the end of the previous chunk until the overlap budget is spent. */
+function findOverlapStartLine(
+  previousGroup: ChunkBlock[],
+  overlapTokens: number,
+  lines: string[],
+  countTokens: (text: string) => number,
+): number | null {
+  if (overlapTokens <= 0) return null;
+
+  const firstLine = previousGroup[0]!.startLine;
+  const lastLine = previousGroup[previousGroup.length - 1]!.endLine;
+  let usedTokens = 0;
+  let overlapStartLine: number | null = null;
+
+  for (let line = lastLine; line >= firstLine; line -= 1) {
+    const lineTokens = countTokens(lines[line - 1] ?? "") + 1;
+    if (usedTokens + lineTokens > overlapTokens) break;
+
+    usedTokens += lineTokens;
+    overlapStartLine = line;
+  }
+
+  return overlapStartLine;
+}
+
+function extractText(node: MarkdownNode): string {
+  if (typeof node.value === "string") return node.value;
+  return (node.children ?? []).map(extractText).join("");
+}
@@ -25,3 +25,27 @@ export function projectMarkdownFileQueryKey(
 ) {
   return ["project-markdown-file", userId, projectId, path] as const;
 }
+
+export function documentRevisionsQueryKey(userId: string | null, docId: string | null) {
+  return ["document-revisions", userId, docId] as const;
+}
+
+export function documentRevisionQueryKey(userId: string | null, revisionId: string | null) {
+  return ["document-revision", userId, revisionId] as const;
+}
+
+export function documentFoldersQueryKey(userId: string | null) {
+  return ["document-folders", userId] as const;
+}
+
+export function documentSharesQueryKey(userId: string | null, docId: string | null) {
+  return ["document-shares", userId, docId] as const;
+}
+
+export function sharedDocumentQueryKey(token: string, password: string | null) {
+  return ["shared-document", token, password] as const;
+}
+
+export function savedSearchesQueryKey(userId: string | null) {
+  return ["saved-searches", userId] as const;
+}
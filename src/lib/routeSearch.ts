@@ -0,0 +1,91 @@
+import { SEARCH_SCOPES, type SearchScope } from "./searchModels.ts";
+import { SHARE_VIEW_MODES, type ShareViewMode } from "./shareModels.ts";
+
+/* ── Search params for deep-linkable /display and /search URLs ── */
+
+export const VIEWER_MODES = ["rendered", "token", "pose", "slides", "history", "edit", "share", "chunks"] as const;
+
+export type ViewerMode = (typeof VIEWER_MODES)[number];
+
+export interface DisplaySearch {
+  doc?: string;
+  /** Omitted for the default rendered mode. */
+  mode?: Exclude<ViewerMode, "rendered">;
+  /** 1-based slide number. */
+  slide?: number;
+  /** 1-based source line to scroll to, or the selected traverse item. */
+  line?: number;
+}
+
+export interface SearchPageSearch {
+  doc?: string;
+  scope?: SearchScope;
+}
+
+export interface SlideAudienceSearch {
+  doc?: string;
+  /** 1-based slide number. */
+  slide?: number;
+}
+
+export interface SharedDocumentSearch {
+  /** Omitted for the default rendered mode. */
+  mode?: Exclude<ShareViewMode, "rendered">;
+  /** 1-based slide number. */
+  slide?: number;
+}
+
+export function validateDisplaySearch(search: Record<string, unknown>): DisplaySearch {
+  const mode = parseEnum(search.mode, VIEWER_MODES);
+
+  return {
+    doc: parseDocId(search.doc),
+    mode: mode === "rendered" ? undefined : mode,
+    slide: parsePositiveInteger(search.slide),
+    line: parsePositiveInteger(search.line),
+  };
+}
+
+export function validateSearchPageSearch(search: Record<string, unknown>): SearchPageSearch {
+  const scope = parseEnum(search.scope, SEARCH_SCOPES);
+
+  return {
+    doc: parseDocId(search.doc),
+    scope: scope === "document" ? undefined : scope,
+  };
+}
+
+export function validateSlideAudienceSearch(search: Record<string, unknown>): SlideAudienceSearch {
+  return {
+    doc: parseDocId(search.doc),
+    slide: parsePositiveInteger(search.slide),
+  };
+}
+
+export function validateSharedDocumentSearch(search: Record<string, unknown>): SharedDocumentSearch {
+  const mode = parseEnum(search.mode, SHARE_VIEW_MODES);
+
+  return {
+    mode: mode === "rendered" ? undefined : mode,
+    slide: parsePositiveInteger(search.slide),
+  };
+}
+
+/** Reads `doc` from any route's search params (routes without it yield undefined). */
+export function getSearchDocId(search: object): string | undefined {
+  return "doc" in search && typeof search.doc === "string" ? search.doc : undefined;
+}
+
+function parseDocId(value: unknown): string | undefined {
+  if (typeof value === "number") return String(value);
+  return typeof value === "string" && value.length > 0 ? value : undefined;
+}
+
+function parsePositiveInteger(value: unknown): number | undefined {
+  const parsed = typeof value === "number" ? value : Number(value);
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : undefined;
+}
+
+function parseEnum<T extends string>(value: unknown, allowed: readonly T[]): T | undefined {
+  return allowed.find((candidate) => candidate === value);
+}
@@ -0,0 +1,93 @@
+import {
+  SEARCH_SCOPES,
+  createDefaultSearchOptions,
+  type SearchOptions,
+  type SearchScope,
+  type SearchTag,
+} from "./searchModels.ts";
+
+/** A row of `saved_searches`; `name` is null for entries that are only search history. */
+export interface SavedSearch {
+  id: string;
+  name: string | null;
+  query: string;
+  scope: SearchScope;
+  options: SearchOptions;
+  isPinned: boolean;
+  lastUsedAt: string;
+  createdAt: string;
+}
+
+export interface SavedSearchInput {
+  query: string;
+  scope: SearchScope;
+  options: SearchOptions;
+}
+
+export const MAX_SEARCH_HISTORY = 20;
+export const MAX_SAVED_SEARCH_NAME_LENGTH = 80;
+export const MAX_SAVED_SEARCH_QUERY_LENGTH = 500;
+
+/**
+ * Stored options were written by whatever version of the app saved them, so
+ * unknown keys are dropped and missing ones (e.g. newer tags) fall back to defaults.
+ */
+export function parseSavedSearchOptions(value: unknown): SearchOptions {
+  const defaults = createDefaultSearchOptions();
+  const stored = isRecord(value) ? value : {};
+  const storedTags = isRecord(stored.tags) ? stored.tags : {};
+  const tags = { ...defaults.tags };
+
+  for (const tag of Object.keys(tags) as SearchTag[]) {
+    tags[tag] = storedTags[tag] === true;
+  }
+
+  return {
+    caseSensitive: stored.caseSensitive === true,
+    wholeWord: stored.wholeWord === true,
+    regex: stored.regex === true,
+    fuzzy: stored.fuzzy === true,
+    tags,
+  };
+}
+
+export function parseSavedSearchScope(value: unknown): SearchScope {
+  return SEARCH_SCOPES.find((scope) => scope === value) ?? "document";
+}
+
+/** Short label for the non-default options, e.g. "regex · case · h2". */
+export function describeSearchOptions(options: SearchOptions): string {
+  const parts: string[] = [];
+
+  if (options.fuzzy) parts.push("fuzzy");
+  if (options.regex) parts.push("regex");
+  if (options.caseSensitive) parts.push("case");
+  if (options.wholeWord) parts.push("word");
+
+  for (const [tag, isActive] of Object.entries(options.tags)) {
+    if (isActive) parts.push(tag);
+  }
+
+  return parts.join(" · ");
+}
+
+/** Pinned searches first, then by name; history stays most-recent first. */
+export function splitSavedSearches(searches: SavedSearch[]): {
+  saved: SavedSearch[];
+  recent: SavedSearch[];
+} {
+  const saved = searches
+    .filter((search) => search.name !== null)
+    .sort((left, right) =>
+      Number(right.isPinned) - Number(left.isPinned) ||
+      (left.name ?? "").localeCompare(right.name ?? ""));
+  const recent = searches
+    .filter((search) => search.name === null)
+    .sort((left, right) => right.lastUsedAt.localeCompare(left.lastUsedAt));
+
+  return { saved, recent };
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,133 @@
+import { supabase } from "./supabase.ts";
+import {
+  MAX_SAVED_SEARCH_NAME_LENGTH,
+  MAX_SAVED_SEARCH_QUERY_LENGTH,
+  MAX_SEARCH_HISTORY,
+  parseSavedSearchOptions,
+  parseSavedSearchScope,
+  type SavedSearch,
+  type SavedSearchInput,
+} from "./savedSearchModels.ts";
+import { requireAuthenticatedUserId } from "./supabaseDb.ts";
+
+const SAVED_SEARCH_COLUMNS = "id, name, query, scope, options, is_pinned, last_used_at, created_at";
+
+function toSavedSearch(row: Record<string, unknown>): SavedSearch {
+  return {
+    id: row.id as string,
+    name: (row.name as string | null) ?? null,
+    query: row.query as string,
+    scope: parseSavedSearchScope(row.scope),
+    options: parseSavedSearchOptions(row.options),
+    isPinned: Boolean(row.is_pinned),
+    lastUsedAt: row.last_used_at as string,
+    createdAt: row.created_at as string,
+  };
+}
+
+function normalizeInput(input: SavedSearchInput): SavedSearchInput {
+  const query = input.query.trim();
+
+  if (!query) throw new Error("Enter a search string to save.");
+  if (query.length > MAX_SAVED_SEARCH_QUERY_LENGTH) {
+    throw new Error(`Search strings are limited to ${MAX_SAVED_SEARCH_QUERY_LENGTH} characters.`);
+  }
+
+  return { query, scope: input.scope, options: parseSavedSearchOptions(input.options) };
+}
+
+export async function listSavedSearches(): Promise<SavedSearch[]> {
+  const userId = await requireAuthenticatedUserId("You must be logged in to view saved searches.");
+
+  const { data, error } = await supabase
+    .from("saved_searches")
+    .select(SAVED_SEARCH_COLUMNS)
+    .eq("user_id", userId)
+    .order("last_used_at", { ascending: false });
+
+  if (error) throw new Error(error.message);
+
+  return (data ?? []).map(toSavedSearch);
+}
+
+/**
+ * Moves a search to the top of the history, reusing the existing entry for the
+ * same query and scope, and drops entries beyond `MAX_SEARCH_HISTORY`. One
+ * upsert, so searches recorded at the same time cannot add duplicates.
+ */
+export async function recordSearchHistory(input: SavedSearchInput): Promise<void> {
+  await requireAuthenticatedUserId("You must be logged in.");
+  const entry = normalizeInput(input);
+
+  const { error } = await supabase.rpc("record_search_history", {
+    p_query: entry.query,
+    p_scope: entry.scope,
+    p_options: entry.options,
+    p_keep_count: MAX_SEARCH_HISTORY,
+  });
+
+  if (error) throw new Error(error.message);
+}
+
+export async function saveSearch(name: string, input: SavedSearchInput): Promise<SavedSearch> {
+  const userId = await requireAuthenticatedUserId("You must be logged in to save searches.");
+  const trimmedName = name.trim().slice(0, MAX_SAVED_SEARCH_NAME_LENGTH);
+  const entry = normalizeInput(input);
+
+  if (!trimmedName) throw new Error("Saved search name is required.");
+
+  const { data, error } = await supabase
+    .from("saved_searches")
+    .insert({
+      user_id: userId,
+      name: trimmedName,
+      query: entry.query,
+      scope: entry.scope,
+      options: entry.options,
+    })
+    .select(SAVED_SEARCH_COLUMNS)
+    .single();
+
+  if (error) {
+    if (error.code === "23505") throw new Error(`A saved search named "${trimmedName}" already exists.`);
+    throw new Error(error.message);
+  }
+
+  return toSavedSearch(data);
+}
+
+export async function setSavedSearchPinned(id: string, isPinned: boolean): Promise<void> {
+  const userId = await requireAuthenticatedUserId("You must be logged in.");
+
+  const { error } = await supabase
+    .from("saved_searches")
+    .update({ is_pinned: isPinned })
+    .eq("id", id)
+    .eq("user_id", userId);
+
+  if (error) throw new Error(error.message);
+}
+
+export async function markSavedSearchUsed(id: string): Promise<void> {
+  const userId = await requireAuthenticatedUserId("You must be logged in.");
+
+  const { error } = await supabase
+    .from("saved_searches")
+    .update({ last_used_at: new Date().toISOString() })
+    .eq("id", id)
+    .eq("user_id", userId);
+
+  if (error) throw new Error(error.message);
+}
+
+export async function deleteSavedSearch(id: string): Promise<void> {
+  const userId = await requireAuthenticatedUserId("You must be logged in.");
+
+  const { error } = await supabase
+    .from("saved_searches")
+    .delete()
+    .eq("id", id)
+    .eq("user_id", userId);
+
+  if (error) throw new Error(error.message);
+}
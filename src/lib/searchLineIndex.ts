@@ -0,0 +1,173 @@
+import { unified } from "unified";
+import remarkParse from "remark-parse";
+import remarkGfm from "remark-gfm";
+import { maskFrontMatter, parseFrontMatter } from "./frontMatter.ts";
+
+/* ── Per-line search classification taken from the remark (mdast) tree ── */
+
+export type LineTag =
+  | "h1"
+  | "h2"
+  | "h3"
+  | "h4"
+  | "h5"
+  | "h6"
+  | "code"
+  | "p"
+  | "li"
+  | "blockquote"
+  | "table"
+  | null;
+
+export interface SearchLineIndex {
+  lines: string[];
+  tags: LineTag[];
+  /** 1 where the line contains a link, link reference or autolink. */
+  linkLines: Uint8Array;
+  /** Enclosing headings per line, outermost first; lines in one section share an array. */
+  headingPaths: string[][];
+}
+
+interface MarkdownNode {
+  type: string;
+  depth?: number;
+  value?: string;
+  alt?: string;
+  children?: MarkdownNode[];
+  position?: {
+    start?: {
+      line?: number;
+    };
+    end?: {
+      line?: number;
+    };
+  };
+}
+
+interface IndexedHeading {
+  line: number;
+  depth: number;
+  text: string;
+}
+
+const NO_HEADING_PATH: string[] = [];
+const parser = unified().use(remarkParse).use(remarkGfm);
+
+export function buildSearchLineIndex(markdown: string): SearchLineIndex {
+  const lines = markdown.split(/\r?\n/);
+  const tags = new Array<LineTag>(lines.length).fill(null);
+  const linkLines = new Uint8Array(lines.length);
+  const headings: IndexedHeading[] = [];
+
+  if (markdown.trim()) {
+    // Front-matter lines stay untagged instead of parsing as a setext heading.
+    const root = parser.parse(maskFrontMatter(markdown, parseFrontMatter(markdown))) as MarkdownNode;
+    classifyNode(root, null, tags, linkLines, headings);
+  }
+
+  return {
+    lines,
+    tags,
+    linkLines,
+    headingPaths: buildHeadingPaths(lines.length, headings),
+  };
+}
+
+/**
+ * Parents tag their lines first and children overwrite them, so each line ends
+ * up with its innermost block. Paragraphs inherit the nearest list item or
+ * blockquote, which is what a reader would call that line.
+ */
+function classifyNode(
+  node: MarkdownNode,
+  containerTag: "li" | "blockquote" | null,
+  tags: LineTag[],
+  linkLines: Uint8Array,
+  headings: IndexedHeading[],
+) {
+  const startLine = node.position?.start?.line;
+  const endLine = node.position?.end?.line;
+  const hasPosition = typeof startLine === "number" && typeof endLine === "number";
+  let childContainerTag = containerTag;
+  let tag: LineTag | undefined;
+
+  if (node.type === "heading") {
+    tag = headingTag(node.depth);
+    if (hasPosition) {
+      headings.push({ line: startLine, depth: node.depth ?? 1, text: normalizeWhitespace(extractText(node)) });
+    }
+  } else if (node.type === "code") {
+    tag = "code";
+  } else if (node.type === "table") {
+    tag = "table";
+  } else if (node.type === "listItem") {
+    tag = "li";
+    childContainerTag = "li";
+  } else if (node.type === "blockquote") {
+    tag = "blockquote";
+    childContainerTag = "blockquote";
+  } else if (node.type === "paragraph") {
+    tag = containerTag ?? "p";
+  } else if (node.type === "link" || node.type === "linkReference") {
+    if (hasPosition) {
+      for (let line = startLine; line <= endLine; line += 1) {
+        linkLines[line - 1] = 1;
+      }
+    }
+  }
+
+  if (tag !== undefined && hasPosition) {
+    for (let line = startLine; line <= endLine; line += 1) {
+      tags[line - 1] = tag;
+    }
+  }
+
+  for (const child of node.children ?? []) {
+    classifyNode(child, childContainerTag, tags, linkLines, headings);
+  }
+}
+
+function buildHeadingPaths(lineCount: number, headings: IndexedHeading[]): string[][] {
+  const paths = new Array<string[]>(lineCount);
+  const stack: IndexedHeading[] = [];
+  let currentPath = NO_HEADING_PATH;
+  let headingIndex = 0;
+
+  headings.sort((left, right) => left.line - right.line);
+
+  for (let index = 0; index < lineCount; index += 1) {
+    const heading = headings[headingIndex];
+
+    if (heading && heading.line === index + 1) {
+      while (stack.length > 0 && stack[stack.length - 1]!.depth >= heading.depth) {
+        stack.pop();
+      }
+      stack.push(heading);
+      currentPath = stack.map((entry) => entry.text);
+      headingIndex += 1;
+    }
+
+    paths[index] = currentPath;
+  }
+
+  return paths;
+}
+
+function headingTag(depth: number | undefined): LineTag {
+  if (!depth || depth <= 1) return "h1";
+  if (depth === 2) return "h2";
+  if (depth === 3) return "h3";
+  if (depth === 4) return "h4";
+  if (depth === 5) return "h5";
+  return "h6";
+}
+
+function extractText(node: MarkdownNode): string {
+  if (typeof node.value === "string") return node.value;
+  if (node.type === "image") return node.alt ?? "";
+  return (node.children ?? []).map(extractText).join(" ");
+}
+
+function normalizeWhitespace(value: string): string {
+  return value.replace(/\s+/g, " ").trim();
+}
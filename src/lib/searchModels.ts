@@ -2,6 +2,8 @@ export interface SearchOptions {
   caseSensitive: boolean;
   wholeWord: boolean;
   regex: boolean;
+  /** Typo-tolerant term matching ranked by BM25 relevance instead of line order. */
+  fuzzy: boolean;
   tags: {
     h1: boolean;
     h2: boolean;
@@ -11,31 +13,125 @@ export interface SearchOptions {
     h6: boolean;
     code: boolean;
     p: boolean;
+    li: boolean;
+    blockquote: boolean;
+    table: boolean;
+    /** Lines containing a link, whatever block they sit in. */
+    link: boolean;
   };
 }
 
 export type SearchTag = keyof SearchOptions["tags"];
 
+export const SEARCH_SCOPES = ["document", "library"] as const;
+
+export type SearchScope = (typeof SEARCH_SCOPES)[number];
+
 export interface LineMatch {
   lineNumber: number;
+  /** Enclosing section headings, outermost first; empty before the first heading. */
+  headingPath: string[];
   occurrences: number;
   preview: string;
+  /** BM25 relevance in fuzzy mode; null for exact searches, which keep line order. */
+  score: number | null;
+  /** Fuzzy term hits within `preview`; exact searches highlight from the query instead. */
+  highlights: MatchSpan[];
 }
 
+/** Character range within a preview string, end exclusive. */
+export interface MatchSpan {
+  start: number;
+  end: number;
+}
+
+/** A heading-delimited section scored by fuzzy search. */
+export interface RankedSection {
+  /** First line of the section (its heading, or line 1 before any heading). */
+  lineNumber: number;
+  headingPath: string[];
+  matchedLines: number;
+  score: number;
+}
+
+/** Exact totals for the whole search; `matches` holds only the requested page. */
 export interface SearchResult {
+  matches: LineMatch[];
+  /** 1-based page that `matches` belongs to. */
+  page: number;
+  totalOccurrences: number;
+  totalMatchedLines: number;
+  errorMessage: string | null;
+  /** Best-scoring sections in fuzzy mode, highest first; empty otherwise. */
+  sections: RankedSection[];
+}
+
+/** Matches for one document in a library-wide search. */
+export interface LibraryDocumentResult {
+  docId: string;
   matches: LineMatch[];
   totalOccurrences: number;
   totalMatchedLines: number;
+  /** Best line score in fuzzy mode; null for exact searches. */
+  score: number | null;
+}
+
+export interface LibrarySearchResult {
+  documents: LibraryDocumentResult[];
+  totalOccurrences: number;
+  totalMatchedLines: number;
+  searchedDocuments: number;
+  errorMessage: string | null;
+}
+
+/** One replaceable occurrence; `id` is stable for the same document and query. */
+export interface ReplaceMatch {
+  id: string;
+  lineNumber: number;
+  /** Offset of the match within its line. */
+  column: number;
+  matchText: string;
+  replacement: string;
+  contextBefore: string;
+  contextAfter: string;
+}
+
+export interface ReplacePreview {
+  matches: ReplaceMatch[];
+  totalMatches: number;
   isTruncated: boolean;
   errorMessage: string | null;
 }
 
-export const MAX_MATCH_LINES = 500;
+export interface ReplaceResult {
+  markdown: string;
+  replacedCount: number;
+  errorMessage: string | null;
+}
+
+export const MAX_REPLACE_PREVIEW_MATCHES = 1000;
+export const MAX_RANKED_SECTIONS = 5;
 
 export const EMPTY_RESULT: SearchResult = {
   matches: [],
+  page: 1,
   totalOccurrences: 0,
   totalMatchedLines: 0,
+  errorMessage: null,
+  sections: [],
+};
+
+export const EMPTY_LIBRARY_RESULT: LibrarySearchResult = {
+  documents: [],
+  totalOccurrences: 0,
+  totalMatchedLines: 0,
+  searchedDocuments: 0,
+  errorMessage: null,
+};
+
+export const EMPTY_REPLACE_PREVIEW: ReplacePreview = {
+  matches: [],
+  totalMatches: 0,
   isTruncated: false,
   errorMessage: null,
 };
@@ -45,6 +141,7 @@ export function createDefaultSearchOptions(): SearchOptions {
     caseSensitive: false,
     wholeWord: false,
     regex: false,
+    fuzzy: false,
     tags: {
       h1: false,
       h2: false,
@@ -54,6 +151,10 @@ export function createDefaultSearchOptions(): SearchOptions {
       h6: false,
       code: false,
       p: false,
+      li: false,
+      blockquote: false,
+      table: false,
+      link: false,
     },
   };
 }
@@ -67,6 +168,10 @@ export function hasActiveSearchTags(tags: SearchOptions["tags"]): boolean {
     tags.h5 ||
     tags.h6 ||
     tags.code ||
-    tags.p
+    tags.p ||
+    tags.li ||
+    tags.blockquote ||
+    tags.table ||
+    tags.link
   );
 }
@@ -1,8 +1,18 @@
 import {
+  EMPTY_LIBRARY_RESULT,
+  EMPTY_REPLACE_PREVIEW,
   EMPTY_RESULT,
-  MAX_MATCH_LINES,
+  MAX_RANKED_SECTIONS,
+  MAX_REPLACE_PREVIEW_MATCHES,
   hasActiveSearchTags,
+  type LibraryDocumentResult,
+  type LibrarySearchResult,
   type LineMatch,
+  type MatchSpan,
+  type RankedSection,
+  type ReplaceMatch,
+  type ReplacePreview,
+  type ReplaceResult,
   type SearchOptions,
   type SearchResult,
 } from "./searchModels.ts";
@@ -10,75 +20,68 @@ import type {
   SearchWorkerRequest,
   SearchWorkerResponse,
 } from "./searchWorkerMessages.ts";
+import { buildSearchLineIndex, type SearchLineIndex } from "./searchLineIndex.ts";
 
 /* ── Web Worker: runs markdown search off the main thread ── */
 
-type LineTag = "h1" | "h2" | "h3" | "h4" | "h5" | "h6" | "code" | "p" | null;
-
 const SNIPPET_PADDING = 40;
 
+const EMPTY_LINE_INDEX: SearchLineIndex = {
+  lines: [],
+  tags: [],
+  linkLines: new Uint8Array(0),
+  headingPaths: [],
+};
+
 let indexedDocKey: string | null = null;
-let indexedLines: string[] = [];
-let indexedLineTags: LineTag[] = [];
+// Match ids are line:col positions, so a replace must run on the version that was previewed.
+let indexedDocumentVersion = 0;
+let indexedDocument = EMPTY_LINE_INDEX;
+// Replacements rebuild the markdown, so keep each line's own ending (files can mix them).
+let indexedLineBreaks: string[] = [];
+
+const libraryIndex = new Map<string, SearchLineIndex>();
 
 /* ── Indexing ── */
 
 function setDocumentIndex(docKey: string, markdown: string) {
   indexedDocKey = docKey;
-  indexedLines = markdown.split(/\r?\n/);
-  indexedLineTags = classifyLines(indexedLines);
+  indexedDocumentVersion += 1;
+  indexedDocument = buildSearchLineIndex(markdown);
+  documentSearch = null;
+  indexedLineBreaks = markdown.match(/\r?\n/g) ?? [];
 }
 
 function clearDocumentIndex() {
   indexedDocKey = null;
-  indexedLines = [];
-  indexedLineTags = [];
+  indexedDocumentVersion += 1;
+  documentSearch = null;
+  indexedDocument = EMPTY_LINE_INDEX;
+  indexedLineBreaks = [];
 }
 
-/* ── Line classification ── */
-
-function classifyLines(lines: string[]): LineTag[] {
-  const tags: LineTag[] = new Array<LineTag>(lines.length);
-  let inCodeBlock = false;
-
-  for (let i = 0; i < lines.length; i++) {
-    const trimmed = (lines[i] ?? "").trimStart();
-
-    if (trimmed.startsWith("```")) {
-      tags[i] = "code";
-      inCodeBlock = !inCodeBlock;
-      continue;
-    }
-
-    if (inCodeBlock) {
-      tags[i] = "code";
-      continue;
-    }
+function setLibraryDocumentIndex(docKey: string, markdown: string) {
+  libraryIndex.set(docKey, buildSearchLineIndex(markdown));
+}
 
-    if (trimmed.startsWith("###### ") || trimmed === "######") {
-      tags[i] = "h6";
-    } else if (trimmed.startsWith("##### ") || trimmed === "#####") {
-      tags[i] = "h5";
-    } else if (trimmed.startsWith("#### ") || trimmed === "####") {
-      tags[i] = "h4";
-    } else if (trimmed.startsWith("### ") || trimmed === "###") {
-      tags[i] = "h3";
-    } else if (trimmed.startsWith("## ") || trimmed === "##") {
-      tags[i] = "h2";
-    } else if (trimmed.startsWith("# ") || trimmed === "#") {
-      tags[i] = "h1";
-    } else if (isParagraphLine(trimmed)) {
-      tags[i] = "p";
-    } else {
-      tags[i] = null;
-    }
+function removeLibraryDocuments(docKeys: string[]) {
+  for (const docKey of docKeys) {
+    libraryIndex.delete(docKey);
   }
-
-  return tags;
 }
 
-function linePassesTagFilter(tag: LineTag, tags: SearchOptions["tags"]): boolean {
+/* ── Tag filtering ── */
+
+/** Links are inline, so the link filter matches any line containing one. */
+function linePassesTagFilter(
+  lineIndex: SearchLineIndex,
+  index: number,
+  tags: SearchOptions["tags"],
+): boolean {
   if (!hasActiveSearchTags(tags)) return true;
+  if (tags.link && lineIndex.linkLines[index] === 1) return true;
+
+  const tag = lineIndex.tags[index];
   if (tag === "h1") return tags.h1;
   if (tag === "h2") return tags.h2;
   if (tag === "h3") return tags.h3;
@@ -87,66 +90,93 @@ function linePassesTagFilter(tag: LineTag, tags: SearchOptions["tags"]): boolean
   if (tag === "h6") return tags.h6;
   if (tag === "code") return tags.code;
   if (tag === "p") return tags.p;
+  if (tag === "li") return tags.li;
+  if (tag === "blockquote") return tags.blockquote;
+  if (tag === "table") return tags.table;
   return false;
 }
 
+/* ── Search ── */
+
+/**
+ * One matching line. Every hit of a search is kept in this compact form so
+ * totals stay exact; previews are only built for the page being shown.
+ */
+interface LineHit {
+  index: number;
+  occurrences: number;
+  /** Line offset the preview is centred on; null shows the whole line. */
+  previewStart: number | null;
+  previewLength: number;
+  score: number | null;
+  /** Line offsets to highlight (fuzzy); exact searches highlight from the query. */
+  spans: MatchSpan[] | null;
+}
+
+interface LineSearch {
+  hits: LineHit[];
+  totalOccurrences: number;
+  errorMessage: string | null;
+  sections: RankedSection[];
+}
+
+/** The last search per scope, kept so pages can be served without searching again. */
+interface CachedSearch {
+  id: number;
+  documents: Map<string, { lineIndex: SearchLineIndex; hits: LineHit[] }>;
+}
+
+const EMPTY_LINE_SEARCH: LineSearch = {
+  hits: [],
+  totalOccurrences: 0,
+  errorMessage: null,
+  sections: [],
+};
+
+let documentSearch: CachedSearch | null = null;
+let librarySearch: CachedSearch | null = null;
+
 function collectTaggedLines(
-  lines: string[],
-  lineTags: LineTag[],
+  lineIndex: SearchLineIndex,
   tags: SearchOptions["tags"],
-): SearchResult {
-  const matches: LineMatch[] = [];
-
-  for (let index = 0; index < lines.length; index++) {
-    if (!linePassesTagFilter(lineTags[index], tags)) continue;
-
-    if (matches.length >= MAX_MATCH_LINES) {
-      return {
-        matches,
-        totalOccurrences: -1,
-        totalMatchedLines: -1,
-        isTruncated: true,
-        errorMessage: null,
-      };
-    }
+): LineSearch {
+  const hits: LineHit[] = [];
+
+  for (let index = 0; index < lineIndex.lines.length; index++) {
+    if (!linePassesTagFilter(lineIndex, index, tags)) continue;
 
-    const line = lines[index] ?? "";
-    matches.push({
-      lineNumber: index + 1,
+    hits.push({
+      index,
       occurrences: 1,
-      preview: line.length > 0 ? line : "(empty line)",
+      previewStart: null,
+      previewLength: 0,
+      score: null,
+      spans: null,
     });
   }
 
-  return {
-    matches,
-    totalOccurrences: matches.length,
-    totalMatchedLines: matches.length,
-    isTruncated: false,
-    errorMessage: null,
-  };
+  return { ...EMPTY_LINE_SEARCH, hits, totalOccurrences: hits.length };
 }
 
-/* ── Search ── */
-
 function runSearch(
-  lines: string[],
-  lineTags: LineTag[],
+  lineIndex: SearchLineIndex,
   query: string,
   options: SearchOptions,
-): SearchResult {
+): LineSearch {
+  if (options.fuzzy) {
+    return searchByFuzzyTerms(lineIndex, query, options);
+  }
   if (options.regex) {
-    return searchByRegex(lines, lineTags, query, options);
+    return searchByRegex(lineIndex, query, options);
   }
-  return searchBySubstring(lines, lineTags, query, options);
+  return searchBySubstring(lineIndex, query, options);
 }
 
 function searchByRegex(
-  lines: string[],
-  lineTags: LineTag[],
+  lineIndex: SearchLineIndex,
   query: string,
   options: SearchOptions,
-): SearchResult {
+): LineSearch {
   const flags = options.caseSensitive ? "g" : "gi";
   const source = options.wholeWord ? `\\b(?:${query})\\b` : query;
   let regex: RegExp;
@@ -154,15 +184,16 @@ function searchByRegex(
   try {
     regex = new RegExp(source, flags);
   } catch {
-    return { ...EMPTY_RESULT, errorMessage: "Invalid regular expression." };
+    return { ...EMPTY_LINE_SEARCH, errorMessage: "Invalid regular expression." };
   }
 
-  const matches: LineMatch[] = [];
+  const hits: LineHit[] = [];
+  let totalOccurrences = 0;
 
-  for (let index = 0; index < lines.length; index++) {
-    if (!linePassesTagFilter(lineTags[index], options.tags)) continue;
+  for (let index = 0; index < lineIndex.lines.length; index++) {
+    if (!linePassesTagFilter(lineIndex, index, options.tags)) continue;
 
-    const line = lines[index];
+    const line = lineIndex.lines[index];
     regex.lastIndex = 0;
 
     let occurrences = 0;
@@ -187,47 +218,33 @@ function searchByRegex(
 
     if (occurrences === 0) continue;
 
-    if (matches.length >= MAX_MATCH_LINES) {
-      return {
-        matches,
-        totalOccurrences: -1,
-        totalMatchedLines: -1,
-        isTruncated: true,
-        errorMessage: null,
-      };
-    }
-
-    matches.push({
-      lineNumber: index + 1,
+    totalOccurrences += occurrences;
+    hits.push({
+      index,
       occurrences,
-      preview: createPreview(line, firstMatchIndex, firstMatchLength),
+      previewStart: firstMatchIndex,
+      previewLength: firstMatchLength,
+      score: null,
+      spans: null,
     });
   }
 
-  const totalOccurrences = matches.reduce((sum, match) => sum + match.occurrences, 0);
-
-  return {
-    matches,
-    totalOccurrences,
-    totalMatchedLines: matches.length,
-    isTruncated: false,
-    errorMessage: null,
-  };
+  return { ...EMPTY_LINE_SEARCH, hits, totalOccurrences };
 }
 
 function searchBySubstring(
-  lines: string[],
-  lineTags: LineTag[],
+  lineIndex: SearchLineIndex,
   query: string,
   options: SearchOptions,
-): SearchResult {
-  const matches: LineMatch[] = [];
+): LineSearch {
+  const hits: LineHit[] = [];
   const normalizedQuery = options.caseSensitive ? query : query.toLowerCase();
+  let totalOccurrences = 0;
 
-  for (let index = 0; index < lines.length; index++) {
-    if (!linePassesTagFilter(lineTags[index], options.tags)) continue;
+  for (let index = 0; index < lineIndex.lines.length; index++) {
+    if (!linePassesTagFilter(lineIndex, index, options.tags)) continue;
 
-    const line = lines[index];
+    const line = lineIndex.lines[index];
     const searchTarget = options.caseSensitive ? line : line.toLowerCase();
     let occurrences = 0;
     let fromIndex = 0;
@@ -253,38 +270,557 @@ function searchBySubstring(
 
     if (occurrences === 0) continue;
 
-    if (matches.length >= MAX_MATCH_LINES) {
-      return {
-        matches,
-        totalOccurrences: -1,
-        totalMatchedLines: -1,
-        isTruncated: true,
-        errorMessage: null,
+    totalOccurrences += occurrences;
+    hits.push({
+      index,
+      occurrences,
+      previewStart: firstMatchIndex,
+      previewLength: query.length,
+      score: null,
+      spans: null,
+    });
+  }
+
+  return { ...EMPTY_LINE_SEARCH, hits, totalOccurrences };
+}
+
+/* ── Paging ── */
+
+function toLineMatch(lineIndex: SearchLineIndex, hit: LineHit): LineMatch {
+  const line = lineIndex.lines[hit.index] ?? "";
+  const base = {
+    lineNumber: hit.index + 1,
+    headingPath: lineIndex.headingPaths[hit.index] ?? [],
+    occurrences: hit.occurrences,
+    score: hit.score,
+  };
+
+  if (hit.previewStart === null) {
+    return { ...base, preview: line.length > 0 ? line : "(empty line)", highlights: [] };
+  }
+
+  const { preview, offset, sliceStart, sliceEnd } = createPreviewWindow(
+    line,
+    hit.previewStart,
+    hit.previewLength,
+  );
+
+  return {
+    ...base,
+    preview,
+    highlights: (hit.spans ?? [])
+      .filter((span) => span.start >= sliceStart && span.end <= sliceEnd)
+      .map((span) => ({ start: span.start + offset, end: span.end + offset })),
+  };
+}
+
+/** Clamps `page` to the available pages and builds previews for that page only. */
+function getPage(
+  lineIndex: SearchLineIndex,
+  hits: LineHit[],
+  page: number,
+  pageSize: number,
+): { page: number; matches: LineMatch[] } {
+  const safePageSize = Math.max(1, Math.floor(pageSize));
+  const totalPages = Math.max(1, Math.ceil(hits.length / safePageSize));
+  const safePage = Math.min(Math.max(1, Math.floor(page)), totalPages);
+  const start = (safePage - 1) * safePageSize;
+
+  return {
+    page: safePage,
+    matches: hits.slice(start, start + safePageSize).map((hit) => toLineMatch(lineIndex, hit)),
+  };
+}
+
+function runDocumentSearch(
+  id: number,
+  query: string,
+  options: SearchOptions,
+  page: number,
+  pageSize: number,
+): SearchResult {
+  const search = !query
+    ? collectTaggedLines(indexedDocument, options.tags)
+    : runSearch(indexedDocument, query, options);
+
+  documentSearch = {
+    id,
+    documents: new Map([["", { lineIndex: indexedDocument, hits: search.hits }]]),
+  };
+
+  return {
+    ...getPage(indexedDocument, search.hits, page, pageSize),
+    totalOccurrences: search.totalOccurrences,
+    totalMatchedLines: search.hits.length,
+    errorMessage: search.errorMessage,
+    sections: search.sections,
+  };
+}
+
+function runLibrarySearch(
+  id: number,
+  query: string,
+  options: SearchOptions,
+  docKeys: string[] | null,
+  pageSize: number,
+): LibrarySearchResult {
+  const documents: LibraryDocumentResult[] = [];
+  const cachedDocuments: CachedSearch["documents"] = new Map();
+  let searchedDocuments = 0;
+
+  for (const docKey of docKeys ?? libraryIndex.keys()) {
+    const indexed = libraryIndex.get(docKey);
+    if (!indexed) continue;
+
+    searchedDocuments += 1;
+    const search = !query
+      ? collectTaggedLines(indexed, options.tags)
+      : runSearch(indexed, query, options);
+
+    // Pattern errors are the same for every document, so report once.
+    if (search.errorMessage) {
+      librarySearch = null;
+      return { ...EMPTY_LIBRARY_RESULT, errorMessage: search.errorMessage };
+    }
+    if (search.hits.length === 0) continue;
+
+    cachedDocuments.set(docKey, { lineIndex: indexed, hits: search.hits });
+    documents.push({
+      docId: docKey,
+      matches: getPage(indexed, search.hits, 1, pageSize).matches,
+      totalOccurrences: search.totalOccurrences,
+      totalMatchedLines: search.hits.length,
+      score: options.fuzzy && query ? search.hits[0]?.score ?? null : null,
+    });
+  }
+
+  librarySearch = { id, documents: cachedDocuments };
+  documents.sort((left, right) =>
+    (right.score ?? 0) - (left.score ?? 0) || right.totalOccurrences - left.totalOccurrences);
+
+  return {
+    documents,
+    totalOccurrences: documents.reduce((sum, document) => sum + document.totalOccurrences, 0),
+    totalMatchedLines: documents.reduce((sum, document) => sum + document.totalMatchedLines, 0),
+    searchedDocuments,
+    errorMessage: null,
+  };
+}
+
+/** Null once the search `id` has been superseded, so nothing is posted back. */
+function getCachedPage(
+  search: CachedSearch | null,
+  id: number,
+  docKey: string,
+  page: number,
+  pageSize: number,
+): { page: number; matches: LineMatch[] } | null {
+  const cached = search?.id === id ? search.documents.get(docKey) : undefined;
+  if (!cached) return null;
+  return getPage(cached.lineIndex, cached.hits, page, pageSize);
+}
+
+/* ── Fuzzy ranking ── */
+
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+const PREFIX_MATCH_WEIGHT = 0.8;
+const TYPO_MATCH_WEIGHT = 0.9;
+
+interface FuzzyLine {
+  index: number;
+  wordCount: number;
+  termFrequencies: number[];
+  hits: Array<{ start: number; end: number }>;
+}
+
+interface FuzzySection {
+  lineNumber: number;
+  headingPath: string[];
+  wordCount: number;
+  termFrequencies: number[];
+  lines: FuzzyLine[];
+}
+
+/**
+ * Scores heading-delimited sections with BM25 over typo-tolerant term hits,
+ * then ranks each matching line by its section score plus its own BM25 score
+ * so the best passages of the best sections come first.
+ */
+function searchByFuzzyTerms(
+  lineIndex: SearchLineIndex,
+  query: string,
+  options: SearchOptions,
+): LineSearch {
+  const terms = Array.from(new Set(tokenizeWords(normalizeFuzzyCase(query, options)).map((word) => word.text)));
+  if (terms.length === 0) return EMPTY_LINE_SEARCH;
+
+  const wordWeights = new Map<string, { termIndex: number; weight: number } | null>();
+  const sections: FuzzySection[] = [];
+  let section: FuzzySection | null = null;
+  let totalWords = 0;
+  let linesWithWords = 0;
+
+  for (let index = 0; index < lineIndex.lines.length; index++) {
+    const headingPath = lineIndex.headingPaths[index] ?? [];
+
+    // Lines in one section share a heading-path array, so identity marks the boundary.
+    if (!section || section.headingPath !== headingPath) {
+      section = {
+        lineNumber: index + 1,
+        headingPath,
+        wordCount: 0,
+        termFrequencies: new Array<number>(terms.length).fill(0),
+        lines: [],
       };
+      sections.push(section);
     }
 
-    matches.push({
-      lineNumber: index + 1,
-      occurrences,
-      preview: createPreview(line, firstMatchIndex, query.length),
+    if (!linePassesTagFilter(lineIndex, index, options.tags)) continue;
+
+    const line = lineIndex.lines[index] ?? "";
+    const words = tokenizeWords(normalizeFuzzyCase(line, options));
+    if (words.length === 0) continue;
+
+    const fuzzyLine: FuzzyLine = {
+      index,
+      wordCount: words.length,
+      termFrequencies: new Array<number>(terms.length).fill(0),
+      hits: [],
+    };
+
+    for (const word of words) {
+      let best = wordWeights.get(word.text);
+
+      if (best === undefined) {
+        best = matchFuzzyTerms(word.text, terms, !options.wholeWord);
+        wordWeights.set(word.text, best);
+      }
+      if (!best) continue;
+
+      fuzzyLine.termFrequencies[best.termIndex] += best.weight;
+      section.termFrequencies[best.termIndex] += best.weight;
+      fuzzyLine.hits.push({ start: word.start, end: word.end });
+    }
+
+    section.wordCount += words.length;
+    totalWords += words.length;
+    linesWithWords += 1;
+
+    if (fuzzyLine.hits.length > 0) {
+      section.lines.push(fuzzyLine);
+    }
+  }
+
+  const scoredSections = sections.filter((entry) => entry.wordCount > 0);
+  if (scoredSections.length === 0) return EMPTY_LINE_SEARCH;
+
+  const inverseFrequencies = terms.map((_, termIndex) => {
+    const containing = scoredSections.filter((entry) => entry.termFrequencies[termIndex] > 0).length;
+    return Math.log(1 + (scoredSections.length - containing + 0.5) / (containing + 0.5));
+  });
+  const averageSectionWords = totalWords / scoredSections.length;
+  const averageLineWords = totalWords / linesWithWords;
+  const rankedSections: RankedSection[] = [];
+  const rankedLines: Array<{ line: FuzzyLine; score: number }> = [];
+
+  for (const entry of scoredSections) {
+    if (entry.lines.length === 0) continue;
+
+    const sectionScore = scoreBm25(
+      entry.termFrequencies,
+      inverseFrequencies,
+      entry.wordCount,
+      averageSectionWords,
+    );
+
+    rankedSections.push({
+      lineNumber: entry.lineNumber,
+      headingPath: entry.headingPath,
+      matchedLines: entry.lines.length,
+      score: sectionScore,
     });
+
+    for (const line of entry.lines) {
+      rankedLines.push({
+        line,
+        score: sectionScore + scoreBm25(
+          line.termFrequencies,
+          inverseFrequencies,
+          line.wordCount,
+          averageLineWords,
+        ),
+      });
+    }
+  }
+
+  rankedSections.sort((left, right) => right.score - left.score || left.lineNumber - right.lineNumber);
+  rankedLines.sort((left, right) => right.score - left.score || left.line.index - right.line.index);
+
+  return {
+    hits: rankedLines.map(({ line, score }) => ({
+      index: line.index,
+      occurrences: line.hits.length,
+      previewStart: line.hits[0]!.start,
+      previewLength: line.hits[0]!.end - line.hits[0]!.start,
+      score,
+      spans: line.hits,
+    })),
+    totalOccurrences: rankedLines.reduce((sum, entry) => sum + entry.line.hits.length, 0),
+    errorMessage: null,
+    sections: rankedSections.slice(0, MAX_RANKED_SECTIONS),
+  };
+}
+
+function scoreBm25(
+  termFrequencies: number[],
+  inverseFrequencies: number[],
+  wordCount: number,
+  averageWordCount: number,
+): number {
+  const lengthNorm = 1 - BM25_B + BM25_B * (wordCount / averageWordCount);
+  let score = 0;
+
+  for (let termIndex = 0; termIndex < termFrequencies.length; termIndex++) {
+    const frequency = termFrequencies[termIndex] ?? 0;
+    if (frequency === 0) continue;
+    score += (inverseFrequencies[termIndex] ?? 0) * (frequency * (BM25_K1 + 1)) / (frequency + BM25_K1 * lengthNorm);
+  }
+
+  return score;
+}
+
+/** Best query term for a word: exact, then prefix, then within the term's typo budget. */
+function matchFuzzyTerms(
+  word: string,
+  terms: string[],
+  allowPrefix: boolean,
+): { termIndex: number; weight: number } | null {
+  let best: { termIndex: number; weight: number } | null = null;
+
+  for (let termIndex = 0; termIndex < terms.length; termIndex++) {
+    const term = terms[termIndex]!;
+    let weight = 0;
+
+    if (word === term) {
+      weight = 1;
+    } else if (allowPrefix && term.length >= 3 && word.startsWith(term)) {
+      weight = PREFIX_MATCH_WEIGHT;
+    } else {
+      const maxEdits = term.length <= 3 ? 0 : term.length <= 6 ? 1 : 2;
+      const distance = maxEdits > 0 ? boundedEditDistance(word, term, maxEdits) : maxEdits + 1;
+      if (distance <= maxEdits) {
+        weight = TYPO_MATCH_WEIGHT * (1 - distance / term.length);
+      }
+    }
+
+    if (weight > 0 && (!best || weight > best.weight)) {
+      best = { termIndex, weight };
+    }
   }
 
-  const totalOccurrences = matches.reduce((sum, match) => sum + match.occurrences, 0);
+  return best;
+}
+
+/** Optimal string alignment distance; returns `maxEdits + 1` once it is exceeded. */
+function boundedEditDistance(left: string, right: string, maxEdits: number): number {
+  if (Math.abs(left.length - right.length) > maxEdits) return maxEdits + 1;
+
+  let previousRow: number[] = [];
+  let row = Array.from({ length: right.length + 1 }, (_, index) => index);
+
+  for (let i = 1; i <= left.length; i++) {
+    const nextRow = [i];
+    let rowMinimum = i;
+
+    for (let j = 1; j <= right.length; j++) {
+      const cost = left[i - 1] === right[j - 1] ? 0 : 1;
+      let value = Math.min(row[j]! + 1, nextRow[j - 1]! + 1, row[j - 1]! + cost);
+
+      if (i > 1 && j > 1 && left[i - 1] === right[j - 2] && left[i - 2] === right[j - 1]) {
+        value = Math.min(value, previousRow[j - 2]! + 1);
+      }
+
+      nextRow.push(value);
+      rowMinimum = Math.min(rowMinimum, value);
+    }
+
+    if (rowMinimum > maxEdits) return maxEdits + 1;
+    previousRow = row;
+    row = nextRow;
+  }
+
+  return Math.min(row[right.length]!, maxEdits + 1);
+}
+
+function tokenizeWords(text: string): Array<{ text: string; start: number; end: number }> {
+  return Array.from(text.matchAll(/[\p{L}\p{N}_]+/gu), (match) => ({
+    text: match[0],
+    start: match.index,
+    end: match.index + match[0].length,
+  }));
+}
+
+function normalizeFuzzyCase(text: string, options: SearchOptions): string {
+  return options.caseSensitive ? text : text.toLowerCase();
+}
+
+/* ── Replace ── */
+
+/** Same matching rules as search, as one global pattern usable for substitution. */
+function createReplacePattern(query: string, options: SearchOptions): RegExp | null {
+  try {
+    if (options.regex) {
+      const source = options.wholeWord ? `\\b(?:${query})\\b` : query;
+      return new RegExp(source, options.caseSensitive ? "g" : "gi");
+    }
+
+    const escaped = query.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+    // Mirrors hasWordBoundaries, which treats any letter or digit as a word character.
+    const source = options.wholeWord
+      ? `(?<![\\p{L}\\p{N}_])${escaped}(?![\\p{L}\\p{N}_])`
+      : escaped;
+    return new RegExp(source, options.caseSensitive ? "gu" : "giu");
+  } catch {
+    return null;
+  }
+}
+
+function forEachReplaceMatch(
+  line: string,
+  pattern: RegExp,
+  callback: (match: RegExpExecArray) => void,
+) {
+  pattern.lastIndex = 0;
+  let match = pattern.exec(line);
+
+  while (match) {
+    callback(match);
+    if (match[0] === "") pattern.lastIndex += 1;
+    match = pattern.exec(line);
+  }
+}
+
+/** Expands `$&`, `$1`, `$<name>` and friends the way String.prototype.replace does. */
+function expandReplacement(template: string, match: RegExpExecArray, isRegex: boolean): string {
+  if (!isRegex) return template;
+
+  return template.replace(/\$(\$|&|`|'|<([^>]*)>|\d{1,2})/g, (token, symbol: string, groupName?: string) => {
+    if (symbol === "$") return "$";
+    if (symbol === "&") return match[0];
+    if (symbol === "`") return match.input.slice(0, match.index);
+    if (symbol === "'") return match.input.slice(match.index + match[0].length);
+    if (groupName !== undefined) return match.groups ? (match.groups[groupName] ?? "") : token;
+
+    const twoDigitGroup = Number(symbol);
+    if (symbol.length === 2 && twoDigitGroup > 0 && twoDigitGroup < match.length) {
+      return match[twoDigitGroup] ?? "";
+    }
+
+    const oneDigitGroup = Number(symbol[0]);
+    if (oneDigitGroup > 0 && oneDigitGroup < match.length) {
+      return `${match[oneDigitGroup] ?? ""}${symbol.slice(1)}`;
+    }
+
+    return token;
+  });
+}
+
+function previewReplace(
+  lineIndex: SearchLineIndex,
+  query: string,
+  replacement: string,
+  options: SearchOptions,
+): ReplacePreview {
+  const pattern = createReplacePattern(query, options);
+  if (!pattern) return { ...EMPTY_REPLACE_PREVIEW, errorMessage: "Invalid regular expression." };
+
+  const matches: ReplaceMatch[] = [];
+  let totalMatches = 0;
+
+  for (let index = 0; index < lineIndex.lines.length; index++) {
+    if (!linePassesTagFilter(lineIndex, index, options.tags)) continue;
+
+    const line = lineIndex.lines[index] ?? "";
+    forEachReplaceMatch(line, pattern, (match) => {
+      totalMatches += 1;
+      if (matches.length >= MAX_REPLACE_PREVIEW_MATCHES) return;
+
+      const matchEnd = match.index + match[0].length;
+      const contextStart = Math.max(0, match.index - SNIPPET_PADDING);
+      const contextEnd = Math.min(line.length, matchEnd + SNIPPET_PADDING);
+
+      matches.push({
+        id: `${index + 1}:${match.index}`,
+        lineNumber: index + 1,
+        column: match.index,
+        matchText: match[0],
+        replacement: expandReplacement(replacement, match, options.regex),
+        contextBefore: `${contextStart > 0 ? "..." : ""}${line.slice(contextStart, match.index)}`,
+        contextAfter: `${line.slice(matchEnd, contextEnd)}${contextEnd < line.length ? "..." : ""}`,
+      });
+    });
+  }
 
   return {
     matches,
-    totalOccurrences,
-    totalMatchedLines: matches.length,
-    isTruncated: false,
+    totalMatches,
+    isTruncated: totalMatches > matches.length,
+    errorMessage: null,
+  };
+}
+
+function runReplace(
+  lineIndex: SearchLineIndex,
+  query: string,
+  replacement: string,
+  options: SearchOptions,
+  matchIds: string[] | null,
+  lineBreaks: string[],
+): ReplaceResult {
+  const pattern = createReplacePattern(query, options);
+  if (!pattern) {
+    return { markdown: "", replacedCount: 0, errorMessage: "Invalid regular expression." };
+  }
+
+  const selectedIds = matchIds ? new Set(matchIds) : null;
+  const nextLines = lineIndex.lines.slice();
+  let replacedCount = 0;
+
+  for (let index = 0; index < lineIndex.lines.length; index++) {
+    if (!linePassesTagFilter(lineIndex, index, options.tags)) continue;
+
+    const line = lineIndex.lines[index] ?? "";
+    let nextLine = "";
+    let cursor = 0;
+    let hasReplaced = false;
+
+    forEachReplaceMatch(line, pattern, (match) => {
+      if (selectedIds && !selectedIds.has(`${index + 1}:${match.index}`)) return;
+
+      nextLine += line.slice(cursor, match.index) + expandReplacement(replacement, match, options.regex);
+      cursor = match.index + match[0].length;
+      replacedCount += 1;
+      hasReplaced = true;
+    });
+
+    if (hasReplaced) {
+      nextLines[index] = nextLine + line.slice(cursor);
+    }
+  }
+
+  return {
+    markdown: nextLines.map((line, index) => line + (lineBreaks[index] ?? "")).join(""),
+    replacedCount,
     errorMessage: null,
   };
 }
 
 /* ── Helpers ── */
 
-function createPreview(line: string, index: number, matchLength: number): string {
-  if (!line) return "(empty line)";
+/** `offset` maps a line column inside `sliceStart..sliceEnd` to its preview column. */
+function createPreviewWindow(line: string, index: number, matchLength: number) {
+  if (!line) return { preview: "(empty line)", offset: 0, sliceStart: 0, sliceEnd: 0 };
 
   const safeIndex = Math.max(0, index);
   const safeLength = Math.max(1, matchLength);
@@ -294,7 +830,12 @@ function createPreview(line: string, index: number, matchLength: number): string
   const prefix = sliceStart > 0 ? "..." : "";
   const suffix = sliceEnd < line.length ? "..." : "";
 
-  return `${prefix}${line.slice(sliceStart, sliceEnd)}${suffix}`;
+  return {
+    preview: `${prefix}${line.slice(sliceStart, sliceEnd)}${suffix}`,
+    offset: prefix.length - sliceStart,
+    sliceStart,
+    sliceEnd,
+  };
 }
 
 function hasWordBoundaries(line: string, index: number, matchLength: number): boolean {
@@ -308,15 +849,6 @@ function isWordCharacter(char: string): boolean {
   return /[\p{L}\p{N}_]/u.test(char);
 }
 
-function isParagraphLine(trimmedLine: string): boolean {
-  if (!trimmedLine) return false;
-  if (/^(?:[-+*]|\d+\.)\s+/.test(trimmedLine)) return false;
-  if (/^>/.test(trimmedLine)) return false;
-  if (/^\|/.test(trimmedLine)) return false;
-  if (/^(-{3,}|\*{3,}|_{3,})$/.test(trimmedLine)) return false;
-  return true;
-}
-
 /* ── Worker message handler ── */
 
 self.onmessage = (event: MessageEvent<SearchWorkerRequest>) => {
@@ -332,11 +864,109 @@ self.onmessage = (event: MessageEvent<SearchWorkerRequest>) => {
     return;
   }
 
+  if (message.type === "index-library-document") {
+    setLibraryDocumentIndex(message.docKey, message.markdown);
+    return;
+  }
+
+  if (message.type === "remove-library-documents") {
+    removeLibraryDocuments(message.docKeys);
+    return;
+  }
+
+  if (message.type === "run-library-search") {
+    const trimmedQuery = message.query.trim();
+    const response: SearchWorkerResponse = {
+      type: "library-search-result",
+      id: message.id,
+      result: !trimmedQuery && !hasActiveSearchTags(message.options.tags)
+        ? EMPTY_LIBRARY_RESULT
+        : runLibrarySearch(
+          message.id,
+          trimmedQuery,
+          message.options,
+          message.docKeys,
+          message.pageSize,
+        ),
+    };
+    self.postMessage(response);
+    return;
+  }
+
+  if (message.type === "get-search-page") {
+    const page = getCachedPage(documentSearch, message.id, "", message.page, message.pageSize);
+    if (!page) return;
+
+    const response: SearchWorkerResponse = { type: "search-page", id: message.id, ...page };
+    self.postMessage(response);
+    return;
+  }
+
+  if (message.type === "get-library-page") {
+    const page = getCachedPage(
+      librarySearch,
+      message.id,
+      message.docKey,
+      message.page,
+      message.pageSize,
+    );
+    if (!page) return;
+
+    const response: SearchWorkerResponse = {
+      type: "library-page",
+      id: message.id,
+      docKey: message.docKey,
+      ...page,
+    };
+    self.postMessage(response);
+    return;
+  }
+
+  // Replace patterns are used as typed: leading and trailing spaces are part of them.
+  if (message.type === "preview-replace") {
+    const response: SearchWorkerResponse = {
+      type: "replace-preview",
+      id: message.id,
+      documentVersion: indexedDocumentVersion,
+      result: !indexedDocKey || !message.query
+        ? EMPTY_REPLACE_PREVIEW
+        : previewReplace(
+          indexedDocument,
+          message.query,
+          message.replacement,
+          message.options,
+        ),
+    };
+    self.postMessage(response);
+    return;
+  }
+
+  if (message.type === "run-replace") {
+    const response: SearchWorkerResponse = {
+      type: "replace-result",
+      id: message.id,
+      result: indexedDocKey !== message.docKey || indexedDocumentVersion !== message.documentVersion
+        ? { markdown: "", replacedCount: 0, errorMessage: "The document changed; search again." }
+        : !message.query
+          ? { markdown: "", replacedCount: 0, errorMessage: "Enter a search string to replace." }
+          : runReplace(
+            indexedDocument,
+            message.query,
+            message.replacement,
+            message.options,
+            message.matchIds,
+            indexedLineBreaks,
+          ),
+    };
+    self.postMessage(response);
+    return;
+  }
+
   if (message.type !== "run-search") {
     return;
   }
 
-  const { id, query, options } = message;
+  const { id, query, options, page, pageSize } = message;
   const trimmed = query.trim();
 
   if (!indexedDocKey) {
@@ -359,9 +989,7 @@ self.onmessage = (event: MessageEvent<SearchWorkerRequest>) => {
     return;
   }
 
-  const result = !trimmed
-    ? collectTaggedLines(indexedLines, indexedLineTags, options.tags)
-    : runSearch(indexedLines, indexedLineTags, trimmed, options);
+  const result = runDocumentSearch(id, trimmed, options, page, pageSize);
 
   const response: SearchWorkerResponse = {
     type: "search-result",
@@ -1,4 +1,11 @@
-import type { SearchOptions, SearchResult } from "./searchModels.ts";
+import type {
+  LibrarySearchResult,
+  LineMatch,
+  ReplacePreview,
+  ReplaceResult,
+  SearchOptions,
+  SearchResult,
+} from "./searchModels.ts";
 
 export interface SearchWorkerSetDocumentRequest {
   type: "set-document";
@@ -10,17 +17,89 @@ export interface SearchWorkerClearDocumentRequest {
   type: "clear-document";
 }
 
+/** The result carries every total but previews only for `page` (clamped to what exists). */
 export interface SearchWorkerRunSearchRequest {
   type: "run-search";
   id: number;
   query: string;
   options: SearchOptions;
+  page: number;
+  pageSize: number;
+}
+
+/** Another page of the document search `id`, served from the worker's cached hits. */
+export interface SearchWorkerGetSearchPageRequest {
+  type: "get-search-page";
+  id: number;
+  page: number;
+  pageSize: number;
+}
+
+/** Adds or replaces one document in the library-wide index. */
+export interface SearchWorkerIndexLibraryDocumentRequest {
+  type: "index-library-document";
+  docKey: string;
+  markdown: string;
+}
+
+export interface SearchWorkerRemoveLibraryDocumentsRequest {
+  type: "remove-library-documents";
+  docKeys: string[];
+}
+
+/** `docKeys` limits the search to those documents, in that order; null searches all. */
+export interface SearchWorkerRunLibrarySearchRequest {
+  type: "run-library-search";
+  id: number;
+  query: string;
+  options: SearchOptions;
+  docKeys: string[] | null;
+  /** Each document result carries its first page of matches. */
+  pageSize: number;
+}
+
+/** Another page of one document's matches from the library search `id`. */
+export interface SearchWorkerGetLibraryPageRequest {
+  type: "get-library-page";
+  id: number;
+  docKey: string;
+  page: number;
+  pageSize: number;
+}
+
+/** Lists the occurrences a replace would touch in the indexed document. */
+export interface SearchWorkerPreviewReplaceRequest {
+  type: "preview-replace";
+  id: number;
+  query: string;
+  replacement: string;
+  options: SearchOptions;
+}
+
+/** `matchIds` limits the replace to those preview matches; null replaces every match. */
+export interface SearchWorkerRunReplaceRequest {
+  type: "run-replace";
+  id: number;
+  docKey: string;
+  /** From the preview the user confirmed; a different indexed version rejects the replace. */
+  documentVersion: number | null;
+  query: string;
+  replacement: string;
+  options: SearchOptions;
+  matchIds: string[] | null;
 }
 
 export type SearchWorkerRequest =
   | SearchWorkerSetDocumentRequest
   | SearchWorkerClearDocumentRequest
-  | SearchWorkerRunSearchRequest;
+  | SearchWorkerRunSearchRequest
+  | SearchWorkerGetSearchPageRequest
+  | SearchWorkerIndexLibraryDocumentRequest
+  | SearchWorkerRemoveLibraryDocumentsRequest
+  | SearchWorkerRunLibrarySearchRequest
+  | SearchWorkerGetLibraryPageRequest
+  | SearchWorkerPreviewReplaceRequest
+  | SearchWorkerRunReplaceRequest;
 
 export interface SearchWorkerSearchResultResponse {
   type: "search-result";
@@ -28,4 +107,45 @@ export interface SearchWorkerSearchResultResponse {
   result: SearchResult;
 }
 
-export type SearchWorkerResponse = SearchWorkerSearchResultResponse;
+export interface SearchWorkerSearchPageResponse {
+  type: "search-page";
+  id: number;
+  page: number;
+  matches: LineMatch[];
+}
+
+export interface SearchWorkerLibrarySearchResultResponse {
+  type: "library-search-result";
+  id: number;
+  result: LibrarySearchResult;
+}
+
+export interface SearchWorkerLibraryPageResponse {
+  type: "library-page";
+  id: number;
+  docKey: string;
+  page: number;
+  matches: LineMatch[];
+}
+
+export interface SearchWorkerReplacePreviewResponse {
+  type: "replace-preview";
+  id: number;
+  /** Changes every time the worker indexes a document, even with the same key. */
+  documentVersion: number;
+  result: ReplacePreview;
+}
+
+export interface SearchWorkerReplaceResultResponse {
+  type: "replace-result";
+  id: number;
+  result: ReplaceResult;
+}
+
+export type SearchWorkerResponse =
+  | SearchWorkerSearchResultResponse
+  | SearchWorkerSearchPageResponse
+  | SearchWorkerLibrarySearchResultResponse
+  | SearchWorkerLibraryPageResponse
+  | SearchWorkerReplacePreviewResponse
+  | SearchWorkerReplaceResultResponse;
@@ -0,0 +1,69 @@
+export interface DocumentShare {
+  id: string;
+  documentId: string;
+  /** First characters of the token, enough to tell links apart. */
+  tokenPrefix: string;
+  hasPassword: boolean;
+  expiresAt: string | null;
+  revokedAt: string | null;
+  accessCount: number;
+  lastAccessedAt: string | null;
+  createdAt: string;
+}
+
+export type DocumentShareStatus = "active" | "expired" | "revoked";
+
+export interface CreateDocumentShareInput {
+  documentId: string;
+  expiresAt: string | null;
+  password: string | null;
+}
+
+export interface CreateDocumentShareResponse {
+  share: DocumentShare;
+  token: string;
+}
+
+export interface RevokeDocumentShareResponse {
+  share: DocumentShare;
+}
+
+export interface SharedDocument {
+  name: string;
+  markdown: string;
+  updatedAt: string;
+}
+
+export interface SharedDocumentResponse {
+  document: SharedDocument;
+  expiresAt: string | null;
+}
+
+export type SharedDocumentErrorCode = "password_required" | "invalid_password" | "too_many_attempts";
+
+export class SharedDocumentError extends Error {
+  readonly code: SharedDocumentErrorCode | null;
+
+  constructor(message: string, code: SharedDocumentErrorCode | null) {
+    super(message);
+    this.name = "SharedDocumentError";
+    this.code = code;
+  }
+}
+
+/** The only views a share link may open. */
+export const SHARE_VIEW_MODES = ["rendered", "slides"] as const;
+
+export type ShareViewMode = (typeof SHARE_VIEW_MODES)[number];
+
+export function getDocumentShareStatus(share: DocumentShare, now = Date.now()): DocumentShareStatus {
+  if (share.revokedAt) return "revoked";
+  if (share.expiresAt && new Date(share.expiresAt).getTime() <= now) return "expired";
+  return "active";
+}
+
+export function buildShareUrl(token: string, mode: ShareViewMode = "rendered"): string {
+  const url = new URL(`/s/${encodeURIComponent(token)}`, window.location.origin);
+  if (mode !== "rendered") url.searchParams.set("mode", mode);
+  return url.toString();
+}
@@ -0,0 +1,150 @@
+import { FunctionsHttpError } from "@supabase/supabase-js";
+import { supabase } from "./supabase.ts";
+import {
+  SharedDocumentError,
+  type CreateDocumentShareInput,
+  type CreateDocumentShareResponse,
+  type DocumentShare,
+  type RevokeDocumentShareResponse,
+  type SharedDocumentErrorCode,
+  type SharedDocumentResponse,
+} from "./shareModels.ts";
+import { requireAuthenticatedUserId } from "./supabaseDb.ts";
+
+async function requireAuthenticatedAccessToken(errorMessage: string): Promise<string> {
+  const { data: { user }, error: userError } = await supabase.auth.getUser();
+
+  if (userError) throw new Error(userError.message);
+  if (!user) throw new Error(errorMessage);
+
+  const initialSessionResult = await supabase.auth.getSession();
+  if (initialSessionResult.error) throw new Error(initialSessionResult.error.message);
+  let session = initialSessionResult.data.session;
+
+  const expiresAtMs = (session?.expires_at ?? 0) * 1000;
+  const shouldRefresh = !session?.access_token || expiresAtMs <= Date.now() + 30_000;
+
+  if (shouldRefresh) {
+    const { data: refreshed, error: refreshError } = await supabase.auth.refreshSession();
+    if (refreshError) throw new Error(refreshError.message);
+    session = refreshed.session;
+  }
+
+  if (!session?.access_token) throw new Error(errorMessage);
+
+  return session.access_token;
+}
+
+export async function listDocumentShares(documentId: string): Promise<DocumentShare[]> {
+  const userId = await requireAuthenticatedUserId("You must be logged in to view share links.");
+
+  const { data, error } = await supabase
+    .from("document_shares")
+    .select("id, document_id, token_prefix, password_hash, expires_at, revoked_at, access_count, last_accessed_at, created_at")
+    .eq("user_id", userId)
+    .eq("document_id", documentId)
+    .order("created_at", { ascending: false });
+
+  if (error) throw new Error(error.message);
+
+  return (data ?? []).map((row) => ({
+    id: row.id as string,
+    documentId: row.document_id as string,
+    tokenPrefix: row.token_prefix as string,
+    hasPassword: Boolean(row.password_hash),
+    expiresAt: (row.expires_at as string | null) ?? null,
+    revokedAt: (row.revoked_at as string | null) ?? null,
+    accessCount: Number(row.access_count ?? 0),
+    lastAccessedAt: (row.last_accessed_at as string | null) ?? null,
+    createdAt: row.created_at as string,
+  }));
+}
+
+export async function createDocumentShare(
+  input: CreateDocumentShareInput,
+): Promise<CreateDocumentShareResponse> {
+  const accessToken = await requireAuthenticatedAccessToken(
+    "You must be logged in to share documents.",
+  );
+
+  const { data, error } = await supabase.functions.invoke<CreateDocumentShareResponse>(
+    "document-share-create",
+    {
+      body: input,
+      headers: {
+        Authorization: `Bearer ${accessToken}`,
+      },
+    },
+  );
+
+  if (error) throw new Error(await readFunctionErrorMessage(error, "Creating share link failed."));
+  if (!data) throw new Error("Creating share link failed.");
+
+  return data;
+}
+
+export async function revokeDocumentShare(shareId: string): Promise<DocumentShare> {
+  const accessToken = await requireAuthenticatedAccessToken(
+    "You must be logged in to revoke share links.",
+  );
+
+  const { data, error } = await supabase.functions.invoke<RevokeDocumentShareResponse>(
+    "document-share-revoke",
+    {
+      body: { shareId },
+      headers: {
+        Authorization: `Bearer ${accessToken}`,
+      },
+    },
+  );
+
+  if (error) throw new Error(await readFunctionErrorMessage(error, "Revoking share link failed."));
+  if (!data) throw new Error("Revoking share link failed.");
+
+  return data.share;
+}
+
+/** Anonymous: resolves a share token (and password, if the link has one). */
+export async function getSharedDocument(
+  token: string,
+  password: string | null,
+): Promise<SharedDocumentResponse> {
+  const { data, error } = await supabase.functions.invoke<SharedDocumentResponse>(
+    "document-share-access",
+    {
+      body: { token, password },
+    },
+  );
+
+  if (error) {
+    const body = await readFunctionErrorBody(error);
+    throw new SharedDocumentError(
+      body?.error ?? "This share link could not be opened.",
+      body?.code ?? null,
+    );
+  }
+  if (!data) throw new SharedDocumentError("This share link could not be opened.", null);
+
+  return data;
+}
+
+interface FunctionErrorBody {
+  error?: string;
+  code?: SharedDocumentErrorCode;
+}
+
+async function readFunctionErrorBody(error: unknown): Promise<FunctionErrorBody | null> {
+  if (!(error instanceof FunctionsHttpError)) return null;
+
+  try {
+    return await (error.context as Response).json() as FunctionErrorBody;
+  } catch {
+    return null;
+  }
+}
+
+async function readFunctionErrorMessage(error: unknown, fallbackMessage: string): Promise<string> {
+  const body = await readFunctionErrorBody(error);
+  if (body?.error) return body.error;
+  return error instanceof Error ? error.message : fallbackMessage;
+}
@@ -0,0 +1,27 @@
+import type { SlideSegmentation } from "./slideModels.ts";
+
+/* ── Messages between the presenter view and its audience windows ── */
+
+export interface SlideBroadcastState {
+  /** 0-based slide index. */
+  slideIndex: number;
+  fontScale: number;
+  segmentation: SlideSegmentation;
+}
+
+export interface SlideBroadcastStateMessage extends SlideBroadcastState {
+  type: "slide-state";
+}
+
+/** Sent by an audience window when it opens so the presenter replies with its state. */
+export interface SlideBroadcastAudienceReadyMessage {
+  type: "audience-ready";
+}
+
+export type SlideBroadcastMessage =
+  | SlideBroadcastStateMessage
+  | SlideBroadcastAudienceReadyMessage;
+
+export function getSlideBroadcastChannelName(docId: string): string {
+  return `sloppysource-slides:${docId}`;
+}
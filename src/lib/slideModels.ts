@@ -7,12 +7,21 @@ export type SlideTag =
   | "table"
   | "other";
 
+export interface SlideLineRange {
+  startLine: number;
+  endLine: number;
+}
+
 export interface SlideOutline {
   id: string;
   tag: SlideTag;
   preview: string;
   startLine: number;
   endLine: number;
+  /** Source ranges shown on the slide; skips notes and `---` breaks inside the span. */
+  segments: SlideLineRange[];
+  /** Speaker notes written after the slide; markdown, empty when there are none. */
+  notes: string;
 }
 
 export const SLIDE_TAG_LABELS: Record<SlideTag, string> = {
@@ -24,3 +33,20 @@ export const SLIDE_TAG_LABELS: Record<SlideTag, string> = {
   table: "Table",
   other: "Block",
 };
+
+/**
+ * How a document is cut into slides: one top-level block per slide, `---`
+ * thematic breaks, H1/H2 sections, or blocks packed until a slide is full.
+ */
+export const SLIDE_SEGMENTATIONS = ["node", "break", "section", "auto"] as const;
+
+export type SlideSegmentation = (typeof SLIDE_SEGMENTATIONS)[number];
+
+export const DEFAULT_SLIDE_SEGMENTATION: SlideSegmentation = "node";
+
+export const SLIDE_SEGMENTATION_LABELS: Record<SlideSegmentation, string> = {
+  node: "Per block",
+  break: "--- breaks",
+  section: "H1/H2 sections",
+  auto: "Auto-fit",
+};
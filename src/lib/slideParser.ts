@@ -1,7 +1,15 @@
 import { unified } from "unified";
 import remarkParse from "remark-parse";
 import remarkGfm from "remark-gfm";
-import type { SlideOutline, SlideTag } from "./slideModels.ts";
+import { formatFrontMatterValue, maskFrontMatter, parseFrontMatter } from "./frontMatter.ts";
+import {
+  DEFAULT_SLIDE_SEGMENTATION,
+  SLIDE_SEGMENTATIONS,
+  type SlideLineRange,
+  type SlideOutline,
+  type SlideSegmentation,
+  type SlideTag,
+} from "./slideModels.ts";
 
 interface MarkdownNode {
   type: string;
@@ -19,21 +27,57 @@ interface MarkdownNode {
   };
 }
 
+interface SlideBlock {
+  node: MarkdownNode;
+  tag: SlideTag;
+  startLine: number;
+  endLine: number;
+  height: number;
+  /** Notes or a `---` sit between this block and the previous one. */
+  isDetached: boolean;
+}
+
+interface SlideGroup {
+  blocks: SlideBlock[];
+  height: number;
+  notes: string[];
+}
+
 const PREVIEW_LIMIT = 84;
+/* Auto-fit budget at 100% font scale, in estimated body-text lines. */
+const AUTO_PAGE_HEIGHT = 22;
+const AUTO_LINE_WIDTH = 72;
+/* Speaker notes: `<!-- notes: ... -->` comments or paragraphs starting with `Note:`. */
+const NOTES_COMMENT_PATTERN = /^<!--\s*notes?:([\s\S]*?)-->$/i;
+const NOTES_PARAGRAPH_PATTERN = /^\s*notes?:\s*/i;
 const parser = unified().use(remarkParse).use(remarkGfm);
 
-export function extractSlideOutlines(markdown: string): SlideOutline[] {
+export interface ExtractSlideOutlinesOptions {
+  segmentation?: SlideSegmentation;
+  /** Only used by auto-fit: larger text fits fewer lines on a slide. */
+  fontScale?: number;
+}
+
+export function extractSlideOutlines(
+  markdown: string,
+  { segmentation = DEFAULT_SLIDE_SEGMENTATION, fontScale = 1 }: ExtractSlideOutlinesOptions = {},
+): SlideOutline[] {
   if (!markdown.trim()) return [];
 
-  const root = parser.parse(markdown) as MarkdownNode;
+  const frontMatter = parseFrontMatter(markdown);
+  const root = parser.parse(maskFrontMatter(markdown, frontMatter)) as MarkdownNode;
   const children = root.children ?? [];
+  const lines = splitMarkdownLines(markdown);
+  const pageHeight = AUTO_PAGE_HEIGHT / Math.max(fontScale, 0.1);
+  const lineWidth = Math.max(20, Math.round(AUTO_LINE_WIDTH / Math.max(fontScale, 0.1)));
 
-  const outlines: SlideOutline[] = [];
-
-  for (let index = 0; index < children.length; index += 1) {
-    const node = children[index];
-    if (!node) continue;
+  const groups: SlideGroup[] = [];
+  // Notes written before the first slide attach to that slide.
+  let pendingNotes: string[] = [];
+  let currentGroup: SlideGroup | null = null;
+  let hasSkippedNode = false;
 
+  for (const node of children) {
     const startLine = node.position?.start?.line;
     const endLine = node.position?.end?.line;
 
@@ -41,35 +85,80 @@ export function extractSlideOutlines(markdown: string): SlideOutline[] {
       continue;
     }
 
+    const notes = extractSpeakerNotes(node, lines, startLine, endLine);
+    if (notes !== null) {
+      if (currentGroup) {
+        currentGroup.notes.push(notes);
+      } else {
+        pendingNotes.push(notes);
+      }
+      hasSkippedNode = true;
+      continue;
+    }
+
+    if (node.type === "thematicBreak") {
+      if (segmentation === "break" || segmentation === "auto") currentGroup = null;
+      hasSkippedNode = true;
+      continue;
+    }
+
     const tag = mapNodeToSlideTag(node);
     if (!tag) continue;
 
-    outlines.push({
-      id: `${tag}-${startLine}-${index + 1}`,
+    const block: SlideBlock = {
+      node,
       tag,
-      preview: buildPreview(node, tag),
       startLine,
       endLine,
-    });
+      height: segmentation === "auto"
+        ? estimateBlockHeight(node, lines.slice(startLine - 1, endLine), lineWidth)
+        : 0,
+      isDetached: hasSkippedNode,
+    };
+    hasSkippedNode = false;
+
+    if (!currentGroup || shouldStartSlide(segmentation, currentGroup, block, pageHeight)) {
+      // Keep a trailing heading with the content it introduces.
+      const carriedHeading: SlideBlock | null = segmentation === "auto" ? takeTrailingHeading(currentGroup) : null;
+      currentGroup = {
+        blocks: carriedHeading ? [carriedHeading] : [],
+        height: carriedHeading?.height ?? 0,
+        notes: pendingNotes,
+      };
+      pendingNotes = [];
+      groups.push(currentGroup);
+    }
+
+    currentGroup.blocks.push(block);
+    currentGroup.height += block.height;
   }
 
-  if (outlines.length > 0) {
-    return outlines;
+  if (groups.length > 0) {
+    return groups.map((group, index) => buildOutline(group, index));
   }
 
-  const lines = markdown.split(/\r?\n/);
+  const firstContentLine = frontMatter ? Math.min(frontMatter.endLine + 1, lines.length) : 1;
+  const lastLine = Math.max(lines.length, 1);
 
   return [
     {
       id: "other-1-1",
       tag: "other",
       preview: truncateText(normalizeWhitespace(markdown), PREVIEW_LIMIT) || "Markdown content",
-      startLine: 1,
-      endLine: Math.max(lines.length, 1),
+      startLine: firstContentLine,
+      endLine: lastLine,
+      segments: [{ startLine: firstContentLine, endLine: lastLine }],
+      notes: joinNotes(pendingNotes),
     },
   ];
 }
 
+/** Reads the `slides:` front-matter key, e.g. `slides: section`. */
+export function resolveSlideSegmentation(markdown: string): SlideSegmentation | null {
+  const value = formatFrontMatterValue(parseFrontMatter(markdown)?.data.slides).toLowerCase();
+  return SLIDE_SEGMENTATIONS.find((segmentation) => segmentation === value) ?? null;
+}
+
 export function materializeSlideMarkdown(markdown: string, outline: SlideOutline): string {
   return materializeSlideMarkdownFromLines(splitMarkdownLines(markdown), outline);
 }
@@ -84,10 +173,107 @@ export function materializeSlideMarkdownFromLines(
 ): string {
   if (lines.length === 0) return "";
 
-  const startIndex = clampNumber(outline.startLine - 1, 0, lines.length - 1);
-  const endIndexInclusive = clampNumber(outline.endLine - 1, startIndex, lines.length - 1);
+  return outline.segments
+    .map((segment) => {
+      const startIndex = clampNumber(segment.startLine - 1, 0, lines.length - 1);
+      const endIndexInclusive = clampNumber(segment.endLine - 1, startIndex, lines.length - 1);
+      return lines.slice(startIndex, endIndexInclusive + 1).join("\n");
+    })
+    .join("\n\n");
+}
+
+function shouldStartSlide(
+  segmentation: SlideSegmentation,
+  group: SlideGroup,
+  block: SlideBlock,
+  pageHeight: number,
+): boolean {
+  if (segmentation === "node") return true;
+  if (segmentation === "break") return false;
+  if (segmentation === "section") return isSectionHeading(block.node);
+  return group.blocks.length > 0 && group.height + block.height > pageHeight;
+}
+
+function isSectionHeading(node: MarkdownNode): boolean {
+  return node.type === "heading" && (node.depth ?? 1) <= 2;
+}
+
+function takeTrailingHeading(group: SlideGroup | null): SlideBlock | null {
+  if (!group || group.blocks.length < 2) return null;
+
+  const lastBlock = group.blocks[group.blocks.length - 1];
+  if (!lastBlock || lastBlock.tag !== "heading") return null;
+
+  group.blocks.pop();
+  group.height -= lastBlock.height;
+  return lastBlock;
+}
+
+function buildOutline(group: SlideGroup, index: number): SlideOutline {
+  const firstBlock = group.blocks[0]!;
+  const lastBlock = group.blocks[group.blocks.length - 1]!;
+  const segments: SlideLineRange[] = [];
+
+  for (const block of group.blocks) {
+    const previousSegment = segments[segments.length - 1];
+    // Merge neighbouring blocks so the blank lines between them are kept.
+    if (previousSegment && !block.isDetached) {
+      previousSegment.endLine = block.endLine;
+    } else {
+      segments.push({ startLine: block.startLine, endLine: block.endLine });
+    }
+  }
+
+  return {
+    id: `${firstBlock.tag}-${firstBlock.startLine}-${index + 1}`,
+    tag: firstBlock.tag,
+    preview: buildPreview(firstBlock.node, firstBlock.tag),
+    startLine: firstBlock.startLine,
+    endLine: lastBlock.endLine,
+    segments,
+    notes: joinNotes(group.notes),
+  };
+}
+
+/**
+ * Approximates the rendered height of a block in body-text lines; auto-fit
+ * packs blocks by this estimate rather than measuring the DOM.
+ */
+function estimateBlockHeight(node: MarkdownNode, sourceLines: string[], lineWidth: number): number {
+  if (node.type === "heading") return 2.5;
+  if (node.type === "code") return sourceLines.length + 1;
+  if (node.type === "table") return sourceLines.length * 1.4;
+
+  let height = 1;
+  for (const line of sourceLines) {
+    height += Math.max(1, Math.ceil(line.trim().length / lineWidth));
+  }
+  return height;
+}
+
+
+/** Returns the note text when the node is a speaker-notes block, otherwise null. */
+function extractSpeakerNotes(
+  node: MarkdownNode,
+  lines: string[],
+  startLine: number,
+  endLine: number,
+): string | null {
+  if (node.type === "html") {
+    const match = NOTES_COMMENT_PATTERN.exec((node.value ?? "").trim());
+    return match ? (match[1] ?? "").trim() : null;
+  }
+
+  if (node.type !== "paragraph") return null;
+
+  const source = lines.slice(startLine - 1, endLine).join("\n");
+  if (!NOTES_PARAGRAPH_PATTERN.test(source)) return null;
+
+  return source.replace(NOTES_PARAGRAPH_PATTERN, "").trim();
+}
 
-  return lines.slice(startIndex, endIndexInclusive + 1).join("\n");
+function joinNotes(notes: string[]): string {
+  return notes.filter((note) => note.length > 0).join("\n\n");
 }
 
 function mapNodeToSlideTag(node: MarkdownNode): SlideTag | null {
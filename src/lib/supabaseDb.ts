@@ -1,4 +1,35 @@
 import { supabase } from './supabase.ts'
+import {
+  DocumentBodyUploadError,
+  downloadDocumentBodies,
+  hashDocumentBody,
+  removeAllDocumentBodies,
+  removeUnreferencedDocumentBodies,
+  uploadDocumentBody,
+} from './documentBodies.ts'
+import {
+  readFrontMatterData,
+  type FrontMatterData,
+} from './frontMatter.ts'
+import {
+  getDocumentSyncStatus,
+  setPendingWrites,
+  updateDocumentSyncStatus,
+} from './documentSyncStatus.ts'
+import {
+  clearLocalDocuments,
+  getPendingWrite,
+  listPendingWrites,
+  queuePendingWrite,
+  readCachedDocument,
+  readCachedDocumentList,
+  removeCachedDocument,
+  removePendingWrite,
+  savePendingWrite,
+  writeCachedDocumentList,
+  writeCachedDocuments,
+  type PendingDocumentWrite,
+} from './localDocumentStore.ts'
 
 export interface StoredDocument {
   id: string
@@ -9,29 +40,170 @@ export interface StoredDocument {
   updatedAt: string
 }
 
-export type DocumentMeta = Omit<StoredDocument, 'markdown'>
+export type DocumentMeta = Omit<StoredDocument, 'markdown'> & {
+  folderId: string | null
+  tags: string[]
+  /** Indexed front-matter of the current body, for filtering and sorting the library. */
+  frontMatter: FrontMatterData
+}
+
+export interface DocumentRevision {
+  id: string
+  documentId: string
+  revisionNumber: number
+  name: string
+  markdown: string
+  sizeBytes: number
+  createdAt: string
+}
+
+export type DocumentRevisionMeta = Omit<DocumentRevision, 'markdown'>
+
+export const MAX_MARKDOWN_BYTES = 5 * 1024 * 1024 // 5 MB per document
+
+// Mirrors the `user_storage_usage.limit_bytes` default for users with no usage row yet.
+const DEFAULT_USER_STORAGE_BYTES = 100 * 1024 * 1024 // 100 MB
+
+// Raised by the `charge_storage_usage` trigger.
+const STORAGE_QUOTA_ERROR_CODE = 'QT001'
+
+export interface StorageUsage {
+  usedBytes: number
+  limitBytes: number
+}
+
+export type ConflictResolution = 'keep-local' | 'keep-server'
 
-const MAX_USER_STORAGE_BYTES = 100 * 1024 * 1024 // 100 MB
+export interface DocumentSyncResult {
+  syncedCount: number
+  blockedCount: number
+}
+
+/** A save was rejected because it would take the user past their storage limit. */
+export class StorageQuotaError extends Error {
+  readonly usedBytes: number
+  readonly limitBytes: number
+  readonly requestedBytes: number
+
+  constructor(usedBytes: number, limitBytes: number, requestedBytes: number) {
+    const remainingMb = (Math.max(limitBytes - usedBytes, 0) / (1024 * 1024)).toFixed(1)
+    const limitMb = Math.round(limitBytes / (1024 * 1024))
+
+    super(`Upload would exceed your ${limitMb} MB storage limit. You have ${remainingMb} MB remaining.`)
+    this.usedBytes = usedBytes
+    this.limitBytes = limitBytes
+    this.requestedBytes = requestedBytes
+  }
+}
+
+/** A request failed to reach Supabase; document reads and writes fall back to the local cache. */
+class NetworkError extends Error {}
+
+/** The server copy changed (or was deleted, `serverUpdatedAt` null) after the queued edit was made. */
+class DocumentConflictError extends Error {
+  readonly serverUpdatedAt: string | null
+
+  constructor(serverUpdatedAt: string | null) {
+    super(serverUpdatedAt
+      ? 'This document changed on the server while you were offline.'
+      : 'This document was deleted on the server while you were offline.')
+    this.serverUpdatedAt = serverUpdatedAt
+  }
+}
+
+let activeSync: Promise<DocumentSyncResult> | null = null
+
+function isOffline(): boolean {
+  return typeof navigator !== 'undefined' && !navigator.onLine
+}
+
+/** supabase-js reports failed fetches as errors without a Postgres code. */
+function isNetworkFailure(error: { message: string; code?: string }): boolean {
+  return isOffline() || (!error.code && /fetch|network|load failed/i.test(error.message))
+}
+
+function throwRequestError(error: { message: string; code?: string; details?: string }): never {
+  if (error.code === STORAGE_QUOTA_ERROR_CODE) throw toStorageQuotaError(error.details)
+  if (isNetworkFailure(error)) throw new NetworkError(error.message)
+  throw new Error(error.message)
+}
+
+function toStorageQuotaError(details: string | undefined): StorageQuotaError {
+  try {
+    const { usedBytes, limitBytes, requestedBytes } = JSON.parse(details ?? '') as {
+      usedBytes: number
+      limitBytes: number
+      requestedBytes: number
+    }
+    return new StorageQuotaError(Number(usedBytes), Number(limitBytes), Number(requestedBytes))
+  } catch {
+    return new StorageQuotaError(DEFAULT_USER_STORAGE_BYTES, DEFAULT_USER_STORAGE_BYTES, 0)
+  }
+}
+
+/** Storage helpers throw plain errors; classify them like PostgREST ones. */
+function rethrowRequestError(error: unknown): never {
+  if (error instanceof DocumentBodyUploadError) throwRequestError(error)
+  if (error instanceof Error && !(error instanceof NetworkError)) throwRequestError({ message: error.message })
+  throw error
+}
+
+function logCacheError(error: unknown) {
+  console.error('Failed to update the offline document cache:', error)
+}
+
+export async function requireAuthenticatedUserId(errorMessage: string): Promise<string> {
+  // getUser() asks the server; offline, the locally stored session is all there is.
+  if (isOffline()) return requireSessionUserId(errorMessage)
 
-async function requireAuthenticatedUserId(errorMessage: string): Promise<string> {
   const { data: { user }, error } = await supabase.auth.getUser()
 
-  if (error) throw new Error(error.message)
+  if (error) {
+    if (isNetworkFailure(error)) return requireSessionUserId(errorMessage)
+    throw new Error(error.message)
+  }
   if (!user) throw new Error(errorMessage)
 
   return user.id
 }
 
+async function requireSessionUserId(errorMessage: string): Promise<string> {
+  const { data: { session } } = await supabase.auth.getSession()
+
+  if (!session?.user) throw new Error(errorMessage)
+
+  return session.user.id
+}
+
+/** Served from the local cache when offline, with queued writes applied on top. */
 export async function listDocuments(): Promise<DocumentMeta[]> {
   const userId = await requireAuthenticatedUserId('You must be logged in to view documents.')
+  let documents: DocumentMeta[]
+
+  try {
+    documents = await fetchDocumentList(userId)
+    await writeCachedDocumentList(userId, documents).catch(logCacheError)
+  } catch (error) {
+    if (!(error instanceof NetworkError)) throw error
+
+    const cachedDocuments = await readCachedDocumentList(userId)
+    if (!cachedDocuments) throw new Error('You are offline and your documents have not been cached yet.')
+    documents = cachedDocuments
+  }
+
+  return applyPendingWritesToList(documents, await listPendingWrites(userId))
+}
+
+async function fetchDocumentList(userId: string): Promise<DocumentMeta[]> {
+  if (isOffline()) throw new NetworkError('Offline.')
 
   const { data, error } = await supabase
     .from('documents')
-    .select('id, name, size_bytes, created_at, updated_at')
+    .select('id, name, size_bytes, created_at, updated_at, folder_id, front_matter, document_tags(tag)')
     .eq('user_id', userId)
     .order('updated_at', { ascending: false })
 
-  if (error) throw new Error(error.message)
+  if (error) throwRequestError(error)
 
   return (data ?? []).map((row) => ({
     id: row.id as string,
@@ -39,57 +211,255 @@ export async function listDocuments(): Promise<DocumentMeta[]> {
     sizeBytes: Number(row.size_bytes),
     createdAt: row.created_at as string,
     updatedAt: row.updated_at as string,
+    folderId: (row.folder_id as string | null) ?? null,
+    tags: ((row.document_tags as Array<{ tag: string }> | null) ?? [])
+      .map((tagRow) => tagRow.tag)
+      .sort(),
+    frontMatter: (row.front_matter as FrontMatterData | null) ?? {},
   }))
 }
 
+/** Queued local edits win until they sync; the cache answers when offline. */
 export async function getDocument(id: string): Promise<StoredDocument | null> {
   const userId = await requireAuthenticatedUserId('You must be logged in to view documents.')
+  const pendingWrite = await getPendingWrite(userId, id)
+
+  if (pendingWrite) return pendingWrite.document
+
+  try {
+    const document = await fetchDocument(userId, id)
+
+    if (document) {
+      await writeCachedDocuments(userId, [document]).catch(logCacheError)
+    } else {
+      await removeCachedDocument(userId, id).catch(logCacheError)
+    }
+
+    return document
+  } catch (error) {
+    if (!(error instanceof NetworkError)) throw error
+
+    const cachedDocument = await readCachedDocument(userId, id)
+    if (!cachedDocument) throw new Error('You are offline and this document has not been cached yet.')
+    return cachedDocument
+  }
+}
+
+async function fetchDocument(userId: string, id: string): Promise<StoredDocument | null> {
+  const [document] = await fetchDocuments(userId, [id])
+  return document ?? null
+}
+
+/**
+ * Loads several full documents in one round trip; missing ids are skipped.
+ * Offline, whatever the cache holds is returned.
+ */
+export async function getDocuments(ids: string[]): Promise<StoredDocument[]> {
+  if (ids.length === 0) return []
+
+  const userId = await requireAuthenticatedUserId('You must be logged in to view documents.')
+  const localDocuments = new Map<string, StoredDocument | null>()
+
+  for (const write of await listPendingWrites(userId)) {
+    if (ids.includes(write.documentId)) localDocuments.set(write.documentId, write.document)
+  }
+
+  const remoteIds = ids.filter((id) => !localDocuments.has(id))
+  let remoteDocuments: StoredDocument[]
+
+  try {
+    remoteDocuments = await fetchDocuments(userId, remoteIds)
+    await writeCachedDocuments(userId, remoteDocuments).catch(logCacheError)
+  } catch (error) {
+    if (!(error instanceof NetworkError)) throw error
+
+    remoteDocuments = []
+    for (const id of remoteIds) {
+      const cachedDocument = await readCachedDocument(userId, id)
+      if (cachedDocument) remoteDocuments.push(cachedDocument)
+    }
+  }
+
+  const queuedDocuments = Array.from(localDocuments.values())
+    .filter((document): document is StoredDocument => document !== null)
+
+  return [...remoteDocuments, ...queuedDocuments]
+}
+
+async function fetchDocuments(userId: string, ids: string[]): Promise<StoredDocument[]> {
+  if (ids.length === 0) return []
+  if (isOffline()) throw new NetworkError('Offline.')
 
   const { data, error } = await supabase
     .from('documents')
-    .select('id, name, markdown, size_bytes, created_at, updated_at')
+    .select('id, name, markdown, content_hash, size_bytes, created_at, updated_at')
     .eq('user_id', userId)
-    .eq('id', id)
-    .maybeSingle()
+    .in('id', ids)
 
-  if (error) throw new Error(error.message)
-  if (!data) return null
+  if (error) throwRequestError(error)
 
-  return {
-    id: data.id as string,
-    name: data.name as string,
-    markdown: data.markdown as string,
-    sizeBytes: Number(data.size_bytes),
-    createdAt: data.created_at as string,
-    updatedAt: data.updated_at as string,
+  const rows = data ?? []
+  const bodies = await resolveDocumentBodies(userId, rows.map((row) => ({
+    id: row.id as string,
+    markdown: row.markdown as string | null,
+    contentHash: row.content_hash as string,
+  })))
+
+  return rows.map((row) => ({
+    id: row.id as string,
+    name: row.name as string,
+    markdown: bodies.get(row.id as string) ?? '',
+    sizeBytes: Number(row.size_bytes),
+    createdAt: row.created_at as string,
+    updatedAt: row.updated_at as string,
+  }))
+}
+
+/**
+ * Maps document ids to bodies. Rows not yet migrated carry the body inline;
+ * otherwise a cached copy with the same hash is reused and only the rest is
+ * downloaded from Storage.
+ */
+async function resolveDocumentBodies(
+  userId: string,
+  rows: Array<{ id: string; markdown: string | null; contentHash: string }>,
+): Promise<Map<string, string>> {
+  const bodies = new Map<string, string>()
+  const missingRows: typeof rows = []
+
+  for (const row of rows) {
+    if (row.markdown !== null) {
+      bodies.set(row.id, row.markdown)
+      continue
+    }
+
+    const cachedDocument = await readCachedDocument(userId, row.id)
+    if (cachedDocument && await hashDocumentBody(cachedDocument.markdown) === row.contentHash) {
+      bodies.set(row.id, cachedDocument.markdown)
+    } else {
+      missingRows.push(row)
+    }
   }
+
+  const downloadedBodies = await downloadDocumentBodies(
+    userId,
+    missingRows.map((row) => row.contentHash),
+  ).catch(rethrowRequestError)
+
+  for (const row of missingRows) {
+    bodies.set(row.id, downloadedBodies.get(row.contentHash) ?? '')
+  }
+
+  return bodies
+}
+
+export interface BatchDocumentResult {
+  id: string
+  savedDocument: StoredDocument | null
+  errorMessage: string | null
 }
 
+interface PutDocumentsCallbacks {
+  onDocumentStart?: (id: string) => void
+  onDocumentSettled?: (result: BatchDocumentResult) => void
+}
+
+/**
+ * Saves an existing document to Supabase, or queues the save when offline. A
+ * document that already has a queued write joins that queue so the edits
+ * replay in order. `document.updatedAt` must be the server version it was
+ * edited from; replay checks it for conflicts.
+ */
 export async function putDocument(document: StoredDocument): Promise<StoredDocument> {
   const userId = await requireAuthenticatedUserId('You must be logged in to upload documents.')
 
-  // Check storage quota (exclude this document in case of overwrite)
-  const { data: usageData, error: usageError } = await supabase
-    .from('documents')
-    .select('size_bytes')
-    .eq('user_id', userId)
-    .neq('id', document.id)
+  if (isOffline() || await getPendingWrite(userId, document.id)) {
+    const queuedDocument = await queueDocumentPut(userId, document, document.updatedAt)
+    if (!isOffline()) void syncPendingDocumentWrites()
+    return queuedDocument
+  }
+
+  try {
+    // The quota is enforced by the database as part of the save.
+    return await saveDocumentRow(userId, document)
+  } catch (error) {
+    if (error instanceof NetworkError) return queueDocumentPut(userId, document, document.updatedAt)
+    throw error
+  }
+}
+
+/**
+ * Saves several documents, failing fast when the whole batch clearly does not
+ * fit the quota; the database still checks each save.
+ * A failed document does not stop the rest; each outcome is reported.
+ */
+export async function putDocuments(
+  documents: StoredDocument[],
+  callbacks: PutDocumentsCallbacks = {},
+): Promise<BatchDocumentResult[]> {
+  const userId = await requireAuthenticatedUserId('You must be logged in to upload documents.')
+  // Offline batches are queued whole; the server checks the quota again on replay.
+  let isQueued = isOffline()
+
+  if (!isQueued) {
+    try {
+      await assertStorageQuota(userId, documents)
+    } catch (error) {
+      if (!(error instanceof NetworkError)) throw error
+      isQueued = true
+    }
+  }
 
-  if (usageError) throw new Error(usageError.message)
+  const results: BatchDocumentResult[] = []
+
+  for (const document of documents) {
+    callbacks.onDocumentStart?.(document.id)
+
+    let result: BatchDocumentResult
+
+    try {
+      // Batches are new uploads, so there is no server version to base them on.
+      const savedDocument = isQueued
+        ? await queueDocumentPut(userId, document, null)
+        : await saveDocumentRow(userId, document).catch((error: unknown) => {
+          if (error instanceof NetworkError) return queueDocumentPut(userId, document, null)
+          throw error
+        })
+      result = { id: document.id, savedDocument, errorMessage: null }
+    } catch (error) {
+      result = {
+        id: document.id,
+        savedDocument: null,
+        errorMessage: error instanceof Error ? error.message : 'Upload failed.',
+      }
+    }
+
+    results.push(result)
+    callbacks.onDocumentSettled?.(result)
+  }
+
+  return results
+}
 
-  const currentUsage = (usageData ?? []).reduce(
-    (sum, row) => sum + Number(row.size_bytes),
-    0,
-  )
+async function assertStorageQuota(userId: string, documents: StoredDocument[]): Promise<void> {
+  const { usedBytes, limitBytes } = await readStorageUsage(userId)
+  const incomingBytes = documents.reduce((sum, document) => sum + document.sizeBytes, 0)
 
-  if (currentUsage + document.sizeBytes > MAX_USER_STORAGE_BYTES) {
-    const remainingMb = ((MAX_USER_STORAGE_BYTES - currentUsage) / (1024 * 1024)).toFixed(1)
-    throw new Error(
-      `Upload would exceed your 100 MB storage limit. You have ${remainingMb} MB remaining.`,
-    )
+  if (usedBytes + incomingBytes > limitBytes) {
+    throw new StorageQuotaError(usedBytes, limitBytes, incomingBytes)
   }
+}
 
+/**
+ * Uploads the body to Storage, then upserts the row with its hash; the
+ * `record_documents_revision` trigger adds the revision and charges it against
+ * the quota in the same statement. A body uploaded for a save that is then
+ * rejected (e.g. over quota) is removed again.
+ */
+async function saveDocumentRow(userId: string, document: StoredDocument): Promise<StoredDocument> {
   const now = new Date().toISOString()
+  const { contentHash, isNew } = await uploadDocumentBody(document.markdown)
+    .catch(rethrowRequestError)
 
   const { data, error } = await supabase
     .from('documents')
@@ -97,36 +467,176 @@ export async function putDocument(document: StoredDocument): Promise<StoredDocum
       id: document.id,
       user_id: userId,
       name: document.name,
-      markdown: document.markdown,
+      markdown: null,
+      content_hash: contentHash,
+      front_matter: readFrontMatterData(document.markdown),
       size_bytes: document.sizeBytes,
       created_at: document.createdAt,
       updated_at: now,
     })
-    .select('id, name, markdown, size_bytes, created_at, updated_at')
+    .select('id, name, size_bytes, created_at, updated_at')
     .single()
 
+  if (error) {
+    if (isNew) {
+      await removeUnreferencedDocumentBodies(userId, [contentHash]).catch((cleanupError: unknown) => {
+        console.error('Failed to remove unused document bodies:', cleanupError)
+      })
+    }
+    throwRequestError(error)
+  }
+
+  const savedDocument: StoredDocument = {
+    id: data.id as string,
+    name: data.name as string,
+    markdown: document.markdown,
+    sizeBytes: Number(data.size_bytes),
+    createdAt: data.created_at as string,
+    updatedAt: data.updated_at as string,
+  }
+
+  await writeCachedDocuments(userId, [savedDocument]).catch(logCacheError)
+
+  return savedDocument
+}
+
+export async function listDocumentRevisions(documentId: string): Promise<DocumentRevisionMeta[]> {
+  const userId = await requireAuthenticatedUserId('You must be logged in to view revisions.')
+
+  const { data, error } = await supabase
+    .from('document_revisions')
+    .select('id, document_id, revision_number, name, size_bytes, created_at')
+    .eq('user_id', userId)
+    .eq('document_id', documentId)
+    .order('revision_number', { ascending: false })
+
   if (error) throw new Error(error.message)
 
+  return (data ?? []).map((row) => ({
+    id: row.id as string,
+    documentId: row.document_id as string,
+    revisionNumber: Number(row.revision_number),
+    name: row.name as string,
+    sizeBytes: Number(row.size_bytes),
+    createdAt: row.created_at as string,
+  }))
+}
+
+export async function getDocumentRevision(id: string): Promise<DocumentRevision | null> {
+  const userId = await requireAuthenticatedUserId('You must be logged in to view revisions.')
+
+  const { data, error } = await supabase
+    .from('document_revisions')
+    .select('id, document_id, revision_number, name, markdown, content_hash, size_bytes, created_at')
+    .eq('user_id', userId)
+    .eq('id', id)
+    .maybeSingle()
+
+  if (error) throw new Error(error.message)
+  if (!data) return null
+
+  const markdown = (data.markdown as string | null) ??
+    (await downloadDocumentBodies(userId, [data.content_hash as string]))
+      .get(data.content_hash as string) ?? ''
+
   return {
     id: data.id as string,
+    documentId: data.document_id as string,
+    revisionNumber: Number(data.revision_number),
     name: data.name as string,
-    markdown: data.markdown as string,
+    markdown,
     sizeBytes: Number(data.size_bytes),
     createdAt: data.created_at as string,
-    updatedAt: data.updated_at as string,
   }
 }
 
+/**
+ * Deletes all but the newest `keepCount` revisions; the database refunds bodies
+ * no revision uses any more. Returns how many revisions were removed.
+ */
+export async function pruneDocumentRevisions(documentId: string, keepCount: number): Promise<number> {
+  const userId = await requireAuthenticatedUserId('You must be logged in to prune revisions.')
+
+  const { data, error } = await supabase.rpc('prune_document_revisions', {
+    p_document_id: documentId,
+    p_keep_count: keepCount,
+  })
+
+  if (error) throw new Error(error.message)
+
+  const contentHashes = (data ?? []) as string[]
+
+  // Leftover bodies only cost space; a failed cleanup must not fail the prune.
+  await removeUnreferencedDocumentBodies(userId, contentHashes).catch((cleanupError: unknown) => {
+    console.error('Failed to remove unused document bodies:', cleanupError)
+  })
+
+  return contentHashes.length
+}
+
+/** Saves an older revision's content as the newest revision of its document. */
+export async function restoreDocumentRevision(revisionId: string): Promise<StoredDocument> {
+  const revision = await getDocumentRevision(revisionId)
+  if (!revision) throw new Error('Revision not found.')
+
+  const document = await getDocument(revision.documentId)
+  if (!document) throw new Error('Document not found.')
+
+  return putDocument({
+    ...document,
+    name: revision.name,
+    markdown: revision.markdown,
+    sizeBytes: revision.sizeBytes,
+  })
+}
+
 export async function deleteDocument(id: string): Promise<void> {
   const userId = await requireAuthenticatedUserId('You must be logged in.')
 
-  const { error } = await supabase
+  if (isOffline()) {
+    await queueDocumentDelete(userId, id)
+    return
+  }
+
+  try {
+    await deleteDocumentRow(userId, id)
+  } catch (error) {
+    if (!(error instanceof NetworkError)) throw error
+    await queueDocumentDelete(userId, id)
+    return
+  }
+
+  // Deleting online supersedes any edit still waiting to sync.
+  await removePendingWrite(userId, id).catch(logCacheError)
+  await removeCachedDocument(userId, id).catch(logCacheError)
+  await refreshDocumentSyncStatus(userId)
+}
+
+/** Deletes the row (revisions cascade), then any bodies nothing else shares. */
+async function deleteDocumentRow(userId: string, id: string): Promise<void> {
+  const { data: revisions, error: revisionsError } = await supabase
+    .from('document_revisions')
+    .select('content_hash')
+    .eq('user_id', userId)
+    .eq('document_id', id)
+
+  if (revisionsError) throwRequestError(revisionsError)
+
+  const { data, error } = await supabase
     .from('documents')
     .delete()
     .eq('id', id)
     .eq('user_id', userId)
+    .select('content_hash')
 
-  if (error) throw new Error(error.message)
+  if (error) throwRequestError(error)
+
+  const contentHashes = [...(data ?? []), ...(revisions ?? [])].map((row) => row.content_hash as string)
+
+  // Leftover bodies only cost space; a failed cleanup must not fail the delete.
+  await removeUnreferencedDocumentBodies(userId, contentHashes).catch((cleanupError: unknown) => {
+    console.error('Failed to remove unused document bodies:', cleanupError)
+  })
 }
 
 export async function clearDocuments(): Promise<void> {
@@ -138,22 +648,226 @@ export async function clearDocuments(): Promise<void> {
     .eq('user_id', userId)
 
   if (error) throw new Error(error.message)
+
+  // Otherwise queued edits would bring cleared documents back on the next sync.
+  await clearLocalDocuments(userId).catch(logCacheError)
+  await refreshDocumentSyncStatus(userId)
+
+  await removeAllDocumentBodies(userId).catch((cleanupError: unknown) => {
+    console.error('Failed to remove unused document bodies:', cleanupError)
+  })
 }
 
-export async function getUserStorageUsage(): Promise<{ usedBytes: number; limitBytes: number }> {
+export async function getUserStorageUsage(): Promise<StorageUsage> {
   const userId = await requireAuthenticatedUserId('You must be logged in.')
 
+  return readStorageUsage(userId)
+}
+
+/** Reads the usage the database keeps per user; no row yet means nothing stored. */
+async function readStorageUsage(userId: string): Promise<StorageUsage> {
+  const { data, error } = await supabase
+    .from('user_storage_usage')
+    .select('used_bytes, limit_bytes')
+    .eq('user_id', userId)
+    .maybeSingle()
+
+  if (error) throwRequestError(error)
+  if (!data) return { usedBytes: 0, limitBytes: DEFAULT_USER_STORAGE_BYTES }
+
+  return {
+    usedBytes: Number(data.used_bytes),
+    limitBytes: Number(data.limit_bytes),
+  }
+}
+
+/* ── Offline queue and background sync ── */
+
+/**
+ * Stores the edit locally and queues it; the returned copy carries a local
+ * `updatedAt`. `baseUpdatedAt` is null only for documents the server has never seen.
+ */
+async function queueDocumentPut(
+  userId: string,
+  document: StoredDocument,
+  baseUpdatedAt: string | null,
+): Promise<StoredDocument> {
+  const localDocument = { ...document, updatedAt: new Date().toISOString() }
+  const isQueued = await queuePendingWrite(userId, document.id, 'put', localDocument, baseUpdatedAt)
+
+  if (!isQueued) throw new Error('You are offline and this browser cannot store changes locally.')
+
+  await writeCachedDocuments(userId, [localDocument]).catch(logCacheError)
+  await refreshDocumentSyncStatus(userId)
+
+  return localDocument
+}
+
+async function queueDocumentDelete(userId: string, id: string): Promise<void> {
+  const cachedDocument = await readCachedDocument(userId, id)
+  const listedDocument = cachedDocument
+    ? null
+    : (await readCachedDocumentList(userId))?.find((document) => document.id === id)
+  const baseUpdatedAt = cachedDocument?.updatedAt ?? listedDocument?.updatedAt ?? null
+  const isQueued = await queuePendingWrite(userId, id, 'delete', null, baseUpdatedAt)
+
+  if (!isQueued) throw new Error('You are offline and this browser cannot store changes locally.')
+
+  await removeCachedDocument(userId, id).catch(logCacheError)
+  await refreshDocumentSyncStatus(userId)
+}
+
+function applyPendingWritesToList(
+  documents: DocumentMeta[],
+  writes: PendingDocumentWrite[],
+): DocumentMeta[] {
+  if (writes.length === 0) return documents
+
+  const documentsById = new Map(documents.map((document) => [document.id, document]))
+
+  for (const write of writes) {
+    if (write.kind === 'delete' || !write.document) {
+      documentsById.delete(write.documentId)
+      continue
+    }
+
+    const existing = documentsById.get(write.documentId)
+    documentsById.set(write.documentId, {
+      id: write.document.id,
+      name: write.document.name,
+      sizeBytes: write.document.sizeBytes,
+      createdAt: write.document.createdAt,
+      updatedAt: write.document.updatedAt,
+      folderId: existing?.folderId ?? null,
+      tags: existing?.tags ?? [],
+      frontMatter: readFrontMatterData(write.document.markdown),
+    })
+  }
+
+  return Array.from(documentsById.values())
+    .sort((left, right) => right.updatedAt.localeCompare(left.updatedAt))
+}
+
+async function refreshDocumentSyncStatus(userId: string): Promise<void> {
+  setPendingWrites(await listPendingWrites(userId))
+}
+
+/** Loads the queue of the signed-in user into the sync status, e.g. after a reload. */
+export async function loadDocumentSyncStatus(): Promise<void> {
+  const userId = await requireAuthenticatedUserId('You must be logged in.')
+  await refreshDocumentSyncStatus(userId)
+}
+
+/**
+ * Replays queued writes oldest first. A write whose document moved on the
+ * server since the edit is held back as a conflict; a network failure stops
+ * the run and leaves the rest queued for the next reconnect.
+ */
+export function syncPendingDocumentWrites(): Promise<DocumentSyncResult> {
+  activeSync ??= replayPendingWrites().finally(() => {
+    activeSync = null
+  })
+
+  return activeSync
+}
+
+async function replayPendingWrites(): Promise<DocumentSyncResult> {
+  const userId = await requireAuthenticatedUserId('You must be logged in to sync documents.')
+  const writes = await listPendingWrites(userId)
+  let syncedCount = 0
+
+  if (isOffline() || !writes.some((write) => write.status === 'pending')) {
+    setPendingWrites(writes)
+    return { syncedCount, blockedCount: getDocumentSyncStatus().blockedWrites.length }
+  }
+
+  updateDocumentSyncStatus({ isSyncing: true })
+
+  try {
+    for (const write of writes) {
+      if (write.status !== 'pending') continue
+
+      try {
+        await replayWrite(userId, write)
+        syncedCount += 1
+      } catch (error) {
+        if (error instanceof NetworkError) break
+
+        await savePendingWrite({
+          ...write,
+          status: error instanceof DocumentConflictError ? 'conflict' : 'error',
+          serverUpdatedAt: error instanceof DocumentConflictError ? error.serverUpdatedAt : null,
+          errorMessage: error instanceof Error ? error.message : 'Sync failed.',
+        })
+      }
+    }
+  } finally {
+    await refreshDocumentSyncStatus(userId)
+    updateDocumentSyncStatus({ isSyncing: false })
+  }
+
+  return { syncedCount, blockedCount: getDocumentSyncStatus().blockedWrites.length }
+}
+
+async function replayWrite(userId: string, write: PendingDocumentWrite): Promise<void> {
   const { data, error } = await supabase
     .from('documents')
-    .select('size_bytes')
+    .select('updated_at')
     .eq('user_id', userId)
+    .eq('id', write.documentId)
+    .maybeSingle()
 
-  if (error) throw new Error(error.message)
+  if (error) throwRequestError(error)
+
+  const serverUpdatedAt = (data?.updated_at as string | undefined) ?? null
+
+  if (write.baseUpdatedAt === null) {
+    // Created offline, yet the server already has a document with this id.
+    if (write.kind === 'put' && serverUpdatedAt !== null) throw new DocumentConflictError(serverUpdatedAt)
+  } else if (serverUpdatedAt === null) {
+    // Deleted on the server: a queued edit must not silently bring it back.
+    if (write.kind === 'put') throw new DocumentConflictError(null)
+  } else if (Date.parse(serverUpdatedAt) !== Date.parse(write.baseUpdatedAt)) {
+    throw new DocumentConflictError(serverUpdatedAt)
+  }
+
+  if (write.kind === 'delete') {
+    if (serverUpdatedAt !== null) await deleteDocumentRow(userId, write.documentId)
+  } else if (write.document) {
+    await saveDocumentRow(userId, write.document)
+  }
+
+  await removePendingWrite(userId, write.documentId)
+}
 
-  const usedBytes = (data ?? []).reduce(
-    (sum, row) => sum + Number(row.size_bytes),
-    0,
-  )
+/**
+ * `keep-local` replays the queued write over the newer server copy (or
+ * recreates a document deleted on the server); `keep-server` drops it and
+ * forgets the local copy.
+ */
+export async function resolveDocumentConflict(
+  documentId: string,
+  resolution: ConflictResolution,
+): Promise<void> {
+  const userId = await requireAuthenticatedUserId('You must be logged in.')
+  const write = await getPendingWrite(userId, documentId)
+
+  if (!write) return
+
+  if (resolution === 'keep-server') {
+    await removePendingWrite(userId, documentId)
+    await removeCachedDocument(userId, documentId)
+    await refreshDocumentSyncStatus(userId)
+    return
+  }
 
-  return { usedBytes, limitBytes: MAX_USER_STORAGE_BYTES }
+  await savePendingWrite({
+    ...write,
+    status: 'pending',
+    baseUpdatedAt: write.status === 'conflict' ? write.serverUpdatedAt : write.baseUpdatedAt,
+    serverUpdatedAt: null,
+    errorMessage: null,
+  })
+  await refreshDocumentSyncStatus(userId)
+  await syncPendingDocumentWrites()
 }
@@ -0,0 +1,176 @@
+import type { TokenLine } from "./tokenModels.ts";
+import type { TraverseItem, TraverseTag } from "./traverseModels.ts";
+
+/* ── Token counts per heading section, code block and table ── */
+
+export type TokenBudgetSectionKind = "preamble" | "section" | "code" | "table";
+
+export interface TokenBudgetSection {
+  key: string;
+  kind: TokenBudgetSectionKind;
+  /** Index into the traverse items; null for text before the first heading. */
+  itemIndex: number | null;
+  label: string;
+  tag: TraverseTag | null;
+  startLine: number;
+  endLine: number;
+  /** Tokens up to the next heading of the same or a higher level. */
+  tokenCount: number;
+  /** Tokens before the first subheading; what ranks sections by weight. */
+  ownTokenCount: number;
+}
+
+export interface TokenBudget {
+  totalTokens: number;
+  sections: TokenBudgetSection[];
+  /** Traverse item index -> section, for annotating the sidebar. */
+  sectionsByItemIndex: Map<number, TokenBudgetSection>;
+  /** Traverse item indexes of the heaviest sections, heaviest first. */
+  heaviestItemIndexes: number[];
+}
+
+export interface ContextWindowFit {
+  windowSize: number;
+  fits: boolean;
+  /** Share of the window the document uses; above 1 when it overflows. */
+  usage: number;
+  /** Tokens left in the window, negative when the document overflows. */
+  remainingTokens: number;
+}
+
+export const DEFAULT_CONTEXT_WINDOW_SIZES = [8_192, 32_768, 128_000, 200_000, 1_000_000];
+export const HEAVIEST_SECTION_COUNT = 3;
+
+const HEADING_DEPTHS: Partial<Record<TraverseTag, number>> = {
+  h1: 1,
+  h2: 2,
+  h3: 3,
+  h4: 4,
+  h5: 5,
+  h6: 6,
+};
+
+export function buildTokenBudget(lines: TokenLine[], items: TraverseItem[]): TokenBudget {
+  const lineCount = lines.length;
+  // prefixTokens[n] = tokens starting on lines 1..n.
+  const prefixTokens = new Array<number>(lineCount + 1).fill(0);
+  for (let index = 0; index < lineCount; index += 1) {
+    prefixTokens[index + 1] = prefixTokens[index]! + (lines[index]?.tokenCount ?? 0);
+  }
+  const totalTokens = prefixTokens[lineCount] ?? 0;
+
+  function countTokens(startLine: number, endLine: number): number {
+    const start = clamp(startLine, 1, lineCount + 1);
+    const end = clamp(endLine, start - 1, lineCount);
+    return (prefixTokens[end] ?? 0) - (prefixTokens[start - 1] ?? 0);
+  }
+
+  const headings = items
+    .map((item, index) => ({ item, index, depth: HEADING_DEPTHS[item.type] }))
+    .filter((heading): heading is { item: TraverseItem; index: number; depth: number } => (
+      heading.depth !== undefined && heading.item.line !== null
+    ));
+  const sections: TokenBudgetSection[] = [];
+
+  const firstHeadingLine = headings[0]?.item.line ?? lineCount + 1;
+  if (firstHeadingLine > 1) {
+    const tokenCount = countTokens(1, firstHeadingLine - 1);
+    if (tokenCount > 0) {
+      sections.push({
+        key: "preamble",
+        kind: "preamble",
+        itemIndex: null,
+        label: "Before first heading",
+        tag: null,
+        startLine: 1,
+        endLine: firstHeadingLine - 1,
+        tokenCount,
+        ownTokenCount: tokenCount,
+      });
+    }
+  }
+
+  headings.forEach((heading, position) => {
+    const startLine = heading.item.line!;
+    const nextHeading = headings[position + 1];
+    const nextPeer = headings.slice(position + 1).find((other) => other.depth <= heading.depth);
+    const endLine = (nextPeer?.item.line ?? lineCount + 1) - 1;
+    const ownEndLine = (nextHeading?.item.line ?? lineCount + 1) - 1;
+
+    sections.push({
+      key: heading.item.id,
+      kind: "section",
+      itemIndex: heading.index,
+      label: heading.item.text,
+      tag: heading.item.type,
+      startLine,
+      endLine,
+      tokenCount: countTokens(startLine, endLine),
+      ownTokenCount: countTokens(startLine, ownEndLine),
+    });
+  });
+
+  items.forEach((item, index) => {
+    if ((item.type !== "code" && item.type !== "table") || item.line === null) return;
+
+    const endLine = item.endLine ?? item.line;
+    const tokenCount = countTokens(item.line, endLine);
+    sections.push({
+      key: item.id,
+      kind: item.type,
+      itemIndex: index,
+      label: item.text,
+      tag: item.type,
+      startLine: item.line,
+      endLine,
+      tokenCount,
+      ownTokenCount: tokenCount,
+    });
+  });
+
+  sections.sort((left, right) => left.startLine - right.startLine);
+
+  const sectionsByItemIndex = new Map<number, TokenBudgetSection>();
+  for (const section of sections) {
+    if (section.itemIndex !== null) sectionsByItemIndex.set(section.itemIndex, section);
+  }
+
+  const heaviestItemIndexes = sections
+    .filter((section) => section.itemIndex !== null && section.ownTokenCount > 0)
+    .sort((left, right) => right.ownTokenCount - left.ownTokenCount)
+    .slice(0, HEAVIEST_SECTION_COUNT)
+    .map((section) => section.itemIndex!);
+
+  return {
+    totalTokens,
+    sections,
+    sectionsByItemIndex,
+    heaviestItemIndexes,
+  };
+}
+
+export function buildContextWindowReport(
+  totalTokens: number,
+  windowSizes: number[],
+): ContextWindowFit[] {
+  return [...windowSizes]
+    .sort((left, right) => left - right)
+    .map((windowSize) => ({
+      windowSize,
+      fits: totalTokens <= windowSize,
+      usage: windowSize > 0 ? totalTokens / windowSize : Infinity,
+      remainingTokens: windowSize - totalTokens,
+    }));
+}
+
+/** 128000 -> "128k", 1000000 -> "1M". */
+export function formatWindowSize(windowSize: number): string {
+  if (windowSize >= 1_000_000 && windowSize % 1_000_000 === 0) return `${windowSize / 1_000_000}M`;
+  if (windowSize >= 1_000 && windowSize % 1_000 === 0) return `${windowSize / 1_000}k`;
+  if (windowSize >= 1_024 && windowSize % 1_024 === 0) return `${windowSize / 1_024}k`;
+  return windowSize.toLocaleString();
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
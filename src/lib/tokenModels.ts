@@ -9,6 +9,8 @@ export interface TokenSegment {
 export interface TokenLine {
   lineNumber: number;
   tokens: TokenSegment[];
+  /** BPE tokens that start on this line; summed over lines this equals `totalTokens`. */
+  tokenCount: number;
 }
 
 export interface TokenizedDocument {
@@ -22,3 +24,48 @@ export const EMPTY_TOKENIZED_DOCUMENT: TokenizedDocument = {
   totalTokens: 0,
   totalLines: 0,
 };
+
+/**
+ * A BPE encoding the token worker can load. Built-in encodings ship with
+ * js-tiktoken; any other encoding points `rankUrl` at a JSON rank file in
+ * js-tiktoken's format (`{ pat_str, special_tokens, bpe_ranks }`).
+ */
+export interface TokenEncodingDefinition {
+  id: string;
+  label: string;
+  models: string;
+  rankUrl: string | null;
+}
+
+/** What the worker needs to load an encoding; sent with every tokenize request. */
+export type TokenEncodingSpec = Pick<TokenEncodingDefinition, "id" | "rankUrl">;
+
+export const BUILTIN_TOKEN_ENCODING_IDS = ["o200k_base", "cl100k_base", "p50k_base"] as const;
+
+export const DEFAULT_TOKEN_ENCODING_ID = "o200k_base";
+
+const TOKEN_ENCODINGS: TokenEncodingDefinition[] = [
+  { id: "o200k_base", label: "o200k", models: "GPT-4o, o-series", rankUrl: null },
+  { id: "cl100k_base", label: "cl100k", models: "GPT-4, GPT-3.5", rankUrl: null },
+  { id: "p50k_base", label: "p50k", models: "Codex, text-davinci", rankUrl: null },
+];
+
+export function getTokenEncodings(): readonly TokenEncodingDefinition[] {
+  return TOKEN_ENCODINGS;
+}
+
+/** Adds or replaces an encoding backed by a rank file, e.g. one served from /public. */
+export function registerTokenEncoding(definition: TokenEncodingDefinition) {
+  const existingIndex = TOKEN_ENCODINGS.findIndex((encoding) => encoding.id === definition.id);
+
+  if (existingIndex >= 0) {
+    TOKEN_ENCODINGS[existingIndex] = definition;
+    return;
+  }
+
+  TOKEN_ENCODINGS.push(definition);
+}
+
+export function getTokenEncoding(id: string): TokenEncodingDefinition {
+  return TOKEN_ENCODINGS.find((encoding) => encoding.id === id) ?? TOKEN_ENCODINGS[0]!;
+}
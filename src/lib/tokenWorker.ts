@@ -1,60 +1,262 @@
-import { Tiktoken } from "js-tiktoken/lite";
-import o200kBase from "js-tiktoken/ranks/o200k_base";
-import { EMPTY_TOKENIZED_DOCUMENT, type TokenLine, type TokenizedDocument } from "./tokenModels.ts";
-import type { TokenWorkerRequest, TokenWorkerResponse } from "./tokenWorkerMessages.ts";
+import { Tiktoken, type TiktokenBPE } from "js-tiktoken/lite";
+import {
+  EMPTY_TOKENIZED_DOCUMENT,
+  type TokenEncodingSpec,
+  type TokenLine,
+  type TokenizedDocument,
+} from "./tokenModels.ts";
+import type {
+  TokenWorkerRequest,
+  TokenWorkerResponse,
+  TokenWorkerTokenizeResultResponse,
+} from "./tokenWorkerMessages.ts";
+import { EMPTY_CHUNKED_DOCUMENT, type ChunkOptions, type ChunkedDocument } from "./chunkModels.ts";
+import { chunkMarkdown } from "./markdownChunker.ts";
 
 /* ── Web Worker: tokenizes markdown into OpenAI-style BPE tokens ── */
 
-const encoder = new Tiktoken(o200kBase);
+/** Tokenized results kept across documents and encodings; oldest entries are evicted first. */
+const MAX_CACHED_RESULTS = 8;
+/** Long code blocks and lists are cut into paragraphs of at most this many lines. */
+const MAX_PARAGRAPH_LINES = 200;
+/** Work done before posting a partial batch and yielding to newer messages. */
+const PARTIAL_BATCH_MS = 40;
+
+interface TokenizedParagraph {
+  /** Numbered from line 1, offset 0 and sequence 1 within the paragraph. */
+  lines: TokenLine[];
+  tokenCount: number;
+  segmentCount: number;
+}
+
+// Rank files are a few MB each, so they load on first use and stay in memory.
+const encoderPromises = new Map<string, Promise<Tiktoken>>();
+const tokenizedCache = new Map<string, TokenizedDocument>();
+// Paragraphs of the last document per encoding, keyed by their exact text.
+const paragraphCaches = new Map<string, Map<string, TokenizedParagraph>>();
+const decodedTokenCaches = new WeakMap<Tiktoken, Map<number, string>>();
+
+let latestTokenizeId = 0;
 
 let indexedDocKey: string | null = null;
 let indexedMarkdown = "";
-let cachedTokenizedDocument: TokenizedDocument | null = null;
 
 function setDocumentIndex(docKey: string, markdown: string) {
-  if (indexedDocKey === docKey && indexedMarkdown === markdown) {
-    return;
-  }
-
   indexedDocKey = docKey;
   indexedMarkdown = markdown;
-  cachedTokenizedDocument = null;
 }
 
 function clearDocumentIndex() {
   indexedDocKey = null;
   indexedMarkdown = "";
-  cachedTokenizedDocument = null;
 }
 
-function getTokenizedDocument(): TokenizedDocument {
+function getEncoderKey(encoding: TokenEncodingSpec): string {
+  return encoding.rankUrl ?? encoding.id;
+}
+
+function loadEncoder(encoding: TokenEncodingSpec): Promise<Tiktoken> {
+  const cacheKey = getEncoderKey(encoding);
+  const existing = encoderPromises.get(cacheKey);
+  if (existing) return existing;
+
+  const promise = loadRanks(encoding).then((ranks) => new Tiktoken(ranks));
+  // Drop failed loads so a later request can retry.
+  promise.catch(() => encoderPromises.delete(cacheKey));
+  encoderPromises.set(cacheKey, promise);
+  return promise;
+}
+
+async function loadRanks(encoding: TokenEncodingSpec): Promise<TiktokenBPE> {
+  if (encoding.rankUrl) {
+    const response = await fetch(encoding.rankUrl);
+    if (!response.ok) {
+      throw new Error(`Could not load ${encoding.id} ranks (HTTP ${response.status}).`);
+    }
+    return await response.json() as TiktokenBPE;
+  }
+
+  if (encoding.id === "o200k_base") return (await import("js-tiktoken/ranks/o200k_base")).default;
+  if (encoding.id === "cl100k_base") return (await import("js-tiktoken/ranks/cl100k_base")).default;
+  if (encoding.id === "p50k_base") return (await import("js-tiktoken/ranks/p50k_base")).default;
+
+  throw new Error(`Unknown encoding "${encoding.id}" has no rank file.`);
+}
+
+/**
+ * Tokenizes the indexed document paragraph by paragraph, posting line batches
+ * as it goes. Paragraphs whose text is unchanged since the last document reuse
+ * their cached tokens, so an edit only re-encodes what it touched. Encoding
+ * paragraphs separately can shift a token at a paragraph boundary, so totals
+ * may differ by a few tokens from encoding the whole text at once.
+ */
+async function streamTokenizedDocument(id: number, encoding: TokenEncodingSpec): Promise<void> {
   if (!indexedDocKey) {
-    return EMPTY_TOKENIZED_DOCUMENT;
+    postTokenizeResult(id, EMPTY_TOKENIZED_DOCUMENT, 0);
+    return;
+  }
+
+  // Capture the document now; set-document may arrive while ranks load.
+  const docKey = indexedDocKey;
+  const markdown = indexedMarkdown;
+  const cacheKey = `${docKey}\n${encoding.id}`;
+  const cached = tokenizedCache.get(cacheKey);
+
+  if (cached) {
+    tokenizedCache.delete(cacheKey);
+    tokenizedCache.set(cacheKey, cached);
+    postTokenizeResult(id, cached, 0);
+    return;
+  }
+
+  const encoder = await loadEncoder(encoding);
+  if (!markdown) {
+    postTokenizeResult(id, EMPTY_TOKENIZED_DOCUMENT, 0);
+    return;
+  }
+
+  const encoderKey = getEncoderKey(encoding);
+  const previousParagraphs = paragraphCaches.get(encoderKey);
+  const nextParagraphs = new Map<string, TokenizedParagraph>();
+  const totalLines = markdown.split(/\r\n|\r|\n/).length;
+  const lines: TokenLine[] = [];
+  let sentLineCount = 0;
+  let totalTokens = 0;
+  let sequenceOffset = 0;
+  let charOffset = 0;
+  let sliceStartedAt = performance.now();
+
+  for (const paragraph of splitParagraphs(markdown)) {
+    if (id !== latestTokenizeId || docKey !== indexedDocKey) return;
+
+    const tokenized = previousParagraphs?.get(paragraph)
+      ?? nextParagraphs.get(paragraph)
+      ?? tokenizeParagraph(encoder, paragraph);
+    nextParagraphs.set(paragraph, tokenized);
+
+    const lineOffset = lines.length;
+    for (const line of tokenized.lines) {
+      lines.push({
+        lineNumber: line.lineNumber + lineOffset,
+        tokenCount: line.tokenCount,
+        tokens: line.tokens.map((token) => ({
+          ...token,
+          sequence: token.sequence + sequenceOffset,
+          start: token.start + charOffset,
+          end: token.end + charOffset,
+        })),
+      });
+    }
+
+    totalTokens += tokenized.tokenCount;
+    sequenceOffset += tokenized.segmentCount;
+    charOffset += paragraph.length;
+
+    if (performance.now() - sliceStartedAt >= PARTIAL_BATCH_MS) {
+      const response: TokenWorkerResponse = {
+        type: "tokenize-partial",
+        id,
+        lines: lines.slice(sentLineCount),
+        processedLines: lines.length,
+        totalLines,
+      };
+      self.postMessage(response);
+      sentLineCount = lines.length;
+
+      await yieldToMessages();
+      sliceStartedAt = performance.now();
+    }
   }
 
-  if (cachedTokenizedDocument) {
-    return cachedTokenizedDocument;
+  // Paragraphs drop the empty row after their final line break; the document keeps its own.
+  if (lines.length < totalLines) {
+    lines.push({ lineNumber: lines.length + 1, tokens: [], tokenCount: 0 });
   }
 
-  const result = tokenizeMarkdown(indexedMarkdown);
-  cachedTokenizedDocument = result;
-  return result;
+  const result: TokenizedDocument = {
+    lines,
+    totalTokens,
+    totalLines: lines.length,
+  };
+
+  paragraphCaches.set(encoderKey, nextParagraphs);
+  tokenizedCache.set(cacheKey, result);
+  while (tokenizedCache.size > MAX_CACHED_RESULTS) {
+    const oldestKey = tokenizedCache.keys().next().value;
+    if (oldestKey === undefined) break;
+    tokenizedCache.delete(oldestKey);
+  }
+
+  postTokenizeResult(id, result, sentLineCount);
 }
 
-function tokenizeMarkdown(markdown: string): TokenizedDocument {
-  if (!markdown) {
-    return EMPTY_TOKENIZED_DOCUMENT;
+function postTokenizeResult(id: number, result: TokenizedDocument, sentLineCount: number) {
+  const response: TokenWorkerTokenizeResultResponse = {
+    type: "tokenize-result",
+    id,
+    lines: sentLineCount > 0 ? result.lines.slice(sentLineCount) : result.lines,
+    totalTokens: result.totalTokens,
+    totalLines: result.totalLines,
+  };
+  self.postMessage(response);
+}
+
+function yieldToMessages(): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, 0));
+}
+
+/** Splits after each run of blank lines; joining the paragraphs gives back the input. */
+function splitParagraphs(markdown: string): string[] {
+  const paragraphs: string[] = [];
+  let current = "";
+  let currentLineCount = 0;
+  let isPreviousBlank = false;
+
+  for (const match of markdown.matchAll(/[^\r\n]*(?:\r\n|\r|\n)|[^\r\n]+$/g)) {
+    const line = match[0];
+    const isBlank = line.trim() === "";
+
+    if (current && ((isPreviousBlank && !isBlank) || currentLineCount >= MAX_PARAGRAPH_LINES)) {
+      paragraphs.push(current);
+      current = "";
+      currentLineCount = 0;
+    }
+
+    current += line;
+    currentLineCount += 1;
+    isPreviousBlank = isBlank;
+  }
+
+  if (current) paragraphs.push(current);
+
+  return paragraphs;
+}
+
+async function getChunkedDocument(
+  encoding: TokenEncodingSpec,
+  options: ChunkOptions,
+): Promise<ChunkedDocument> {
+  if (!indexedDocKey) {
+    return EMPTY_CHUNKED_DOCUMENT;
   }
 
-  const tokenIds = encoder.encode(markdown);
+  const markdown = indexedMarkdown;
+  const encoder = await loadEncoder(encoding);
+
+  return chunkMarkdown(markdown, options, (text) => encoder.encode(text).length);
+}
+
+function tokenizeParagraph(encoder: Tiktoken, paragraph: string): TokenizedParagraph {
+  const tokenIds = encoder.encode(paragraph);
   const lines: TokenLine[] = [];
-  let currentLine: TokenLine = { lineNumber: 1, tokens: [] };
+  let currentLine: TokenLine = { lineNumber: 1, tokens: [], tokenCount: 0 };
   let lineNumber = 1;
   let sequence = 0;
   let offset = 0;
 
   for (const tokenId of tokenIds) {
-    const decodedToken = encoder.decode([tokenId]);
+    const decodedToken = decodeToken(encoder, tokenId);
+    currentLine.tokenCount += 1;
     if (!decodedToken) continue;
 
     let cursor = 0;
@@ -85,20 +287,39 @@ function tokenizeMarkdown(markdown: string): TokenizedDocument {
       offset += newline.length;
       lines.push(currentLine);
       lineNumber += 1;
-      currentLine = { lineNumber, tokens: [] };
+      currentLine = { lineNumber, tokens: [], tokenCount: 0 };
       cursor = newline.index + newline.length;
     }
   }
 
-  lines.push(currentLine);
+  // The row after a trailing line break belongs to the next paragraph.
+  if (!/[\r\n]$/.test(paragraph)) {
+    lines.push(currentLine);
+  }
 
   return {
     lines,
-    totalTokens: tokenIds.length,
-    totalLines: lines.length,
+    tokenCount: tokenIds.length,
+    segmentCount: sequence,
   };
 }
 
+/** Decoding one token at a time dominates tokenization, so each id is decoded once. */
+function decodeToken(encoder: Tiktoken, tokenId: number): string {
+  let decoded = decodedTokenCaches.get(encoder);
+  if (!decoded) {
+    decoded = new Map();
+    decodedTokenCaches.set(encoder, decoded);
+  }
+
+  const cached = decoded.get(tokenId);
+  if (cached !== undefined) return cached;
+
+  const text = encoder.decode([tokenId]);
+  decoded.set(tokenId, text);
+  return text;
+}
+
 function findNextLineBreak(
   value: string,
   fromIndex: number,
@@ -131,20 +352,38 @@ self.onmessage = (event: MessageEvent<TokenWorkerRequest>) => {
     return;
   }
 
+  if (message.type === "chunk") {
+    const { id, encoding, options } = message;
+
+    void getChunkedDocument(encoding, options).then(
+      (result) => {
+        const response: TokenWorkerResponse = {
+          type: "chunk-result",
+          id,
+          result,
+        };
+        self.postMessage(response);
+      },
+      (error: unknown) => {
+        const response: TokenWorkerResponse = {
+          type: "chunk-error",
+          id,
+          message: error instanceof Error ? error.message : "Chunking failed.",
+        };
+        self.postMessage(response);
+      },
+    );
+    return;
+  }
+
   if (message.type !== "tokenize") {
     return;
   }
 
-  const { id } = message;
+  const { id, encoding } = message;
+  latestTokenizeId = id;
 
-  try {
-    const response: TokenWorkerResponse = {
-      type: "tokenize-result",
-      id,
-      result: getTokenizedDocument(),
-    };
-    self.postMessage(response);
-  } catch (error) {
+  void streamTokenizedDocument(id, encoding).catch((error: unknown) => {
     const errorMessage = error instanceof Error
       ? error.message
       : "Tokenization failed.";
@@ -156,5 +395,5 @@ self.onmessage = (event: MessageEvent<TokenWorkerRequest>) => {
     };
 
     self.postMessage(response);
-  }
+  });
 };
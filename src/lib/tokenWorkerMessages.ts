@@ -1,4 +1,5 @@
-import type { TokenizedDocument } from "./tokenModels.ts";
+import type { ChunkOptions, ChunkedDocument } from "./chunkModels.ts";
+import type { TokenEncodingSpec, TokenLine } from "./tokenModels.ts";
 
 export interface TokenWorkerSetDocumentRequest {
   type: "set-document";
@@ -13,17 +14,38 @@ export interface TokenWorkerClearDocumentRequest {
 export interface TokenWorkerTokenizeRequest {
   type: "tokenize";
   id: number;
+  encoding: TokenEncodingSpec;
+}
+
+export interface TokenWorkerChunkRequest {
+  type: "chunk";
+  id: number;
+  encoding: TokenEncodingSpec;
+  options: ChunkOptions;
 }
 
 export type TokenWorkerRequest =
   | TokenWorkerSetDocumentRequest
   | TokenWorkerClearDocumentRequest
-  | TokenWorkerTokenizeRequest;
+  | TokenWorkerTokenizeRequest
+  | TokenWorkerChunkRequest;
 
+/** A batch of rows streamed while a large document is still tokenizing. */
+export interface TokenWorkerTokenizePartialResponse {
+  type: "tokenize-partial";
+  id: number;
+  lines: TokenLine[];
+  processedLines: number;
+  totalLines: number;
+}
+
+/** Completes a tokenize request; `lines` holds only rows not already sent as partials. */
 export interface TokenWorkerTokenizeResultResponse {
   type: "tokenize-result";
   id: number;
-  result: TokenizedDocument;
+  lines: TokenLine[];
+  totalTokens: number;
+  totalLines: number;
 }
 
 export interface TokenWorkerTokenizeErrorResponse {
@@ -32,6 +54,21 @@ export interface TokenWorkerTokenizeErrorResponse {
   message: string;
 }
 
+export interface TokenWorkerChunkResultResponse {
+  type: "chunk-result";
+  id: number;
+  result: ChunkedDocument;
+}
+
+export interface TokenWorkerChunkErrorResponse {
+  type: "chunk-error";
+  id: number;
+  message: string;
+}
+
 export type TokenWorkerResponse =
+  | TokenWorkerTokenizePartialResponse
   | TokenWorkerTokenizeResultResponse
-  | TokenWorkerTokenizeErrorResponse;
+  | TokenWorkerTokenizeErrorResponse
+  | TokenWorkerChunkResultResponse
+  | TokenWorkerChunkErrorResponse;
@@ -7,6 +7,8 @@ export type TraverseTag =
   | "h6"
   | "p"
   | "code"
+  | "diagram"
+  | "math"
   | "li"
   | "blockquote"
   | "table"
@@ -22,6 +24,21 @@ export interface TraverseItem {
   endLine: number | null;
 }
 
+/** A top-level remark node, addressed by its source lines. */
+export interface MarkdownBlock {
+  key: string;
+  type: string;
+  startLine: number;
+  endLine: number;
+}
+
+export interface TraverseDocument {
+  items: TraverseItem[];
+  blocks: MarkdownBlock[];
+  /** Source lines of link and footnote definitions, which blocks rendered alone still need. */
+  definitionLines: number[];
+}
+
 export const TRAVERSE_TAG_LABELS: Record<TraverseTag, string> = {
   h1: "H1",
   h2: "H2",
@@ -31,6 +48,8 @@ export const TRAVERSE_TAG_LABELS: Record<TraverseTag, string> = {
   h6: "H6",
   p: "P",
   code: "CODE",
+  diagram: "DIAGRAM",
+  math: "MATH",
   li: "LI",
   blockquote: "QUOTE",
   table: "TABLE",
@@ -1,7 +1,9 @@
 import { unified } from "unified";
 import remarkParse from "remark-parse";
 import remarkGfm from "remark-gfm";
-import type { TraverseItem, TraverseTag } from "./traverseModels.ts";
+import remarkMath from "remark-math";
+import { maskFrontMatter, parseFrontMatter } from "./frontMatter.ts";
+import type { MarkdownBlock, TraverseDocument, TraverseItem, TraverseTag } from "./traverseModels.ts";
 
 interface MarkdownNode {
   type: string;
@@ -21,12 +23,18 @@ interface MarkdownNode {
 }
 
 const PREVIEW_LIMIT = 120;
-const parser = unified().use(remarkParse).use(remarkGfm);
+const parser = unified().use(remarkParse).use(remarkGfm).use(remarkMath);
 
 export function extractTraverseItems(markdown: string): TraverseItem[] {
-  if (!markdown.trim()) return [];
+  return parseTraverseDocument(markdown).items;
+}
+
+/** One parse yields both the traverse items and the top-level blocks used for windowed rendering. */
+export function parseTraverseDocument(markdown: string): TraverseDocument {
+  if (!markdown.trim()) return { items: [], blocks: [], definitionLines: [] };
 
-  const root = parser.parse(markdown) as MarkdownNode;
+  // Front-matter yields no items or blocks, so windowed rendering skips it too.
+  const root = parser.parse(maskFrontMatter(markdown, parseFrontMatter(markdown))) as MarkdownNode;
   const items: TraverseItem[] = [];
   let sequence = 0;
 
@@ -35,7 +43,30 @@ export function extractTraverseItems(markdown: string): TraverseItem[] {
     return sequence;
   });
 
-  return items;
+  const blocks: MarkdownBlock[] = [];
+  const definitionLines: number[] = [];
+
+  for (const child of root.children ?? []) {
+    const startLine = child.position?.start?.line;
+    const endLine = child.position?.end?.line;
+    if (typeof startLine !== "number" || typeof endLine !== "number") continue;
+
+    // Reference definitions render nothing but every block may point at them.
+    if (child.type === "definition" || child.type === "footnoteDefinition") {
+      for (let line = startLine; line <= endLine; line += 1) {
+        definitionLines.push(line);
+      }
+    }
+
+    blocks.push({
+      key: `${child.type}-${startLine}`,
+      type: child.type,
+      startLine,
+      endLine,
+    });
+  }
+
+  return { items, blocks, definitionLines };
 }
 
 function walkTree(
@@ -71,7 +102,8 @@ function mapNodeToTraverseTag(node: MarkdownNode): TraverseTag | null {
   }
 
   if (node.type === "paragraph") return "p";
-  if (node.type === "code") return "code";
+  if (node.type === "code") return node.lang === "mermaid" ? "diagram" : "code";
+  if (node.type === "math") return "math";
   if (node.type === "listItem") return "li";
   if (node.type === "blockquote") return "blockquote";
   if (node.type === "table") return "table";
@@ -98,6 +130,12 @@ function previewTextForNode(node: MarkdownNode, tag: TraverseTag): string {
     return truncateText(withLanguage, PREVIEW_LIMIT);
   }
 
+  // The tag already says what these are, so the preview is the first line of source.
+  if (tag === "diagram" || tag === "math") {
+    const firstLine = firstNonEmptyLine(node.value ?? "") ?? (tag === "diagram" ? "Diagram" : "Math block");
+    return truncateText(firstLine, PREVIEW_LIMIT);
+  }
+
   const text = normalizeWhitespace(extractNodeText(node));
   if (text) return truncateText(text, PREVIEW_LIMIT);
 
@@ -118,7 +156,7 @@ function firstNonEmptyLine(value: string): string | null {
 }
 
 function extractNodeText(node: MarkdownNode): string {
-  if (node.type === "text" || node.type === "inlineCode" || node.type === "code") {
+  if (node.type === "text" || node.type === "inlineCode" || node.type === "inlineMath" || node.type === "code") {
     return node.value ?? "";
   }
 
@@ -0,0 +1,193 @@
+import { unzip, type UnzipFileInfo } from "fflate";
+
+/* ── Collects markdown files from inputs, dropped folders and .zip archives ── */
+
+export interface UploadCandidate {
+  path: string;
+  file: File | null;
+  errorMessage: string | null;
+}
+
+const ZIP_EXTENSION = ".zip";
+const MARKDOWN_EXTENSIONS = [".md", ".markdown"];
+const IGNORED_PATH_SEGMENTS = ["__MACOSX", ".git", "node_modules"];
+
+export function isZipArchive(file: File): boolean {
+  return file.name.toLowerCase().endsWith(ZIP_EXTENSION);
+}
+
+export function isMarkdownFileName(fileName: string): boolean {
+  const lowercaseName = fileName.toLowerCase();
+  return MARKDOWN_EXTENSIONS.some((extension) => lowercaseName.endsWith(extension));
+}
+
+export function collectInputFiles(fileList: FileList | null): UploadCandidate[] {
+  return Array.from(fileList ?? [])
+    // Folder picks list every file inside; only keep what we can upload.
+    .filter((file) => !file.webkitRelativePath || isUploadableFileName(file.webkitRelativePath))
+    .map((file) => ({
+      path: file.webkitRelativePath || file.name,
+      file,
+      errorMessage: null,
+    }));
+}
+
+export async function collectDroppedFiles(dataTransfer: DataTransfer): Promise<UploadCandidate[]> {
+  const entries = Array.from(dataTransfer.items)
+    .map((item) => (item.kind === "file" ? item.webkitGetAsEntry() : null))
+    .filter((entry): entry is FileSystemEntry => entry !== null);
+
+  if (entries.length === 0) {
+    return collectInputFiles(dataTransfer.files);
+  }
+
+  const candidates: UploadCandidate[] = [];
+
+  for (const entry of entries) {
+    await walkFileSystemEntry(entry, candidates);
+  }
+
+  return candidates;
+}
+
+/** Replaces every .zip candidate with the markdown files it contains. */
+export async function expandZipArchives(
+  candidates: UploadCandidate[],
+  maxEntryBytes: number,
+): Promise<UploadCandidate[]> {
+  const expanded: UploadCandidate[] = [];
+
+  for (const candidate of candidates) {
+    if (!candidate.file || !isZipArchive(candidate.file)) {
+      expanded.push(candidate);
+      continue;
+    }
+
+    try {
+      const entries = await extractZipMarkdownEntries(candidate.file, maxEntryBytes);
+
+      if (entries.length === 0) {
+        expanded.push({
+          ...candidate,
+          file: null,
+          errorMessage: "Archive contains no .md or .markdown files.",
+        });
+        continue;
+      }
+
+      expanded.push(...entries.map((entry) => ({
+        path: `${candidate.path}/${entry.path}`,
+        file: entry.file,
+        errorMessage: entry.errorMessage,
+      })));
+    } catch (error) {
+      expanded.push({
+        ...candidate,
+        file: null,
+        errorMessage: error instanceof Error
+          ? `Could not read archive: ${error.message}`
+          : "Could not read archive.",
+      });
+    }
+  }
+
+  return expanded;
+}
+
+async function walkFileSystemEntry(entry: FileSystemEntry, candidates: UploadCandidate[]) {
+  if (isIgnoredPath(entry.fullPath)) return;
+
+  if (isFileEntry(entry)) {
+    const file = await new Promise<File>((resolve, reject) => entry.file(resolve, reject));
+    candidates.push({
+      path: entry.fullPath.replace(/^\//, ""),
+      file,
+      errorMessage: null,
+    });
+    return;
+  }
+
+  if (!isDirectoryEntry(entry)) return;
+
+  const reader = entry.createReader();
+
+  // readEntries returns results in batches until it yields an empty array.
+  while (true) {
+    const batch = await new Promise<FileSystemEntry[]>((resolve, reject) =>
+      reader.readEntries(resolve, reject),
+    );
+    if (batch.length === 0) break;
+
+    for (const child of batch) {
+      if (child.isFile && !isUploadableFileName(child.fullPath)) continue;
+      await walkFileSystemEntry(child, candidates);
+    }
+  }
+}
+
+async function extractZipMarkdownEntries(
+  archive: File,
+  maxEntryBytes: number,
+): Promise<UploadCandidate[]> {
+  const oversizedPaths: string[] = [];
+  const buffer = await archive.arrayBuffer();
+
+  return new Promise((resolve, reject) => {
+    unzip(
+      new Uint8Array(buffer),
+      {
+        filter: (info: UnzipFileInfo) => {
+          if (info.name.endsWith("/") || isIgnoredPath(info.name)) return false;
+          if (!isMarkdownFileName(info.name)) return false;
+          if (info.originalSize > maxEntryBytes) {
+            oversizedPaths.push(info.name);
+            return false;
+          }
+          return true;
+        },
+      },
+      (error, files) => {
+        if (error) {
+          reject(error);
+          return;
+        }
+
+        const entries: UploadCandidate[] = Object.entries(files)
+          .sort(([left], [right]) => left.localeCompare(right))
+          .map(([path, data]) => ({
+            path,
+            file: new File([data as BlobPart], baseName(path), { type: "text/markdown" }),
+            errorMessage: null,
+          }));
+
+        for (const path of oversizedPaths) {
+          entries.push({ path, file: null, errorMessage: "File exceeds the 5MB limit." });
+        }
+
+        resolve(entries);
+      },
+    );
+  });
+}
+
+function isUploadableFileName(path: string): boolean {
+  if (isIgnoredPath(path)) return false;
+  return isMarkdownFileName(path) || path.toLowerCase().endsWith(ZIP_EXTENSION);
+}
+
+function isFileEntry(entry: FileSystemEntry): entry is FileSystemFileEntry {
+  return entry.isFile;
+}
+
+function isDirectoryEntry(entry: FileSystemEntry): entry is FileSystemDirectoryEntry {
+  return entry.isDirectory;
+}
+
+function isIgnoredPath(path: string): boolean {
+  return path.split("/").some((segment) => IGNORED_PATH_SEGMENTS.includes(segment));
+}
+
+function baseName(path: string): string {
+  const segments = path.split("/");
+  return segments[segments.length - 1] || path;
+}
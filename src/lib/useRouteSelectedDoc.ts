@@ -0,0 +1,25 @@
+import { useEffect } from "react";
+import { useSelectedDoc } from "./useSelectedDoc.ts";
+
+/**
+ * Keeps the app-wide selection in step with a route's `?doc=` param. When the
+ * URL has no document (e.g. a plain navbar link) the last selection is handed
+ * to `restoreDocId` so the page can put it back into the URL.
+ */
+export function useRouteSelectedDoc(
+  routeDocId: string | undefined,
+  restoreDocId: (docId: string) => void,
+): string | null {
+  const { docId, setDocId } = useSelectedDoc();
+
+  useEffect(() => {
+    if (routeDocId) {
+      if (routeDocId !== docId) setDocId(routeDocId);
+      return;
+    }
+
+    if (docId) restoreDocId(docId);
+  }, [docId, restoreDocId, routeDocId, setDocId]);
+
+  return routeDocId ?? null;
+}
@@ -1,14 +1,30 @@
+import { useCallback, useMemo, useState } from "react";
 import { useQuery } from "@tanstack/react-query";
-import { createLazyRoute } from "@tanstack/react-router";
+import { createLazyRoute, useNavigate } from "@tanstack/react-router";
 import { DocPicker } from "../components/DocPicker.tsx";
+import { LibraryFilterBar } from "../components/library/LibraryFilterBar.tsx";
+import { useLibraryCollections } from "../components/library/useLibraryCollections.ts";
+import { LibrarySearchResults } from "../components/search/LibrarySearchResults.tsx";
+import { LibrarySearchSummary } from "../components/search/LibrarySearchSummary.tsx";
+import { ReplacePreviewList } from "../components/search/ReplacePreviewList.tsx";
 import { SearchControls } from "../components/search/SearchControls.tsx";
 import { SearchResults } from "../components/search/SearchResults.tsx";
 import { SearchSummary } from "../components/search/SearchSummary.tsx";
+import { useReplaceSession } from "../components/search/useReplaceSession.ts";
+import { useSavedSearches } from "../components/search/useSavedSearches.ts";
 import { useSearchSession } from "../components/search/useSearchSession.ts";
+import {
+  createDefaultLibraryFilter,
+  filterLibraryDocuments,
+  hasActiveLibraryFilter,
+  type LibraryFilter,
+} from "../lib/libraryModels.ts";
 import { documentQueryKey } from "../lib/queryKeys.ts";
 import { getDocument } from "../lib/supabaseDb.ts";
+import type { SavedSearch } from "../lib/savedSearchModels.ts";
+import type { SearchScope } from "../lib/searchModels.ts";
 import { useAuthUser } from "../lib/useAuthUser.ts";
-import { useSelectedDoc } from "../lib/useSelectedDoc.ts";
+import { useRouteSelectedDoc } from "../lib/useRouteSelectedDoc.ts";
 import "../components/search/SearchPageLayout.css";
 
 export const Route = createLazyRoute("/search")({
@@ -16,9 +32,17 @@ export const Route = createLazyRoute("/search")({
 });
 
 function SearchPage() {
-  const { docId } = useSelectedDoc();
+  const search = Route.useSearch();
+  const navigate = useNavigate({ from: "/search" });
+  const restoreDocId = useCallback((id: string) => {
+    void navigate({ search: (previous) => ({ ...previous, doc: id }), replace: true });
+  }, [navigate]);
+  const docId = useRouteSelectedDoc(search.doc, restoreDocId);
+  const scope: SearchScope = search.scope ?? "document";
   const user = useAuthUser();
   const userId = user?.id ?? null;
+  const [libraryFilter, setLibraryFilter] = useState<LibraryFilter>(createDefaultLibraryFilter);
+  const isLibraryScope = scope === "library";
 
   const documentQuery = useQuery({
     queryKey: documentQueryKey(userId, docId),
@@ -26,8 +50,22 @@ function SearchPage() {
     staleTime: 60_000,
     enabled: !!userId && !!docId,
   });
+  const { documents: libraryDocuments, folders, tags } = useLibraryCollections();
 
   const document = documentQuery.data ?? null;
+  const documentNames = useMemo(
+    () => new Map(libraryDocuments.map((libraryDocument) => [libraryDocument.id, libraryDocument.name])),
+    [libraryDocuments],
+  );
+  const libraryDocIds = useMemo(
+    () =>
+      hasActiveLibraryFilter(libraryFilter)
+        ? filterLibraryDocuments(libraryDocuments, libraryFilter).map(
+          (libraryDocument) => libraryDocument.id,
+        )
+        : null,
+    [libraryDocuments, libraryFilter],
+  );
 
   const {
     inputRef,
@@ -35,29 +73,162 @@ function SearchPage() {
     currentPage,
     options,
     searchResult,
+    libraryResult,
+    libraryIndexStatus,
     trimmedQuery,
     hasActiveTags,
     hasActiveSearch,
     setCurrentPage,
+    loadMoreLibraryMatches,
     handleQueryChange,
     toggleSearchTag,
     toggleCaseSensitive,
     toggleWholeWord,
     toggleRegex,
+    toggleFuzzy,
+    applySearch,
     resetSearch,
+    isReplaceMode,
+    replacement,
+    replacePreview,
+    handleReplacementChange,
+    toggleReplaceMode,
+    runReplace,
   } = useSearchSession({
     docId,
     markdown: document?.markdown ?? null,
+    scope,
+    libraryDocuments: isLibraryScope ? libraryDocuments : undefined,
+    libraryDocIds,
   });
 
+  const replaceSession = useReplaceSession({
+    document,
+    preview: replacePreview,
+    runReplace,
+  });
+  const isReplaceVisible = isReplaceMode && !isLibraryScope;
+  const savedSearches = useSavedSearches({ userId, trimmedQuery, options, scope });
+
+  function setScope(nextScope: SearchScope) {
+    void navigate({
+      search: (previous) => ({
+        ...previous,
+        scope: nextScope === "document" ? undefined : nextScope,
+      }),
+    });
+  }
+
+  function handleSelectDocument(nextDocId: string) {
+    resetSearch();
+    void navigate({ search: (previous) => ({ ...previous, doc: nextDocId }) });
+  }
+
+  /** Runs a saved search against whichever document (or library) is selected now. */
+  function handleApplySavedSearch(savedSearch: SavedSearch) {
+    applySearch(savedSearch.query, savedSearch.options);
+    savedSearches.markUsed(savedSearch.id);
+    if (savedSearch.scope !== scope) {
+      setScope(savedSearch.scope);
+    }
+  }
+
+  function handleOpenMatch(matchDocId: string, lineNumber: number) {
+    void navigate({ to: "/display", search: { doc: matchDocId, line: lineNumber } });
+  }
+
+  const searchControls = (
+    <SearchControls
+      inputRef={inputRef}
+      query={query}
+      options={options}
+      onQueryChange={handleQueryChange}
+      onToggleCaseSensitive={toggleCaseSensitive}
+      onToggleWholeWord={toggleWholeWord}
+      onToggleRegex={toggleRegex}
+      onToggleFuzzy={toggleFuzzy}
+      onToggleTag={toggleSearchTag}
+      isReplaceMode={isReplaceVisible}
+      replacement={replacement}
+      onToggleReplaceMode={isLibraryScope ? undefined : toggleReplaceMode}
+      onReplacementChange={handleReplacementChange}
+      savedSearchMenu={userId ? {
+        savedSearches: savedSearches.savedSearches,
+        recentSearches: savedSearches.recentSearches,
+        canSave: !!trimmedQuery,
+        isSaving: savedSearches.isSaving,
+        isUpdating: savedSearches.isUpdating,
+        errorMessage: savedSearches.errorMessage,
+        onSave: savedSearches.saveCurrent,
+        onApply: handleApplySavedSearch,
+        onTogglePinned: savedSearches.togglePinned,
+        onDelete: savedSearches.remove,
+      } : undefined}
+    />
+  );
+
   return (
     <section className="workspace">
       <div className="search-page">
         <div className="search-page-header">
-          <DocPicker onSelect={resetSearch} />
+          <div className="search-scope" role="group" aria-label="Search scope">
+            <button
+              type="button"
+              className={`search-scope-button${!isLibraryScope ? " is-active" : ""}`}
+              onClick={() => setScope("document")}
+            >
+              Document
+            </button>
+            <button
+              type="button"
+              className={`search-scope-button${isLibraryScope ? " is-active" : ""}`}
+              onClick={() => setScope("library")}
+            >
+              Library
+            </button>
+          </div>
+          {isLibraryScope ? (
+            <LibraryFilterBar
+              folders={folders}
+              tags={tags}
+              documents={libraryDocuments}
+              filter={libraryFilter}
+              onChange={setLibraryFilter}
+            />
+          ) : (
+            <DocPicker docId={docId} onSelect={handleSelectDocument} />
+          )}
         </div>
 
-        {!docId ? (
+        {isLibraryScope ? (
+          <>
+            {searchControls}
+
+            <LibrarySearchSummary
+              hasActiveSearch={hasActiveSearch}
+              hasActiveTags={hasActiveTags}
+              trimmedQuery={trimmedQuery}
+              result={libraryResult}
+              indexStatus={libraryIndexStatus}
+            />
+
+            {libraryResult.errorMessage ? (
+              <p className="status error" role="status">
+                {libraryResult.errorMessage}
+              </p>
+            ) : null}
+
+            <LibrarySearchResults
+              hasActiveSearch={hasActiveSearch}
+              trimmedQuery={trimmedQuery}
+              options={options}
+              result={libraryResult}
+              documentNames={documentNames}
+              onOpenMatch={handleOpenMatch}
+              onLoadMore={loadMoreLibraryMatches}
+            />
+          </>
+        ) : !docId ? (
           <div className="search-page-empty">
             <p>Select a markdown file to search.</p>
           </div>
@@ -67,20 +238,15 @@ function SearchPage() {
           </div>
         ) : !document ? (
           <div className="search-page-empty">
-            <p>Document not found.</p>
+            <p className="status error" role="alert">
+              {documentQuery.error
+                ? documentQuery.error.message
+                : "This document does not exist or has been deleted."}
+            </p>
           </div>
         ) : (
           <>
-            <SearchControls
-              inputRef={inputRef}
-              query={query}
-              options={options}
-              onQueryChange={handleQueryChange}
-              onToggleCaseSensitive={toggleCaseSensitive}
-              onToggleWholeWord={toggleWholeWord}
-              onToggleRegex={toggleRegex}
-              onToggleTag={toggleSearchTag}
-            />
+            {searchControls}
 
             <SearchSummary
               hasActiveSearch={hasActiveSearch}
@@ -95,14 +261,30 @@ function SearchPage() {
               </p>
             ) : null}
 
-            <SearchResults
-              hasActiveSearch={hasActiveSearch}
-              trimmedQuery={trimmedQuery}
-              options={options}
-              result={searchResult}
-              currentPage={currentPage}
-              onPageChange={setCurrentPage}
-            />
+            {isReplaceVisible ? (
+              <ReplacePreviewList
+                trimmedQuery={trimmedQuery}
+                preview={replacePreview}
+                excludedIds={replaceSession.excludedIds}
+                selectedCount={replaceSession.selectedCount}
+                isApplying={replaceSession.isApplying}
+                errorMessage={replaceSession.errorMessage}
+                statusMessage={replaceSession.statusMessage}
+                onToggleMatch={replaceSession.toggleMatch}
+                onSetAllSelected={replaceSession.setAllSelected}
+                onApplySelected={replaceSession.applySelected}
+                onApplyAll={replaceSession.applyAll}
+              />
+            ) : (
+              <SearchResults
+                hasActiveSearch={hasActiveSearch}
+                trimmedQuery={trimmedQuery}
+                options={options}
+                result={searchResult}
+                currentPage={currentPage}
+                onPageChange={setCurrentPage}
+              />
+            )}
           </>
         )}
       </div>
@@ -0,0 +1,173 @@
+import { useCallback, useMemo, useState } from "react";
+import type { FormEvent } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { createLazyRoute, useNavigate } from "@tanstack/react-router";
+import ReactMarkdown from "react-markdown";
+import { AsciiLoader } from "../components/AsciiLoader.tsx";
+import {
+  markdownComponentsConfig,
+  rehypePluginsConfig,
+  remarkPluginsConfig,
+} from "../components/markdown/markdownPlugins.ts";
+import { SlidesView } from "../components/slides/SlidesView.tsx";
+import { formatDate } from "../lib/format.ts";
+import { maskFrontMatter, parseFrontMatter } from "../lib/frontMatter.ts";
+import { sharedDocumentQueryKey } from "../lib/queryKeys.ts";
+import { SharedDocumentError, type ShareViewMode } from "../lib/shareModels.ts";
+import { DEFAULT_SLIDE_SEGMENTATION } from "../lib/slideModels.ts";
+import { resolveSlideSegmentation } from "../lib/slideParser.ts";
+import { getSharedDocument } from "../lib/sharesDb.ts";
+import "./ViewerPage.css";
+import "./SharedDocumentPage.css";
+
+export const Route = createLazyRoute("/s/$token")({
+  component: SharedDocumentPage,
+});
+
+function SharedDocumentPage() {
+  const { token } = Route.useParams();
+  const search = Route.useSearch();
+  const navigate = useNavigate({ from: "/s/$token" });
+  const viewMode: ShareViewMode = search.mode ?? "rendered";
+  const slideIndex = (search.slide ?? 1) - 1;
+  const [passwordInput, setPasswordInput] = useState("");
+  const [submittedPassword, setSubmittedPassword] = useState<string | null>(null);
+
+  const sharedQuery = useQuery({
+    queryKey: sharedDocumentQueryKey(token, submittedPassword),
+    queryFn: () => getSharedDocument(token, submittedPassword),
+    staleTime: Infinity,
+    retry: false,
+  });
+
+  const sharedDocument = sharedQuery.data?.document ?? null;
+  const errorCode = sharedQuery.error instanceof SharedDocumentError
+    ? sharedQuery.error.code
+    : null;
+  const isPasswordPrompt = errorCode === "password_required" ||
+    errorCode === "invalid_password" ||
+    errorCode === "too_many_attempts";
+
+  const renderedMarkdown = useMemo(
+    () => sharedDocument ? (
+      <ReactMarkdown
+        components={markdownComponentsConfig}
+        remarkPlugins={remarkPluginsConfig}
+        rehypePlugins={rehypePluginsConfig}
+      >
+        {maskFrontMatter(sharedDocument.markdown, parseFrontMatter(sharedDocument.markdown))}
+      </ReactMarkdown>
+    ) : null,
+    [sharedDocument],
+  );
+
+  const handleSlideIndexChange = useCallback((index: number) => {
+    void navigate({ search: (previous) => ({ ...previous, slide: index + 1 }) });
+  }, [navigate]);
+
+  function setViewMode(mode: ShareViewMode) {
+    void navigate({
+      search: (previous) => ({
+        ...previous,
+        mode: mode === "rendered" ? undefined : mode,
+      }),
+    });
+  }
+
+  function handlePasswordSubmit(event: FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    setSubmittedPassword(passwordInput);
+  }
+
+  if (isPasswordPrompt) {
+    return (
+      <section className="shared-password-panel">
+        <p className="shared-password-title">This document is password protected.</p>
+        <form className="shared-password-form" onSubmit={handlePasswordSubmit}>
+          <input
+            className="shared-password-input"
+            type="password"
+            value={passwordInput}
+            onChange={(event) => setPasswordInput(event.target.value)}
+            aria-label="Password"
+            autoComplete="current-password"
+            autoFocus
+          />
+          <button
+            type="submit"
+            className="viewer-traverse-button"
+            disabled={!passwordInput || sharedQuery.isFetching}
+          >
+            Open
+          </button>
+        </form>
+        {errorCode === "invalid_password" || errorCode === "too_many_attempts" ? (
+          <p className="status error" role="status">
+            {sharedQuery.error?.message}
+          </p>
+        ) : null}
+      </section>
+    );
+  }
+
+  return (
+    <section className="workspace">
+      <article className={`viewer${viewMode === "slides" ? " is-shared-slides" : ""}`}>
+        <header className="viewer-header">
+          <div className="viewer-header-main">
+            <p className="shared-document-name">{sharedDocument?.name ?? "Shared document"}</p>
+            <button
+              type="button"
+              className={`viewer-traverse-button${viewMode === "rendered" ? " is-active" : ""}`}
+              onClick={() => setViewMode("rendered")}
+              disabled={!sharedDocument}
+            >
+              Rendered
+            </button>
+            <button
+              type="button"
+              className={`viewer-traverse-button${viewMode === "slides" ? " is-active" : ""}`}
+              onClick={() => setViewMode("slides")}
+              disabled={!sharedDocument}
+            >
+              Slides
+            </button>
+            {sharedDocument ? (
+              <span className="shared-document-meta">
+                Updated {formatDate(sharedDocument.updatedAt)}
+              </span>
+            ) : null}
+          </div>
+        </header>
+
+        {sharedQuery.isPending ? (
+          <div className="viewer-empty">
+            <AsciiLoader label="Opening shared document..." />
+          </div>
+        ) : sharedQuery.error ? (
+          <div className="viewer-empty">
+            <p className="status error" role="alert">
+              {sharedQuery.error.message}
+            </p>
+          </div>
+        ) : viewMode === "slides" ? (
+          <div className="markdown-output is-slides-view">
+            <SlidesView
+              markdown={sharedDocument?.markdown ?? ""}
+              fontScale={1}
+              layoutMode="horizontal"
+              segmentation={
+                resolveSlideSegmentation(sharedDocument?.markdown ?? "") ??
+                DEFAULT_SLIDE_SEGMENTATION
+              }
+              slideIndex={slideIndex}
+              onSlideIndexChange={handleSlideIndexChange}
+            />
+          </div>
+        ) : (
+          <div className="markdown-output">{renderedMarkdown}</div>
+        )}
+      </article>
+    </section>
+  );
+}
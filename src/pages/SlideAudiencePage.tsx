@@ -0,0 +1,134 @@
+import { useCallback, useMemo, useRef, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { createLazyRoute, useNavigate } from "@tanstack/react-router";
+import ReactMarkdown from "react-markdown";
+import {
+  markdownComponentsConfig,
+  rehypePluginsConfig,
+  remarkPluginsConfig,
+} from "../components/markdown/markdownPlugins.ts";
+import { AsciiLoader } from "../components/AsciiLoader.tsx";
+import { useFullscreen } from "../components/slides/useFullscreen.ts";
+import { useSlideBroadcast } from "../components/slides/useSlideBroadcast.ts";
+import { useSlideSession } from "../components/slides/useSlideSession.ts";
+import { documentQueryKey } from "../lib/queryKeys.ts";
+import type { SlideBroadcastState } from "../lib/slideBroadcastMessages.ts";
+import { DEFAULT_SLIDE_SEGMENTATION, type SlideSegmentation } from "../lib/slideModels.ts";
+import {
+  extractSlideOutlines,
+  materializeSlideMarkdownFromLines,
+  resolveSlideSegmentation,
+  splitMarkdownLines,
+} from "../lib/slideParser.ts";
+import { getDocument } from "../lib/supabaseDb.ts";
+import { useAuthUser } from "../lib/useAuthUser.ts";
+import "../components/slides/SlidesView.css";
+import "./SlideAudiencePage.css";
+
+export const Route = createLazyRoute("/audience")({
+  component: SlideAudiencePage,
+});
+
+const DEFAULT_AUDIENCE_FONT_SCALE = 1.4;
+
+/** Font scale and segmentation as last sent by the presenter. */
+interface AudienceDisplay {
+  fontScale: number;
+  segmentation: SlideSegmentation;
+}
+
+function SlideAudiencePage() {
+  const search = Route.useSearch();
+  const navigate = useNavigate({ from: "/audience" });
+  const docId = search.doc ?? null;
+  const slideIndex = (search.slide ?? 1) - 1;
+  const user = useAuthUser();
+  const userId = user?.id ?? null;
+  const [presenterDisplay, setPresenterDisplay] = useState<AudienceDisplay | null>(null);
+  const stageRef = useRef<HTMLDivElement | null>(null);
+  const { isFullscreen, isSupported, toggleFullscreen } = useFullscreen(stageRef);
+
+  const documentQuery = useQuery({
+    queryKey: documentQueryKey(userId, docId),
+    queryFn: () => getDocument(docId!),
+    staleTime: 60_000,
+    enabled: !!userId && !!docId,
+  });
+
+  const markdown = documentQuery.data?.markdown ?? "";
+  const fontScale = presenterDisplay?.fontScale ?? DEFAULT_AUDIENCE_FONT_SCALE;
+  const segmentation = presenterDisplay?.segmentation ??
+    resolveSlideSegmentation(markdown) ??
+    DEFAULT_SLIDE_SEGMENTATION;
+  const outlines = useMemo(
+    () => extractSlideOutlines(markdown, { segmentation, fontScale }),
+    [fontScale, markdown, segmentation],
+  );
+  const markdownLines = useMemo(() => splitMarkdownLines(markdown), [markdown]);
+
+  // Presenter updates replace the entry so the audience window has no history to page through.
+  const handleSlideIndexChange = useCallback((index: number) => {
+    void navigate({
+      search: (previous) => ({ ...previous, slide: index + 1 }),
+      replace: true,
+    });
+  }, [navigate]);
+
+  const handleDisplayChange = useCallback((state: SlideBroadcastState) => {
+    setPresenterDisplay({ fontScale: state.fontScale, segmentation: state.segmentation });
+  }, []);
+
+  const { currentIndex, positionLabel } = useSlideSession({
+    slideCount: outlines.length,
+    layoutMode: "horizontal",
+    slideIndex,
+    onSlideIndexChange: handleSlideIndexChange,
+  });
+
+  useSlideBroadcast({
+    docId,
+    role: "audience",
+    state: { slideIndex: currentIndex, fontScale, segmentation },
+    onSlideIndexChange: handleSlideIndexChange,
+    onDisplayChange: handleDisplayChange,
+  });
+
+  const activeOutline = outlines[currentIndex] ?? null;
+  const activeMarkdown = activeOutline
+    ? materializeSlideMarkdownFromLines(markdownLines, activeOutline)
+    : "";
+
+  return (
+    <div className="slide-audience" ref={stageRef}>
+      {!docId ? (
+        <p className="slide-audience-message">Open the audience window from the presenter view.</p>
+      ) : documentQuery.isPending ? (
+        <AsciiLoader label="Loading slides..." />
+      ) : documentQuery.error ? (
+        <p className="status error" role="alert">
+          {documentQuery.error.message}
+        </p>
+      ) : (
+        <div className="slide-audience-card">
+          <div className="slides-markdown" style={{ fontSize: `${Math.round(fontScale * 100)}%` }}>
+            <ReactMarkdown
+              components={markdownComponentsConfig}
+              remarkPlugins={remarkPluginsConfig}
+              rehypePlugins={rehypePluginsConfig}
+            >
+              {activeMarkdown}
+            </ReactMarkdown>
+          </div>
+        </div>
+      )}
+      <div className="slide-audience-controls">
+        <span className="slides-position">{positionLabel}</span>
+        {isSupported ? (
+          <button type="button" className="slides-nav-button" onClick={toggleFullscreen}>
+            {isFullscreen ? "Exit fullscreen" : "Fullscreen"}
+          </button>
+        ) : null}
+      </div>
+    </div>
+  );
+}
@@ -1,11 +1,12 @@
 import { useMemo, useRef, useState } from "react";
-import type { ChangeEvent } from "react";
+import type { ChangeEvent, DragEvent } from "react";
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { Link, createLazyRoute, useNavigate } from "@tanstack/react-router";
 import {
+  MAX_MARKDOWN_BYTES,
   getUserStorageUsage,
-  listDocuments,
-  putDocument,
+  putDocuments,
+  type BatchDocumentResult,
   type DocumentMeta,
   type StoredDocument,
 } from "../lib/supabaseDb.ts";
@@ -17,10 +18,40 @@ import {
 import { useAuthUser } from "../lib/useAuthUser.ts";
 import { useSelectedDoc } from "../lib/useSelectedDoc.ts";
 import { formatBytes, formatDate } from "../lib/format.ts";
+import { formatFrontMatterValue } from "../lib/frontMatter.ts";
+import {
+  createDefaultLibraryFilter,
+  createDefaultLibrarySort,
+  filterLibraryDocuments,
+  getMetadataSortField,
+  groupLibraryDocuments,
+  hasActiveLibraryFilter,
+  sortLibraryDocuments,
+  type LibraryFilter,
+  type LibraryGroup,
+  type LibrarySort,
+} from "../lib/libraryModels.ts";
+import {
+  collectDroppedFiles,
+  collectInputFiles,
+  expandZipArchives,
+  isMarkdownFileName,
+  type UploadCandidate,
+} from "../lib/uploadSources.ts";
+import {
+  UploadBatchList,
+  type UploadBatchItem,
+} from "../components/upload/UploadBatchList.tsx";
+import { DocumentOrganizer } from "../components/library/DocumentOrganizer.tsx";
+import { FolderManager } from "../components/library/FolderManager.tsx";
+import { LibraryFilterBar } from "../components/library/LibraryFilterBar.tsx";
+import { useLibraryCollections } from "../components/library/useLibraryCollections.ts";
 import "./UploadPage.css";
 
-const MAX_MARKDOWN_BYTES = 5 * 1024 * 1024;
-const ACCEPTED_EXTENSIONS = [".md", ".markdown"];
+interface PreparedUpload {
+  item: UploadBatchItem;
+  document: StoredDocument | null;
+}
 
 export const Route = createLazyRoute("/upload")({
   component: UploadPage,
@@ -33,14 +64,16 @@ function UploadPage() {
   const user = useAuthUser();
   const userId = user?.id ?? null;
   const uploadInputRef = useRef<HTMLInputElement | null>(null);
+  const folderInputRef = useRef<HTMLInputElement | null>(null);
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
-
-  const documentsQuery = useQuery({
-    queryKey: documentsQueryKey(userId),
-    queryFn: listDocuments,
-    staleTime: 30_000,
-    enabled: !!userId,
-  });
+  const [batchItems, setBatchItems] = useState<UploadBatchItem[]>([]);
+  const [isPreparing, setIsPreparing] = useState(false);
+  const [isDragActive, setIsDragActive] = useState(false);
+  const [libraryFilter, setLibraryFilter] = useState<LibraryFilter>(createDefaultLibraryFilter);
+  const [librarySort, setLibrarySort] = useState<LibrarySort>(createDefaultLibrarySort);
+  const [isGroupedByFolder, setIsGroupedByFolder] = useState(false);
+
+  const { documentsQuery, documents, folders, tags } = useLibraryCollections();
   const storageQuery = useQuery({
     queryKey: storageUsageQueryKey(userId),
     queryFn: getUserStorageUsage,
@@ -48,43 +81,46 @@ function UploadPage() {
     enabled: !!userId,
   });
 
-  const uploadMutation = useMutation<StoredDocument, Error, File>({
-    mutationFn: async (file: File) => {
-      const markdown = await file.text();
-
-      if (!markdown.trim()) {
-        throw new Error("File is empty. Upload a markdown document with content.");
-      }
+  const uploadMutation = useMutation<BatchDocumentResult[], Error, StoredDocument[]>({
+    mutationFn: (documentsToSave: StoredDocument[]) =>
+      putDocuments(documentsToSave, {
+        onDocumentStart: (id) => updateBatchItem(id, { status: "uploading" }),
+        onDocumentSettled: (result) =>
+          updateBatchItem(
+            result.id,
+            result.savedDocument
+              ? { status: "saved", errorMessage: null }
+              : { status: "error", errorMessage: result.errorMessage },
+          ),
+      }),
+    onSuccess: async (results: BatchDocumentResult[]) => {
+      const savedDocuments = results.flatMap((result) =>
+        result.savedDocument ? [result.savedDocument] : [],
+      );
+      if (savedDocuments.length === 0) return;
 
-      const timestamp = new Date().toISOString();
-      const documentToSave: StoredDocument = {
-        id: createDocumentKey(file.name),
-        name: file.name,
-        markdown,
-        sizeBytes: file.size,
-        createdAt: timestamp,
-        updatedAt: timestamp,
-      };
-
-      return putDocument(documentToSave);
-    },
-    onSuccess: async (savedDocument: StoredDocument) => {
       setErrorMessage(null);
-      setDocId(savedDocument.id);
+      setDocId(savedDocuments[0].id);
       await queryClient.invalidateQueries({ queryKey: documentsQueryKey(userId) });
-      await queryClient.invalidateQueries({
-        queryKey: documentQueryKey(userId, savedDocument.id),
-      });
+      for (const savedDocument of savedDocuments) {
+        await queryClient.invalidateQueries({
+          queryKey: documentQueryKey(userId, savedDocument.id),
+        });
+      }
       await queryClient.invalidateQueries({ queryKey: storageUsageQueryKey(userId) });
-      await navigate({ to: "/display" });
+
+      // A lone file keeps the original flow of jumping straight to the viewer.
+      if (results.length === 1) {
+        setBatchItems([]);
+        await navigate({ to: "/display", search: { doc: savedDocuments[0].id } });
+      }
     },
   });
 
-  const documents = useMemo(() => documentsQuery.data ?? [], [documentsQuery.data]);
   const storage = storageQuery.data;
   const usageRatio = storage ? storage.usedBytes / storage.limitBytes : 0;
   const isLoadingDocuments = documentsQuery.isPending;
-  const isUploading = uploadMutation.isPending;
+  const isUploading = uploadMutation.isPending || isPreparing;
 
   const duplicateNameCounts = useMemo(() => {
     const counts = new Map<string, number>();
@@ -96,41 +132,150 @@ function UploadPage() {
     return counts;
   }, [documents]);
 
-  async function handleUpload(event: ChangeEvent<HTMLInputElement>) {
-    const file = event.target.files?.[0];
-
-    if (!file) {
-      return;
-    }
+  const visibleDocuments = useMemo(
+    () => sortLibraryDocuments(filterLibraryDocuments(documents, libraryFilter), librarySort),
+    [documents, libraryFilter, librarySort],
+  );
+  // Sorting by a front-matter key shows that key's value on each row.
+  const sortedMetadataField = getMetadataSortField(librarySort.key);
+  const documentGroups = useMemo<LibraryGroup[]>(
+    () =>
+      isGroupedByFolder
+        ? groupLibraryDocuments(visibleDocuments, folders)
+        : [{ key: "all", label: "", documents: visibleDocuments }],
+    [folders, isGroupedByFolder, visibleDocuments],
+  );
 
-    event.target.value = "";
+  function updateBatchItem(key: string, patch: Partial<UploadBatchItem>) {
+    setBatchItems((items) =>
+      items.map((item) => (item.key === key ? { ...item, ...patch } : item)),
+    );
+  }
 
-    const validationError = validateMarkdownUpload(file);
-    if (validationError) {
-      setErrorMessage(validationError);
-      return;
-    }
+  async function uploadCandidates(candidates: UploadCandidate[]) {
+    if (candidates.length === 0 || isUploading) return;
 
     setErrorMessage(null);
+    setIsPreparing(true);
 
     try {
-      await uploadMutation.mutateAsync(file);
+      const expanded = await expandZipArchives(candidates, MAX_MARKDOWN_BYTES);
+      const prepared = await Promise.all(expanded.map(prepareUpload));
+      const documentsToSave = prepared.flatMap((upload) =>
+        upload.document ? [upload.document] : [],
+      );
+
+      setBatchItems(prepared.map((upload) => upload.item));
+      setIsPreparing(false);
+
+      if (documentsToSave.length === 0) {
+        if (prepared.length === 1) {
+          setErrorMessage(prepared[0].item.errorMessage);
+        }
+        return;
+      }
+
+      await uploadMutation.mutateAsync(documentsToSave);
     } catch (error) {
       setErrorMessage(getErrorMessage(error, "Upload failed."));
+      setBatchItems((items) =>
+        items.map((item) =>
+          item.status === "queued"
+            ? { ...item, status: "error", errorMessage: "Not uploaded." }
+            : item,
+        ),
+      );
+    } finally {
+      setIsPreparing(false);
     }
   }
 
+  async function handleUpload(event: ChangeEvent<HTMLInputElement>) {
+    const candidates = collectInputFiles(event.target.files);
+    event.target.value = "";
+    await uploadCandidates(candidates);
+  }
+
+  async function handleDrop(event: DragEvent<HTMLElement>) {
+    event.preventDefault();
+    setIsDragActive(false);
+    if (isUploading) return;
+
+    const candidates = await collectDroppedFiles(event.dataTransfer);
+    await uploadCandidates(candidates);
+  }
+
+  function handleDragOver(event: DragEvent<HTMLElement>) {
+    if (!event.dataTransfer.types.includes("Files")) return;
+    event.preventDefault();
+    event.dataTransfer.dropEffect = isUploading ? "none" : "copy";
+    setIsDragActive(true);
+  }
+
+  function handleDragLeave(event: DragEvent<HTMLElement>) {
+    if (event.currentTarget.contains(event.relatedTarget as Node | null)) return;
+    setIsDragActive(false);
+  }
+
   function handleUploadClick() {
     uploadInputRef.current?.click();
   }
 
+  function handleFolderUploadClick() {
+    folderInputRef.current?.click();
+  }
+
+  function handleFolderDeleted(folderId: string) {
+    setLibraryFilter((filter) =>
+      filter.folderId === folderId ? { ...filter, folderId: null } : filter,
+    );
+  }
+
+  function renderDocumentItem(document: DocumentMeta) {
+    const isDuplicate = (duplicateNameCounts.get(document.name) ?? 0) > 1;
+
+    return (
+      <li className="document-item" key={document.id}>
+        <Link
+          className={`document-button${docId === document.id ? " is-active" : ""}`}
+          to="/display"
+          search={{ doc: document.id }}
+          onClick={() => setDocId(document.id)}
+        >
+          <span className="document-name">{document.name}</span>
+          {isDuplicate ? (
+            <span className="duplicate-chip">Duplicate</span>
+          ) : null}
+          {sortedMetadataField ? (
+            <span className="document-meta">
+              {formatFrontMatterValue(document.frontMatter[sortedMetadataField]) || "—"}
+            </span>
+          ) : null}
+          <span className="document-meta">
+            {formatBytes(document.sizeBytes)}
+          </span>
+          <span className="document-meta">
+            {formatDate(document.updatedAt)}
+          </span>
+        </Link>
+        <DocumentOrganizer document={document} folders={folders} />
+      </li>
+    );
+  }
+
   const displayedErrorMessage =
     errorMessage ?? getErrorMessage(documentsQuery.error, null);
 
   return (
     <section className="workspace">
       <div className="home-page">
-        <section className="library" aria-label="Uploaded markdown documents">
+        <section
+          className={`library${isDragActive ? " is-drag-active" : ""}`}
+          aria-label="Uploaded markdown documents"
+          onDragOver={handleDragOver}
+          onDragLeave={handleDragLeave}
+          onDrop={(event) => void handleDrop(event)}
+        >
           <div className="library-header">
             <button
               className="upload-button library-upload-button fx-tv-static fx-tv-static-hover"
@@ -140,6 +285,14 @@ function UploadPage() {
             >
               {isUploading ? "Uploading..." : "Upload .md"}
             </button>
+            <button
+              className="upload-button library-upload-button fx-tv-static fx-tv-static-hover"
+              type="button"
+              onClick={handleFolderUploadClick}
+              disabled={isUploading}
+            >
+              Upload folder
+            </button>
             <p className="library-summary">
               MD Files: <span className="library-summary-count">{documents.length}</span>
             </p>
@@ -167,10 +320,46 @@ function UploadPage() {
             ref={uploadInputRef}
             className="upload-input"
             type="file"
-            accept=".md,.markdown,text/markdown"
-            onChange={handleUpload}
+            accept=".md,.markdown,.zip,text/markdown,application/zip"
+            multiple
+            onChange={(event) => void handleUpload(event)}
+            disabled={isUploading}
+          />
+          <input
+            ref={folderInputRef}
+            className="upload-input"
+            type="file"
+            {...{ webkitdirectory: "" }}
+            multiple
+            onChange={(event) => void handleUpload(event)}
             disabled={isUploading}
           />
+          <p className="library-drop-hint">
+            Drop markdown files, folders or .zip archives anywhere in this panel.
+          </p>
+
+          <div className="library-organize">
+            <LibraryFilterBar
+              folders={folders}
+              tags={tags}
+              documents={documents}
+              filter={libraryFilter}
+              onChange={setLibraryFilter}
+              sort={librarySort}
+              onSortChange={setLibrarySort}
+              isGrouped={isGroupedByFolder}
+              onToggleGrouped={() => setIsGroupedByFolder((value) => !value)}
+            />
+            <FolderManager folders={folders} onFolderDeleted={handleFolderDeleted} />
+          </div>
+
+          {batchItems.length > 0 ? (
+            <UploadBatchList
+              items={batchItems}
+              isBusy={isUploading}
+              onClear={() => setBatchItems([])}
+            />
+          ) : null}
 
           {displayedErrorMessage ? (
             <p className="status error" role="status">
@@ -184,33 +373,27 @@ function UploadPage() {
             <p className="empty">No markdown docs yet. Upload your first file.</p>
           ) : null}
 
-          {!isLoadingDocuments && documents.length > 0 ? (
-            <ul className="document-list">
-              {documents.map((document: DocumentMeta) => {
-                const isDuplicate = (duplicateNameCounts.get(document.name) ?? 0) > 1;
-
-                return (
-                  <li className="document-item" key={document.id}>
-                    <Link
-                      className={`document-button${docId === document.id ? " is-active" : ""}`}
-                      to="/display"
-                      onClick={() => setDocId(document.id)}
-                    >
-                      <span className="document-name">{document.name}</span>
-                      {isDuplicate ? (
-                        <span className="duplicate-chip">Duplicate</span>
-                      ) : null}
-                      <span className="document-meta">
-                        {formatBytes(document.sizeBytes)}
-                      </span>
-                      <span className="document-meta">
-                        {formatDate(document.updatedAt)}
-                      </span>
-                    </Link>
-                  </li>
-                );
-              })}
-            </ul>
+          {!isLoadingDocuments &&
+          documents.length > 0 &&
+          visibleDocuments.length === 0 &&
+          hasActiveLibraryFilter(libraryFilter) ? (
+            <p className="empty">No documents match these filters.</p>
+          ) : null}
+
+          {!isLoadingDocuments && visibleDocuments.length > 0 ? (
+            <div className="document-groups">
+              {documentGroups.map((group) => (
+                <section className="document-group" key={group.key}>
+                  {group.label ? (
+                    <h2 className="document-group-title">
+                      {group.label}
+                      <span className="document-group-count">{group.documents.length}</span>
+                    </h2>
+                  ) : null}
+                  <ul className="document-list">{group.documents.map(renderDocumentItem)}</ul>
+                </section>
+              ))}
+            </div>
           ) : null}
         </section>
       </div>
@@ -218,13 +401,49 @@ function UploadPage() {
   );
 }
 
-function validateMarkdownUpload(file: File): string | null {
-  const lowercaseName = file.name.toLowerCase();
-  const isAcceptedExtension = ACCEPTED_EXTENSIONS.some((extension) =>
-    lowercaseName.endsWith(extension),
-  );
+async function prepareUpload(candidate: UploadCandidate): Promise<PreparedUpload> {
+  const fileName = candidate.file?.name ?? candidate.path;
+  const item: UploadBatchItem = {
+    key: createDocumentKey(fileName),
+    path: candidate.path,
+    sizeBytes: candidate.file?.size ?? 0,
+    status: "queued",
+    errorMessage: null,
+  };
+  const failed = (message: string): PreparedUpload => ({
+    item: { ...item, status: "error", errorMessage: message },
+    document: null,
+  });
 
-  if (!isAcceptedExtension) {
+  if (candidate.errorMessage || !candidate.file) {
+    return failed(candidate.errorMessage ?? "File could not be read.");
+  }
+
+  const validationError = validateMarkdownUpload(candidate.file);
+  if (validationError) return failed(validationError);
+
+  const markdown = await candidate.file.text();
+  if (!markdown.trim()) {
+    return failed("File is empty. Upload a markdown document with content.");
+  }
+
+  const timestamp = new Date().toISOString();
+
+  return {
+    item,
+    document: {
+      id: item.key,
+      name: candidate.file.name,
+      markdown,
+      sizeBytes: candidate.file.size,
+      createdAt: timestamp,
+      updatedAt: timestamp,
+    },
+  };
+}
+
+function validateMarkdownUpload(file: File): string | null {
+  if (!isMarkdownFileName(file.name)) {
     return "Only .md and .markdown files are supported.";
   }
 
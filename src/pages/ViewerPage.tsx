@@ -1,23 +1,47 @@
-import { useEffect, useMemo, useRef, useState } from "react";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import { useHotkey } from "@tanstack/react-hotkeys";
 import { useQuery } from "@tanstack/react-query";
-import { createLazyRoute } from "@tanstack/react-router";
+import { Link, createLazyRoute, useNavigate } from "@tanstack/react-router";
 import ReactMarkdown, { type Components, type ExtraProps } from "react-markdown";
-import remarkGfm from "remark-gfm";
 import { documentQueryKey } from "../lib/queryKeys.ts";
 import { getDocument } from "../lib/supabaseDb.ts";
+import type { ViewerMode } from "../lib/routeSearch.ts";
 import { useAuthUser } from "../lib/useAuthUser.ts";
-import { useSelectedDoc } from "../lib/useSelectedDoc.ts";
+import { useRouteSelectedDoc } from "../lib/useRouteSelectedDoc.ts";
 import { AsciiLoader } from "../components/AsciiLoader.tsx";
 import { DocPicker } from "../components/DocPicker.tsx";
 import { TraverseSidebar } from "../components/traverse/TraverseSidebar.tsx";
+import { VirtualizedMarkdown } from "../components/markdown/VirtualizedMarkdown.tsx";
+import { MermaidDiagram } from "../components/markdown/MermaidDiagram.tsx";
+import { getMermaidSource, isMathBlockClassName } from "../components/markdown/markdownNodes.ts";
+import { rehypePluginsConfig, remarkPluginsConfig } from "../components/markdown/markdownPlugins.ts";
+import { ChunkView } from "../components/chunk/ChunkView.tsx";
 import { TokenView } from "../components/token/TokenView.tsx";
 import { useTokenSession } from "../components/token/useTokenSession.ts";
 import { PoseSidebar } from "../components/pose/PoseSidebar.tsx";
 import { PoseView } from "../components/pose/PoseView.tsx";
+import { SlidesPresenterView } from "../components/slides/SlidesPresenterView.tsx";
 import { SlidesView } from "../components/slides/SlidesView.tsx";
+import { useFullscreen } from "../components/slides/useFullscreen.ts";
+import { useSlideBroadcast } from "../components/slides/useSlideBroadcast.ts";
+import { RevisionHistoryView } from "../components/revisions/RevisionHistoryView.tsx";
+import { ShareManagerView } from "../components/share/ShareManagerView.tsx";
+import { DocumentExportMenu } from "../components/export/DocumentExportMenu.tsx";
+import { MarkdownEditorView } from "../components/editor/MarkdownEditorView.tsx";
+import { useEditorSession } from "../components/editor/useEditorSession.ts";
+import { DocumentMetadataPanel } from "../components/metadata/DocumentMetadataPanel.tsx";
 import { formatBytes, formatDate } from "../lib/format.ts";
-import { extractTraverseItems } from "../lib/traverseParser.ts";
+import { maskFrontMatter, parseFrontMatter } from "../lib/frontMatter.ts";
+import { parseTraverseDocument } from "../lib/traverseParser.ts";
+import {
+  DEFAULT_SLIDE_SEGMENTATION,
+  SLIDE_SEGMENTATIONS,
+  SLIDE_SEGMENTATION_LABELS,
+  type SlideSegmentation,
+} from "../lib/slideModels.ts";
+import { resolveSlideSegmentation } from "../lib/slideParser.ts";
+import { buildTokenBudget } from "../lib/tokenBudget.ts";
+import { DEFAULT_TOKEN_ENCODING_ID, getTokenEncoding } from "../lib/tokenModels.ts";
 import type {
   TraverseItem,
   TraverseNavigationMode,
@@ -25,7 +49,8 @@ import type {
 } from "../lib/traverseModels.ts";
 import "./ViewerPage.css";
 
-const remarkPluginsConfig = [remarkGfm];
+// Smaller documents render as one markdown tree, which keeps footnotes at the end.
+const VIRTUALIZED_MIN_BLOCKS = 400;
 
 interface TraverseKeyboardState {
   docToken: string;
@@ -38,8 +63,7 @@ interface PoseKeyboardState {
   selectedIndex: number;
 }
 
-type ViewerMode = "rendered" | "token" | "pose" | "slides";
-type SlideLayoutMode = "horizontal" | "vertical";
+type SlideLayoutMode = "horizontal" | "vertical" | "presenter";
 
 const DEFAULT_TRAVERSE_STATE: TraverseKeyboardState = {
   docToken: "",
@@ -63,10 +87,17 @@ export const Route = createLazyRoute("/display")({
 });
 
 function ViewerPage() {
-  const { docId } = useSelectedDoc();
+  const search = Route.useSearch();
+  const navigate = useNavigate({ from: "/display" });
+  const restoreDocId = useCallback((id: string) => {
+    void navigate({ search: (previous) => ({ ...previous, doc: id }), replace: true });
+  }, [navigate]);
+  const docId = useRouteSelectedDoc(search.doc, restoreDocId);
+  const viewerMode: ViewerMode = search.mode ?? "rendered";
+  const slideIndex = (search.slide ?? 1) - 1;
+  const targetLine = search.line;
   const user = useAuthUser();
   const userId = user?.id ?? null;
-  const [viewerMode, setViewerMode] = useState<ViewerMode>("rendered");
   const [horizontalSlideFontScale, setHorizontalSlideFontScale] = useState(
     DEFAULT_SLIDE_FONT_SCALE,
   );
@@ -76,6 +107,12 @@ function ViewerPage() {
   const [slideLayoutMode, setSlideLayoutMode] = useState<SlideLayoutMode>(
     DEFAULT_SLIDE_LAYOUT_MODE,
   );
+  // Toolbar choice for one document; otherwise front-matter decides.
+  const [slideSegmentationOverride, setSlideSegmentationOverride] = useState<{
+    docId: string;
+    segmentation: SlideSegmentation;
+  } | null>(null);
+  const [tokenEncodingId, setTokenEncodingId] = useState(DEFAULT_TOKEN_ENCODING_ID);
   const [isTraverseOpen, setIsTraverseOpen] = useState(false);
   const [traverseState, setTraverseState] = useState<TraverseKeyboardState>(
     DEFAULT_TRAVERSE_STATE,
@@ -84,6 +121,9 @@ function ViewerPage() {
   const [poseTiltX, setPoseTiltX] = useState(DEFAULT_POSE_TILT_X);
   const [poseTiltY, setPoseTiltY] = useState(DEFAULT_POSE_TILT_Y);
   const markdownOutputRef = useRef<HTMLDivElement | null>(null);
+  // `${docToken}:${line}` of the last line target already scrolled to or
+  // written by the traverse sidebar, so re-renders do not scroll again.
+  const handledLineTargetRef = useRef<string | null>(null);
   const traverseListRef = useRef<HTMLUListElement | null>(null);
   const poseListRef = useRef<HTMLUListElement | null>(null);
 
@@ -98,13 +138,21 @@ function ViewerPage() {
 
   const markdown = document?.markdown;
 
-  const traverseItems = useMemo(
-    () => markdown ? extractTraverseItems(markdown) : [],
+  const frontMatter = useMemo(() => parseFrontMatter(markdown ?? ""), [markdown]);
+  const traverseDocument = useMemo(
+    () => parseTraverseDocument(markdown ?? ""),
     [markdown],
   );
+  const traverseItems = traverseDocument.items;
 
   const docToken = `${docId ?? "none"}:${document?.updatedAt ?? ""}`;
-  const resolvedTraverseState = resolveTraverseState(traverseState, docToken);
+  // Seeds the traverse selection when a document (re)loads with `?line=`.
+  const initialTraverseIndex = findTraverseIndexAtLine(traverseItems, targetLine);
+  const resolvedTraverseState = resolveTraverseState(
+    traverseState,
+    docToken,
+    initialTraverseIndex,
+  );
   const resolvedPoseState = resolvePoseState(poseState, docToken);
   const maxTraverseIndex = Math.max(0, traverseItems.length - 1);
   const selectedTraverseIndex =
@@ -120,9 +168,22 @@ function ViewerPage() {
   const isTokenView = viewerMode === "token";
   const isPoseView = viewerMode === "pose";
   const isSlidesView = viewerMode === "slides";
+  const isHistoryView = viewerMode === "history";
+  const isEditView = viewerMode === "edit";
+  const isShareView = viewerMode === "share";
+  const isChunksView = viewerMode === "chunks";
   const isSlidesVerticalLayout = isSlidesView && slideLayoutMode === "vertical";
+  const isSlidesPresenterLayout = isSlidesView && slideLayoutMode === "presenter";
   const isTraverseVisible =
-    hasLoadedDocument && isTraverseOpen && !isTokenView && !isPoseView && !isSlidesView;
+    hasLoadedDocument &&
+    isTraverseOpen &&
+    !isTokenView &&
+    !isPoseView &&
+    !isSlidesView &&
+    !isHistoryView &&
+    !isEditView &&
+    !isShareView &&
+    !isChunksView;
   const traverseNavigationMode: TraverseNavigationMode = isTraverseVisible
     ? resolvedTraverseState.navigationMode
     : "list";
@@ -130,17 +191,42 @@ function ViewerPage() {
     traverseItems.length === 0 ? null : (traverseItems[selectedTraverseIndex] ?? null);
   const selectedPoseItem =
     traverseItems.length === 0 ? null : (traverseItems[selectedPoseIndex] ?? null);
+  const tokenEncoding = getTokenEncoding(tokenEncodingId);
   const tokenSession = useTokenSession({
     docId,
     docToken,
     markdown: markdown ?? null,
-    enabled: isTokenView,
+    encoding: tokenEncoding,
+    // The traverse sidebar marks the heaviest sections, so it needs tokens too.
+    enabled: isTokenView || isTraverseVisible,
   });
-  const tokenCountLabel = resolveTokenCountLabel(isTokenView, tokenSession);
+  const tokenBudget = useMemo(
+    () => tokenSession.status === "ready"
+      ? buildTokenBudget(tokenSession.tokenizedDocument.lines, traverseItems)
+      : null,
+    [tokenSession.status, tokenSession.tokenizedDocument.lines, traverseItems],
+  );
+  const tokenCountLabel = resolveTokenCountLabel(
+    isTokenView,
+    tokenSession,
+    tokenEncoding.label,
+  );
+  const editorSession = useEditorSession({ document });
   const activeSlideFontScale = slideLayoutMode === "vertical"
     ? verticalSlideFontScale
     : horizontalSlideFontScale;
   const slideFontScalePercent = Math.round(activeSlideFontScale * 100);
+  const slidesFullscreen = useFullscreen(markdownOutputRef);
+  const frontMatterSlideSegmentation = useMemo(
+    () => resolveSlideSegmentation(markdown ?? ""),
+    [markdown],
+  );
+  const slideSegmentation: SlideSegmentation =
+    (slideSegmentationOverride && slideSegmentationOverride.docId === docId
+      ? slideSegmentationOverride.segmentation
+      : null) ??
+    frontMatterSlideSegmentation ??
+    DEFAULT_SLIDE_SEGMENTATION;
 
   const markdownComponents = useMemo<Components>(
     () => {
@@ -160,13 +246,40 @@ function ViewerPage() {
     ],
   );
 
+  const renderedFocusLine = (isTraverseVisible ? selectedTraverseItem?.line : targetLine) ?? null;
+
   const renderedMarkdown = useMemo(
-    () => markdown ? (
-      <ReactMarkdown components={markdownComponents} remarkPlugins={remarkPluginsConfig}>
-        {markdown}
-      </ReactMarkdown>
-    ) : null,
-    [markdown, markdownComponents],
+    () => {
+      if (!markdown) return null;
+
+      if (traverseDocument.blocks.length >= VIRTUALIZED_MIN_BLOCKS) {
+        return (
+          <VirtualizedMarkdown
+            markdown={markdown}
+            blocks={traverseDocument.blocks}
+            definitionLines={traverseDocument.definitionLines}
+            components={markdownComponents}
+            remarkPlugins={remarkPluginsConfig}
+            rehypePlugins={rehypePluginsConfig}
+            scrollElementRef={markdownOutputRef}
+            resetKey={docToken}
+            focusLine={renderedFocusLine}
+          />
+        );
+      }
+
+      // Blank lines keep node positions on source lines for traverse highlighting.
+      return (
+        <ReactMarkdown
+          components={markdownComponents}
+          remarkPlugins={remarkPluginsConfig}
+          rehypePlugins={rehypePluginsConfig}
+        >
+          {maskFrontMatter(markdown, frontMatter)}
+        </ReactMarkdown>
+      );
+    },
+    [docToken, frontMatter, markdown, markdownComponents, renderedFocusLine, traverseDocument],
   );
 
   const poseMarkdown = useMemo(
@@ -176,13 +289,59 @@ function ViewerPage() {
 
   const renderedPoseMarkdown = useMemo(
     () => poseMarkdown ? (
-      <ReactMarkdown components={markdownComponents} remarkPlugins={remarkPluginsConfig}>
+      <ReactMarkdown
+        components={markdownComponents}
+        remarkPlugins={remarkPluginsConfig}
+        rehypePlugins={rehypePluginsConfig}
+      >
         {poseMarkdown}
       </ReactMarkdown>
     ) : null,
     [markdownComponents, poseMarkdown],
   );
 
+  function setViewerMode(mode: ViewerMode) {
+    void navigate({
+      search: (previous) => ({ ...previous, mode: mode === "rendered" ? undefined : mode }),
+    });
+  }
+
+  const handleSlideIndexChange = useCallback((index: number) => {
+    void navigate({ search: (previous) => ({ ...previous, slide: index + 1 }) });
+  }, [navigate]);
+
+  useSlideBroadcast({
+    docId: isSlidesView ? docId : null,
+    role: "presenter",
+    state: {
+      slideIndex,
+      fontScale: activeSlideFontScale,
+      segmentation: slideSegmentation,
+    },
+    onSlideIndexChange: handleSlideIndexChange,
+  });
+
+  function openAudienceWindow() {
+    if (!docId) return;
+
+    const url = new URL("/audience", window.location.origin);
+    url.searchParams.set("doc", docId);
+    url.searchParams.set("slide", String(slideIndex + 1));
+    window.open(url.toString(), `sloppysource-audience-${docId}`, "popup");
+  }
+
+  function handleOpenLine(line: number) {
+    void navigate({
+      search: (previous) => ({ ...previous, mode: undefined, line }),
+    });
+  }
+
+  function handleSelectDocument(nextDocId: string) {
+    void navigate({
+      search: (previous) => ({ doc: nextDocId, mode: previous.mode }),
+    });
+  }
+
   function setViewerModeWithPanelState(mode: ViewerMode) {
     const nextMode: ViewerMode = viewerMode === mode ? "rendered" : mode;
     if (nextMode !== "rendered") {
@@ -235,7 +394,7 @@ function ViewerPage() {
 
   function moveTraverseSelection(delta: number) {
     setTraverseState((previous) => {
-      const resolved = resolveTraverseState(previous, docToken);
+      const resolved = resolveTraverseState(previous, docToken, initialTraverseIndex);
       if (traverseItems.length === 0 || delta === 0) return resolved;
 
       const direction = delta > 0 ? 1 : -1;
@@ -285,6 +444,12 @@ function ViewerPage() {
     });
   }
 
+  useHotkey(
+    "Mod+S",
+    () => editorSession.save(),
+    { enabled: isEditView, ignoreInputs: false },
+  );
+
   useHotkey(
     "ArrowDown",
     (event) => {
@@ -332,7 +497,7 @@ function ViewerPage() {
       if (traverseItems.length === 0) return;
       event.preventDefault();
       setTraverseState((previous) => {
-        const resolved = resolveTraverseState(previous, docToken);
+        const resolved = resolveTraverseState(previous, docToken, initialTraverseIndex);
         const traversableIndex = resolveTraversableSelectionIndex(
           traverseItems,
           resolved.selectedIndex,
@@ -356,7 +521,7 @@ function ViewerPage() {
       if (traverseNavigationMode !== "document") return;
       event.preventDefault();
       setTraverseState((previous) => ({
-        ...resolveTraverseState(previous, docToken),
+        ...resolveTraverseState(previous, docToken, initialTraverseIndex),
         navigationMode: "list",
       }));
     },
@@ -398,18 +563,49 @@ function ViewerPage() {
     selectedButton?.scrollIntoView({ block: "nearest", behavior: "smooth" });
   }, [isPoseView, selectedPoseIndex, selectedPoseItem]);
 
+  useEffect(() => {
+    const line = selectedTraverseItem?.line;
+    if (!isTraverseVisible || !line || line === targetLine) return;
+
+    handledLineTargetRef.current = `${docToken}:${line}`;
+    void navigate({ search: (previous) => ({ ...previous, line }), replace: true });
+  }, [docToken, isTraverseVisible, navigate, selectedTraverseItem, targetLine]);
+
+  useEffect(() => {
+    if (viewerMode !== "rendered" || !targetLine || !renderedMarkdown) return;
+
+    const lineTargetKey = `${docToken}:${targetLine}`;
+    if (handledLineTargetRef.current === lineTargetKey) return;
+
+    const container = markdownOutputRef.current;
+    if (!container) return;
+    const target = findSourceLineElement(container, targetLine);
+    if (!target) return;
+
+    handledLineTargetRef.current = lineTargetKey;
+    target.scrollIntoView({ block: "center" });
+    target.classList.add("is-line-target");
+    const timeoutId = window.setTimeout(() => target.classList.remove("is-line-target"), 2400);
+
+    return () => {
+      window.clearTimeout(timeoutId);
+      target.classList.remove("is-line-target");
+    };
+  }, [docToken, renderedMarkdown, targetLine, viewerMode]);
+
   return (
     <section className={`workspace${isPoseView ? " is-pose-mode" : ""}`}>
       <article
         className={
           `viewer${isSlidesVerticalLayout ? " is-slides-vertical" : ""}` +
+          `${isSlidesPresenterLayout ? " is-slides-presenter" : ""}` +
           `${isPoseView ? " is-pose-mode" : ""}`
         }
         aria-live="polite"
       >
         <div className="viewer-header">
           <div className="viewer-header-main">
-            <DocPicker />
+            <DocPicker docId={docId} onSelect={handleSelectDocument} />
             <button
               type="button"
               className={`viewer-traverse-button${isTraverseVisible ? " is-active" : ""}`}
@@ -419,12 +615,20 @@ function ViewerPage() {
                   return;
                 }
 
-                if (isTokenView || isPoseView || isSlidesView) {
+                if (
+                  isTokenView ||
+                  isPoseView ||
+                  isSlidesView ||
+                  isHistoryView ||
+                  isEditView ||
+                  isShareView ||
+                  isChunksView
+                ) {
                   setViewerMode("rendered");
                 }
 
                 setTraverseState((previous) => ({
-                  ...resolveTraverseState(previous, docToken),
+                  ...resolveTraverseState(previous, docToken, initialTraverseIndex),
                   navigationMode: "list",
                 }));
                 setIsTraverseOpen(true);
@@ -441,6 +645,14 @@ function ViewerPage() {
             >
               Token View
             </button>
+            <button
+              type="button"
+              className={`viewer-traverse-button${isChunksView ? " is-active" : ""}`}
+              onClick={() => setViewerModeWithPanelState("chunks")}
+              disabled={!hasLoadedDocument}
+            >
+              Chunks
+            </button>
             <button
               type="button"
               className={`viewer-traverse-button${isPoseView ? " is-active" : ""}`}
@@ -457,6 +669,30 @@ function ViewerPage() {
             >
               Slides
             </button>
+            <button
+              type="button"
+              className={`viewer-traverse-button${isHistoryView ? " is-active" : ""}`}
+              onClick={() => setViewerModeWithPanelState("history")}
+              disabled={!hasLoadedDocument}
+            >
+              History
+            </button>
+            <button
+              type="button"
+              className={`viewer-traverse-button${isEditView ? " is-active" : ""}`}
+              onClick={() => setViewerModeWithPanelState("edit")}
+              disabled={!hasLoadedDocument}
+            >
+              {editorSession.isDirty ? "Edit *" : "Edit"}
+            </button>
+            <button
+              type="button"
+              className={`viewer-traverse-button${isShareView ? " is-active" : ""}`}
+              onClick={() => setViewerModeWithPanelState("share")}
+              disabled={!hasLoadedDocument}
+            >
+              Share
+            </button>
             {isSlidesView ? (
               <>
                 <div className="viewer-slide-font-controls" role="group" aria-label="Slide font size">
@@ -480,6 +716,28 @@ function ViewerPage() {
                     +
                   </button>
                 </div>
+                <label className="viewer-slide-segmentation">
+                  <span>Split</span>
+                  <select
+                    className="viewer-slide-segmentation-select"
+                    value={slideSegmentation}
+                    onChange={(event) => {
+                      if (!docId) return;
+                      setSlideSegmentationOverride({
+                        docId,
+                        segmentation: event.target.value as SlideSegmentation,
+                      });
+                      handleSlideIndexChange(0);
+                    }}
+                  >
+                    {SLIDE_SEGMENTATIONS.map((segmentation) => (
+                      <option key={segmentation} value={segmentation}>
+                        {SLIDE_SEGMENTATION_LABELS[segmentation]}
+                        {segmentation === frontMatterSlideSegmentation ? " (front-matter)" : ""}
+                      </option>
+                    ))}
+                  </select>
+                </label>
                 <div className="viewer-slide-layout-controls" role="group" aria-label="Slide layout">
                   <button
                     type="button"
@@ -499,9 +757,41 @@ function ViewerPage() {
                   >
                     Vertical
                   </button>
+                  <button
+                    type="button"
+                    className={`viewer-slide-layout-button${
+                      slideLayoutMode === "presenter" ? " is-active" : ""
+                    }`}
+                    onClick={() => setSlideLayoutMode("presenter")}
+                  >
+                    Presenter
+                  </button>
                 </div>
+                {slidesFullscreen.isSupported ? (
+                  <button
+                    type="button"
+                    className={`viewer-slide-layout-button${
+                      slidesFullscreen.isFullscreen ? " is-active" : ""
+                    }`}
+                    onClick={slidesFullscreen.toggleFullscreen}
+                  >
+                    Fullscreen
+                  </button>
+                ) : null}
               </>
             ) : null}
+            {document ? <DocumentMetadataPanel frontMatter={frontMatter} /> : null}
+            {document ? (
+              <DocumentExportMenu
+                documentName={document.name}
+                markdown={document.markdown}
+                slideOptions={{
+                  fontScale: activeSlideFontScale,
+                  layoutMode: slideLayoutMode === "vertical" ? "vertical" : "horizontal",
+                  segmentation: slideSegmentation,
+                }}
+              />
+            ) : null}
             {document ? (
               <p className="viewer-meta">
                 Updated {formatDate(document.updatedAt)} ·{" "}
@@ -549,10 +839,11 @@ function ViewerPage() {
                 isOpen={isTraverseVisible}
                 selectedIndex={selectedTraverseIndex}
                 navigationMode={traverseNavigationMode}
+                tokenBudget={tokenBudget}
                 listRef={traverseListRef}
                 onSelect={(index) => {
                   setTraverseState((previous) => {
-                    const resolved = resolveTraverseState(previous, docToken);
+                    const resolved = resolveTraverseState(previous, docToken, initialTraverseIndex);
                     if (traverseItems.length === 0) return resolved;
                     const clampedIndex = clampNumber(index, 0, traverseItems.length - 1);
                     const nextIndex =
@@ -575,17 +866,28 @@ function ViewerPage() {
                 `markdown-output${isTokenView ? " is-token-view" : ""}` +
                 `${isPoseView ? " is-pose-view" : ""}` +
                 `${isSlidesView ? " is-slides-view" : ""}` +
-                `${isSlidesVerticalLayout ? " is-slides-vertical" : ""}`
+                `${isHistoryView ? " is-history-view" : ""}` +
+                `${isEditView ? " is-edit-view" : ""}` +
+                `${isShareView ? " is-share-view" : ""}` +
+                `${isChunksView ? " is-chunks-view" : ""}` +
+                `${isSlidesVerticalLayout ? " is-slides-vertical" : ""}` +
+                `${isSlidesPresenterLayout ? " is-slides-presenter" : ""}`
               }
               ref={markdownOutputRef}
             >
               {isTokenView ? (
                 <TokenView
+                  documentKey={docToken}
                   status={tokenSession.status}
                   lines={tokenSession.tokenizedDocument.lines}
                   totalLines={tokenSession.tokenizedDocument.totalLines}
+                  progress={tokenSession.progress}
                   errorMessage={tokenSession.errorMessage}
                   markdownFallback={markdown ?? ""}
+                  encodingId={tokenEncoding.id}
+                  onEncodingChange={setTokenEncodingId}
+                  budget={tokenBudget}
+                  onOpenLine={handleOpenLine}
                 />
               ) : isPoseView ? (
                 <PoseView tiltX={poseTiltX} tiltY={poseTiltY}>
@@ -595,12 +897,51 @@ function ViewerPage() {
                     </div>
                   )}
                 </PoseView>
+              ) : isSlidesPresenterLayout ? (
+                <SlidesPresenterView
+                  key={docToken}
+                  markdown={markdown ?? ""}
+                  fontScale={activeSlideFontScale}
+                  segmentation={slideSegmentation}
+                  slideIndex={slideIndex}
+                  onSlideIndexChange={handleSlideIndexChange}
+                  onOpenAudienceWindow={openAudienceWindow}
+                />
               ) : isSlidesView ? (
                 <SlidesView
                   key={docToken}
                   markdown={markdown ?? ""}
                   fontScale={activeSlideFontScale}
-                  layoutMode={slideLayoutMode}
+                  segmentation={slideSegmentation}
+                  layoutMode={slideLayoutMode === "vertical" ? "vertical" : "horizontal"}
+                  slideIndex={slideIndex}
+                  onSlideIndexChange={handleSlideIndexChange}
+                />
+              ) : isHistoryView ? (
+                <RevisionHistoryView key={document.id} documentId={document.id} />
+              ) : isChunksView ? (
+                <ChunkView
+                  key={document.id}
+                  docId={document.id}
+                  docToken={docToken}
+                  documentName={document.name}
+                  markdown={markdown ?? ""}
+                  encoding={tokenEncoding}
+                  onOpenLine={handleOpenLine}
+                />
+              ) : isShareView ? (
+                <ShareManagerView key={document.id} documentId={document.id} />
+              ) : isEditView ? (
+                <MarkdownEditorView
+                  markdown={editorSession.draftMarkdown}
+                  isDirty={editorSession.isDirty}
+                  hasConflict={editorSession.hasConflict}
+                  isSaving={editorSession.isSaving}
+                  saveError={editorSession.saveError}
+                  onChange={editorSession.updateDraft}
+                  onSave={editorSession.save}
+                  onDiscard={editorSession.discardDraft}
+                  onKeepDraft={editorSession.keepDraft}
                 />
               ) : (
                 renderedMarkdown
@@ -609,7 +950,14 @@ function ViewerPage() {
           </div>
         ) : (
           <div className="viewer-empty">
-            <p>Document not found.</p>
+            <p className="status error" role="alert">
+              {documentQuery.error
+                ? documentQuery.error.message
+                : "This document does not exist or has been deleted."}
+            </p>
+            <Link className="viewer-empty-link" to="/upload">
+              Back to your documents
+            </Link>
           </div>
         )}
       </article>
@@ -620,6 +968,7 @@ function ViewerPage() {
 function resolveTraverseState(
   state: TraverseKeyboardState,
   docToken: string,
+  initialIndex: number,
 ): TraverseKeyboardState {
   if (state.docToken === docToken) {
     return state;
@@ -627,11 +976,23 @@ function resolveTraverseState(
 
   return {
     docToken,
-    selectedIndex: 0,
+    selectedIndex: initialIndex,
     navigationMode: "list",
   };
 }
 
+function findTraverseIndexAtLine(items: TraverseItem[], line: number | undefined): number {
+  if (!line) return 0;
+
+  let selectedIndex = 0;
+  for (let index = 0; index < items.length; index++) {
+    const itemLine = items[index]?.line;
+    if (itemLine && itemLine <= line) selectedIndex = index;
+  }
+
+  return selectedIndex;
+}
+
 function resolvePoseState(
   state: PoseKeyboardState,
   docToken: string,
@@ -715,6 +1076,22 @@ function findTraverseTargetElement(
   return container.querySelector<HTMLElement>(`[data-traverse-line="${item.line}"]`);
 }
 
+/** Finds the last rendered block that starts at or before a source line. */
+function findSourceLineElement(container: HTMLElement, line: number): HTMLElement | null {
+  let closest: HTMLElement | null = null;
+  let closestLine = 0;
+
+  for (const element of container.querySelectorAll<HTMLElement>("[data-traverse-line]")) {
+    const elementLine = Number(element.dataset.traverseLine);
+    if (elementLine <= line && elementLine >= closestLine) {
+      closest = element;
+      closestLine = elementLine;
+    }
+  }
+
+  return closest;
+}
+
 function createMarkdownComponents(
   selectedTraverseItem: TraverseItem | null,
 ): Components {
@@ -785,12 +1162,35 @@ function createMarkdownComponents(
         {...createTraverseElementProps(node, className, "hr", selectedTraverseItem)}
       />
     ),
-    pre: ({ node, className, ...props }) => (
-      <pre
-        {...props}
-        {...createTraverseElementProps(node, className, "code", selectedTraverseItem)}
-      />
-    ),
+    pre: ({ node, className, ...props }) => {
+      const mermaidSource = getMermaidSource(node);
+
+      if (mermaidSource !== null) {
+        return (
+          <MermaidDiagram
+            source={mermaidSource}
+            {...createTraverseElementProps(node, className, "diagram", selectedTraverseItem)}
+          />
+        );
+      }
+
+      return (
+        <pre
+          {...props}
+          {...createTraverseElementProps(node, className, "code", selectedTraverseItem)}
+        />
+      );
+    },
+    div: ({ node, className, ...props }) => {
+      if (!isMathBlockClassName(className)) return <div {...props} className={className} />;
+
+      return (
+        <div
+          {...props}
+          {...createTraverseElementProps(node, className, "math", selectedTraverseItem)}
+        />
+      );
+    },
   };
 }
 
@@ -837,14 +1237,18 @@ function joinClassNames(
 function resolveTokenCountLabel(
   isTokenTabActive: boolean,
   tokenSession: ReturnType<typeof useTokenSession>,
+  encodingLabel: string,
 ): string | null {
   if (!isTokenTabActive) return null;
   if (tokenSession.status === "ready") {
-    return `${tokenSession.tokenizedDocument.totalTokens.toLocaleString()} tokens`;
+    return `${tokenSession.tokenizedDocument.totalTokens.toLocaleString()} ${encodingLabel} tokens`;
   }
 
   if (tokenSession.status === "tokenizing") {
-    return "tokenizing";
+    const { progress } = tokenSession;
+    return progress && progress.totalLines > 0
+      ? `tokenizing ${Math.floor((progress.processedLines / progress.totalLines) * 100)}%`
+      : "tokenizing";
   }
 
   if (tokenSession.status === "error") {
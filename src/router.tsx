@@ -5,14 +5,21 @@ import {
   redirect,
 } from "@tanstack/react-router";
 import { RootLayout } from "./components/RootLayout.tsx";
-import { supabase } from "./lib/supabase.ts";
+import {
+  validateDisplaySearch,
+  validateSearchPageSearch,
+  validateSharedDocumentSearch,
+  validateSlideAudienceSearch,
+} from "./lib/routeSearch.ts";
+import { requireAuthenticatedUserId } from "./lib/supabaseDb.ts";
 
+// Falls back to the stored session offline, so the cached library stays reachable.
 async function requireAuth() {
-  const { data: { user } } = await supabase.auth.getUser();
-  if (!user) {
+  try {
+    return await requireAuthenticatedUserId("You must be logged in.");
+  } catch {
     throw redirect({ to: "/login" });
   }
-  return user;
 }
 
 const rootRoute = createRootRoute({
@@ -59,19 +66,38 @@ const projectActivityRoute = createRoute({
 const displayRoute = createRoute({
   getParentRoute: () => rootRoute,
   path: "/display",
+  validateSearch: validateDisplaySearch,
   beforeLoad: async () => {
     await requireAuth();
   },
 }).lazy(() => import("./pages/ViewerPage.tsx").then((m) => m.Route));
 
+/** Chrome-less slide deck that follows the presenter view from another window. */
+const slideAudienceRoute = createRoute({
+  getParentRoute: () => rootRoute,
+  path: "/audience",
+  validateSearch: validateSlideAudienceSearch,
+  beforeLoad: async () => {
+    await requireAuth();
+  },
+}).lazy(() => import("./pages/SlideAudiencePage.tsx").then((m) => m.Route));
+
 const searchRoute = createRoute({
   getParentRoute: () => rootRoute,
   path: "/search",
+  validateSearch: validateSearchPageSearch,
   beforeLoad: async () => {
     await requireAuth();
   },
 }).lazy(() => import("./pages/SearchPage.tsx").then((m) => m.Route));
 
+/** Public share links: no auth guard, the edge function checks the token. */
+const sharedDocumentRoute = createRoute({
+  getParentRoute: () => rootRoute,
+  path: "/s/$token",
+  validateSearch: validateSharedDocumentSearch,
+}).lazy(() => import("./pages/SharedDocumentPage.tsx").then((m) => m.Route));
+
 const routeTree = rootRoute.addChildren([
   loginRoute,
   homeRoute,
@@ -79,7 +105,9 @@ const routeTree = rootRoute.addChildren([
   projectRoute,
   projectActivityRoute,
   displayRoute,
+  slideAudienceRoute,
   searchRoute,
+  sharedDocumentRoute,
 ]);
 
 export const router = createRouter({ routeTree });
@@ -0,0 +1,49 @@
+import type { SupabaseClient } from "npm:@supabase/supabase-js@2";
+
+export const DOCUMENT_BODIES_BUCKET = "document-bodies";
+// Matches the bucket's file_size_limit and the client's MAX_MARKDOWN_BYTES.
+export const MAX_DOCUMENT_BODY_BYTES = 5 * 1024 * 1024;
+
+export async function hashDocumentBody(markdown: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(markdown));
+
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, "0")).join("");
+}
+
+/** Bodies are content-addressed per user: `<user_id>/<sha256>.md`. */
+export function documentBodyPath(userId: string, contentHash: string): string {
+  return `${userId}/${contentHash}.md`;
+}
+
+/** Returns the inline body of a not-yet-migrated row, otherwise downloads it from Storage. */
+export async function loadDocumentBody(
+  supabase: SupabaseClient,
+  row: { user_id: string; markdown: string | null; content_hash: string },
+): Promise<string> {
+  if (row.markdown !== null) return row.markdown;
+
+  const { data, error } = await supabase.storage
+    .from(DOCUMENT_BODIES_BUCKET)
+    .download(documentBodyPath(row.user_id, row.content_hash));
+
+  if (error) throw new Error(error.message);
+
+  return await data.text();
+}
+
+/** Uploads a body unless an identical one is already stored. */
+export async function storeDocumentBody(
+  supabase: SupabaseClient,
+  userId: string,
+  contentHash: string,
+  markdown: string,
+): Promise<void> {
+  const { error } = await supabase.storage
+    .from(DOCUMENT_BODIES_BUCKET)
+    .upload(documentBodyPath(userId, contentHash), new Blob([markdown], { type: "text/markdown" }), {
+      contentType: "text/markdown",
+      upsert: true,
+    });
+
+  if (error) throw new Error(error.message);
+}
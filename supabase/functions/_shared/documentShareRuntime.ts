@@ -0,0 +1,171 @@
+import type { SupabaseClient } from "npm:@supabase/supabase-js@2";
+import { getRequiredEnv } from "./projectRuntime.ts";
+
+const SHARE_TOKEN_BYTES = 24;
+const SHARE_TOKEN_PREFIX_LENGTH = 6;
+const PASSWORD_SALT_BYTES = 16;
+const PASSWORD_HASH_ITERATIONS = 210_000;
+const PASSWORD_HASH_SCHEME = "pbkdf2-sha256";
+
+export const SHARE_SELECT_COLUMNS =
+  "id, document_id, token_prefix, password_hash, expires_at, revoked_at, access_count, last_accessed_at, created_at";
+
+export interface DocumentShareRow {
+  id: string;
+  document_id: string;
+  token_prefix: string;
+  password_hash: string | null;
+  expires_at: string | null;
+  revoked_at: string | null;
+  access_count: number;
+  last_accessed_at: string | null;
+  created_at: string;
+}
+
+/** Client-facing share shape; never includes the token or password hash. */
+export function mapShareRow(row: DocumentShareRow) {
+  return {
+    id: row.id,
+    documentId: row.document_id,
+    tokenPrefix: row.token_prefix,
+    hasPassword: Boolean(row.password_hash),
+    expiresAt: row.expires_at,
+    revokedAt: row.revoked_at,
+    accessCount: row.access_count,
+    lastAccessedAt: row.last_accessed_at,
+    createdAt: row.created_at,
+  };
+}
+
+export function createShareToken(): { token: string; tokenPrefix: string } {
+  const token = encodeBase64Url(crypto.getRandomValues(new Uint8Array(SHARE_TOKEN_BYTES)));
+  return { token, tokenPrefix: token.slice(0, SHARE_TOKEN_PREFIX_LENGTH) };
+}
+
+export async function hashShareToken(token: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(token));
+  return encodeHex(new Uint8Array(digest));
+}
+
+/** Encodes as `pbkdf2-sha256$<iterations>$<salt>$<hash>` (base64url parts). */
+export async function hashSharePassword(password: string): Promise<string> {
+  const salt = crypto.getRandomValues(new Uint8Array(PASSWORD_SALT_BYTES));
+  const hash = await derivePasswordHash(password, salt, PASSWORD_HASH_ITERATIONS);
+
+  return [
+    PASSWORD_HASH_SCHEME,
+    String(PASSWORD_HASH_ITERATIONS),
+    encodeBase64Url(salt),
+    encodeBase64Url(hash),
+  ].join("$");
+}
+
+export async function verifySharePassword(password: string, storedHash: string): Promise<boolean> {
+  const [scheme, iterationsText, saltText, hashText] = storedHash.split("$");
+  const iterations = Number(iterationsText);
+
+  if (scheme !== PASSWORD_HASH_SCHEME || !Number.isInteger(iterations) || !saltText || !hashText) {
+    return false;
+  }
+
+  const expected = decodeBase64Url(hashText);
+  const actual = await derivePasswordHash(password, decodeBase64Url(saltText), iterations);
+
+  return timingSafeEqual(actual, expected);
+}
+
+/**
+ * Keyed with a server-only secret: audit logs are readable by share owners,
+ * and a plain hash of an IPv4 address can be reversed by hashing them all.
+ */
+export async function hashClientIp(req: Request): Promise<string | null> {
+  // Earlier hops are whatever the caller sent; the last one is added by the platform.
+  const forwardedFor = req.headers.get("x-forwarded-for")?.split(",").at(-1)?.trim();
+  const clientIp = forwardedFor || req.headers.get("x-real-ip")?.trim();
+  if (!clientIp) return null;
+
+  const key = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(getRequiredEnv("DOCUMENT_SHARE_IP_HASH_SECRET")),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"],
+  );
+  const signature = await crypto.subtle.sign("HMAC", key, new TextEncoder().encode(clientIp));
+
+  return encodeHex(new Uint8Array(signature));
+}
+
+export async function writeDocumentShareAuditLog(args: {
+  supabase: SupabaseClient;
+  shareId?: string;
+  documentId?: string;
+  userId?: string;
+  clientIpHash?: string | null;
+  action: string;
+  result: string;
+  details?: Record<string, unknown>;
+}) {
+  await args.supabase.from("document_share_audit_logs").insert({
+    share_id: args.shareId ?? null,
+    document_id: args.documentId ?? null,
+    user_id: args.userId ?? null,
+    client_ip_hash: args.clientIpHash ?? null,
+    action: args.action,
+    result: args.result,
+    details: args.details ?? null,
+  });
+}
+
+async function derivePasswordHash(
+  password: string,
+  salt: Uint8Array,
+  iterations: number,
+): Promise<Uint8Array> {
+  const key = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(password),
+    "PBKDF2",
+    false,
+    ["deriveBits"],
+  );
+  const bits = await crypto.subtle.deriveBits(
+    { name: "PBKDF2", hash: "SHA-256", salt, iterations },
+    key,
+    256,
+  );
+
+  return new Uint8Array(bits);
+}
+
+function timingSafeEqual(left: Uint8Array, right: Uint8Array): boolean {
+  if (left.length !== right.length) return false;
+
+  let difference = 0;
+  for (let index = 0; index < left.length; index += 1) {
+    difference |= left[index] ^ right[index];
+  }
+
+  return difference === 0;
+}
+
+function encodeHex(bytes: Uint8Array): string {
+  return Array.from(bytes, (byte) => byte.toString(16).padStart(2, "0")).join("");
+}
+
+function encodeBase64Url(bytes: Uint8Array): string {
+  let binary = "";
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte);
+  }
+
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function decodeBase64Url(value: string): Uint8Array {
+  const base64 = value.replace(/-/g, "+").replace(/_/g, "/");
+  const padded = base64.padEnd(Math.ceil(base64.length / 4) * 4, "=");
+  const binary = atob(padded);
+
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+}
@@ -0,0 +1,90 @@
+/*
+ * Server copy of the front-matter parser in src/lib/frontMatter.ts, used to
+ * index bodies that live in Storage. Keep the two in step.
+ */
+
+export type FrontMatterValue = string | string[];
+
+export type FrontMatterData = Record<string, FrontMatterValue>;
+
+const FENCE_PATTERN = /^---\s*$/;
+const CLOSING_FENCE_PATTERN = /^(---|\.\.\.)\s*$/;
+const ENTRY_PATTERN = /^([A-Za-z0-9_-]+)\s*:\s*(.*)$/;
+const NESTED_ENTRY_PATTERN = /^\s+([A-Za-z0-9_-]+)\s*:\s*(.*)$/;
+const LIST_ITEM_PATTERN = /^\s*-\s+(.*)$/;
+const INLINE_LIST_PATTERN = /^\[(.*)\]$/;
+const COMMENT_PATTERN = /^\s*(#.*)?$/;
+
+/** The front-matter fields of a document, or none when it has no block. */
+export function readFrontMatterData(markdown: string): FrontMatterData {
+  const lines = markdown.split(/\r?\n/);
+  if (!FENCE_PATTERN.test(lines[0] ?? "")) return {};
+
+  const data: FrontMatterData = {};
+  let openKey: string | null = null;
+
+  for (let index = 1; index < lines.length; index += 1) {
+    const line = lines[index] ?? "";
+
+    if (CLOSING_FENCE_PATTERN.test(line)) return data;
+    if (COMMENT_PATTERN.test(line)) continue;
+
+    const listItem = openKey ? LIST_ITEM_PATTERN.exec(line) : null;
+    if (listItem && openKey) {
+      const items = data[openKey];
+      data[openKey] = [...(Array.isArray(items) ? items : []), unquote(listItem[1].trim())];
+      continue;
+    }
+
+    const nestedEntry = openKey ? NESTED_ENTRY_PATTERN.exec(line) : null;
+    if (nestedEntry && openKey) {
+      if (Array.isArray(data[openKey])) continue;
+      delete data[openKey];
+      data[`${openKey}.${nestedEntry[1].toLowerCase()}`] = parseValue(nestedEntry[2].trim());
+      continue;
+    }
+
+    const match = ENTRY_PATTERN.exec(line);
+    openKey = null;
+    if (!match) continue;
+
+    const key = match[1].toLowerCase();
+    const rawValue = match[2].trim();
+
+    if (rawValue) {
+      data[key] = parseValue(rawValue);
+    } else {
+      data[key] = "";
+      openKey = key;
+    }
+  }
+
+  // An unterminated fence is just a thematic break followed by content.
+  return {};
+}
+
+function parseValue(rawValue: string): FrontMatterValue {
+  const inlineList = INLINE_LIST_PATTERN.exec(rawValue);
+  if (!inlineList) return unquote(stripTrailingComment(rawValue));
+
+  return inlineList[1]
+    .split(",")
+    .map((item) => unquote(item.trim()))
+    .filter((item) => item.length > 0);
+}
+
+function stripTrailingComment(value: string): string {
+  if (value.startsWith("\"") || value.startsWith("'")) return value;
+  return value.replace(/\s+#.*$/, "");
+}
+
+function unquote(value: string): string {
+  if (value.length >= 2) {
+    const first = value[0];
+    const last = value[value.length - 1];
+    if ((first === "\"" || first === "'") && first === last) {
+      return value.slice(1, -1);
+    }
+  }
+  return value;
+}
@@ -0,0 +1,208 @@
+import { serve } from "https://deno.land/std@0.224.0/http/server.ts";
+import type { SupabaseClient } from "npm:@supabase/supabase-js@2";
+import {
+  createServiceClient,
+  errorResponse,
+  getRequiredEnv,
+  jsonResponse,
+  preflightResponse,
+} from "../_shared/projectRuntime.ts";
+import { loadDocumentBody, storeDocumentBody } from "../_shared/documentBodyRuntime.ts";
+import { readFrontMatterData } from "../_shared/frontMatterRuntime.ts";
+
+type MigrationTask = "documents" | "document_revisions" | "front-matter";
+
+interface MigrationFailure {
+  task: MigrationTask;
+  id: string;
+  message: string;
+}
+
+const BATCH_SIZE = 50;
+
+// One-off backfill for 202610190006_document_bodies_storage.sql, which copies
+// inline bodies to Storage and clears the column, and for
+// 202610190013_document_front_matter_backfill.sql, which indexes the
+// front-matter of documents saved before it was stored. Each call handles one
+// batch of each; call it until `remaining` is 0. Safe to re-run.
+//
+// Rows that fail are recorded in document_body_migration_failures and skipped
+// from then on; `skipped` counts them. Delete their rows there to retry them.
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return preflightResponse();
+  }
+
+  if (req.method !== "POST") {
+    return errorResponse("Method not allowed.", 405);
+  }
+
+  try {
+    const providedSecret = req.headers.get("x-migrate-secret") ?? "";
+    const expectedSecret = getRequiredEnv("DOCUMENT_BODY_MIGRATE_SECRET");
+
+    if (!providedSecret || providedSecret !== expectedSecret) {
+      return errorResponse("Unauthorized.", 401);
+    }
+
+    const supabase = createServiceClient();
+    const skippedIds = await loadSkippedIds(supabase);
+    let migrated = 0;
+    const failures: MigrationFailure[] = [];
+
+    const recordFailure = async (task: MigrationTask, id: string, error: unknown) => {
+      const failure = {
+        task,
+        id,
+        message: error instanceof Error ? error.message : "Migration failed.",
+      };
+      failures.push(failure);
+
+      const { error: recordError } = await supabase
+        .from("document_body_migration_failures")
+        .upsert({ task, row_id: id, message: failure.message }, { onConflict: "task,row_id" });
+
+      if (recordError) throw new Error(recordError.message);
+    };
+
+    for (const table of ["documents", "document_revisions"] as const) {
+      const { data: rows, error: rowsError } = await excludeIds(
+        supabase
+          .from(table)
+          .select("id, user_id, markdown, content_hash")
+          .not("markdown", "is", null),
+        skippedIds[table],
+      ).limit(BATCH_SIZE);
+
+      if (rowsError) throw new Error(rowsError.message);
+
+      for (const row of rows ?? []) {
+        const id = row.id as string;
+
+        try {
+          await storeDocumentBody(
+            supabase,
+            row.user_id as string,
+            row.content_hash as string,
+            row.markdown as string,
+          );
+
+          // Matching on the hash skips rows that were edited since they were read.
+          const { error: updateError } = await supabase
+            .from(table)
+            .update({ markdown: null })
+            .eq("id", id)
+            .eq("content_hash", row.content_hash as string);
+
+          if (updateError) throw new Error(updateError.message);
+
+          migrated += 1;
+        } catch (error) {
+          await recordFailure(table, id, error);
+        }
+      }
+    }
+
+    const { data: unindexedRows, error: unindexedError } = await excludeIds(
+      supabase
+        .from("documents")
+        .select("id, user_id, markdown, content_hash")
+        .is("front_matter", null),
+      skippedIds["front-matter"],
+    ).limit(BATCH_SIZE);
+
+    if (unindexedError) throw new Error(unindexedError.message);
+
+    for (const row of unindexedRows ?? []) {
+      const id = row.id as string;
+
+      try {
+        const markdown = await loadDocumentBody(supabase, {
+          user_id: row.user_id as string,
+          markdown: row.markdown as string | null,
+          content_hash: row.content_hash as string,
+        });
+
+        // A save since the read has already indexed the new body.
+        const { error: updateError } = await supabase
+          .from("documents")
+          .update({ front_matter: readFrontMatterData(markdown) })
+          .eq("id", id)
+          .eq("content_hash", row.content_hash as string)
+          .is("front_matter", null);
+
+        if (updateError) throw new Error(updateError.message);
+
+        migrated += 1;
+      } catch (error) {
+        await recordFailure("front-matter", id, error);
+      }
+    }
+
+    // Counted after this batch's failures were recorded, so they are no longer remaining.
+    const finalSkippedIds = await loadSkippedIds(supabase);
+    const counts = await Promise.all([
+      ...(["documents", "document_revisions"] as const).map((table) =>
+        excludeIds(
+          supabase
+            .from(table)
+            .select("id", { count: "exact", head: true })
+            .not("markdown", "is", null),
+          finalSkippedIds[table],
+        )
+      ),
+      excludeIds(
+        supabase
+          .from("documents")
+          .select("id", { count: "exact", head: true })
+          .is("front_matter", null),
+        finalSkippedIds["front-matter"],
+      ),
+    ]);
+
+    let remaining = 0;
+    for (const { count, error } of counts) {
+      if (error) throw new Error(error.message);
+      remaining += count ?? 0;
+    }
+
+    return jsonResponse({
+      migrated,
+      failed: failures.length,
+      failures,
+      remaining,
+      skipped: Object.values(finalSkippedIds).reduce((total, ids) => total + ids.length, 0),
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Migration failed.";
+    return errorResponse(message, 500);
+  }
+});
+
+async function loadSkippedIds(supabase: SupabaseClient): Promise<Record<MigrationTask, string[]>> {
+  const { data, error } = await supabase
+    .from("document_body_migration_failures")
+    .select("task, row_id");
+
+  if (error) throw new Error(error.message);
+
+  const skippedIds: Record<MigrationTask, string[]> = {
+    "documents": [],
+    "document_revisions": [],
+    "front-matter": [],
+  };
+  for (const row of data ?? []) {
+    skippedIds[row.task as MigrationTask]?.push(row.row_id as string);
+  }
+
+  return skippedIds;
+}
+
+interface FilterableQuery<Self> {
+  not(column: string, operator: string, value: unknown): Self;
+}
+
+function excludeIds<Query extends FilterableQuery<Query>>(query: Query, ids: string[]): Query {
+  if (ids.length === 0) return query;
+  return query.not("id", "in", `(${ids.map((id) => `"${id}"`).join(",")})`);
+}
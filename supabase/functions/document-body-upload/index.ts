@@ -0,0 +1,84 @@
+import { serve } from "https://deno.land/std@0.224.0/http/server.ts";
+import {
+  createServiceClient,
+  errorResponse,
+  jsonResponse,
+  preflightResponse,
+  requireProjectUser,
+} from "../_shared/projectRuntime.ts";
+import {
+  DOCUMENT_BODIES_BUCKET,
+  MAX_DOCUMENT_BODY_BYTES,
+  documentBodyPath,
+  hashDocumentBody,
+} from "../_shared/documentBodyRuntime.ts";
+
+interface UploadBodyRequest {
+  markdown?: string;
+}
+
+const STORAGE_QUOTA_ERROR_CODE = "QT001";
+
+// The only way bodies get into the bucket: the hash is computed here and the
+// upload is checked against everything the user already stores, so a client
+// cannot park data in Storage outside the quota.
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return preflightResponse();
+  }
+
+  if (req.method !== "POST") {
+    return errorResponse("Method not allowed.", 405);
+  }
+
+  try {
+    const { user } = await requireProjectUser(req);
+    const adminSupabase = createServiceClient();
+    const body = await req.json() as UploadBodyRequest;
+
+    if (typeof body.markdown !== "string") return errorResponse("markdown is required.", 400);
+
+    const blob = new Blob([body.markdown], { type: "text/markdown" });
+    if (blob.size > MAX_DOCUMENT_BODY_BYTES) {
+      return errorResponse("Document exceeds the 5 MB limit.", 413);
+    }
+
+    const contentHash = await hashDocumentBody(body.markdown);
+    const path = documentBodyPath(user.id, contentHash);
+    const bucket = adminSupabase.storage.from(DOCUMENT_BODIES_BUCKET);
+
+    // An identical body (an unchanged save, a restored revision) is already paid for.
+    const { data: exists } = await bucket.exists(path);
+    if (exists) return jsonResponse({ contentHash, isNew: false });
+
+    const { error: quotaError } = await adminSupabase.rpc("assert_document_body_quota", {
+      p_user_id: user.id,
+      p_size_bytes: blob.size,
+    });
+
+    if (quotaError) {
+      if (quotaError.code !== STORAGE_QUOTA_ERROR_CODE) throw new Error(quotaError.message);
+      // Same shape as a PostgREST error, so the client handles both alike.
+      return jsonResponse(
+        { error: quotaError.message, code: quotaError.code, details: quotaError.details },
+        413,
+      );
+    }
+
+    const { error: uploadError } = await bucket.upload(path, blob, {
+      contentType: "text/markdown",
+      upsert: false,
+    });
+
+    if (uploadError) {
+      // Another tab uploaded the same body in the meantime.
+      if (/exists|duplicate/i.test(uploadError.message)) return jsonResponse({ contentHash, isNew: false });
+      throw new Error(uploadError.message);
+    }
+
+    return jsonResponse({ contentHash, isNew: true });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Failed to upload document body.";
+    return errorResponse(message, 500);
+  }
+});
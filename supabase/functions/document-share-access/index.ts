@@ -0,0 +1,174 @@
+import { serve } from "https://deno.land/std@0.224.0/http/server.ts";
+import type { SupabaseClient } from "npm:@supabase/supabase-js@2";
+import {
+  createServiceClient,
+  errorResponse,
+  jsonResponse,
+  preflightResponse,
+} from "../_shared/projectRuntime.ts";
+import {
+  hashClientIp,
+  hashShareToken,
+  verifySharePassword,
+  writeDocumentShareAuditLog,
+} from "../_shared/documentShareRuntime.ts";
+import { loadDocumentBody } from "../_shared/documentBodyRuntime.ts";
+
+interface AccessShareBody {
+  token?: string;
+  password?: string | null;
+}
+
+const PASSWORD_ATTEMPT_WINDOW_MS = 15 * 60 * 1000;
+// Per share and client. Callers without an address share one bucket per share,
+// so the larger limit; it never applies to identified clients, who could
+// otherwise lock everyone else out of the share.
+const MAX_FAILED_PASSWORDS_PER_CLIENT = 5;
+const MAX_FAILED_PASSWORDS_WITHOUT_ADDRESS = 50;
+
+// Callers are anonymous, so every lookup goes through the service client and
+// only the shared document's name and body are ever returned. Every outcome,
+// including errors, is written to the audit log.
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return preflightResponse();
+  }
+
+  if (req.method !== "POST") {
+    return errorResponse("Method not allowed.", 405);
+  }
+
+  const adminSupabase = createServiceClient();
+  const clientIpHash = await hashClientIp(req);
+  let auditBase: Parameters<typeof writeDocumentShareAuditLog>[0] = {
+    supabase: adminSupabase,
+    clientIpHash,
+    action: "document-share-access",
+    result: "denied",
+  };
+
+  try {
+    const body = await req.json() as AccessShareBody;
+    const token = body.token?.trim() ?? "";
+    const password = body.password ?? "";
+
+    if (!token) {
+      await writeDocumentShareAuditLog({ ...auditBase, details: { reason: "missing-token" } });
+      return errorResponse("token is required.", 400);
+    }
+
+    const { data: shareRow, error: shareError } = await adminSupabase
+      .from("document_shares")
+      .select("id, document_id, user_id, password_hash, expires_at, revoked_at")
+      .eq("token_hash", await hashShareToken(token))
+      .maybeSingle();
+
+    if (shareError) throw new Error(shareError.message);
+    if (!shareRow) {
+      await writeDocumentShareAuditLog({ ...auditBase, details: { reason: "not-found" } });
+      return errorResponse("Share link not found.", 404);
+    }
+
+    const shareId = shareRow.id as string;
+    const documentId = shareRow.document_id as string;
+    const ownerId = shareRow.user_id as string;
+    auditBase = { ...auditBase, shareId, documentId, userId: ownerId };
+
+    if (shareRow.revoked_at) {
+      await writeDocumentShareAuditLog({ ...auditBase, details: { reason: "revoked" } });
+      return errorResponse("This share link has been revoked.", 410);
+    }
+
+    const expiresAt = shareRow.expires_at as string | null;
+    if (expiresAt && new Date(expiresAt).getTime() <= Date.now()) {
+      await writeDocumentShareAuditLog({ ...auditBase, details: { reason: "expired" } });
+      return errorResponse("This share link has expired.", 410);
+    }
+
+    const passwordHash = shareRow.password_hash as string | null;
+    if (passwordHash) {
+      if (!password) {
+        await writeDocumentShareAuditLog({ ...auditBase, details: { reason: "password-required" } });
+        return jsonResponse({ error: "This document is password protected.", code: "password_required" }, 401);
+      }
+
+      if (await isPasswordThrottled(adminSupabase, shareId, clientIpHash)) {
+        await writeDocumentShareAuditLog({ ...auditBase, details: { reason: "rate-limited" } });
+        return jsonResponse(
+          { error: "Too many incorrect passwords. Try again in a few minutes.", code: "too_many_attempts" },
+          429,
+        );
+      }
+
+      if (!(await verifySharePassword(password, passwordHash))) {
+        await writeDocumentShareAuditLog({ ...auditBase, details: { reason: "invalid-password" } });
+        return jsonResponse({ error: "Incorrect password.", code: "invalid_password" }, 403);
+      }
+    }
+
+    const { data: documentRow, error: documentError } = await adminSupabase
+      .from("documents")
+      .select("user_id, name, markdown, content_hash, updated_at")
+      .eq("id", documentId)
+      .eq("user_id", ownerId)
+      .maybeSingle();
+
+    if (documentError) throw new Error(documentError.message);
+    if (!documentRow) {
+      await writeDocumentShareAuditLog({ ...auditBase, details: { reason: "document-missing" } });
+      return errorResponse("Shared document no longer exists.", 404);
+    }
+
+    const markdown = await loadDocumentBody(adminSupabase, {
+      user_id: documentRow.user_id as string,
+      markdown: documentRow.markdown as string | null,
+      content_hash: documentRow.content_hash as string,
+    });
+
+    const { error: counterError } = await adminSupabase.rpc("record_document_share_access", {
+      p_share_id: shareId,
+    });
+
+    if (counterError) throw new Error(counterError.message);
+
+    await writeDocumentShareAuditLog({ ...auditBase, result: "success" });
+
+    return jsonResponse({
+      document: {
+        name: documentRow.name as string,
+        markdown,
+        updatedAt: documentRow.updated_at as string,
+      },
+      expiresAt,
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Failed to open share link.";
+    await writeDocumentShareAuditLog({ ...auditBase, result: "error", details: { message } }).catch(() => {});
+    return errorResponse(message, 500);
+  }
+});
+
+/** Counts recent wrong passwords from the audit log for this client, or for all callers without an address. */
+async function isPasswordThrottled(
+  supabase: SupabaseClient,
+  shareId: string,
+  clientIpHash: string | null,
+): Promise<boolean> {
+  const since = new Date(Date.now() - PASSWORD_ATTEMPT_WINDOW_MS).toISOString();
+  const failedAttempts = supabase
+    .from("document_share_audit_logs")
+    .select("id", { count: "exact", head: true })
+    .eq("share_id", shareId)
+    .eq("action", "document-share-access")
+    .eq("details->>reason", "invalid-password")
+    .gte("created_at", since);
+
+  const { count, error } = clientIpHash
+    ? await failedAttempts.eq("client_ip_hash", clientIpHash)
+    : await failedAttempts.is("client_ip_hash", null);
+
+  if (error) throw new Error(error.message);
+
+  const limit = clientIpHash ? MAX_FAILED_PASSWORDS_PER_CLIENT : MAX_FAILED_PASSWORDS_WITHOUT_ADDRESS;
+  return (count ?? 0) >= limit;
+}
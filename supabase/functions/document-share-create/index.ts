@@ -0,0 +1,119 @@
+import { serve } from "https://deno.land/std@0.224.0/http/server.ts";
+import {
+  createServiceClient,
+  errorResponse,
+  jsonResponse,
+  preflightResponse,
+  requireProjectUser,
+} from "../_shared/projectRuntime.ts";
+import {
+  SHARE_SELECT_COLUMNS,
+  createShareToken,
+  hashSharePassword,
+  hashShareToken,
+  mapShareRow,
+  writeDocumentShareAuditLog,
+  type DocumentShareRow,
+} from "../_shared/documentShareRuntime.ts";
+
+interface CreateShareBody {
+  documentId?: string;
+  expiresAt?: string | null;
+  password?: string | null;
+}
+
+const MIN_PASSWORD_LENGTH = 4;
+const MAX_PASSWORD_LENGTH = 128;
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return preflightResponse();
+  }
+
+  if (req.method !== "POST") {
+    return errorResponse("Method not allowed.", 405);
+  }
+
+  try {
+    const { supabase, user } = await requireProjectUser(req);
+    const adminSupabase = createServiceClient();
+    const body = await req.json() as CreateShareBody;
+    const documentId = body.documentId?.trim() ?? "";
+    const password = body.password ?? "";
+    const expiresAt = body.expiresAt ? new Date(body.expiresAt) : null;
+
+    if (!documentId) return errorResponse("documentId is required.", 400);
+    if (expiresAt && Number.isNaN(expiresAt.getTime())) {
+      return errorResponse("expiresAt must be an ISO date.", 400);
+    }
+    if (expiresAt && expiresAt.getTime() <= Date.now()) {
+      return errorResponse("Expiry must be in the future.", 400);
+    }
+    if (password && (password.length < MIN_PASSWORD_LENGTH || password.length > MAX_PASSWORD_LENGTH)) {
+      return errorResponse(
+        `Password must be ${MIN_PASSWORD_LENGTH}-${MAX_PASSWORD_LENGTH} characters.`,
+        400,
+      );
+    }
+
+    const { data: documentRow, error: documentError } = await supabase
+      .from("documents")
+      .select("id")
+      .eq("id", documentId)
+      .eq("user_id", user.id)
+      .maybeSingle();
+
+    if (documentError) throw new Error(documentError.message);
+    if (!documentRow) return errorResponse("Document not found.", 404);
+
+    const { token, tokenPrefix } = createShareToken();
+
+    const { data: shareRow, error: insertError } = await adminSupabase
+      .from("document_shares")
+      .insert({
+        document_id: documentId,
+        user_id: user.id,
+        token_hash: await hashShareToken(token),
+        token_prefix: tokenPrefix,
+        password_hash: password ? await hashSharePassword(password) : null,
+        expires_at: expiresAt?.toISOString() ?? null,
+      })
+      .select(SHARE_SELECT_COLUMNS)
+      .single();
+
+    if (insertError) {
+      await writeDocumentShareAuditLog({
+        supabase: adminSupabase,
+        documentId,
+        userId: user.id,
+        action: "document-share-create",
+        result: "error",
+        details: {
+          message: insertError.message,
+        },
+      });
+      throw new Error(insertError.message);
+    }
+
+    const share = mapShareRow(shareRow as DocumentShareRow);
+
+    await writeDocumentShareAuditLog({
+      supabase: adminSupabase,
+      shareId: share.id,
+      documentId,
+      userId: user.id,
+      action: "document-share-create",
+      result: "success",
+      details: {
+        hasPassword: share.hasPassword,
+        expiresAt: share.expiresAt,
+      },
+    });
+
+    // The raw token is returned exactly once; only its hash is stored.
+    return jsonResponse({ share, token });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Failed to create share link.";
+    return errorResponse(message, 500);
+  }
+});
@@ -0,0 +1,89 @@
+import { serve } from "https://deno.land/std@0.224.0/http/server.ts";
+import {
+  createServiceClient,
+  errorResponse,
+  jsonResponse,
+  preflightResponse,
+  requireProjectUser,
+} from "../_shared/projectRuntime.ts";
+import {
+  SHARE_SELECT_COLUMNS,
+  mapShareRow,
+  writeDocumentShareAuditLog,
+  type DocumentShareRow,
+} from "../_shared/documentShareRuntime.ts";
+
+interface RevokeShareBody {
+  shareId?: string;
+}
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return preflightResponse();
+  }
+
+  if (req.method !== "POST") {
+    return errorResponse("Method not allowed.", 405);
+  }
+
+  try {
+    const { supabase, user } = await requireProjectUser(req);
+    const adminSupabase = createServiceClient();
+    const body = await req.json() as RevokeShareBody;
+    const shareId = body.shareId?.trim() ?? "";
+
+    if (!shareId) return errorResponse("shareId is required.", 400);
+
+    const { data: existingRow, error: existingError } = await supabase
+      .from("document_shares")
+      .select(SHARE_SELECT_COLUMNS)
+      .eq("id", shareId)
+      .eq("user_id", user.id)
+      .maybeSingle();
+
+    if (existingError) throw new Error(existingError.message);
+    if (!existingRow) return errorResponse("Share link not found.", 404);
+
+    const existingShare = existingRow as DocumentShareRow;
+    if (existingShare.revoked_at) {
+      return jsonResponse({ share: mapShareRow(existingShare) });
+    }
+
+    const { data: revokedRow, error: revokeError } = await adminSupabase
+      .from("document_shares")
+      .update({ revoked_at: new Date().toISOString() })
+      .eq("id", shareId)
+      .eq("user_id", user.id)
+      .select(SHARE_SELECT_COLUMNS)
+      .single();
+
+    if (revokeError) {
+      await writeDocumentShareAuditLog({
+        supabase: adminSupabase,
+        shareId,
+        documentId: existingShare.document_id,
+        userId: user.id,
+        action: "document-share-revoke",
+        result: "error",
+        details: {
+          message: revokeError.message,
+        },
+      });
+      throw new Error(revokeError.message);
+    }
+
+    await writeDocumentShareAuditLog({
+      supabase: adminSupabase,
+      shareId,
+      documentId: existingShare.document_id,
+      userId: user.id,
+      action: "document-share-revoke",
+      result: "success",
+    });
+
+    return jsonResponse({ share: mapShareRow(revokedRow as DocumentShareRow) });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Failed to revoke share link.";
+    return errorResponse(message, 500);
+  }
+});
@@ -0,0 +1,61 @@
+create table if not exists public.document_revisions (
+  id uuid primary key default gen_random_uuid(),
+  document_id text not null references public.documents(id) on delete cascade,
+  user_id uuid not null references auth.users(id) on delete cascade,
+  revision_number integer not null,
+  name text not null,
+  markdown text not null,
+  size_bytes bigint not null check (size_bytes >= 0),
+  created_at timestamptz not null default timezone('utc', now())
+);
+
+create unique index if not exists document_revisions_document_id_revision_number_idx
+on public.document_revisions (document_id, revision_number);
+
+create index if not exists document_revisions_user_id_idx
+on public.document_revisions (user_id);
+
+create or replace function public.set_document_revision_number()
+returns trigger
+language plpgsql
+as $$
+begin
+  select coalesce(max(revision_number), 0) + 1
+  into new.revision_number
+  from public.document_revisions
+  where document_id = new.document_id;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists set_document_revisions_revision_number on public.document_revisions;
+create trigger set_document_revisions_revision_number
+before insert on public.document_revisions
+for each row
+execute function public.set_document_revision_number();
+
+-- Seed history with the current body of every existing document.
+insert into public.document_revisions (document_id, user_id, name, markdown, size_bytes, created_at)
+select d.id, d.user_id, d.name, d.markdown, d.size_bytes, d.updated_at
+from public.documents d
+where not exists (
+  select 1 from public.document_revisions r where r.document_id = d.id
+);
+
+alter table public.document_revisions enable row level security;
+
+create policy "users can read own document revisions"
+on public.document_revisions
+for select
+using (auth.uid() = user_id);
+
+create policy "users can create own document revisions"
+on public.document_revisions
+for insert
+with check (auth.uid() = user_id);
+
+create policy "users can delete own document revisions"
+on public.document_revisions
+for delete
+using (auth.uid() = user_id);
@@ -0,0 +1,72 @@
+create table if not exists public.document_folders (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users(id) on delete cascade,
+  name text not null check (char_length(name) between 1 and 80),
+  created_at timestamptz not null default timezone('utc', now()),
+  updated_at timestamptz not null default timezone('utc', now())
+);
+
+create unique index if not exists document_folders_user_id_name_idx
+on public.document_folders (user_id, lower(name));
+
+drop trigger if exists set_document_folders_updated_at on public.document_folders;
+create trigger set_document_folders_updated_at
+before update on public.document_folders
+for each row
+execute function public.set_updated_at();
+
+alter table public.documents
+add column if not exists folder_id uuid references public.document_folders(id) on delete set null;
+
+create index if not exists documents_folder_id_idx
+on public.documents (folder_id);
+
+create table if not exists public.document_tags (
+  document_id text not null references public.documents(id) on delete cascade,
+  user_id uuid not null references auth.users(id) on delete cascade,
+  tag text not null check (char_length(tag) between 1 and 40),
+  created_at timestamptz not null default timezone('utc', now()),
+  primary key (document_id, tag)
+);
+
+create index if not exists document_tags_user_id_tag_idx
+on public.document_tags (user_id, tag);
+
+alter table public.document_folders enable row level security;
+alter table public.document_tags enable row level security;
+
+create policy "users can read own document folders"
+on public.document_folders
+for select
+using (auth.uid() = user_id);
+
+create policy "users can create own document folders"
+on public.document_folders
+for insert
+with check (auth.uid() = user_id);
+
+create policy "users can update own document folders"
+on public.document_folders
+for update
+using (auth.uid() = user_id)
+with check (auth.uid() = user_id);
+
+create policy "users can delete own document folders"
+on public.document_folders
+for delete
+using (auth.uid() = user_id);
+
+create policy "users can read own document tags"
+on public.document_tags
+for select
+using (auth.uid() = user_id);
+
+create policy "users can create own document tags"
+on public.document_tags
+for insert
+with check (auth.uid() = user_id);
+
+create policy "users can delete own document tags"
+on public.document_tags
+for delete
+using (auth.uid() = user_id);
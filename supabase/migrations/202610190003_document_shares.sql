@@ -0,0 +1,45 @@
+-- Public share links for documents. Tokens and passwords are only ever stored
+-- hashed; the edge functions (service role) are the only writers.
+create table if not exists public.document_shares (
+  id uuid primary key default gen_random_uuid(),
+  document_id text not null references public.documents(id) on delete cascade,
+  user_id uuid not null references auth.users(id) on delete cascade,
+  token_hash text not null unique,
+  token_prefix text not null,
+  password_hash text,
+  expires_at timestamptz,
+  revoked_at timestamptz,
+  access_count integer not null default 0,
+  last_accessed_at timestamptz,
+  created_at timestamptz not null default timezone('utc', now())
+);
+
+create table if not exists public.document_share_audit_logs (
+  id bigserial primary key,
+  share_id uuid references public.document_shares(id) on delete set null,
+  document_id text,
+  user_id uuid references auth.users(id) on delete set null,
+  action text not null,
+  result text not null,
+  details jsonb,
+  created_at timestamptz not null default timezone('utc', now())
+);
+
+create index if not exists document_shares_document_id_created_at_idx
+on public.document_shares (document_id, created_at desc);
+
+create index if not exists document_share_audit_logs_share_id_created_at_idx
+on public.document_share_audit_logs (share_id, created_at desc);
+
+alter table public.document_shares enable row level security;
+alter table public.document_share_audit_logs enable row level security;
+
+create policy "users can read own document shares"
+on public.document_shares
+for select
+using (auth.uid() = user_id);
+
+create policy "users can read own document share audit logs"
+on public.document_share_audit_logs
+for select
+using (auth.uid() = user_id);
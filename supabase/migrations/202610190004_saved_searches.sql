@@ -0,0 +1,49 @@
+-- Named rows are saved searches; rows without a name are the user's recent-search history.
+create table if not exists public.saved_searches (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users(id) on delete cascade,
+  name text check (name is null or char_length(name) between 1 and 80),
+  query text not null check (char_length(query) between 1 and 500),
+  scope text not null default 'document' check (scope in ('document', 'library')),
+  options jsonb not null default '{}'::jsonb,
+  is_pinned boolean not null default false,
+  last_used_at timestamptz not null default timezone('utc', now()),
+  created_at timestamptz not null default timezone('utc', now()),
+  updated_at timestamptz not null default timezone('utc', now())
+);
+
+create unique index if not exists saved_searches_user_id_name_idx
+on public.saved_searches (user_id, lower(name))
+where name is not null;
+
+create index if not exists saved_searches_user_id_last_used_at_idx
+on public.saved_searches (user_id, last_used_at desc);
+
+drop trigger if exists set_saved_searches_updated_at on public.saved_searches;
+create trigger set_saved_searches_updated_at
+before update on public.saved_searches
+for each row
+execute function public.set_updated_at();
+
+alter table public.saved_searches enable row level security;
+
+create policy "users can read own saved searches"
+on public.saved_searches
+for select
+using (auth.uid() = user_id);
+
+create policy "users can create own saved searches"
+on public.saved_searches
+for insert
+with check (auth.uid() = user_id);
+
+create policy "users can update own saved searches"
+on public.saved_searches
+for update
+using (auth.uid() = user_id)
+with check (auth.uid() = user_id);
+
+create policy "users can delete own saved searches"
+on public.saved_searches
+for delete
+using (auth.uid() = user_id);
@@ -0,0 +1,147 @@
+-- Storage quota is enforced here rather than in the client. Every saved body is
+-- a row in document_revisions (the newest one mirrors the live document), so
+-- the revision bytes are the user's usage.
+create table if not exists public.user_storage_usage (
+  user_id uuid primary key references auth.users(id) on delete cascade,
+  used_bytes bigint not null default 0 check (used_bytes >= 0),
+  limit_bytes bigint not null default 104857600 check (limit_bytes >= 0),
+  updated_at timestamptz not null default timezone('utc', now())
+);
+
+drop trigger if exists set_user_storage_usage_updated_at on public.user_storage_usage;
+create trigger set_user_storage_usage_updated_at
+before update on public.user_storage_usage
+for each row
+execute function public.set_updated_at();
+
+-- Sizes come from the stored text, not from what the client reports.
+create or replace function public.set_document_size_bytes()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.size_bytes := octet_length(new.markdown);
+  return new;
+end;
+$$;
+
+drop trigger if exists set_documents_size_bytes on public.documents;
+create trigger set_documents_size_bytes
+before insert or update of markdown, size_bytes on public.documents
+for each row
+execute function public.set_document_size_bytes();
+
+drop trigger if exists set_document_revisions_size_bytes on public.document_revisions;
+create trigger set_document_revisions_size_bytes
+before insert on public.document_revisions
+for each row
+execute function public.set_document_size_bytes();
+
+-- Saving a document records its revision in the same statement, so a body
+-- that does not fit the quota rolls the whole save back.
+create or replace function public.record_document_revision()
+returns trigger
+language plpgsql
+as $$
+begin
+  if tg_op = 'UPDATE' and new.markdown is not distinct from old.markdown
+    and new.name is not distinct from old.name then
+    return new;
+  end if;
+
+  insert into public.document_revisions (document_id, user_id, name, markdown, size_bytes, created_at)
+  values (new.id, new.user_id, new.name, new.markdown, new.size_bytes, new.updated_at);
+
+  return new;
+end;
+$$;
+
+drop trigger if exists record_documents_revision on public.documents;
+create trigger record_documents_revision
+after insert or update of markdown, name on public.documents
+for each row
+execute function public.record_document_revision();
+
+-- Runs after insert so it sees the final size_bytes. The row lock serializes
+-- concurrent uploads from the same user, so two saves cannot both pass the
+-- check against the same starting usage. Raises QT001 with the numbers in
+-- `detail` as JSON for the client to format.
+create or replace function public.charge_storage_usage()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  usage public.user_storage_usage%rowtype;
+begin
+  insert into public.user_storage_usage (user_id)
+  values (new.user_id)
+  on conflict (user_id) do nothing;
+
+  select * into usage
+  from public.user_storage_usage
+  where user_id = new.user_id
+  for update;
+
+  if usage.used_bytes + new.size_bytes > usage.limit_bytes then
+    raise exception 'Storage quota exceeded'
+      using
+        errcode = 'QT001',
+        detail = json_build_object(
+          'usedBytes', usage.used_bytes,
+          'limitBytes', usage.limit_bytes,
+          'requestedBytes', new.size_bytes
+        )::text;
+  end if;
+
+  update public.user_storage_usage
+  set used_bytes = used_bytes + new.size_bytes
+  where user_id = new.user_id;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists charge_document_revisions_storage_usage on public.document_revisions;
+create trigger charge_document_revisions_storage_usage
+after insert on public.document_revisions
+for each row
+execute function public.charge_storage_usage();
+
+create or replace function public.refund_storage_usage()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  update public.user_storage_usage
+  set used_bytes = greatest(used_bytes - old.size_bytes, 0)
+  where user_id = old.user_id;
+
+  return old;
+end;
+$$;
+
+drop trigger if exists refund_document_revisions_storage_usage on public.document_revisions;
+create trigger refund_document_revisions_storage_usage
+after delete on public.document_revisions
+for each row
+execute function public.refund_storage_usage();
+
+-- Backfill from existing history.
+insert into public.user_storage_usage (user_id, used_bytes)
+select r.user_id, sum(r.size_bytes)
+from public.document_revisions r
+group by r.user_id
+on conflict (user_id) do update
+set used_bytes = excluded.used_bytes;
+
+alter table public.user_storage_usage enable row level security;
+
+-- Read-only for users; only the triggers above write to it.
+create policy "users can read own storage usage"
+on public.user_storage_usage
+for select
+using (auth.uid() = user_id);
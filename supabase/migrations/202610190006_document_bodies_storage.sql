@@ -0,0 +1,120 @@
+-- Markdown bodies move to the private `document-bodies` bucket at
+-- `<user_id>/<sha256>.md`. Rows keep metadata plus `content_hash`, so identical
+-- bodies (re-uploads, unchanged revisions, restores) share one object.
+-- Existing rows keep their inline `markdown` until the `document-body-migrate`
+-- function has copied it to Storage; readers accept either form.
+insert into storage.buckets (id, name, public)
+values ('document-bodies', 'document-bodies', false)
+on conflict (id) do nothing;
+
+create policy "users can read own document bodies"
+on storage.objects
+for select
+using (bucket_id = 'document-bodies' and (storage.foldername(name))[1] = auth.uid()::text);
+
+create policy "users can create own document bodies"
+on storage.objects
+for insert
+with check (bucket_id = 'document-bodies' and (storage.foldername(name))[1] = auth.uid()::text);
+
+create policy "users can delete own document bodies"
+on storage.objects
+for delete
+using (bucket_id = 'document-bodies' and (storage.foldername(name))[1] = auth.uid()::text);
+
+alter table public.documents
+  add column if not exists content_hash text,
+  alter column markdown drop not null;
+
+alter table public.document_revisions
+  add column if not exists content_hash text,
+  alter column markdown drop not null;
+
+update public.documents
+set content_hash = encode(digest(convert_to(markdown, 'UTF8'), 'sha256'), 'hex')
+where content_hash is null and markdown is not null;
+
+update public.document_revisions
+set content_hash = encode(digest(convert_to(markdown, 'UTF8'), 'sha256'), 'hex')
+where content_hash is null and markdown is not null;
+
+alter table public.documents
+  alter column content_hash set not null,
+  add constraint documents_content_hash_format check (content_hash ~ '^[0-9a-f]{64}$');
+
+alter table public.document_revisions
+  alter column content_hash set not null,
+  add constraint document_revisions_content_hash_format check (content_hash ~ '^[0-9a-f]{64}$');
+
+create index if not exists documents_user_id_content_hash_idx
+on public.documents (user_id, content_hash);
+
+create index if not exists document_revisions_user_id_content_hash_idx
+on public.document_revisions (user_id, content_hash);
+
+-- Inline bodies are hashed and measured here. Stored bodies are measured from
+-- the uploaded object, so neither the hash nor the size is taken on trust for
+-- quota purposes.
+create or replace function public.set_document_size_bytes()
+returns trigger
+language plpgsql
+security definer
+set search_path = public, extensions
+as $$
+declare
+  object_size bigint;
+begin
+  if new.markdown is not null then
+    new.content_hash := encode(digest(convert_to(new.markdown, 'UTF8'), 'sha256'), 'hex');
+    new.size_bytes := octet_length(new.markdown);
+    return new;
+  end if;
+
+  select (o.metadata ->> 'size')::bigint
+  into object_size
+  from storage.objects o
+  where o.bucket_id = 'document-bodies'
+    and o.name = new.user_id::text || '/' || new.content_hash || '.md';
+
+  if object_size is null then
+    raise exception 'Document body % has not been uploaded.', new.content_hash;
+  end if;
+
+  new.size_bytes := object_size;
+  return new;
+end;
+$$;
+
+drop trigger if exists set_documents_size_bytes on public.documents;
+create trigger set_documents_size_bytes
+before insert or update of markdown, content_hash, size_bytes on public.documents
+for each row
+execute function public.set_document_size_bytes();
+
+-- Moving a body from the row to Storage keeps its hash, so it is not a new revision.
+create or replace function public.record_document_revision()
+returns trigger
+language plpgsql
+as $$
+begin
+  if tg_op = 'UPDATE' and new.content_hash is not distinct from old.content_hash
+    and new.name is not distinct from old.name then
+    return new;
+  end if;
+
+  insert into public.document_revisions (
+    document_id, user_id, name, markdown, content_hash, size_bytes, created_at
+  )
+  values (
+    new.id, new.user_id, new.name, new.markdown, new.content_hash, new.size_bytes, new.updated_at
+  );
+
+  return new;
+end;
+$$;
+
+drop trigger if exists record_documents_revision on public.documents;
+create trigger record_documents_revision
+after insert or update of markdown, content_hash, name on public.documents
+for each row
+execute function public.record_document_revision();
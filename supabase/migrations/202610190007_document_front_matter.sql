@@ -0,0 +1,9 @@
+-- Parsed YAML front-matter of the current body, written by the client on save
+-- (bodies live in Storage, so the database cannot parse them itself). Rows
+-- saved before this column existed are backfilled by document-body-migrate.
+alter table public.documents
+  add column if not exists front_matter jsonb not null default '{}'::jsonb
+    check (jsonb_typeof(front_matter) = 'object');
+
+create index if not exists documents_front_matter_idx
+on public.documents using gin (front_matter jsonb_path_ops);
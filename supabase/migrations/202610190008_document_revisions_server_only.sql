@@ -0,0 +1,30 @@
+-- Revisions are written only by the `record_documents_revision` trigger, in the
+-- same statement as the document save, so clients can no longer insert (and
+-- forge) history themselves.
+drop policy if exists "users can create own document revisions" on public.document_revisions;
+
+-- The trigger inserts on the saving user's behalf now that they cannot.
+alter function public.record_document_revision()
+  security definer
+  set search_path = public, extensions;
+
+-- Locking the parent document serializes numbering per document, so two
+-- concurrent saves cannot both read the same max(revision_number).
+create or replace function public.set_document_revision_number()
+returns trigger
+language plpgsql
+as $$
+begin
+  perform 1
+  from public.documents
+  where id = new.document_id
+  for update;
+
+  select coalesce(max(revision_number), 0) + 1
+  into new.revision_number
+  from public.document_revisions
+  where document_id = new.document_id;
+
+  return new;
+end;
+$$;
@@ -0,0 +1,47 @@
+-- Tags and folders must belong to the same user as the document they are
+-- attached to. Checking only `user_id` let anyone tag a foreign document id,
+-- which then blocked its owner from adding that tag (primary key clash).
+drop policy if exists "users can create own document tags" on public.document_tags;
+
+create policy "users can create own document tags"
+on public.document_tags
+for insert
+with check (
+  auth.uid() = user_id
+  and exists (
+    select 1
+    from public.documents d
+    where d.id = document_id
+      and d.user_id = auth.uid()
+  )
+);
+
+-- Restrictive, so they apply on top of the existing documents policies.
+create policy "documents can only be filed in own folders"
+on public.documents
+as restrictive
+for insert
+with check (
+  folder_id is null
+  or exists (
+    select 1
+    from public.document_folders f
+    where f.id = folder_id
+      and f.user_id = auth.uid()
+  )
+);
+
+create policy "documents can only be moved to own folders"
+on public.documents
+as restrictive
+for update
+using (true)
+with check (
+  folder_id is null
+  or exists (
+    select 1
+    from public.document_folders f
+    where f.id = folder_id
+      and f.user_id = auth.uid()
+  )
+);
@@ -0,0 +1,23 @@
+-- Failed share passwords are throttled per share and client, counted from the
+-- audit log. Clients are identified by a SHA-256 of their IP so share owners,
+-- who can read their audit logs, never see visitor addresses.
+alter table public.document_share_audit_logs
+  add column if not exists client_ip_hash text;
+
+create index if not exists document_share_audit_logs_share_id_client_ip_hash_created_at_idx
+on public.document_share_audit_logs (share_id, client_ip_hash, created_at desc);
+
+-- One statement, so concurrent opens cannot overwrite each other's count.
+create or replace function public.record_document_share_access(p_share_id uuid)
+returns void
+language sql
+as $$
+  update public.document_shares
+  set
+    access_count = access_count + 1,
+    last_accessed_at = timezone('utc', now())
+  where id = p_share_id;
+$$;
+
+revoke execute on function public.record_document_share_access(uuid) from public, anon, authenticated;
+grant execute on function public.record_document_share_access(uuid) to service_role;
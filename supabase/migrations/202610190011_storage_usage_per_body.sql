@@ -0,0 +1,171 @@
+-- Usage counts each distinct stored body once per user: saving the same body
+-- again (an unchanged save, a restore, a re-upload) is free, and the bytes are
+-- only refunded when the last revision pointing at that body is gone.
+--
+-- Revisions can no longer be deleted directly, since that refunded the body of
+-- a document that still exists. Pruning goes through prune_document_revisions,
+-- which always keeps the newest revision (the one mirroring the live document).
+drop policy if exists "users can delete own document revisions" on public.document_revisions;
+
+-- Statement-level with transition tables, so rows inserted or deleted together
+-- are deduplicated against each other as well as against the rest of history.
+-- Locking the usage row before looking for other revisions serializes
+-- concurrent saves of the same user, so a new body is charged exactly once.
+create or replace function public.charge_storage_usage()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  affected_user_id uuid;
+  usage public.user_storage_usage%rowtype;
+  new_bytes bigint;
+begin
+  for affected_user_id in
+    select distinct n.user_id from inserted_revisions n order by n.user_id
+  loop
+    insert into public.user_storage_usage (user_id)
+    values (affected_user_id)
+    on conflict (user_id) do nothing;
+
+    select * into usage
+    from public.user_storage_usage
+    where user_id = affected_user_id
+    for update;
+
+    select coalesce(sum(b.size_bytes), 0)
+    into new_bytes
+    from (
+      select distinct on (n.content_hash) n.size_bytes
+      from inserted_revisions n
+      where n.user_id = affected_user_id
+        and not exists (
+          select 1
+          from public.document_revisions r
+          where r.user_id = affected_user_id
+            and r.content_hash = n.content_hash
+            and not exists (select 1 from inserted_revisions i where i.id = r.id)
+        )
+    ) b;
+
+    continue when new_bytes = 0;
+
+    if usage.used_bytes + new_bytes > usage.limit_bytes then
+      raise exception 'Storage quota exceeded'
+        using
+          errcode = 'QT001',
+          detail = json_build_object(
+            'usedBytes', usage.used_bytes,
+            'limitBytes', usage.limit_bytes,
+            'requestedBytes', new_bytes
+          )::text;
+    end if;
+
+    update public.user_storage_usage
+    set used_bytes = used_bytes + new_bytes
+    where user_id = affected_user_id;
+  end loop;
+
+  return null;
+end;
+$$;
+
+drop trigger if exists charge_document_revisions_storage_usage on public.document_revisions;
+create trigger charge_document_revisions_storage_usage
+after insert on public.document_revisions
+referencing new table as inserted_revisions
+for each statement
+execute function public.charge_storage_usage();
+
+create or replace function public.refund_storage_usage()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  affected_user_id uuid;
+  freed_bytes bigint;
+begin
+  for affected_user_id in
+    select distinct o.user_id from deleted_revisions o order by o.user_id
+  loop
+    perform 1
+    from public.user_storage_usage
+    where user_id = affected_user_id
+    for update;
+
+    select coalesce(sum(b.size_bytes), 0)
+    into freed_bytes
+    from (
+      select distinct on (o.content_hash) o.size_bytes
+      from deleted_revisions o
+      where o.user_id = affected_user_id
+        and not exists (
+          select 1
+          from public.document_revisions r
+          where r.user_id = affected_user_id
+            and r.content_hash = o.content_hash
+        )
+    ) b;
+
+    update public.user_storage_usage
+    set used_bytes = greatest(used_bytes - freed_bytes, 0)
+    where user_id = affected_user_id
+      and freed_bytes > 0;
+  end loop;
+
+  return null;
+end;
+$$;
+
+drop trigger if exists refund_document_revisions_storage_usage on public.document_revisions;
+create trigger refund_document_revisions_storage_usage
+after delete on public.document_revisions
+referencing old table as deleted_revisions
+for each statement
+execute function public.refund_storage_usage();
+
+-- Deletes all but the newest `p_keep_count` revisions of one of the caller's
+-- documents and returns the hashes of the deleted revisions, so the client can
+-- remove bodies nothing references any more.
+create or replace function public.prune_document_revisions(p_document_id text, p_keep_count integer)
+returns setof text
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if p_keep_count is null or p_keep_count < 1 then
+    raise exception 'The current revision cannot be pruned.';
+  end if;
+
+  return query
+  delete from public.document_revisions r
+  where r.document_id = p_document_id
+    and r.user_id = auth.uid()
+    and r.id not in (
+      select k.id
+      from public.document_revisions k
+      where k.document_id = p_document_id
+      order by k.revision_number desc
+      limit p_keep_count
+    )
+  returning r.content_hash;
+end;
+$$;
+
+revoke execute on function public.prune_document_revisions(text, integer) from public, anon;
+grant execute on function public.prune_document_revisions(text, integer) to authenticated;
+
+-- Recount existing usage by distinct body.
+update public.user_storage_usage u
+set used_bytes = coalesce((
+  select sum(b.size_bytes)
+  from (
+    select distinct on (r.content_hash) r.size_bytes
+    from public.document_revisions r
+    where r.user_id = u.user_id
+  ) b
+), 0);
@@ -0,0 +1,18 @@
+-- Bodies are capped like documents (MAX_MARKDOWN_BYTES) and must be markdown.
+-- Object names must be `<uid>/<sha256>.md`. This alone does not tie objects to
+-- revisions, so it does not bound storage; see 202610190014.
+update storage.buckets
+set
+  file_size_limit = 5242880,
+  allowed_mime_types = array['text/markdown']
+where id = 'document-bodies';
+
+drop policy if exists "users can create own document bodies" on storage.objects;
+
+create policy "users can create own document bodies"
+on storage.objects
+for insert
+with check (
+  bucket_id = 'document-bodies'
+  and name ~ ('^' || auth.uid()::text || '/[0-9a-f]{64}\.md$')
+);
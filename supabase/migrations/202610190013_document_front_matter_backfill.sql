@@ -0,0 +1,14 @@
+-- A null front_matter marks a row whose body has not been indexed yet; the
+-- document-body-migrate function parses those bodies and fills the column in,
+-- so reading a document no longer writes to it. Saves always set the column.
+alter table public.documents
+  alter column front_matter drop not null,
+  alter column front_matter drop default;
+
+-- Rows saved before front-matter was indexed still hold the old default. An
+-- inline body that does not open with a `---` fence has none, so it keeps '{}';
+-- bodies already in Storage cannot be checked here and are all re-indexed.
+update public.documents
+set front_matter = null
+where front_matter = '{}'::jsonb
+  and (markdown is null or markdown ~ '^---[ \t\r]*(\n|$)');
@@ -0,0 +1,48 @@
+-- Bodies are uploaded only through the `document-body-upload` function, which
+-- hashes them itself and checks the quota first. Clients could otherwise store
+-- any number of objects that no revision points at, and the quota charged on
+-- revisions would never see them.
+drop policy if exists "users can create own document bodies" on storage.objects;
+
+-- Counts every stored body of the user, referenced or not, so bodies uploaded
+-- without a save still use up the quota. Raises QT001 like
+-- charge_storage_usage, with the stored bytes as `usedBytes`.
+create or replace function public.assert_document_body_quota(p_user_id uuid, p_size_bytes bigint)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  usage public.user_storage_usage%rowtype;
+  stored_bytes bigint;
+begin
+  insert into public.user_storage_usage (user_id)
+  values (p_user_id)
+  on conflict (user_id) do nothing;
+
+  select * into usage
+  from public.user_storage_usage
+  where user_id = p_user_id;
+
+  select coalesce(sum((o.metadata ->> 'size')::bigint), 0)
+  into stored_bytes
+  from storage.objects o
+  where o.bucket_id = 'document-bodies'
+    and o.name like p_user_id::text || '/%';
+
+  if stored_bytes + p_size_bytes > usage.limit_bytes then
+    raise exception 'Storage quota exceeded'
+      using
+        errcode = 'QT001',
+        detail = json_build_object(
+          'usedBytes', stored_bytes,
+          'limitBytes', usage.limit_bytes,
+          'requestedBytes', p_size_bytes
+        )::text;
+  end if;
+end;
+$$;
+
+revoke execute on function public.assert_document_body_quota(uuid, bigint) from public, anon, authenticated;
+grant execute on function public.assert_document_body_quota(uuid, bigint) to service_role;
@@ -0,0 +1,6 @@
+-- Client hashes written so far were unkeyed SHA-256 digests, which share
+-- owners could reverse into visitor addresses. New ones are keyed HMACs (see
+-- DOCUMENT_SHARE_IP_HASH_SECRET), so the old ones are dropped rather than kept.
+update public.document_share_audit_logs
+set client_ip_hash = null
+where client_ip_hash is not null;
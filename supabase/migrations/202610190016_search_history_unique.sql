@@ -0,0 +1,53 @@
+-- One history entry per query (case-insensitively) and scope, so two searches
+-- recorded at the same time cannot both insert. The newest duplicate is kept.
+delete from public.saved_searches s
+using public.saved_searches newer
+where s.name is null
+  and newer.name is null
+  and newer.user_id = s.user_id
+  and lower(newer.query) = lower(s.query)
+  and newer.scope = s.scope
+  and (newer.last_used_at, newer.id) > (s.last_used_at, s.id);
+
+create unique index if not exists saved_searches_user_id_history_query_idx
+on public.saved_searches (user_id, lower(query), scope)
+where name is null;
+
+-- Moves a search to the top of the caller's history (taking the latest
+-- spelling and options) and drops entries beyond the newest `p_keep_count`.
+-- Runs as the caller, so the saved_searches policies still apply.
+create or replace function public.record_search_history(
+  p_query text,
+  p_scope text,
+  p_options jsonb,
+  p_keep_count integer
+)
+returns void
+language plpgsql
+set search_path = public
+as $$
+begin
+  insert into public.saved_searches (user_id, query, scope, options, last_used_at)
+  values (auth.uid(), p_query, p_scope, p_options, timezone('utc', now()))
+  on conflict (user_id, lower(query), scope) where name is null
+  do update set
+    query = excluded.query,
+    options = excluded.options,
+    last_used_at = excluded.last_used_at;
+
+  delete from public.saved_searches s
+  where s.user_id = auth.uid()
+    and s.name is null
+    and s.id not in (
+      select k.id
+      from public.saved_searches k
+      where k.user_id = auth.uid()
+        and k.name is null
+      order by k.last_used_at desc
+      limit p_keep_count
+    );
+end;
+$$;
+
+revoke execute on function public.record_search_history(text, text, jsonb, integer) from public, anon;
+grant execute on function public.record_search_history(text, text, jsonb, integer) to authenticated;
@@ -0,0 +1,14 @@
+-- Rows `document-body-migrate` could not process. Later calls skip them and
+-- report them as `skipped`, so one bad row cannot keep `remaining` above 0.
+-- Delete a row here to have the function try it again.
+create table if not exists public.document_body_migration_failures (
+  -- 'documents' or 'document_revisions' for body copies, 'front-matter' for indexing.
+  task text not null check (task in ('documents', 'document_revisions', 'front-matter')),
+  row_id text not null,
+  message text not null,
+  failed_at timestamptz not null default timezone('utc', now()),
+  primary key (task, row_id)
+);
+
+-- No policies: only the service role reads or writes it.
+alter table public.document_body_migration_failures enable row level security;
@@ -4,4 +4,8 @@ import react from '@vitejs/plugin-react'
 // https://vite.dev/config/
 export default defineConfig({
   plugins: [react()],
+  // The token worker lazy-loads BPE rank files, which needs code-split ES workers.
+  worker: {
+    format: 'es',
+  },
 })